@@ -29,6 +29,11 @@ import AuthPage from "./pages/AuthPage";
 import NotFound from "./pages/NotFound";
 import SessionReportPage from "./pages/SessionReportPage";
 import ImportPage from "./pages/ImportPage";
+import StudentsPage from "./pages/StudentsPage";
+import StudentProgressPage from "./pages/StudentProgressPage";
+import BatteriesPage from "./pages/BatteriesPage";
+import BatterySessionPage from "./pages/BatterySessionPage";
+import BatteryReportPage from "./pages/BatteryReportPage";
 
 const queryClient = new QueryClient();
 
@@ -64,11 +69,16 @@ const App = () => (
                     <Route path="/forms/:id" element={<FormDetailPage />} />
                     <Route path="/items/:id" element={<ItemDetailPage />} />
                     <Route path="/scoring/:id" element={<ScoringDetailPage />} />
+                    <Route path="/students" element={<StudentsPage />} />
+                    <Route path="/students/:id" element={<StudentProgressPage />} />
                     <Route path="/sessions" element={<SessionsPage />} />
                     <Route path="/sessions/new" element={<NewSessionPage />} />
                     <Route path="/sessions/:id/run" element={<SessionRunPage />} />
                     <Route path="/sessions/:id/student" element={<SessionStudentPage />} />
                     <Route path="/sessions/:id/report" element={<SessionReportPage />} />
+                    <Route path="/batteries" element={<BatteriesPage />} />
+                    <Route path="/battery-sessions/:id" element={<BatterySessionPage />} />
+                    <Route path="/battery-sessions/:id/report" element={<BatteryReportPage />} />
                     <Route path="/preview" element={<AssessmentPreviewPage />} />
                     <Route path="/admin/import" element={<ImportPage />} />
                     <Route path="*" element={<NotFound />} />
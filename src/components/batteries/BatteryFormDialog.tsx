@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAssessments } from '@/lib/api/assessments';
+import { useAllAssessmentBanks } from '@/lib/api/assessmentBanks';
+import { useForms } from '@/lib/api/forms';
+import { useCreateBattery, useUpdateBattery } from '@/lib/api/batteries';
+import { normalizeBatterySteps, type BatteryStep } from '@/types/battery';
+import type { BatteryRow, FormRow } from '@/types/database';
+import type { Json } from '@/integrations/supabase/types';
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BatteryFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Battery to edit; omit to create a new one */
+  battery?: BatteryRow | null;
+}
+
+// A step as edited: grades as typed, and form overrides as rows
+interface StepDraft {
+  assessment_id: string;
+  grades: string;
+  overrides: Array<{ grade: string; form_id: string }>;
+}
+
+const toDraft = (step: BatteryStep): StepDraft => ({
+  assessment_id: step.assessment_id,
+  grades: (step.grades ?? []).join(', '),
+  overrides: Object.entries(step.forms_by_grade ?? {}).map(([grade, form_id]) => ({ grade, form_id })),
+});
+
+function toStep(draft: StepDraft): BatteryStep {
+  const grades = draft.grades.split(',').map(g => g.trim()).filter(Boolean);
+  const overrides = draft.overrides.filter(o => o.grade.trim() && o.form_id);
+  return {
+    assessment_id: draft.assessment_id,
+    ...(grades.length > 0 ? { grades } : {}),
+    ...(overrides.length > 0
+      ? { forms_by_grade: Object.fromEntries(overrides.map(o => [o.grade.trim(), o.form_id])) }
+      : {}),
+  };
+}
+
+export function BatteryFormDialog({ open, onOpenChange, battery }: BatteryFormDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [steps, setSteps] = useState<StepDraft[]>([]);
+
+  const { data: assessments = [] } = useAssessments();
+  const { data: assessmentBanks = [] } = useAllAssessmentBanks();
+  const { data: forms = [] } = useForms();
+  const createBattery = useCreateBattery();
+  const updateBattery = useUpdateBattery();
+  const isPending = createBattery.isPending || updateBattery.isPending;
+
+  // Forms each assessment can be given on, for the per-grade overrides
+  const formsByAssessment = useMemo(() => {
+    const byAssessment = new Map<string, FormRow[]>();
+    assessmentBanks.forEach(link => {
+      const linked = forms.filter(f => f.content_bank_id === link.content_bank_id);
+      byAssessment.set(link.assessment_id, [...(byAssessment.get(link.assessment_id) ?? []), ...linked]);
+    });
+    return byAssessment;
+  }, [assessmentBanks, forms]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(battery?.name ?? '');
+    setDescription(battery?.description ?? '');
+    setSteps(normalizeBatterySteps(battery?.steps).map(toDraft));
+  }, [open, battery]);
+
+  const updateStep = (index: number, changes: Partial<StepDraft>) => {
+    setSteps(prev => prev.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    setSteps(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Battery name is required');
+      return;
+    }
+    if (steps.length === 0 || steps.some(s => !s.assessment_id)) {
+      toast.error('Choose an assessment for every step');
+      return;
+    }
+
+    const values = {
+      name: name.trim(),
+      description: description.trim() || null,
+      steps: steps.map(toStep) as unknown as Json,
+    };
+
+    try {
+      if (battery) {
+        await updateBattery.mutateAsync({ id: battery.battery_id, updates: values });
+        toast.success('Battery updated');
+      } else {
+        await createBattery.mutateAsync(values);
+        toast.success('Battery created');
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error)?.message || 'Failed to save battery');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{battery ? 'Edit Battery' : 'New Battery'}</DialogTitle>
+          <DialogDescription>
+            Assessments given back to back, in order. Limit a step to some grades, or set the form a grade gets.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="batteryName">Name *</Label>
+            <Input id="batteryName" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Fall screening" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="batteryDescription">Description</Label>
+            <Textarea id="batteryDescription" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Steps *</Label>
+            {steps.map((step, index) => {
+              const stepForms = formsByAssessment.get(step.assessment_id) ?? [];
+              return (
+                <div key={index} className="rounded-md border p-3 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-muted-foreground w-6">{index + 1}.</span>
+                    <Select
+                      value={step.assessment_id}
+                      onValueChange={(value) => updateStep(index, { assessment_id: value, overrides: [] })}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select an assessment" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {assessments.map((assessment) => (
+                          <SelectItem key={assessment.assessment_id} value={assessment.assessment_id}>
+                            {assessment.assessment_id} - {assessment.subcomponent_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="icon" onClick={() => moveStep(index, -1)} disabled={index === 0} title="Move up">
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} title="Move down">
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))}
+                      title="Remove step"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="pl-8 space-y-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Grades (blank for every grade)</Label>
+                      <Input
+                        value={step.grades}
+                        onChange={(e) => updateStep(index, { grades: e.target.value })}
+                        placeholder="e.g., K, 1, 2-3"
+                      />
+                    </div>
+
+                    {step.overrides.map((override, overrideIndex) => (
+                      <div key={overrideIndex} className="flex items-center gap-2">
+                        <Input
+                          value={override.grade}
+                          onChange={(e) => updateStep(index, {
+                            overrides: step.overrides.map((o, i) => (i === overrideIndex ? { ...o, grade: e.target.value } : o)),
+                          })}
+                          placeholder="Grade"
+                          className="w-24"
+                        />
+                        <Select
+                          value={override.form_id}
+                          onValueChange={(value) => updateStep(index, {
+                            overrides: step.overrides.map((o, i) => (i === overrideIndex ? { ...o, form_id: value } : o)),
+                          })}
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue placeholder="Form for this grade" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {stepForms.map((form) => (
+                              <SelectItem key={form.form_id} value={form.form_id}>
+                                {form.form_id}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => updateStep(index, { overrides: step.overrides.filter((_, i) => i !== overrideIndex) })}
+                          title="Remove form rule"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="px-0"
+                      disabled={stepForms.length === 0}
+                      onClick={() => updateStep(index, { overrides: [...step.overrides, { grade: '', form_id: '' }] })}
+                    >
+                      <Plus className="h-3 w-3 mr-1" />
+                      Set the form for a grade
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSteps(prev => [...prev, { assessment_id: '', grades: '', overrides: [] }])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Step
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isPending}>
+            {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {battery ? 'Save Changes' : 'Create Battery'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
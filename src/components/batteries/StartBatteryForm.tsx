@@ -0,0 +1,145 @@
+import { useMemo, useState } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StudentPicker } from '@/components/students/StudentPicker';
+import { useBatteries, useBatteryPlan, useStartBattery } from '@/lib/api/batteries';
+import { BATTERY_FORM_SOURCE_LABELS } from '@/types/battery';
+import type { StudentRow } from '@/types/database';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+/**
+ * Starts a battery for a student: shows which form each step will use at
+ * the student's grade, and which steps are skipped, before creating the
+ * sessions.
+ */
+export function StartBatteryForm() {
+  const navigate = useNavigate();
+  const [batteryId, setBatteryId] = useState('');
+  const [student, setStudent] = useState<StudentRow | null>(null);
+  const [gradeTag, setGradeTag] = useState('');
+
+  const { data: batteries = [], isLoading: batteriesLoading } = useBatteries();
+  const battery = useMemo(() => batteries.find(b => b.battery_id === batteryId) ?? null, [batteries, batteryId]);
+  const { data: plan, isLoading: planLoading } = useBatteryPlan(battery, gradeTag.trim(), student?.student_id);
+  const startBattery = useStartBattery();
+
+  const givenCount = plan?.filter(p => p.form_id).length ?? 0;
+
+  const handleStudentChange = (selected: StudentRow) => {
+    setStudent(selected);
+    // Default the grade to the student's roster grade
+    if (!gradeTag.trim() && selected.grade_tag) {
+      setGradeTag(selected.grade_tag);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!battery || !plan || !student) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    try {
+      const administration = await startBattery.mutateAsync({
+        battery,
+        plan,
+        student,
+        gradeTag: gradeTag.trim() || null,
+      });
+      toast.success('Battery started');
+      navigate(`/battery-sessions/${administration.battery_session_id}`);
+    } catch (error) {
+      toast.error((error as Error)?.message || 'Failed to start battery');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-2">
+        <Label>Battery *</Label>
+        <Select value={batteryId} onValueChange={setBatteryId} disabled={batteriesLoading}>
+          <SelectTrigger>
+            <SelectValue placeholder={batteries.length === 0 && !batteriesLoading ? 'No batteries defined' : 'Select a battery'} />
+          </SelectTrigger>
+          <SelectContent>
+            {batteries.map((b) => (
+              <SelectItem key={b.battery_id} value={b.battery_id}>
+                {b.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Define batteries on the <Link to="/batteries" className="text-primary hover:underline">Batteries</Link> page.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Student *</Label>
+        <StudentPicker value={student?.student_id ?? null} onChange={handleStudentChange} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="batteryGradeTag">Grade (optional)</Label>
+        <Input
+          id="batteryGradeTag"
+          value={gradeTag}
+          onChange={(e) => setGradeTag(e.target.value)}
+          placeholder="e.g., K, 1, 2"
+        />
+        <p className="text-xs text-muted-foreground">
+          Decides which steps are given and on which forms.
+        </p>
+      </div>
+
+      {battery && (
+        <div className="space-y-2">
+          <Label>Plan</Label>
+          {planLoading ? (
+            <p className="text-sm text-muted-foreground">Choosing forms...</p>
+          ) : (
+            <ol className="space-y-2">
+              {plan?.map((p) => (
+                <li key={p.position} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm">
+                  <span className={p.form_id ? 'font-medium' : 'text-muted-foreground line-through'}>
+                    {p.position + 1}. {p.step.assessment_id}
+                  </span>
+                  {p.form_id ? (
+                    <span className="flex items-center gap-2">
+                      <span className="font-mono text-xs">{p.form_id}</span>
+                      {p.form_source && (
+                        <Badge variant="outline" title={p.form_reasons.length ? p.form_reasons.join('\n') : undefined}>
+                          {BATTERY_FORM_SOURCE_LABELS[p.form_source]}
+                        </Badge>
+                      )}
+                    </span>
+                  ) : (
+                    <Badge variant="secondary">
+                      {p.skip_reason === 'grade' ? 'Not given at this grade' : 'No form available'}
+                    </Badge>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={startBattery.isPending || !battery || !student || planLoading || givenCount === 0}
+      >
+        {startBattery.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {startBattery.isPending ? 'Starting...' : `Start Battery${givenCount ? ` (${givenCount} assessments)` : ''}`}
+      </Button>
+    </form>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useExitSession } from '@/hooks/use-session-exit';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -18,8 +18,21 @@ import {
   AlertCircle
 } from 'lucide-react';
 import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
 import { useUpsertSessionResponse } from '@/lib/api/sessionResponses';
-import { scoreAndPersistSession } from '@/lib/scoring';
+import { useStoppingRules } from '@/hooks/use-stopping-rules';
+import { toItemOutcomes, type FiredStoppingRule } from '@/lib/scoring/stoppingRules';
+import { StoppingRulePrompt } from '@/components/runners/StoppingRulePrompt';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+import {
+  getQuestionText,
+  isPassageItem,
+  isQuestionItem,
+  isRecallUnitItem,
+  type MCQPayload,
+  type PassagePayload,
+  type RecallUnitPayload,
+} from '@/types/comprehension';
 import type { SessionRow, ItemRow } from '@/types/database';
 import type { Json } from '@/integrations/supabase/types';
 
@@ -29,48 +42,26 @@ import type { Json } from '@/integrations/supabase/types';
 
 type ComprehensionPhase = 'read' | 'recall' | 'questions';
 
+// Working state checkpointed so a reload can resume mid-administration
+interface ComprehensionDraft {
+  phase: ComprehensionPhase;
+  recallHits: Record<string, boolean>;
+  mcqResponses: Record<string, string>;
+  currentMcqIndex: number;
+  notes: string;
+}
+
 interface ComprehensionRunnerProps {
   session: SessionRow;
   items: ItemRow[];
 }
 
-interface PassagePayload {
-  passage_id?: string;
-  title?: string;
-  text: string;
-  sentences?: Array<{ sentence_id: string; text: string }>;
-  sentence_count?: number;
-  word_count?: number;
-  grade_band?: string;
-  genre?: string;
-}
-
-interface RecallUnitPayload {
-  sentence_id: string;
-  text: string;
-}
-
-interface MCQOption {
-  option_id: string;
-  text: string;
-}
-
-interface MCQPayload {
-  item_id?: string;
-  question_text?: string;
-  question?: string;
-  options: MCQOption[];
-  correct_option_id?: string;
-  correct_answer?: string;
-  skill_tag?: string;
-}
-
 // ============================================================================
 // Component
 // ============================================================================
 
 export function ComprehensionRunner({ session, items }: ComprehensionRunnerProps) {
-  const navigate = useNavigate();
+  const exitSession = useExitSession();
   const updateSession = useUpdateSession();
   const upsertResponse = useUpsertSessionResponse();
 
@@ -78,17 +69,17 @@ export function ComprehensionRunner({ session, items }: ComprehensionRunnerProps
   // Extract items by type
   // ---------------------------------------------------------------------------
   const passageItem = useMemo(() => 
-    items.find(i => i.item_type === 'passage' || i.item_type === 'listening_passage'),
+    items.find(isPassageItem),
     [items]
   );
 
   const recallUnits = useMemo(() => 
-    items.filter(i => i.item_type === 'recall_sentence_unit').sort((a, b) => a.sequence_number - b.sequence_number),
+    items.filter(isRecallUnitItem).sort((a, b) => a.sequence_number - b.sequence_number),
     [items]
   );
 
   const mcqItems = useMemo(() => 
-    items.filter(i => i.item_type === 'mcq_item' || i.item_type === 'question' || i.item_type === 'multiple-choice').sort((a, b) => a.sequence_number - b.sequence_number),
+    items.filter(isQuestionItem).sort((a, b) => a.sequence_number - b.sequence_number),
     [items]
   );
 
@@ -97,11 +88,13 @@ export function ComprehensionRunner({ session, items }: ComprehensionRunnerProps
   // ---------------------------------------------------------------------------
   // State
   // ---------------------------------------------------------------------------
-  const [phase, setPhase] = useState<ComprehensionPhase>('read');
-  const [recallHits, setRecallHits] = useState<Record<string, boolean>>({});
-  const [mcqResponses, setMcqResponses] = useState<Record<string, string>>({});
-  const [currentMcqIndex, setCurrentMcqIndex] = useState(0);
-  const [notes, setNotes] = useState('');
+  const resumed = useResumedDraft<ComprehensionDraft>();
+
+  const [phase, setPhase] = useState<ComprehensionPhase>(resumed?.phase ?? 'read');
+  const [recallHits, setRecallHits] = useState<Record<string, boolean>>(resumed?.recallHits ?? {});
+  const [mcqResponses, setMcqResponses] = useState<Record<string, string>>(resumed?.mcqResponses ?? {});
+  const [currentMcqIndex, setCurrentMcqIndex] = useState(resumed?.currentMcqIndex ?? 0);
+  const [notes, setNotes] = useState(resumed?.notes ?? '');
   const [isDiscontinued, setIsDiscontinued] = useState(false);
   const [discontinueReason, setDiscontinueReason] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -134,6 +127,27 @@ export function ComprehensionRunner({ session, items }: ComprehensionRunnerProps
     };
   }, [recallHits, mcqResponses, recallUnits, mcqItems]);
 
+  // Stopping rules count the questions answered so far
+  const outcomes = useMemo(() => toItemOutcomes(Object.fromEntries(
+    mcqItems.flatMap((item, idx) => {
+      const payload = item.content_payload as unknown as MCQPayload;
+      const selected = mcqResponses[item.item_id];
+      return selected === undefined ? [] : [[idx, selected === (payload.correct_option_id || payload.correct_answer)]];
+    })
+  )), [mcqItems, mcqResponses]);
+  const stopping = useStoppingRules(session.assessment_id, outcomes, {
+    active: phase === 'questions' && !isSubmitting,
+  });
+
+  useDraftCheckpoint<ComprehensionDraft>(session, { phase, recallHits, mcqResponses, currentMcqIndex, notes }, {
+    currentItemIndex: phase === 'questions' ? Math.max(items.indexOf(mcqItems[currentMcqIndex]), 0) : 0,
+    enabled: phase !== 'read' || Object.keys(recallHits).length > 0,
+  });
+
+  // The student sees the passage, a retell prompt during recall, then each question
+  const displayedItem = phase === 'read' ? passageItem : phase === 'recall' ? recallUnits[0] : mcqItems[currentMcqIndex];
+  useStudentDisplayItem(session, displayedItem ? items.indexOf(displayedItem) : null);
+
   // ---------------------------------------------------------------------------
   // Phase transitions
   // ---------------------------------------------------------------------------
@@ -200,7 +214,8 @@ export function ComprehensionRunner({ session, items }: ComprehensionRunnerProps
   // ---------------------------------------------------------------------------
   // Finish session
   // ---------------------------------------------------------------------------
-  const handleFinishSession = async () => {
+  const handleFinishSession = async (stoppedBy?: FiredStoppingRule | null) => {
+    const discontinued = isDiscontinued || !!stoppedBy;
     setIsSubmitting(true);
     try {
       // Save MCQ responses
@@ -227,10 +242,10 @@ export function ComprehensionRunner({ session, items }: ComprehensionRunnerProps
           item_id: passageItem.item_id,
           sequence_number: passageItem.sequence_number,
           is_correct: null,
-          computed_scores: scores as unknown as Json,
+          computed_scores: { ...scores, stopping_rule: stoppedBy ?? undefined } as unknown as Json,
           notes: notes || null,
-          discontinue_flag: isDiscontinued,
-          discontinue_reason: isDiscontinued ? discontinueReason : null,
+          discontinue_flag: discontinued,
+          discontinue_reason: discontinued ? discontinueReason || stoppedBy?.description || null : null,
           error_tags: [],
         });
       }
@@ -244,11 +259,8 @@ export function ComprehensionRunner({ session, items }: ComprehensionRunnerProps
         }
       });
 
-      // Score and persist
-      await scoreAndPersistSession(session.session_id);
-
       // Navigate to report
-      navigate(`/sessions/${session.session_id}/report`);
+      exitSession(`/sessions/${session.session_id}/report`);
     } catch (error) {
       console.error('Error finishing session:', error);
     } finally {
@@ -269,6 +281,12 @@ export function ComprehensionRunner({ session, items }: ComprehensionRunnerProps
     await handleFinishSession();
   };
 
+  const handleStoppingRuleDiscontinue = async () => {
+    const rule = stopping.accept();
+    if (!rule) return;
+    await handleFinishSession(rule);
+  };
+
   // ---------------------------------------------------------------------------
   // Current MCQ item
   // ---------------------------------------------------------------------------
@@ -442,7 +460,7 @@ export function ComprehensionRunner({ session, items }: ComprehensionRunnerProps
   // Render: Questions Phase
   // ---------------------------------------------------------------------------
   const renderQuestionsPhase = () => {
-    const questionText = currentMcqPayload?.question_text || currentMcqPayload?.question || 'Question';
+    const questionText = getQuestionText(currentMcqPayload) || 'Question';
     const options = currentMcqPayload?.options || [];
     const correctOptionId = currentMcqPayload?.correct_option_id || currentMcqPayload?.correct_answer;
 
@@ -534,7 +552,7 @@ export function ComprehensionRunner({ session, items }: ComprehensionRunnerProps
                 <ChevronRight className="h-4 w-4 ml-2" />
               </Button>
             ) : (
-              <Button onClick={handleFinishSession} disabled={isSubmitting}>
+              <Button onClick={() => handleFinishSession()} disabled={isSubmitting}>
                 {isSubmitting ? 'Saving...' : 'Finish Session'}
               </Button>
             )}
@@ -657,6 +675,13 @@ export function ComprehensionRunner({ session, items }: ComprehensionRunnerProps
 
       {/* Discontinue modal */}
       {renderDiscontinueModal()}
+
+      <StoppingRulePrompt
+        rule={stopping.prompt}
+        labelFor={(idx) => `Question ${idx + 1}`}
+        onContinue={stopping.dismiss}
+        onDiscontinue={handleStoppingRuleDiscontinue}
+      />
     </div>
   );
 }
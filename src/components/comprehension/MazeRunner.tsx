@@ -0,0 +1,443 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useExitSession } from '@/hooks/use-session-exit';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, CheckCircle, Play, Square, RotateCcw } from 'lucide-react';
+import { ConnectionBadge } from '@/components/runners/ConnectionBadge';
+import { useUpdateSession } from '@/lib/api/sessions';
+import { useDeleteSessionResponses, useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import { useStoppingRules } from '@/hooks/use-stopping-rules';
+import { toItemOutcomes } from '@/lib/scoring/stoppingRules';
+import { StoppingRulePrompt } from '@/components/runners/StoppingRulePrompt';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+import type { FiredStoppingRule } from '@/lib/scoring/stoppingRules';
+import type { Json } from '@/integrations/supabase/types';
+import type { SessionRow, ItemRow } from '@/types/database';
+import { computeMazeScores, resolveMazeForm, stripPunctuation } from '@/types/maze';
+
+type TimerState = 'idle' | 'running' | 'completed' | 'discontinued';
+
+// Working state checkpointed so a reload can resume mid-passage
+interface MazeDraft {
+  selections: Record<number, string>;
+  timerState: TimerState;
+  remainingSeconds: number;
+  elapsedSeconds: number;
+  discontinueReason: string;
+  notes: string;
+  acceptedRule: FiredStoppingRule | null;
+}
+
+interface MazeRunnerProps {
+  session: SessionRow;
+  items: ItemRow[];
+}
+
+/**
+ * Timed maze (RC-MAZE). The student reads a passage silently and picks one of
+ * three words at every choice point; the score is correct choices minus half
+ * the incorrect ones, counted up to the last choice attempted.
+ */
+export function MazeRunner({ session, items }: MazeRunnerProps) {
+  const exitSession = useExitSession();
+  const updateSession = useUpdateSession();
+  const upsertResponse = useUpsertSessionResponse();
+  const deleteResponses = useDeleteSessionResponses();
+
+  const { tokens, blanks, time_limit_seconds: timeLimit } = useMemo(() => resolveMazeForm(items), [items]);
+  const blankIndexAt = useMemo(() => new Map(blanks.map((b, i) => [b.word_index, i])), [blanks]);
+
+  const resumed = useResumedDraft<MazeDraft>();
+
+  // Blank index -> chosen option
+  const [selections, setSelections] = useState<Record<number, string>>(resumed?.selections ?? {});
+
+  // Timer state
+  const [timerState, setTimerState] = useState<TimerState>(resumed?.timerState ?? 'idle');
+  const [remainingSeconds, setRemainingSeconds] = useState(resumed?.remainingSeconds ?? timeLimit);
+  const [elapsedSeconds, setElapsedSeconds] = useState(resumed?.elapsedSeconds ?? 0);
+
+  // UI state
+  const [discontinueReason, setDiscontinueReason] = useState(resumed?.discontinueReason ?? '');
+  const [notes, setNotes] = useState(resumed?.notes ?? '');
+
+  // Computed scores
+  const scores = useMemo(() => computeMazeScores(blanks, selections), [blanks, selections]);
+
+  // Outcomes are per choice point, so rules count blanks rather than words
+  const outcomes = useMemo(
+    () => toItemOutcomes(Object.fromEntries(
+      Object.entries(selections).map(([idx, option]) => [idx, option === blanks[Number(idx)]?.correct])
+    )),
+    [blanks, selections]
+  );
+  const stopping = useStoppingRules(session.assessment_id, outcomes, {
+    timerExpired: timerState === 'completed',
+    active: timerState === 'running',
+    initialAccepted: resumed?.acceptedRule,
+  });
+  const { accept: acceptStoppingRule, reset: resetStoppingRules } = stopping;
+  const stoppedBy = stopping.accepted ?? stopping.timerRule;
+
+  // Timer countdown
+  useEffect(() => {
+    if (timerState !== 'running') return;
+
+    const interval = setInterval(() => {
+      setRemainingSeconds((prev) => {
+        if (prev <= 1) {
+          setTimerState('completed');
+          return 0;
+        }
+        return prev - 1;
+      });
+      setElapsedSeconds((prev) => prev + 1);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [timerState]);
+
+  // Choices can still be entered after time is called, for paper administrations
+  const handleSelect = useCallback((blankIndex: number, option: string) => {
+    if (timerState === 'idle') return;
+    setSelections(prev => {
+      const next = { ...prev };
+      if (next[blankIndex] === option) {
+        delete next[blankIndex];
+      } else {
+        next[blankIndex] = option;
+      }
+      return next;
+    });
+  }, [timerState]);
+
+  const handleStart = useCallback(() => {
+    setTimerState('running');
+    if (session.status === 'created') {
+      updateSession.mutate({
+        id: session.session_id,
+        updates: {
+          status: 'in_progress',
+          started_at: new Date().toISOString(),
+        }
+      });
+    }
+  }, [session, updateSession]);
+
+  const handleStop = useCallback(() => {
+    setTimerState('discontinued');
+  }, []);
+
+  const handleStoppingRuleDiscontinue = useCallback(() => {
+    acceptStoppingRule();
+    setTimerState('discontinued');
+  }, [acceptStoppingRule]);
+
+  const handleReset = useCallback(() => {
+    setSelections({});
+    setTimerState('idle');
+    setRemainingSeconds(timeLimit);
+    setElapsedSeconds(0);
+    setDiscontinueReason('');
+    setNotes('');
+    resetStoppingRules();
+  }, [timeLimit, resetStoppingRules]);
+
+  const handleFinish = useCallback(async () => {
+    const isDiscontinued = timerState === 'discontinued';
+    const reason = discontinueReason || stopping.accepted?.description || '';
+
+    if (isDiscontinued && !reason) return;
+
+    // Save every choice point up to the last attempted one; the session totals
+    // ride on the first, which is saved even when nothing was attempted
+    const scored = blanks.slice(0, Math.max(scores.blanks_attempted, 1));
+    for (const [idx, blank] of scored.entries()) {
+      const selected = selections[idx] ?? null;
+      const attempted = idx < scores.blanks_attempted;
+      const isFirst = idx === 0;
+      const detail = {
+        maze: {
+          word_index: blank.word_index,
+          options: blank.options,
+          correct_answer: blank.correct,
+          selected,
+        },
+      };
+      await upsertResponse.mutateAsync({
+        session_id: session.session_id,
+        item_id: blank.item.item_id,
+        sequence_number: blank.item.sequence_number,
+        is_correct: attempted ? selected === blank.correct : null,
+        error_tags: attempted && selected === null ? ['skipped'] : [],
+        elapsed_seconds: isFirst ? elapsedSeconds : undefined,
+        notes: isFirst ? notes : undefined,
+        computed_scores: (isFirst ? { ...scores, ...detail, stopping_rule: stoppedBy ?? undefined } : detail) as unknown as Json,
+        discontinue_flag: isFirst ? isDiscontinued : undefined,
+        discontinue_reason: isFirst && isDiscontinued ? reason : undefined,
+      });
+    }
+
+    // Choices saved by an earlier finish that are now past the last attempted
+    // one would otherwise still be scored
+    const unscored = blanks.slice(scored.length).map(blank => blank.item.item_id);
+    if (unscored.length > 0) {
+      await deleteResponses.mutateAsync({ sessionId: session.session_id, itemIds: unscored });
+    }
+
+    await updateSession.mutateAsync({
+      id: session.session_id,
+      updates: {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      }
+    });
+
+    exitSession();
+  }, [timerState, discontinueReason, stopping.accepted, stoppedBy, blanks, selections, elapsedSeconds, scores, notes, session, upsertResponse, deleteResponses, updateSession, exitSession]);
+
+  const isComplete = timerState === 'completed' || timerState === 'discontinued';
+
+  useDraftCheckpoint<MazeDraft>(session, {
+    selections,
+    timerState,
+    remainingSeconds,
+    elapsedSeconds,
+    discontinueReason,
+    notes,
+    acceptedRule: stopping.accepted,
+  }, { currentItemIndex: scores.blanks_attempted, remainingSeconds, enabled: timerState !== 'idle' });
+  const canFinish = isComplete && (timerState !== 'discontinued' || !!discontinueReason || !!stopping.accepted);
+
+  if (tokens.length === 0 || blanks.length === 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-8">
+        <Card className="max-w-md">
+          <CardContent className="pt-6 text-center space-y-4">
+            <p className="text-muted-foreground">
+              This form has no maze passage. Import a passage item and its cloze_blank items first.
+            </p>
+            <Button variant="outline" onClick={() => exitSession()}>
+              Back to Sessions
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => exitSession()}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div>
+                <h1 className="text-xl font-semibold">Maze</h1>
+                <p className="text-sm text-muted-foreground">
+                  {session.student_name} • {session.grade_tag || session.form_id}
+                </p>
+              </div>
+            </div>
+            <ConnectionBadge />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6">
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Passage */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>Passage</span>
+                  <Badge variant="secondary">
+                    {Object.keys(selections).length} of {blanks.length} choices
+                  </Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-xl font-serif leading-loose">
+                  {tokens.map((token, idx) => {
+                    const blankIndex = blankIndexAt.get(idx);
+                    if (blankIndex === undefined) return <span key={idx}>{token} </span>;
+
+                    const blank = blanks[blankIndex];
+                    const { leading, trailing } = stripPunctuation(token);
+                    const selected = selections[blankIndex];
+                    const isSkipped = selected === undefined && blankIndex < scores.blanks_attempted;
+                    return (
+                      <span key={idx} className="whitespace-nowrap">
+                        {leading}
+                        <span
+                          className={`inline-flex gap-1 rounded-md border px-1 mx-0.5 align-middle font-sans text-base ${
+                            isSkipped ? 'border-amber-500' : 'border-border'
+                          }`}
+                        >
+                          {blank.options.map(option => {
+                            const isSelected = selected === option;
+                            return (
+                              <button
+                                key={option}
+                                type="button"
+                                onClick={() => handleSelect(blankIndex, option)}
+                                disabled={timerState === 'idle'}
+                                className={`px-2 py-0.5 rounded transition-colors ${
+                                  isSelected
+                                    ? option === blank.correct
+                                      ? 'bg-green-600 text-white'
+                                      : 'bg-destructive text-destructive-foreground'
+                                    : 'hover:bg-muted'
+                                }`}
+                              >
+                                {option}
+                              </button>
+                            );
+                          })}
+                        </span>
+                        {trailing}{' '}
+                      </span>
+                    );
+                  })}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Controls */}
+          <div className="space-y-6">
+            {/* Timer */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Timer</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="text-center">
+                  <span className={`text-5xl font-mono ${remainingSeconds <= 10 ? 'text-destructive' : ''}`}>
+                    {Math.floor(remainingSeconds / 60)}:{(remainingSeconds % 60).toString().padStart(2, '0')}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  {timerState === 'idle' && (
+                    <Button onClick={handleStart} className="flex-1 gap-2">
+                      <Play className="h-4 w-4" /> Start
+                    </Button>
+                  )}
+                  {timerState === 'running' && (
+                    <Button onClick={handleStop} variant="destructive" className="flex-1 gap-2">
+                      <Square className="h-4 w-4" /> Stop
+                    </Button>
+                  )}
+                  {isComplete && (
+                    <Button onClick={handleReset} variant="outline" className="flex-1 gap-2">
+                      <RotateCcw className="h-4 w-4" /> Reset
+                    </Button>
+                  )}
+                </div>
+
+                {stopping.accepted && (
+                  <p className="text-sm text-muted-foreground">
+                    Discontinued by stopping rule: {stopping.accepted.description}
+                  </p>
+                )}
+
+                {timerState === 'discontinued' && !stopping.accepted && (
+                  <div className="space-y-2">
+                    <Label>Discontinue Reason (required)</Label>
+                    <Select value={discontinueReason} onValueChange={setDiscontinueReason}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select reason..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="student_refused">Student Refused</SelectItem>
+                        <SelectItem value="student_distressed">Student Distressed</SelectItem>
+                        <SelectItem value="technical_issue">Technical Issue</SelectItem>
+                        <SelectItem value="time_constraint">Time Constraint</SelectItem>
+                        <SelectItem value="other">Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Notes</Label>
+                  <Textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Optional notes..."
+                    rows={3}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Scores */}
+            <Card>
+              <CardHeader>
+                <CardTitle>{isComplete ? 'Final Scores' : 'Live Scores'}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground">Adjusted Score</dt>
+                    <dd className="text-2xl font-bold">{scores.maze_adjusted_score}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Correct</dt>
+                    <dd className="text-2xl font-bold text-green-600">{scores.maze_correct}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Incorrect</dt>
+                    <dd className="text-lg font-semibold text-destructive">
+                      {scores.maze_incorrect}
+                      {scores.maze_skipped > 0 && (
+                        <span className="text-xs text-muted-foreground font-normal"> ({scores.maze_skipped} skipped)</span>
+                      )}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Accuracy</dt>
+                    <dd className="text-lg font-semibold">{scores.accuracy_percentage}%</dd>
+                  </div>
+                  <div className="col-span-2 text-xs text-muted-foreground">
+                    Scored through choice {scores.blanks_attempted} of {scores.total_blanks}
+                  </div>
+                </dl>
+              </CardContent>
+            </Card>
+
+            {/* Finish */}
+            {isComplete && (
+              <Button
+                onClick={handleFinish}
+                disabled={!canFinish || upsertResponse.isPending || deleteResponses.isPending}
+                size="lg"
+                className="w-full gap-2"
+              >
+                <CheckCircle className="h-4 w-4" />
+                {upsertResponse.isPending || deleteResponses.isPending ? 'Saving...' : 'Finish Session'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <StoppingRulePrompt
+        rule={stopping.prompt}
+        labelFor={(idx) => blanks[idx]?.correct}
+        onContinue={stopping.dismiss}
+        onDiscontinue={handleStoppingRuleDiscontinue}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState, useCallback, useMemo, useRef } from 'react';
+import { useExitSession } from '@/hooks/use-session-exit';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, ArrowRight, CheckCircle, Check, X, Play, Timer, Image as ImageIcon } from 'lucide-react';
+import { ConnectionBadge } from '@/components/runners/ConnectionBadge';
+import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
+import { useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import type { Json } from '@/integrations/supabase/types';
+import type { SessionRow, ItemRow } from '@/types/database';
+import {
+  type SentenceItemContent,
+  type SentenceResponse,
+  computeSentenceScores,
+  getExpectedAnswer,
+  getPictureOptions,
+  getSentenceText,
+} from '@/types/sentence';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+
+// Working state checkpointed so a reload can resume mid-form
+interface SentenceComprehensionDraft {
+  currentIndex: number;
+  isStarted: boolean;
+  responses: Record<number, SentenceResponse>;
+  notes: string;
+}
+
+interface SentenceComprehensionRunnerProps {
+  session: SessionRow;
+  items: ItemRow[];
+}
+
+/**
+ * Sentence comprehension (RC-SENT). Each sentence is either verified as true
+ * or false or matched to a picture; accuracy is scored alongside response
+ * latency, measured from the sentence being shown to the first answer.
+ */
+export function SentenceComprehensionRunner({ session, items }: SentenceComprehensionRunnerProps) {
+  const exitSession = useExitSession();
+  const updateSession = useUpdateSession();
+  const upsertResponse = useUpsertSessionResponse();
+
+  const resumed = useResumedDraft<SentenceComprehensionDraft>();
+
+  const [currentIndex, setCurrentIndex] = useState(resumed?.currentIndex ?? (session.current_item_index || 0));
+  useStudentDisplayItem(session, currentIndex);
+  const [isStarted, setIsStarted] = useState(resumed?.isStarted ?? false);
+  const [responses, setResponses] = useState<Record<number, SentenceResponse>>(resumed?.responses ?? {});
+  const [notes, setNotes] = useState(resumed?.notes ?? '');
+
+  // When the current sentence was put in front of the student; a resumed one is shown again now
+  const presentedAtRef = useRef<number>(resumed?.isStarted ? performance.now() : 0);
+
+  useDraftCheckpoint<SentenceComprehensionDraft>(session, { currentIndex, isStarted, responses, notes }, {
+    currentItemIndex: currentIndex,
+    enabled: isStarted,
+  });
+
+  const currentItem = items[currentIndex];
+  const totalItems = items.length;
+  const payload = currentItem?.content_payload as SentenceItemContent | null;
+  const sentence = getSentenceText(payload);
+  const pictures = getPictureOptions(payload);
+  const expected = getExpectedAnswer(payload);
+  const currentResponse = responses[currentIndex];
+
+  // Computed scores
+  const scores = useMemo(() => computeSentenceScores(responses), [responses]);
+
+  const handleStart = useCallback(() => {
+    setIsStarted(true);
+    presentedAtRef.current = performance.now();
+  }, []);
+
+  // A changed answer keeps the latency of the first one
+  const handleAnswer = useCallback((answer: string) => {
+    if (!isStarted) return;
+    const latency = currentResponse?.response_time_ms ?? Math.round(performance.now() - presentedAtRef.current);
+    setResponses(prev => ({
+      ...prev,
+      [currentIndex]: { answer, is_correct: answer === expected, response_time_ms: latency },
+    }));
+  }, [isStarted, currentResponse, currentIndex, expected]);
+
+  const saveResponse = useCallback(async (index: number, computedScores: Record<string, unknown>, responseNotes?: string) => {
+    const item = items[index];
+    const response = responses[index];
+    if (!item || !response) return;
+
+    await upsertResponse.mutateAsync({
+      session_id: session.session_id,
+      item_id: item.item_id,
+      sequence_number: item.sequence_number,
+      is_correct: response.is_correct,
+      error_tags: [],
+      response_time_ms: response.response_time_ms,
+      notes: responseNotes,
+      computed_scores: { ...computedScores, sentence: { answer: response.answer } } as unknown as Json,
+    });
+  }, [items, responses, session.session_id, upsertResponse]);
+
+  const goTo = useCallback(async (index: number) => {
+    setCurrentIndex(index);
+    presentedAtRef.current = performance.now();
+    await updateSession.mutateAsync({
+      id: session.session_id,
+      updates: { current_item_index: index }
+    });
+  }, [session.session_id, updateSession]);
+
+  const handleNext = useCallback(async () => {
+    await saveResponse(currentIndex, {});
+    if (currentIndex < totalItems - 1) {
+      await goTo(currentIndex + 1);
+    }
+  }, [currentIndex, totalItems, saveResponse, goTo]);
+
+  const handleBack = useCallback(async () => {
+    if (currentIndex > 0) {
+      await goTo(currentIndex - 1);
+    }
+  }, [currentIndex, goTo]);
+
+  const handleFinish = useCallback(async () => {
+    await saveResponse(currentIndex, {});
+
+    // Session totals ride on the first answered item
+    const firstIndex = Object.keys(responses).map(Number).sort((a, b) => a - b)[0];
+    if (firstIndex !== undefined) {
+      await saveResponse(firstIndex, { ...scores }, notes.trim() || undefined);
+    }
+
+    await updateSession.mutateAsync({
+      id: session.session_id,
+      updates: {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      }
+    });
+
+    exitSession();
+  }, [currentIndex, responses, scores, notes, saveResponse, session.session_id, updateSession, exitSession]);
+
+  const answerStyle = (answer: string) => {
+    if (currentResponse?.answer !== answer) return '';
+    return currentResponse.is_correct
+      ? 'ring-4 ring-green-200 border-green-500'
+      : 'ring-4 ring-red-200 border-red-500';
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => exitSession()}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div>
+                <h1 className="text-xl font-semibold">Sentence Comprehension</h1>
+                <p className="text-sm text-muted-foreground">
+                  {session.student_name} • {session.grade_tag || session.form_id}
+                </p>
+              </div>
+            </div>
+            <ConnectionBadge />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6">
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Item */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>{pictures.length > 0 ? 'Sentence-Picture Match' : 'Sentence Verification'}</span>
+                  <Badge variant="secondary">
+                    Item {currentIndex + 1} of {totalItems}
+                  </Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <p className="text-3xl font-serif text-center py-6">{sentence}</p>
+
+                {!isStarted ? (
+                  <div className="flex justify-center">
+                    <Button size="lg" onClick={handleStart} className="gap-2">
+                      <Play className="h-4 w-4" /> Start
+                    </Button>
+                  </div>
+                ) : pictures.length > 0 ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    {pictures.map(option => (
+                      <button
+                        key={option.option_id}
+                        onClick={() => handleAnswer(option.option_id)}
+                        className={`relative aspect-video border-4 rounded-xl overflow-hidden transition-all border-muted hover:border-primary/50 ${answerStyle(option.option_id)}`}
+                      >
+                        {option.image_url ? (
+                          <img
+                            src={option.image_url}
+                            alt={option.label || `Option ${option.option_id}`}
+                            className="w-full h-full object-cover"
+                          />
+                        ) : (
+                          <div className="w-full h-full flex items-center justify-center bg-muted">
+                            <ImageIcon className="h-12 w-12 text-muted-foreground" />
+                          </div>
+                        )}
+                        <div className="absolute top-2 left-2 w-8 h-8 rounded-full flex items-center justify-center font-bold bg-background/90">
+                          {option.option_id}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="flex justify-center gap-4">
+                    <Button
+                      size="lg"
+                      variant="outline"
+                      className={`px-10 py-6 text-lg ${answerStyle('true')}`}
+                      onClick={() => handleAnswer('true')}
+                    >
+                      <Check className="h-5 w-5 mr-2" /> True
+                    </Button>
+                    <Button
+                      size="lg"
+                      variant="outline"
+                      className={`px-10 py-6 text-lg ${answerStyle('false')}`}
+                      onClick={() => handleAnswer('false')}
+                    >
+                      <X className="h-5 w-5 mr-2" /> False
+                    </Button>
+                  </div>
+                )}
+
+                {currentResponse && (
+                  <p className="text-center text-sm text-muted-foreground flex items-center justify-center gap-1.5">
+                    <Timer className="h-4 w-4" />
+                    Answered in {(currentResponse.response_time_ms / 1000).toFixed(2)}s
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Controls Panel */}
+          <div className="space-y-6">
+            {/* Scores */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Scores</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground">Correct</dt>
+                    <dd className="text-2xl font-bold">{scores.items_correct}/{scores.items_attempted}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Accuracy</dt>
+                    <dd className="text-2xl font-bold">{scores.accuracy_percentage}%</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Median Latency</dt>
+                    <dd className="text-lg font-semibold">{(scores.median_latency_ms / 1000).toFixed(2)}s</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Mean (Correct)</dt>
+                    <dd className="text-lg font-semibold">{(scores.mean_correct_latency_ms / 1000).toFixed(2)}s</dd>
+                  </div>
+                </dl>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="pt-6 space-y-2">
+                <Label>Notes</Label>
+                <Textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Optional notes..."
+                  rows={3}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Navigation */}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={handleBack}
+                disabled={currentIndex === 0}
+                className="flex-1"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              {currentIndex < totalItems - 1 ? (
+                <Button
+                  onClick={handleNext}
+                  disabled={!currentResponse}
+                  className="flex-1"
+                >
+                  Next
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleFinish}
+                  disabled={!currentResponse || upsertResponse.isPending}
+                  className="flex-1 gap-2"
+                >
+                  <CheckCircle className="h-4 w-4" />
+                  Finish
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
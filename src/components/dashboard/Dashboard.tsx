@@ -9,8 +9,11 @@ import {
   useForms, 
   useItems, 
   useScoringOutputs,
-  useAllAssessmentBanks 
+  useAllAssessmentBanks,
+  useSessionsNeedingAttention,
 } from '@/lib/api';
+import { getFiredFlags } from '@/lib/scoring';
+import { FlagBadges } from '@/components/scoring/FlagAlerts';
 import { COMPONENT_INFO, type ComponentCode } from '@/types/database';
 import { getComponentBgClass, getComponentTextClass } from '@/lib/componentColors';
 import { calculateAllChainStatuses, getStepLabel } from '@/lib/chainCompletion';
@@ -37,6 +40,7 @@ export function Dashboard() {
   const { data: items = [], isLoading: loadingItems } = useItems();
   const { data: scoringOutputs = [], isLoading: loadingScoring } = useScoringOutputs();
   const { data: assessmentBanks = [], isLoading: loadingAssessmentBanks } = useAllAssessmentBanks();
+  const { data: attentionSessions = [] } = useSessionsNeedingAttention();
 
   const isLoading = loadingAssessments || loadingASRs || loadingBanks || loadingForms || loadingItems || loadingScoring || loadingAssessmentBanks;
 
@@ -145,6 +149,33 @@ export function Dashboard() {
         </Card>
       </div>
 
+      {/* Sessions with critical flags */}
+      {attentionSessions.length > 0 && (
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-destructive" />
+              Attention Needed
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {attentionSessions.map((session) => (
+                <li key={session.session_id} className="flex items-center justify-between gap-4 py-2">
+                  <div>
+                    <Link to={`/sessions/${session.session_id}/report`} className="font-medium hover:underline">
+                      {session.student_name}
+                    </Link>
+                    <p className="text-xs text-muted-foreground font-mono">{session.assessment_id}</p>
+                  </div>
+                  <FlagBadges flags={getFiredFlags(session.fired_flags).filter(f => f.severity === 'critical')} />
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Component Areas */}
       <div>
         <h2 className="text-xl font-semibold mb-4">Component Areas</h2>
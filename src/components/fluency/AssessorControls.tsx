@@ -1,3 +1,4 @@
+import type { ReactNode } from 'react';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
@@ -17,6 +18,8 @@ interface AssessorControlsProps {
   onDiscontinueReasonChange: (reason: DiscontinueReason) => void;
   notes: string;
   onNotesChange: (notes: string) => void;
+  /** Extra controls under the timer buttons, e.g. audio recording */
+  children?: ReactNode;
 }
 
 export function AssessorControls({
@@ -30,6 +33,7 @@ export function AssessorControls({
   onDiscontinueReasonChange,
   notes,
   onNotesChange,
+  children,
 }: AssessorControlsProps) {
   const progressPercent = ((totalSeconds - remainingSeconds) / totalSeconds) * 100;
   const isRunning = timerState === 'running';
@@ -79,6 +83,8 @@ export function AssessorControls({
         )}
       </div>
 
+      {children}
+
       {/* Discontinue Reason (only if discontinued) */}
       {timerState === 'discontinued' && (
         <div className="space-y-2">
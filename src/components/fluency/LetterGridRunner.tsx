@@ -1,19 +1,43 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useExitSession } from '@/hooks/use-session-exit';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ArrowLeft, CheckCircle, Wifi, WifiOff, Play, Square, RotateCcw } from 'lucide-react';
+import { ArrowLeft, CheckCircle, Play, Square, RotateCcw } from 'lucide-react';
+import { ConnectionBadge } from '@/components/runners/ConnectionBadge';
 import { useUpdateSession } from '@/lib/api/sessions';
 import { useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import { useStoppingRules } from '@/hooks/use-stopping-rules';
+import { toItemOutcomes } from '@/lib/scoring/stoppingRules';
+import { StoppingRulePrompt } from '@/components/runners/StoppingRulePrompt';
+import { useHesitationTimer } from '@/hooks/use-hesitation-timer';
+import { HesitationTimer } from '@/components/runners/HesitationTimer';
+import { HESITATION_TAG } from '@/types/hesitation';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+import type { FiredStoppingRule } from '@/lib/scoring/stoppingRules';
+import type { Json } from '@/integrations/supabase/types';
 import type { SessionRow, ItemRow } from '@/types/database';
 
 const TIMER_DURATION = 60;
 
 type LetterState = 'unmarked' | 'correct' | 'incorrect';
+type TimerState = 'idle' | 'running' | 'completed' | 'discontinued';
+
+// Working state checkpointed so a reload can resume mid-grid
+interface LetterGridDraft {
+  letterStates: Record<number, LetterState>;
+  hesitations: number[];
+  timerState: TimerState;
+  remainingSeconds: number;
+  elapsedSeconds: number;
+  gridSize: '10' | '5';
+  discontinueReason: string;
+  notes: string;
+  acceptedRule: FiredStoppingRule | null;
+}
 
 interface LetterGridRunnerProps {
   session: SessionRow;
@@ -21,7 +45,7 @@ interface LetterGridRunnerProps {
 }
 
 export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
-  const navigate = useNavigate();
+  const exitSession = useExitSession();
   const updateSession = useUpdateSession();
   const upsertResponse = useUpsertSessionResponse();
 
@@ -31,19 +55,24 @@ export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
     [items]
   );
 
+  const resumed = useResumedDraft<LetterGridDraft>();
+
   // Letter states
-  const [letterStates, setLetterStates] = useState<Record<number, LetterState>>({});
+  const [letterStates, setLetterStates] = useState<Record<number, LetterState>>(resumed?.letterStates ?? {});
+  // Letters auto-marked incorrect after the student hesitated
+  const [hesitations, setHesitations] = useState<number[]>(resumed?.hesitations ?? []);
+  // Bumped on every mark, so the hesitation timer restarts even when re-scoring a letter
+  const [markCount, setMarkCount] = useState(0);
   
   // Timer state
-  const [timerState, setTimerState] = useState<'idle' | 'running' | 'completed' | 'discontinued'>('idle');
-  const [remainingSeconds, setRemainingSeconds] = useState(TIMER_DURATION);
-  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [timerState, setTimerState] = useState<TimerState>(resumed?.timerState ?? 'idle');
+  const [remainingSeconds, setRemainingSeconds] = useState(resumed?.remainingSeconds ?? TIMER_DURATION);
+  const [elapsedSeconds, setElapsedSeconds] = useState(resumed?.elapsedSeconds ?? 0);
   
   // UI state
-  const [gridSize, setGridSize] = useState<'10' | '5'>('10');
-  const [discontinueReason, setDiscontinueReason] = useState('');
-  const [notes, setNotes] = useState('');
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [gridSize, setGridSize] = useState<'10' | '5'>(resumed?.gridSize ?? '10');
+  const [discontinueReason, setDiscontinueReason] = useState(resumed?.discontinueReason ?? '');
+  const [notes, setNotes] = useState(resumed?.notes ?? '');
 
   // Computed scores
   const scores = useMemo(() => {
@@ -53,20 +82,33 @@ export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
     const lpm = elapsedSeconds > 0 ? Math.round((correct / elapsedSeconds) * 60) : 0;
     const accuracy = total > 0 ? Math.round((correct / total) * 100) : 0;
     
-    return { total, correct, incorrect, lpm, accuracy };
-  }, [letterStates, elapsedSeconds]);
+    return { total, correct, incorrect, lpm, accuracy, hesitations: hesitations.length };
+  }, [letterStates, elapsedSeconds, hesitations]);
 
-  // Online status tracking
-  useEffect(() => {
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => setIsOnline(false);
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
+  // The student reads in order, so the letter being read is the one after the last marked
+  const readingIndex = useMemo(() => {
+    const marked = Object.entries(letterStates)
+      .filter(([, state]) => state !== 'unmarked')
+      .map(([idx]) => Number(idx));
+    const next = marked.length > 0 ? Math.max(...marked) + 1 : 0;
+    return next < letters.length ? next : null;
+  }, [letterStates, letters.length]);
+
+  const outcomes = useMemo(
+    () => toItemOutcomes(Object.fromEntries(
+      Object.entries(letterStates)
+        .filter(([, state]) => state !== 'unmarked')
+        .map(([idx, state]) => [idx, state === 'correct'])
+    )),
+    [letterStates]
+  );
+  const stopping = useStoppingRules(session.assessment_id, outcomes, {
+    timerExpired: timerState === 'completed',
+    active: timerState === 'running',
+    initialAccepted: resumed?.acceptedRule,
+  });
+  const { accept: acceptStoppingRule, reset: resetStoppingRules } = stopping;
+  const stoppedBy = stopping.accepted ?? stopping.timerRule;
 
   // Timer countdown
   useEffect(() => {
@@ -98,8 +140,27 @@ export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
       
       return { ...prev, [index]: next };
     });
+    // A hand mark replaces the auto-mark
+    setHesitations(prev => prev.filter(i => i !== index));
+    setMarkCount(prev => prev + 1);
   }, [timerState]);
 
+  const handleHesitation = useCallback(() => {
+    if (readingIndex === null) return;
+    setLetterStates(prev => ({ ...prev, [readingIndex]: 'incorrect' }));
+    setHesitations(prev => [...prev, readingIndex]);
+    setMarkCount(prev => prev + 1);
+  }, [readingIndex]);
+
+  // Paused while a stopping rule prompt is open
+  const hesitation = useHesitationTimer(
+    session.assessment_id,
+    readingIndex === null ? null : `${readingIndex}:${markCount}`,
+    handleHesitation,
+    { active: timerState === 'running' && !stopping.prompt }
+  );
+  const hesitationWarning = hesitation.running && hesitation.progress >= 0.5;
+
   // Timer controls
   const handleStart = useCallback(() => {
     setTimerState('running');
@@ -118,20 +179,29 @@ export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
     setTimerState('discontinued');
   }, []);
 
+  const handleStoppingRuleDiscontinue = useCallback(() => {
+    acceptStoppingRule();
+    setTimerState('discontinued');
+  }, [acceptStoppingRule]);
+
   const handleReset = useCallback(() => {
     setLetterStates({});
+    setHesitations([]);
+    setMarkCount(0);
     setTimerState('idle');
     setRemainingSeconds(TIMER_DURATION);
     setElapsedSeconds(0);
     setDiscontinueReason('');
     setNotes('');
-  }, []);
+    resetStoppingRules();
+  }, [resetStoppingRules]);
 
   // Save and finish
   const handleFinish = useCallback(async () => {
     const isDiscontinued = timerState === 'discontinued';
+    const reason = discontinueReason || stopping.accepted?.description || '';
     
-    if (isDiscontinued && !discontinueReason) {
+    if (isDiscontinued && !reason) {
       return;
     }
 
@@ -144,11 +214,12 @@ export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
           item_id: items[i].item_id,
           sequence_number: items[i].sequence_number,
           is_correct: state === 'correct',
+          error_tags: hesitations.includes(i) ? [HESITATION_TAG] : [],
           elapsed_seconds: elapsedSeconds,
           notes: i === 0 ? notes : undefined,
-          computed_scores: i === 0 ? scores : undefined,
+          computed_scores: i === 0 ? { ...scores, stopping_rule: stoppedBy ?? undefined } as unknown as Json : undefined,
           discontinue_flag: i === 0 ? isDiscontinued : undefined,
-          discontinue_reason: i === 0 && isDiscontinued ? discontinueReason : undefined,
+          discontinue_reason: i === 0 && isDiscontinued ? reason : undefined,
         });
       }
     }
@@ -161,11 +232,14 @@ export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
       }
     });
 
-    navigate('/sessions');
+    exitSession();
   }, [
     timerState, 
     discontinueReason, 
+    stopping.accepted,
+    stoppedBy,
     letterStates, 
+    hesitations,
     elapsedSeconds, 
     scores, 
     notes, 
@@ -173,11 +247,27 @@ export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
     items, 
     upsertResponse, 
     updateSession, 
-    navigate
+    exitSession
   ]);
 
   const isComplete = timerState === 'completed' || timerState === 'discontinued';
-  const canFinish = isComplete && (timerState !== 'discontinued' || !!discontinueReason);
+
+  useDraftCheckpoint<LetterGridDraft>(session, {
+    letterStates,
+    hesitations,
+    timerState,
+    remainingSeconds,
+    elapsedSeconds,
+    gridSize,
+    discontinueReason,
+    notes,
+    acceptedRule: stopping.accepted,
+  }, {
+    currentItemIndex: readingIndex ?? Math.max(letters.length - 1, 0),
+    remainingSeconds,
+    enabled: timerState !== 'idle',
+  });
+  const canFinish = isComplete && (timerState !== 'discontinued' || !!discontinueReason || !!stopping.accepted);
 
   const getLetterStyle = (state: LetterState | undefined) => {
     switch (state) {
@@ -194,7 +284,7 @@ export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
-              <Button variant="ghost" size="icon" onClick={() => navigate('/sessions')}>
+              <Button variant="ghost" size="icon" onClick={() => exitSession()}>
                 <ArrowLeft className="h-5 w-5" />
               </Button>
               <div>
@@ -204,9 +294,7 @@ export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
                 </p>
               </div>
             </div>
-            <Badge variant="outline" className="gap-1.5">
-              {isOnline ? <><Wifi className="h-3 w-3" /> Online</> : <><WifiOff className="h-3 w-3" /> Offline</>}
-            </Badge>
+            <ConnectionBadge />
           </div>
         </div>
       </header>
@@ -244,10 +332,12 @@ export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
                       key={idx}
                       onClick={() => handleLetterClick(idx)}
                       disabled={timerState !== 'running'}
+                      title={hesitations.includes(idx) ? 'Hesitation' : undefined}
                       className={`
                         aspect-square flex items-center justify-center
                         text-2xl font-bold border-2 rounded-lg transition-colors
                         ${getLetterStyle(letterStates[idx])}
+                        ${hesitation.running && idx === readingIndex ? (hesitationWarning ? 'ring-2 ring-destructive' : 'ring-2 ring-primary') : ''}
                         ${timerState !== 'running' ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'}
                       `}
                     >
@@ -306,7 +396,15 @@ export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
                   )}
                 </div>
 
-                {timerState === 'discontinued' && (
+                <HesitationTimer timer={hesitation} disabled={timerState !== 'idle'} />
+
+                {stopping.accepted && (
+                  <p className="text-sm text-muted-foreground">
+                    Discontinued by stopping rule: {stopping.accepted.description}
+                  </p>
+                )}
+
+                {timerState === 'discontinued' && !stopping.accepted && (
                   <div className="space-y-2">
                     <Label>Discontinue Reason (required)</Label>
                     <Select value={discontinueReason} onValueChange={setDiscontinueReason}>
@@ -378,6 +476,13 @@ export function LetterGridRunner({ session, items }: LetterGridRunnerProps) {
           </div>
         </div>
       </main>
+
+      <StoppingRulePrompt
+        rule={stopping.prompt}
+        labelFor={(idx) => letters[idx]}
+        onContinue={stopping.dismiss}
+        onDiscontinue={handleStoppingRuleDiscontinue}
+      />
     </div>
   );
 }
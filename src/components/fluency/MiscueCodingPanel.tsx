@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Plus, X } from 'lucide-react';
+import {
+  CUE_SOURCES,
+  CUE_SOURCE_LABELS,
+  MISCUE_TYPE_LABELS,
+  type CueSource,
+  type MiscueType,
+  type ORFInsertion,
+  type TokenMiscue,
+  type TokenState,
+} from '@/types/orf';
+
+interface MiscueCodingPanelProps {
+  word: string | null;
+  state: TokenState | null;
+  miscue: TokenMiscue | undefined;
+  miscueTypes: MiscueType[];
+  /** Words the student added after the selected word */
+  insertions: ORFInsertion[];
+  onMiscueChange: (miscue: TokenMiscue | undefined) => void;
+  onAddInsertion: (said: string) => void;
+  onRemoveInsertion: (insertion: ORFInsertion) => void;
+}
+
+/**
+ * Codes the selected error for the running record: miscue type, what the
+ * student said and, for substitutions, the MSV cues it still honors.
+ */
+export function MiscueCodingPanel({
+  word,
+  state,
+  miscue,
+  miscueTypes,
+  insertions,
+  onMiscueChange,
+  onAddInsertion,
+  onRemoveInsertion,
+}: MiscueCodingPanelProps) {
+  const [insertionText, setInsertionText] = useState('');
+
+  const canCode = state === 'incorrect' || state === 'self_correction';
+  const tokenTypes = miscueTypes.filter(t => t !== 'insertion');
+  const allowsInsertions = miscueTypes.includes('insertion');
+
+  const setType = (type: MiscueType) => {
+    onMiscueChange(miscue?.type === type ? undefined : { ...miscue, type, cues: type === 'substitution' ? miscue?.cues : undefined });
+  };
+
+  const toggleCue = (cue: CueSource) => {
+    if (!miscue) return;
+    const cues = miscue.cues ?? [];
+    onMiscueChange({ ...miscue, cues: cues.includes(cue) ? cues.filter(c => c !== cue) : [...cues, cue] });
+  };
+
+  const handleAddInsertion = () => {
+    if (!insertionText.trim()) return;
+    onAddInsertion(insertionText.trim());
+    setInsertionText('');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span>Miscue Coding</span>
+          {word && <Badge variant="secondary" className="text-base">{word}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {word === null ? (
+          <p className="text-sm text-muted-foreground">
+            Mark a word incorrect or self-corrected, then select it to code the miscue.
+          </p>
+        ) : (
+          <>
+            {canCode ? (
+              <>
+                <div className="space-y-2">
+                  <Label>Miscue type</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {tokenTypes.map(type => (
+                      <Button
+                        key={type}
+                        type="button"
+                        size="sm"
+                        variant={miscue?.type === type ? 'default' : 'outline'}
+                        onClick={() => setType(type)}
+                      >
+                        {MISCUE_TYPE_LABELS[type]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                {miscue && miscue.type !== 'omission' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="miscue-said">Student said</Label>
+                    <Input
+                      id="miscue-said"
+                      value={miscue.said ?? ''}
+                      onChange={(e) => onMiscueChange({ ...miscue, said: e.target.value || undefined })}
+                      placeholder="Optional"
+                      autoComplete="off"
+                    />
+                  </div>
+                )}
+
+                {miscue?.type === 'substitution' && (
+                  <div className="space-y-2">
+                    <Label>Cues used (MSV)</Label>
+                    <div className="flex gap-2">
+                      {CUE_SOURCES.map(cue => (
+                        <Button
+                          key={cue}
+                          type="button"
+                          size="sm"
+                          variant={miscue.cues?.includes(cue) ? 'default' : 'outline'}
+                          onClick={() => toggleCue(cue)}
+                          className="flex-1"
+                        >
+                          {CUE_SOURCE_LABELS[cue]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Only incorrect or self-corrected words take a miscue code.
+              </p>
+            )}
+
+            {allowsInsertions && (
+              <div className="space-y-2 border-t pt-4">
+                <Label htmlFor="insertion">Inserted after this word</Label>
+                {insertions.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {insertions.map((ins, idx) => (
+                      <Badge key={idx} variant="outline" className="gap-1">
+                        ^{ins.said}
+                        <button type="button" onClick={() => onRemoveInsertion(ins)} aria-label="Remove insertion">
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Input
+                    id="insertion"
+                    value={insertionText}
+                    onChange={(e) => setInsertionText(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddInsertion()}
+                    placeholder="Added word"
+                    autoComplete="off"
+                  />
+                  <Button type="button" size="icon" variant="outline" onClick={handleAddInsertion}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
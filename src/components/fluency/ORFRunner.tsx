@@ -1,65 +1,142 @@
-import { useState, useEffect, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useExitSession } from '@/hooks/use-session-exit';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, CheckCircle, Wifi, WifiOff } from 'lucide-react';
+import { ArrowLeft, CheckCircle, Brackets } from 'lucide-react';
+import { ConnectionBadge } from '@/components/runners/ConnectionBadge';
 import { PassageDisplay } from './PassageDisplay';
 import { AssessorControls } from './AssessorControls';
 import { ScoringPanel } from './ScoringPanel';
+import { MiscueCodingPanel } from './MiscueCodingPanel';
+import { ProsodyRubricPanel } from './ProsodyRubricPanel';
+import { RecordAudioToggle } from '@/components/recording/RecordAudioToggle';
+import { useAudioRecorder } from '@/hooks/use-audio-recorder';
 import { useUpdateSession } from '@/lib/api/sessions';
-import { useUpsertORFResponse } from '@/lib/api/orfResponses';
+import type { ORFResponseInsert } from '@/lib/api/orfResponses';
+import { useStoppingRules } from '@/hooks/use-stopping-rules';
+import { StoppingRulePrompt } from '@/components/runners/StoppingRulePrompt';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+import type { FiredStoppingRule } from '@/lib/scoring/stoppingRules';
 import { 
   type TokenState, 
   type FontSize, 
   type DiscontinueReason,
   type ORFComputedScores,
+  type MiscueType,
+  type TokenMiscue,
+  type ORFInsertion,
   getNextTokenState,
   computeORFScores,
+  serializeTokenStateMap,
 } from '@/types/orf';
+import { type ProsodyRubric, computeProsodyScores, isProsodyComplete } from '@/types/prosody';
+import type { SessionRecordingUpload } from '@/types/recording';
 import type { SessionRow, ItemRow } from '@/types/database';
 
 const TIMER_DURATION = 60; // 60 seconds
 
+type TimerState = 'idle' | 'running' | 'completed' | 'discontinued';
+
+// Working state of one passage, checkpointed so a reload can resume mid-passage
+export interface ORFPassageDraft {
+  itemId: string;
+  tokenStates: Record<number, TokenState>;
+  miscues: Record<number, TokenMiscue>;
+  insertions: ORFInsertion[];
+  lastWordIndex: number | null;
+  isMarkingLastWord: boolean;
+  prosodyRatings: Record<string, number>;
+  timerState: TimerState;
+  remainingSeconds: number;
+  elapsedSeconds: number;
+  fontSize: FontSize;
+  discontinueReason: DiscontinueReason | '';
+  notes: string;
+  acceptedRule: FiredStoppingRule | null;
+}
+
 interface ORFRunnerProps {
   session: SessionRow;
   item: ItemRow;
   wordTokens: string[];
+  miscueTypes: MiscueType[];
+  prosodyRubric: ProsodyRubric;
+  /** 1-based position of this passage in the form */
+  passageNumber: number;
+  totalPassages: number;
+  /**
+   * Saves the passage, then its recording if one was made, and moves on to
+   * the next one or ends the session
+   */
+  onComplete: (response: ORFResponseInsert, recording: SessionRecordingUpload | null) => Promise<void>;
+  isSaving: boolean;
 }
 
-export function ORFRunner({ session, item, wordTokens }: ORFRunnerProps) {
-  const navigate = useNavigate();
+export function ORFRunner({
+  session,
+  item,
+  wordTokens,
+  miscueTypes,
+  prosodyRubric,
+  passageNumber,
+  totalPassages,
+  onComplete,
+  isSaving,
+}: ORFRunnerProps) {
+  const exitSession = useExitSession();
   const updateSession = useUpdateSession();
-  const upsertORFResponse = useUpsertORFResponse();
+  const recorder = useAudioRecorder();
+  const { start: startRecording, stop: stopRecording, reset: resetRecording, mark: markRecording } = recorder;
+
+  // A checkpoint only applies to the passage it was taken on
+  const draft = useResumedDraft<ORFPassageDraft>();
+  const resumed = draft?.itemId === item.item_id ? draft : null;
 
   // Token states
-  const [tokenStates, setTokenStates] = useState<Record<number, TokenState>>({});
+  const [tokenStates, setTokenStates] = useState<Record<number, TokenState>>(resumed?.tokenStates ?? {});
+
+  // Running record coding
+  const [miscues, setMiscues] = useState<Record<number, TokenMiscue>>(resumed?.miscues ?? {});
+  const [insertions, setInsertions] = useState<ORFInsertion[]>(resumed?.insertions ?? []);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  // Last word read: unmarked words up to it count as correct
+  const [lastWordIndex, setLastWordIndex] = useState<number | null>(resumed?.lastWordIndex ?? null);
+  const [isMarkingLastWord, setIsMarkingLastWord] = useState(resumed?.isMarkingLastWord ?? false);
+
+  // Prosody ratings by dimension, made after the timer
+  const [prosodyRatings, setProsodyRatings] = useState<Record<string, number>>(resumed?.prosodyRatings ?? {});
+
+  // Optional audio of the timed reading
+  const [recordAudio, setRecordAudio] = useState(false);
   
   // Timer state
-  const [timerState, setTimerState] = useState<'idle' | 'running' | 'completed' | 'discontinued'>('idle');
-  const [remainingSeconds, setRemainingSeconds] = useState(TIMER_DURATION);
-  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [timerState, setTimerState] = useState<TimerState>(resumed?.timerState ?? 'idle');
+  const [remainingSeconds, setRemainingSeconds] = useState(resumed?.remainingSeconds ?? TIMER_DURATION);
+  const [elapsedSeconds, setElapsedSeconds] = useState(resumed?.elapsedSeconds ?? 0);
   
   // UI state
-  const [fontSize, setFontSize] = useState<FontSize>('medium');
-  const [discontinueReason, setDiscontinueReason] = useState<DiscontinueReason | ''>('');
-  const [notes, setNotes] = useState('');
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [fontSize, setFontSize] = useState<FontSize>(resumed?.fontSize ?? 'medium');
+  const [discontinueReason, setDiscontinueReason] = useState<DiscontinueReason | ''>(resumed?.discontinueReason ?? '');
+  const [notes, setNotes] = useState(resumed?.notes ?? '');
 
   // Computed scores
-  const scores = computeORFScores(tokenStates, elapsedSeconds, wordTokens.length);
+  const scores = computeORFScores(tokenStates, elapsedSeconds, wordTokens.length, { miscues, insertions }, lastWordIndex);
 
-  // Online status tracking
-  useEffect(() => {
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => setIsOnline(false);
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
+  // Unmarked words count as read correctly, up to the furthest word marked
+  const outcomes = useMemo(() => {
+    const marked = Object.keys(tokenStates).map(Number).filter(idx => tokenStates[idx] !== 'unmarked');
+    const furthest = marked.length > 0 ? Math.max(...marked) : -1;
+    return Array.from({ length: furthest + 1 }, (_, index) => ({ index, correct: tokenStates[index] !== 'incorrect' }));
+  }, [tokenStates]);
+  const stopping = useStoppingRules(session.assessment_id, outcomes, {
+    timerExpired: timerState === 'completed',
+    active: timerState === 'running',
+    initialAccepted: resumed?.acceptedRule,
+  });
+  const { accept: acceptStoppingRule, reset: resetStoppingRules } = stopping;
+  const stoppedBy = stopping.accepted ?? stopping.timerRule;
 
   // Timer countdown
   useEffect(() => {
@@ -69,6 +146,7 @@ export function ORFRunner({ session, item, wordTokens }: ORFRunnerProps) {
       setRemainingSeconds((prev) => {
         if (prev <= 1) {
           setTimerState('completed');
+          setIsMarkingLastWord(true);
           return 0;
         }
         return prev - 1;
@@ -79,19 +157,59 @@ export function ORFRunner({ session, item, wordTokens }: ORFRunnerProps) {
     return () => clearInterval(interval);
   }, [timerState]);
 
-  // Handle token click
+  // Handle token click: place the last-word marker when marking it, otherwise
+  // cycle its state while reading, then select it for miscue coding (also
+  // possible once time is up)
   const handleTokenClick = useCallback((index: number) => {
-    if (timerState !== 'running') return;
-    
-    setTokenStates((prev) => ({
-      ...prev,
-      [index]: getNextTokenState(prev[index] || 'unmarked'),
-    }));
-  }, [timerState]);
+    if (timerState === 'idle') return;
+
+    if (isMarkingLastWord) {
+      setLastWordIndex(index);
+      setIsMarkingLastWord(false);
+      return;
+    }
+
+    if (timerState === 'running') {
+      markRecording(index, wordTokens[index]);
+      const next = getNextTokenState(tokenStates[index] || 'unmarked');
+      setTokenStates((prev) => ({ ...prev, [index]: next }));
+      if (next !== 'incorrect' && next !== 'self_correction') {
+        setMiscues((prev) => {
+          const rest = { ...prev };
+          delete rest[index];
+          return rest;
+        });
+      }
+    }
+    setSelectedIndex(index);
+  }, [timerState, tokenStates, isMarkingLastWord, markRecording, wordTokens]);
+
+  const handleMiscueChange = useCallback((miscue: TokenMiscue | undefined) => {
+    if (selectedIndex === null) return;
+    setMiscues((prev) => {
+      const next = { ...prev };
+      if (miscue) {
+        next[selectedIndex] = miscue;
+      } else {
+        delete next[selectedIndex];
+      }
+      return next;
+    });
+  }, [selectedIndex]);
+
+  const handleAddInsertion = useCallback((said: string) => {
+    if (selectedIndex === null) return;
+    setInsertions((prev) => [...prev, { after: selectedIndex, said }]);
+  }, [selectedIndex]);
+
+  const handleRemoveInsertion = useCallback((insertion: ORFInsertion) => {
+    setInsertions((prev) => prev.filter(ins => ins !== insertion));
+  }, []);
 
   // Timer controls
   const handleStart = useCallback(() => {
     setTimerState('running');
+    if (recordAudio) startRecording();
     // Mark session as in_progress if it was created
     if (session.status === 'created') {
       updateSession.mutate({
@@ -102,70 +220,123 @@ export function ORFRunner({ session, item, wordTokens }: ORFRunnerProps) {
         }
       });
     }
-  }, [session, updateSession]);
+  }, [session, updateSession, recordAudio, startRecording]);
 
   const handleStop = useCallback(() => {
     setTimerState('discontinued');
+    setIsMarkingLastWord(true);
   }, []);
 
+  // The word the rule was met on is the last one read
+  const handleStoppingRuleDiscontinue = useCallback(() => {
+    const rule = acceptStoppingRule();
+    setTimerState('discontinued');
+    if (rule?.item_index != null) {
+      setLastWordIndex(rule.item_index);
+    } else {
+      setIsMarkingLastWord(true);
+    }
+  }, [acceptStoppingRule]);
+
   const handleReset = useCallback(() => {
     setTokenStates({});
+    setMiscues({});
+    setInsertions([]);
+    setSelectedIndex(null);
+    setLastWordIndex(null);
+    setIsMarkingLastWord(false);
+    setProsodyRatings({});
+    resetRecording();
     setTimerState('idle');
     setRemainingSeconds(TIMER_DURATION);
     setElapsedSeconds(0);
     setDiscontinueReason('');
     setNotes('');
-  }, []);
+    resetStoppingRules();
+  }, [resetRecording, resetStoppingRules]);
 
-  // Save and finish
+  // Hand the passage's response on to be saved
   const handleFinish = useCallback(async () => {
     const isDiscontinued = timerState === 'discontinued';
+    const reason = discontinueReason || stopping.accepted?.description || '';
     
     // Require discontinue reason if stopped early
-    if (isDiscontinued && !discontinueReason) {
+    if (isDiscontinued && !reason) {
       return;
     }
 
-    // Save ORF response
-    await upsertORFResponse.mutateAsync({
+    const recording = recorder.recorded ? {
+      session_id: session.session_id,
+      item_id: item.item_id,
+      audio: recorder.recorded.audio,
+      duration_ms: recorder.recorded.duration_ms,
+      markers: recorder.markers,
+    } : null;
+
+    await onComplete({
       session_id: session.session_id,
       item_id: item.item_id,
       sequence_number: item.sequence_number,
       is_correct: scores.accuracy_percentage >= 90, // Consider 90%+ as "correct"
-      token_state_map: tokenStates,
+      token_state_map: serializeTokenStateMap(tokenStates, lastWordIndex),
       elapsed_seconds: elapsedSeconds,
       discontinue_flag: isDiscontinued,
-      discontinue_reason: isDiscontinued ? discontinueReason : undefined,
-      computed_scores: scores,
+      discontinue_reason: isDiscontinued ? reason : undefined,
+      computed_scores: {
+        ...scores,
+        prosody: computeProsodyScores(prosodyRubric, prosodyRatings),
+        stopping_rule: stoppedBy ?? undefined,
+      },
+      running_record: { miscues, insertions },
       notes: notes || undefined,
-    });
-
-    // Mark session as completed
-    await updateSession.mutateAsync({
-      id: session.session_id,
-      updates: {
-        status: 'completed',
-        completed_at: new Date().toISOString(),
-      }
-    });
-
-    navigate('/sessions');
+    }, recording);
   }, [
     timerState, 
     discontinueReason,
+    stopping.accepted,
+    stoppedBy,
     tokenStates, 
+    lastWordIndex,
+    prosodyRubric,
+    prosodyRatings,
+    miscues,
+    insertions,
     elapsedSeconds, 
     scores, 
     notes, 
     session, 
     item, 
-    upsertORFResponse, 
-    updateSession, 
-    navigate
+    recorder,
+    onComplete,
   ]);
 
   const isComplete = timerState === 'completed' || timerState === 'discontinued';
-  const canFinish = isComplete && (timerState !== 'discontinued' || !!discontinueReason);
+
+  useDraftCheckpoint<ORFPassageDraft>(session, {
+    itemId: item.item_id,
+    tokenStates,
+    miscues,
+    insertions,
+    lastWordIndex,
+    isMarkingLastWord,
+    prosodyRatings,
+    timerState,
+    remainingSeconds,
+    elapsedSeconds,
+    fontSize,
+    discontinueReason,
+    notes,
+    acceptedRule: stopping.accepted,
+  }, { currentItemIndex: passageNumber - 1, remainingSeconds, enabled: timerState !== 'idle' });
+
+  // Recording covers the timed reading only
+  useEffect(() => {
+    if (isComplete) stopRecording();
+  }, [isComplete, stopRecording]);
+  const canFinish = isComplete
+    && lastWordIndex !== null
+    && isProsodyComplete(prosodyRubric, prosodyRatings)
+    && (timerState !== 'discontinued' || !!discontinueReason || !!stopping.accepted);
 
   return (
     <div className="min-h-screen bg-background">
@@ -177,7 +348,7 @@ export function ORFRunner({ session, item, wordTokens }: ORFRunnerProps) {
               <Button
                 variant="ghost"
                 size="icon"
-                onClick={() => navigate('/sessions')}
+                onClick={() => exitSession()}
               >
                 <ArrowLeft className="h-5 w-5" />
               </Button>
@@ -189,13 +360,7 @@ export function ORFRunner({ session, item, wordTokens }: ORFRunnerProps) {
               </div>
             </div>
             <div className="flex items-center gap-3">
-              <Badge variant="outline" className="gap-1.5">
-                {isOnline ? (
-                  <><Wifi className="h-3 w-3" /> Online</>
-                ) : (
-                  <><WifiOff className="h-3 w-3" /> Offline</>
-                )}
-              </Badge>
+              <ConnectionBadge />
             </div>
           </div>
         </div>
@@ -209,8 +374,24 @@ export function ORFRunner({ session, item, wordTokens }: ORFRunnerProps) {
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center justify-between">
-                  <span>Reading Passage</span>
-                  <Badge variant="secondary">{wordTokens.length} words</Badge>
+                  <span>
+                    Reading Passage
+                    {totalPassages > 1 && ` ${passageNumber} of ${totalPassages}`}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {timerState !== 'idle' && (
+                      <Button
+                        size="sm"
+                        variant={isMarkingLastWord ? 'default' : 'outline'}
+                        onClick={() => setIsMarkingLastWord((prev) => !prev)}
+                        className="gap-1.5"
+                      >
+                        <Brackets className="h-4 w-4" />
+                        {isMarkingLastWord ? 'Tap last word read' : 'Mark last word'}
+                      </Button>
+                    )}
+                    <Badge variant="secondary">{wordTokens.length} words</Badge>
+                  </div>
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -218,9 +399,13 @@ export function ORFRunner({ session, item, wordTokens }: ORFRunnerProps) {
                   tokens={wordTokens}
                   tokenStates={tokenStates}
                   onTokenClick={handleTokenClick}
-                  disabled={timerState !== 'running'}
+                  disabled={timerState === 'idle'}
                   fontSize={fontSize}
                   onFontSizeChange={setFontSize}
+                  miscues={miscues}
+                  insertions={insertions}
+                  selectedIndex={selectedIndex}
+                  lastWordIndex={lastWordIndex}
                 />
               </CardContent>
             </Card>
@@ -239,25 +424,78 @@ export function ORFRunner({ session, item, wordTokens }: ORFRunnerProps) {
               onDiscontinueReasonChange={setDiscontinueReason}
               notes={notes}
               onNotesChange={setNotes}
-            />
+            >
+              <RecordAudioToggle
+                enabled={recordAudio}
+                onEnabledChange={setRecordAudio}
+                status={recorder.status}
+                error={recorder.error}
+                disabled={timerState !== 'idle'}
+              />
+              {stopping.accepted && (
+                <p className="text-sm text-muted-foreground">
+                  Discontinued by stopping rule: {stopping.accepted.description}
+                </p>
+              )}
+            </AssessorControls>
 
             <ScoringPanel scores={scores} isComplete={isComplete} />
 
+            {timerState !== 'idle' && (
+              <MiscueCodingPanel
+                word={selectedIndex !== null ? wordTokens[selectedIndex] : null}
+                state={selectedIndex !== null ? tokenStates[selectedIndex] || 'unmarked' : null}
+                miscue={selectedIndex !== null ? miscues[selectedIndex] : undefined}
+                miscueTypes={miscueTypes}
+                insertions={insertions.filter(ins => ins.after === selectedIndex)}
+                onMiscueChange={handleMiscueChange}
+                onAddInsertion={handleAddInsertion}
+                onRemoveInsertion={handleRemoveInsertion}
+              />
+            )}
+
+            {isComplete && (
+              <ProsodyRubricPanel
+                rubric={prosodyRubric}
+                ratings={prosodyRatings}
+                onRatingChange={(dimensionId, score) =>
+                  setProsodyRatings((prev) => ({ ...prev, [dimensionId]: score }))
+                }
+              />
+            )}
+
             {/* Finish Button */}
+            {isComplete && lastWordIndex === null && (
+              <p className="text-sm text-muted-foreground">
+                Mark the last word the student read before finishing.
+              </p>
+            )}
+            {isComplete && !isProsodyComplete(prosodyRubric, prosodyRatings) && (
+              <p className="text-sm text-muted-foreground">
+                Rate every {prosodyRubric.name.toLowerCase()} dimension before finishing.
+              </p>
+            )}
             {isComplete && (
               <Button 
                 onClick={handleFinish} 
-                disabled={!canFinish || upsertORFResponse.isPending}
+                disabled={!canFinish || isSaving}
                 size="lg" 
                 className="w-full gap-2"
               >
                 <CheckCircle className="h-4 w-4" />
-                {upsertORFResponse.isPending ? 'Saving...' : 'Finish Session'}
+                {isSaving ? 'Saving...' : passageNumber < totalPassages ? 'Next Passage' : 'Finish Session'}
               </Button>
             )}
           </div>
         </div>
       </main>
+
+      <StoppingRulePrompt
+        rule={stopping.prompt}
+        labelFor={(idx) => wordTokens[idx]}
+        onContinue={stopping.dismiss}
+        onDiscontinue={handleStoppingRuleDiscontinue}
+      />
     </div>
   );
 }
@@ -0,0 +1,133 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useExitSession } from '@/hooks/use-session-exit';
+import { ORFRunner, type ORFPassageDraft } from './ORFRunner';
+import { GenericRunner } from '@/components/runners/GenericRunner';
+import type { ItemRow, SessionRow } from '@/types/database';
+import type { SessionRecordingUpload } from '@/types/recording';
+import { useCurrentASR } from '@/lib/api/asrVersions';
+import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
+import { useSessionResponses } from '@/lib/api/sessionResponses';
+import { useUpsertORFResponse, type ORFResponseInsert } from '@/lib/api/orfResponses';
+import { useUploadSessionRecording } from '@/lib/api/sessionRecordings';
+import {
+  computeORFMedianScores,
+  getORFWordTokens,
+  getPassageMiscueTypes,
+  toORFPassageScore,
+  type ORFPassageContent,
+  type ORFPassageScore,
+} from '@/types/orf';
+import { getProsodyRubric } from '@/types/prosody';
+import { useResumedDraft } from '@/hooks/use-session-draft';
+
+interface ORFSessionRunnerProps {
+  session: SessionRow;
+  items: ItemRow[];
+}
+
+/**
+ * Runs each passage on the form in turn with the ORF runner, each with its
+ * own timer. The last passage, or one that's discontinued, saves the median
+ * summary and ends the session. Passages without any text to tokenize are
+ * left out when the form loads; a form with none falls back to the generic
+ * runner. The prosody rubric comes from section G of the assessment's
+ * current ASR.
+ */
+export function ORFSessionRunner({ session, items }: ORFSessionRunnerProps) {
+  const exitSession = useExitSession();
+  const updateSession = useUpdateSession();
+  const upsertORFResponse = useUpsertORFResponse();
+  const uploadRecording = useUploadSessionRecording();
+  const { data: responses } = useSessionResponses(session.session_id);
+
+  // Use existing word_tokens if available, otherwise tokenize from stimulus/text
+  const passages = useMemo(() => items
+    .map(item => {
+      const content = item.content_payload as unknown as ORFPassageContent | undefined;
+      return { item, content, wordTokens: getORFWordTokens(content) };
+    })
+    .filter(p => p.wordTokens.length > 0), [items]);
+
+  // current_item_index counts every item on the form. A resumed checkpoint
+  // can be ahead of the session row if it was taken offline, but one from a
+  // passage already saved is stale
+  const resumed = useResumedDraft<ORFPassageDraft>();
+  const [passageIndex, setPassageIndex] = useState(() => {
+    const savedItemIndex = session.current_item_index ?? 0;
+    const savedIndex = passages.findIndex(p => items.indexOf(p.item) >= savedItemIndex);
+    const resumedIndex = passages.findIndex(p => p.item.item_id === resumed?.itemId);
+    return Math.max(resumedIndex, savedIndex === -1 ? passages.length - 1 : savedIndex, 0);
+  });
+
+  const current = passages[passageIndex];
+  const currentItem = current?.item;
+  useStudentDisplayItem(session, currentItem ? items.indexOf(currentItem) : null);
+
+  const { data: asr } = useCurrentASR(session.assessment_id);
+  const prosodyRubric = useMemo(() => getProsodyRubric(asr?.section_g), [asr]);
+
+  // The recording goes up once the response is safe; a failed upload stays
+  // in the outbox, so only a device that can't store it at all drops it
+  const saveRecording = useCallback(async (recording: SessionRecordingUpload | null) => {
+    if (recording) await uploadRecording.mutateAsync(recording).catch(() => null);
+  }, [uploadRecording]);
+
+  const handleComplete = useCallback(async (response: ORFResponseInsert, recording: SessionRecordingUpload | null) => {
+    // A discontinued passage ends the session; later passages aren't given
+    const isLast = passageIndex >= passages.length - 1 || response.discontinue_flag;
+
+    if (!isLast) {
+      await upsertORFResponse.mutateAsync(response);
+      await saveRecording(recording);
+      setPassageIndex(passageIndex + 1);
+      await updateSession.mutateAsync({
+        id: session.session_id,
+        updates: { current_item_index: items.indexOf(passages[passageIndex + 1].item) },
+      });
+      return;
+    }
+
+    // Earlier passages come from their saved responses, so a resumed session
+    // still gets a median over every passage
+    const earlier = (responses || [])
+      .filter(r => r.item_id !== response.item_id)
+      .map(r => toORFPassageScore(r.item_id, r.sequence_number, r.computed_scores));
+    const scored = [
+      ...earlier,
+      toORFPassageScore(response.item_id, response.sequence_number, response.computed_scores),
+    ].filter((p): p is ORFPassageScore => p !== null);
+
+    await upsertORFResponse.mutateAsync({ ...response, orf_summary: computeORFMedianScores(scored) });
+    await saveRecording(recording);
+
+    await updateSession.mutateAsync({
+      id: session.session_id,
+      updates: {
+        status: response.discontinue_flag ? 'discontinued' : 'completed',
+        completed_at: new Date().toISOString(),
+      }
+    });
+
+    exitSession();
+  }, [passageIndex, passages, items, responses, session.session_id, upsertORFResponse, saveRecording, updateSession, exitSession]);
+
+  if (!current) {
+    return <GenericRunner session={session} items={items} />;
+  }
+
+  return (
+    <ORFRunner
+      key={current.item.item_id}
+      session={session}
+      item={current.item}
+      wordTokens={current.wordTokens}
+      miscueTypes={getPassageMiscueTypes(current.content)}
+      prosodyRubric={prosodyRubric}
+      passageNumber={passageIndex + 1}
+      totalPassages={passages.length}
+      onComplete={handleComplete}
+      isSaving={upsertORFResponse.isPending || uploadRecording.isPending || updateSession.isPending}
+    />
+  );
+}
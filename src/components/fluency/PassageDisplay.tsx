@@ -1,7 +1,8 @@
+import { Fragment } from 'react';
 import { WordToken } from './WordToken';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
-import type { TokenState, FontSize } from '@/types/orf';
+import type { TokenState, FontSize, TokenMiscue, ORFInsertion } from '@/types/orf';
 import { FONT_SIZE_CLASSES } from '@/types/orf';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
@@ -12,6 +13,11 @@ interface PassageDisplayProps {
   disabled?: boolean;
   fontSize: FontSize;
   onFontSizeChange: (size: FontSize) => void;
+  miscues?: Record<number, TokenMiscue>;
+  insertions?: ORFInsertion[];
+  selectedIndex?: number | null;
+  /** Last word read; words after it are excluded from scoring */
+  lastWordIndex?: number | null;
 }
 
 export function PassageDisplay({
@@ -21,7 +27,21 @@ export function PassageDisplay({
   disabled,
   fontSize,
   onFontSizeChange,
+  miscues = {},
+  insertions = [],
+  selectedIndex = null,
+  lastWordIndex = null,
 }: PassageDisplayProps) {
+  const renderInsertions = (after: number) =>
+    insertions
+      .filter(ins => ins.after === after)
+      .map((ins, i) => (
+        <span key={`ins-${after}-${i}`} className="self-center text-sm italic text-red-600">
+          ^{ins.said}
+        </span>
+      ));
+
+
   return (
     <div className="space-y-4">
       {/* Font Size Control */}
@@ -44,16 +64,27 @@ export function PassageDisplay({
       {/* Token Grid */}
       <ScrollArea className="h-[400px] rounded-lg border bg-card p-6">
         <div className="flex flex-wrap gap-2 leading-relaxed">
+          {renderInsertions(-1)}
           {tokens.map((word, index) => (
-            <WordToken
-              key={index}
-              word={word}
-              index={index}
-              state={tokenStates[index] || 'unmarked'}
-              onClick={onTokenClick}
-              disabled={disabled}
-              fontSize={FONT_SIZE_CLASSES[fontSize]}
-            />
+            <Fragment key={index}>
+              <WordToken
+                word={word}
+                index={index}
+                state={tokenStates[index] || 'unmarked'}
+                onClick={onTokenClick}
+                disabled={disabled}
+                fontSize={FONT_SIZE_CLASSES[fontSize]}
+                miscue={miscues[index]}
+                selected={selectedIndex === index}
+                excluded={lastWordIndex !== null && index > lastWordIndex}
+              />
+              {renderInsertions(index)}
+              {lastWordIndex === index && (
+                <span className="self-center text-2xl font-bold text-primary" aria-label="Last word read">
+                  ]
+                </span>
+              )}
+            </Fragment>
           ))}
         </div>
       </ScrollArea>
@@ -76,6 +107,10 @@ export function PassageDisplay({
           <span className="w-4 h-4 rounded border-2 bg-green-100 border-green-500 dark:bg-green-950" />
           <span className="text-muted-foreground">Correct</span>
         </div>
+        <div className="flex items-center gap-2">
+          <span className="font-bold text-primary">]</span>
+          <span className="text-muted-foreground">Last word read</span>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,59 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import type { ProsodyRubric } from '@/types/prosody';
+
+interface ProsodyRubricPanelProps {
+  rubric: ProsodyRubric;
+  ratings: Record<string, number>;
+  onRatingChange: (dimensionId: string, score: number) => void;
+}
+
+/**
+ * Rates each prosody dimension once the timer is done; the chosen level's
+ * description is shown under its row.
+ */
+export function ProsodyRubricPanel({ rubric, ratings, onRatingChange }: ProsodyRubricPanelProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">{rubric.name}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rubric.dimensions.map(dimension => {
+          const rating = ratings[dimension.dimension_id];
+          const level = rubric.levels.find(l => l.score === rating);
+          return (
+            <div key={dimension.dimension_id} className="space-y-2">
+              <div>
+                <Label>{dimension.label}</Label>
+                {dimension.description && (
+                  <p className="text-xs text-muted-foreground">{dimension.description}</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {rubric.levels.map(l => (
+                  <Button
+                    key={l.score}
+                    type="button"
+                    size="sm"
+                    variant={rating === l.score ? 'default' : 'outline'}
+                    onClick={() => onRatingChange(dimension.dimension_id, l.score)}
+                    title={l.label}
+                    className="flex-1"
+                  >
+                    {l.score}
+                  </Button>
+                ))}
+              </div>
+              <p className={cn('text-xs', level ? 'text-foreground' : 'text-muted-foreground')}>
+                {level ? `${level.label}${level.description ? ` — ${level.description}` : ''}` : 'Not rated'}
+              </p>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import type { ORFComputedScores } from '@/types/orf';
+import { Badge } from '@/components/ui/badge';
+import { MISCUE_TYPES, MISCUE_TYPE_LABELS, type ORFComputedScores } from '@/types/orf';
 
 interface ScoringPanelProps {
   scores: ORFComputedScores;
@@ -7,6 +8,9 @@ interface ScoringPanelProps {
 }
 
 export function ScoringPanel({ scores, isComplete }: ScoringPanelProps) {
+  const breakdown = scores.miscue_breakdown;
+  const codedTypes = MISCUE_TYPES.filter(type => breakdown[type] > 0);
+
   return (
     <Card>
       <CardHeader className="pb-3">
@@ -53,6 +57,19 @@ export function ScoringPanel({ scores, isComplete }: ScoringPanelProps) {
             <div className="text-xs text-muted-foreground">Self-Corrections</div>
           </div>
         </div>
+
+        {(codedTypes.length > 0 || breakdown.uncoded > 0) && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {codedTypes.map(type => (
+              <Badge key={type} variant="outline">
+                {MISCUE_TYPE_LABELS[type]}: {breakdown[type]}
+              </Badge>
+            ))}
+            {breakdown.uncoded > 0 && (
+              <Badge variant="secondary">Uncoded: {breakdown.uncoded}</Badge>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,40 +1,77 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useExitSession } from '@/hooks/use-session-exit';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ArrowLeft, CheckCircle, Wifi, WifiOff, Play, Square, RotateCcw, Check, X } from 'lucide-react';
+import { ArrowLeft, CheckCircle, Play, Square, RotateCcw, Check, X, Hourglass } from 'lucide-react';
+import { ConnectionBadge } from '@/components/runners/ConnectionBadge';
 import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
 import { useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import { useUploadSessionRecording } from '@/lib/api/sessionRecordings';
+import { useAudioRecorder } from '@/hooks/use-audio-recorder';
+import { RecordAudioToggle } from '@/components/recording/RecordAudioToggle';
+import { useStoppingRules } from '@/hooks/use-stopping-rules';
+import { toItemOutcomes } from '@/lib/scoring/stoppingRules';
+import { StoppingRulePrompt } from '@/components/runners/StoppingRulePrompt';
+import { useHesitationTimer } from '@/hooks/use-hesitation-timer';
+import { HesitationTimer } from '@/components/runners/HesitationTimer';
+import { HESITATION_TAG } from '@/types/hesitation';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+import type { FiredStoppingRule } from '@/lib/scoring/stoppingRules';
+import type { Json } from '@/integrations/supabase/types';
 import type { SessionRow, ItemRow } from '@/types/database';
 
 const TIMER_DURATION = 60;
 
+type TimerState = 'idle' | 'running' | 'completed' | 'discontinued';
+
+// Working state checkpointed so a reload can resume mid-list
+interface WordReadingDraft {
+  currentIndex: number;
+  responses: Record<number, boolean>;
+  hesitations: number[];
+  timerState: TimerState;
+  remainingSeconds: number;
+  elapsedSeconds: number;
+  discontinueReason: string;
+  notes: string;
+  acceptedRule: FiredStoppingRule | null;
+}
+
 interface WordReadingRunnerProps {
   session: SessionRow;
   items: ItemRow[];
 }
 
 export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
-  const navigate = useNavigate();
+  const exitSession = useExitSession();
   const updateSession = useUpdateSession();
   const upsertResponse = useUpsertSessionResponse();
+  const uploadRecording = useUploadSessionRecording();
+  const recorder = useAudioRecorder();
+  const { start: startRecording, stop: stopRecording, reset: resetRecording, mark: markRecording } = recorder;
 
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [responses, setResponses] = useState<Record<number, boolean>>({});
+  const resumed = useResumedDraft<WordReadingDraft>();
+
+  const [currentIndex, setCurrentIndex] = useState(resumed?.currentIndex ?? 0);
+  useStudentDisplayItem(session, currentIndex);
+  const [responses, setResponses] = useState<Record<number, boolean>>(resumed?.responses ?? {});
+  // Words auto-marked incorrect after the student hesitated
+  const [hesitations, setHesitations] = useState<number[]>(resumed?.hesitations ?? []);
   
   // Timer state
-  const [timerState, setTimerState] = useState<'idle' | 'running' | 'completed' | 'discontinued'>('idle');
-  const [remainingSeconds, setRemainingSeconds] = useState(TIMER_DURATION);
-  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [timerState, setTimerState] = useState<TimerState>(resumed?.timerState ?? 'idle');
+  const [remainingSeconds, setRemainingSeconds] = useState(resumed?.remainingSeconds ?? TIMER_DURATION);
+  const [elapsedSeconds, setElapsedSeconds] = useState(resumed?.elapsedSeconds ?? 0);
   
   // UI state
-  const [discontinueReason, setDiscontinueReason] = useState('');
-  const [notes, setNotes] = useState('');
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [discontinueReason, setDiscontinueReason] = useState(resumed?.discontinueReason ?? '');
+  const [notes, setNotes] = useState(resumed?.notes ?? '');
+  const [recordAudio, setRecordAudio] = useState(false);
 
   const currentItem = items[currentIndex];
   const currentWord = (currentItem?.content_payload as { stimulus?: string })?.stimulus || '';
@@ -48,20 +85,17 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
     const wpm = elapsedSeconds > 0 ? Math.round((correct / elapsedSeconds) * 60) : 0;
     const accuracy = answered > 0 ? Math.round((correct / answered) * 100) : 0;
     
-    return { answered, correct, incorrect, wpm, accuracy };
-  }, [responses, elapsedSeconds]);
+    return { answered, correct, incorrect, wpm, accuracy, hesitations: hesitations.length };
+  }, [responses, elapsedSeconds, hesitations]);
 
-  // Online status
-  useEffect(() => {
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => setIsOnline(false);
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
+  const outcomes = useMemo(() => toItemOutcomes(responses), [responses]);
+  const stopping = useStoppingRules(session.assessment_id, outcomes, {
+    timerExpired: remainingSeconds === 0,
+    active: timerState === 'running',
+    initialAccepted: resumed?.acceptedRule,
+  });
+  const { accept: acceptStoppingRule, reset: resetStoppingRules } = stopping;
+  const stoppedBy = stopping.accepted ?? stopping.timerRule;
 
   // Timer countdown
   useEffect(() => {
@@ -81,10 +115,12 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
     return () => clearInterval(interval);
   }, [timerState]);
 
-  const handleResponse = useCallback((isCorrect: boolean) => {
+  const handleResponse = useCallback((isCorrect: boolean, hesitated = false) => {
     if (timerState !== 'running') return;
     
     setResponses(prev => ({ ...prev, [currentIndex]: isCorrect }));
+    if (hesitated) setHesitations(prev => [...prev, currentIndex]);
+    markRecording(currentIndex, currentWord);
     
     // Auto-advance to next word
     if (currentIndex < totalItems - 1) {
@@ -92,10 +128,19 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
     } else {
       setTimerState('completed');
     }
-  }, [timerState, currentIndex, totalItems]);
+  }, [timerState, currentIndex, totalItems, markRecording, currentWord]);
+
+  // Restarts on each new word; paused while a stopping rule prompt is open
+  const hesitation = useHesitationTimer(
+    session.assessment_id,
+    currentIndex,
+    () => handleResponse(false, true),
+    { active: timerState === 'running' && !stopping.prompt }
+  );
 
   const handleStart = useCallback(() => {
     setTimerState('running');
+    if (recordAudio) startRecording();
     if (session.status === 'created') {
       updateSession.mutate({
         id: session.session_id,
@@ -105,26 +150,35 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
         }
       });
     }
-  }, [session, updateSession]);
+  }, [session, updateSession, recordAudio, startRecording]);
 
   const handleStop = useCallback(() => {
     setTimerState('discontinued');
   }, []);
 
+  const handleStoppingRuleDiscontinue = useCallback(() => {
+    acceptStoppingRule();
+    setTimerState('discontinued');
+  }, [acceptStoppingRule]);
+
   const handleReset = useCallback(() => {
     setResponses({});
+    setHesitations([]);
     setCurrentIndex(0);
     setTimerState('idle');
     setRemainingSeconds(TIMER_DURATION);
     setElapsedSeconds(0);
     setDiscontinueReason('');
     setNotes('');
-  }, []);
+    resetRecording();
+    resetStoppingRules();
+  }, [resetRecording, resetStoppingRules]);
 
   const handleFinish = useCallback(async () => {
     const isDiscontinued = timerState === 'discontinued';
+    const reason = discontinueReason || stopping.accepted?.description || '';
     
-    if (isDiscontinued && !discontinueReason) return;
+    if (isDiscontinued && !reason) return;
 
     // Save all responses
     for (const [idx, isCorrect] of Object.entries(responses)) {
@@ -134,14 +188,27 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
         item_id: item.item_id,
         sequence_number: item.sequence_number,
         is_correct: isCorrect,
+        error_tags: hesitations.includes(parseInt(idx)) ? [HESITATION_TAG] : [],
         elapsed_seconds: elapsedSeconds,
         notes: parseInt(idx) === 0 ? notes : undefined,
-        computed_scores: parseInt(idx) === 0 ? scores : undefined,
+        computed_scores: parseInt(idx) === 0 ? { ...scores, stopping_rule: stoppedBy ?? undefined } as unknown as Json : undefined,
         discontinue_flag: parseInt(idx) === 0 ? isDiscontinued : undefined,
-        discontinue_reason: parseInt(idx) === 0 && isDiscontinued ? discontinueReason : undefined,
+        discontinue_reason: parseInt(idx) === 0 && isDiscontinued ? reason : undefined,
       });
     }
 
+    // The recording goes up once the responses are safe; a failed upload
+    // stays in the outbox, so only a device that can't store it drops it
+    if (recorder.recorded) {
+      await uploadRecording.mutateAsync({
+        session_id: session.session_id,
+        item_id: null,
+        audio: recorder.recorded.audio,
+        duration_ms: recorder.recorded.duration_ms,
+        markers: recorder.markers,
+      }).catch(() => null);
+    }
+
     await updateSession.mutateAsync({
       id: session.session_id,
       updates: {
@@ -150,11 +217,28 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
       }
     });
 
-    navigate('/sessions');
-  }, [timerState, discontinueReason, responses, elapsedSeconds, scores, notes, session, items, upsertResponse, updateSession, navigate]);
+    exitSession();
+  }, [timerState, discontinueReason, stopping.accepted, stoppedBy, responses, hesitations, elapsedSeconds, scores, notes, session, items, recorder, uploadRecording, upsertResponse, updateSession, exitSession]);
 
   const isComplete = timerState === 'completed' || timerState === 'discontinued';
-  const canFinish = isComplete && (timerState !== 'discontinued' || !!discontinueReason);
+
+  useDraftCheckpoint<WordReadingDraft>(session, {
+    currentIndex,
+    responses,
+    hesitations,
+    timerState,
+    remainingSeconds,
+    elapsedSeconds,
+    discontinueReason,
+    notes,
+    acceptedRule: stopping.accepted,
+  }, { currentItemIndex: currentIndex, remainingSeconds, enabled: timerState !== 'idle' });
+  const canFinish = isComplete && (timerState !== 'discontinued' || !!discontinueReason || !!stopping.accepted);
+
+  // Recording covers the timed reading only
+  useEffect(() => {
+    if (isComplete) stopRecording();
+  }, [isComplete, stopRecording]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -163,7 +247,7 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
-              <Button variant="ghost" size="icon" onClick={() => navigate('/sessions')}>
+              <Button variant="ghost" size="icon" onClick={() => exitSession()}>
                 <ArrowLeft className="h-5 w-5" />
               </Button>
               <div>
@@ -173,9 +257,7 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
                 </p>
               </div>
             </div>
-            <Badge variant="outline" className="gap-1.5">
-              {isOnline ? <><Wifi className="h-3 w-3" /> Online</> : <><WifiOff className="h-3 w-3" /> Offline</>}
-            </Badge>
+            <ConnectionBadge />
           </div>
         </div>
       </header>
@@ -195,7 +277,11 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-6">
-                <div className="text-center py-12">
+                <div
+                  className={`text-center py-12 rounded-lg transition-colors ${
+                    hesitation.running && hesitation.progress >= 0.5 ? 'bg-destructive/10' : ''
+                  }`}
+                >
                   <p className="text-7xl font-bold">{currentWord}</p>
                 </div>
 
@@ -233,8 +319,10 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
                           <Badge 
                             key={idx} 
                             variant={correct ? 'default' : 'destructive'}
-                            className={correct ? 'bg-green-600' : ''}
+                            className={`gap-1 ${correct ? 'bg-green-600' : ''}`}
+                            title={hesitations.includes(parseInt(idx)) ? 'Hesitation' : undefined}
                           >
+                            {hesitations.includes(parseInt(idx)) && <Hourglass className="h-3 w-3" />}
                             {word}
                           </Badge>
                         );
@@ -277,7 +365,23 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
                   )}
                 </div>
 
-                {timerState === 'discontinued' && (
+                <RecordAudioToggle
+                  enabled={recordAudio}
+                  onEnabledChange={setRecordAudio}
+                  status={recorder.status}
+                  error={recorder.error}
+                  disabled={timerState !== 'idle'}
+                />
+
+                <HesitationTimer timer={hesitation} disabled={timerState !== 'idle'} />
+
+                {stopping.accepted && (
+                  <p className="text-sm text-muted-foreground">
+                    Discontinued by stopping rule: {stopping.accepted.description}
+                  </p>
+                )}
+
+                {timerState === 'discontinued' && !stopping.accepted && (
                   <div className="space-y-2">
                     <Label>Discontinue Reason (required)</Label>
                     <Select value={discontinueReason} onValueChange={setDiscontinueReason}>
@@ -338,7 +442,7 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
             {isComplete && (
               <Button 
                 onClick={handleFinish} 
-                disabled={!canFinish || upsertResponse.isPending}
+                disabled={!canFinish || upsertResponse.isPending || uploadRecording.isPending}
                 size="lg" 
                 className="w-full gap-2"
               >
@@ -349,6 +453,13 @@ export function WordReadingRunner({ session, items }: WordReadingRunnerProps) {
           </div>
         </div>
       </main>
+
+      <StoppingRulePrompt
+        rule={stopping.prompt}
+        labelFor={(idx) => (items[idx]?.content_payload as { stimulus?: string })?.stimulus}
+        onContinue={stopping.dismiss}
+        onDiscontinue={handleStoppingRuleDiscontinue}
+      />
     </div>
   );
 }
@@ -1,5 +1,5 @@
 import { cn } from '@/lib/utils';
-import type { TokenState } from '@/types/orf';
+import { MISCUE_TYPE_ABBREVIATIONS, type TokenMiscue, type TokenState } from '@/types/orf';
 
 interface WordTokenProps {
   word: string;
@@ -8,6 +8,10 @@ interface WordTokenProps {
   onClick: (index: number) => void;
   disabled?: boolean;
   fontSize: string;
+  miscue?: TokenMiscue;
+  selected?: boolean;
+  /** After the last word read */
+  excluded?: boolean;
 }
 
 const STATE_STYLES: Record<TokenState, string> = {
@@ -17,21 +21,28 @@ const STATE_STYLES: Record<TokenState, string> = {
   self_correction: 'bg-amber-100 border-amber-500 text-amber-800 dark:bg-amber-950 dark:text-amber-200',
 };
 
-export function WordToken({ word, index, state, onClick, disabled, fontSize }: WordTokenProps) {
+export function WordToken({ word, index, state, onClick, disabled, fontSize, miscue, selected, excluded }: WordTokenProps) {
   return (
     <button
       type="button"
       onClick={() => onClick(index)}
       disabled={disabled}
       className={cn(
-        'px-2 py-1 rounded border-2 transition-colors cursor-pointer select-none',
+        'relative px-2 py-1 rounded border-2 transition-colors cursor-pointer select-none',
         'focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2',
         'disabled:opacity-50 disabled:cursor-not-allowed',
         fontSize,
-        STATE_STYLES[state]
+        STATE_STYLES[state],
+        selected && 'ring-2 ring-primary ring-offset-2',
+        excluded && 'opacity-40'
       )}
     >
       {word}
+      {miscue && (
+        <sup className="ml-1 text-xs font-semibold">
+          {MISCUE_TYPE_ABBREVIATIONS[miscue.type]}
+        </sup>
+      )}
     </button>
   );
 }
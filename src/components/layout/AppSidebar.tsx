@@ -23,6 +23,8 @@ import {
   BookOpen,
   ChevronDown,
   Play,
+  Users,
+  Layers,
 } from 'lucide-react';
 import { COMPONENT_INFO } from '@/types/registry';
 import { getComponentDotClass, COMPONENT_CODES, type ComponentCode } from '@/lib/componentColors';
@@ -40,7 +42,9 @@ const libraryItems = [
   { title: 'Forms', url: '/forms', icon: FileBox },
   { title: 'Items', url: '/items', icon: LayoutList },
   { title: 'Scoring Outputs', url: '/scoring', icon: Calculator },
+  { title: 'Students', url: '/students', icon: Users },
   { title: 'Sessions', url: '/sessions', icon: Play },
+  { title: 'Batteries', url: '/batteries', icon: Layers },
 ];
 
 export function AppSidebar() {
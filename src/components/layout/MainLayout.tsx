@@ -6,6 +6,7 @@ import { Menu, LogOut, User } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useOutboxSync } from '@/hooks/use-outbox';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -22,6 +23,8 @@ export function MainLayout({ children }: MainLayoutProps) {
   const [userEmail, setUserEmail] = useState<string | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  // Saves made offline go out from whichever page is open when the connection returns
+  useOutboxSync();
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -0,0 +1,328 @@
+import { useState, useCallback, useMemo } from 'react';
+import { useExitSession } from '@/hooks/use-session-exit';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, CheckCircle } from 'lucide-react';
+import { ConnectionBadge } from '@/components/runners/ConnectionBadge';
+import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
+import { useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import { useStoppingRules } from '@/hooks/use-stopping-rules';
+import { toItemOutcomes, type FiredStoppingRule } from '@/lib/scoring/stoppingRules';
+import { StoppingRulePrompt } from '@/components/runners/StoppingRulePrompt';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+import { getDisplayText } from '@/lib/itemDisplay';
+import type { Json } from '@/integrations/supabase/types';
+import type { SessionRow, ItemRow } from '@/types/database';
+import {
+  type AlphabetMark,
+  type AlphabetSection,
+  ALPHABET_SECTIONS,
+  ALPHABET_SECTION_LABELS,
+  computeAlphabetScores,
+  getAlphabetSections,
+} from '@/types/alphabet';
+
+// Working state checkpointed so a reload can resume mid-grid
+interface AlphabetKnowledgeDraft {
+  activeSection: AlphabetSection;
+  marks: Record<number, AlphabetMark>;
+  discontinueReason: string;
+  notes: string;
+}
+
+interface AlphabetKnowledgeRunnerProps {
+  session: SessionRow;
+  items: ItemRow[];
+}
+
+/**
+ * Untimed alphabet knowledge (PH-ALPH). Uppercase names, lowercase names and
+ * letter sounds are each shown as their own grid and scored separately.
+ */
+export function AlphabetKnowledgeRunner({ session, items }: AlphabetKnowledgeRunnerProps) {
+  const exitSession = useExitSession();
+  const updateSession = useUpdateSession();
+  const upsertResponse = useUpsertSessionResponse();
+
+  const sections = useMemo(() => getAlphabetSections(items), [items]);
+  const presentSections = useMemo(
+    () => ALPHABET_SECTIONS.filter(s => sections.includes(s)),
+    [sections]
+  );
+
+  const resumed = useResumedDraft<AlphabetKnowledgeDraft>();
+
+  const [activeSection, setActiveSection] = useState<AlphabetSection>(
+    resumed?.activeSection ?? presentSections[0] ?? 'uppercase_names'
+  );
+  // Point the student screen at the section being administered
+  useStudentDisplayItem(session, Math.max(sections.indexOf(activeSection), 0));
+  const [marks, setMarks] = useState<Record<number, AlphabetMark>>(resumed?.marks ?? {});
+
+  // UI state
+  const [discontinueReason, setDiscontinueReason] = useState(resumed?.discontinueReason ?? '');
+  const [notes, setNotes] = useState(resumed?.notes ?? '');
+
+  // Computed scores
+  const scores = useMemo(() => computeAlphabetScores(sections, marks), [sections, marks]);
+
+  const outcomes = useMemo(
+    () => toItemOutcomes(Object.fromEntries(Object.entries(marks).map(([idx, mark]) => [idx, mark === 'correct']))),
+    [marks]
+  );
+  const stopping = useStoppingRules(session.assessment_id, outcomes);
+
+  const markedIndexes = Object.keys(marks).map(Number);
+  useDraftCheckpoint<AlphabetKnowledgeDraft>(session, { activeSection, marks, discontinueReason, notes }, {
+    currentItemIndex: markedIndexes.length > 0 ? Math.max(...markedIndexes) : 0,
+    enabled: markedIndexes.length > 0,
+  });
+
+  // Keeps the session row on the section too, for reopening it
+  const handleSectionChange = useCallback((value: string) => {
+    const section = value as AlphabetSection;
+    setActiveSection(section);
+    updateSession.mutate({
+      id: session.session_id,
+      updates: { current_item_index: sections.indexOf(section) }
+    });
+  }, [sections, session.session_id, updateSession]);
+
+  // Cycle unmarked -> correct -> incorrect -> unmarked
+  const handleLetterClick = useCallback((index: number) => {
+    setMarks(prev => {
+      const next = { ...prev };
+      if (!prev[index]) {
+        next[index] = 'correct';
+      } else if (prev[index] === 'correct') {
+        next[index] = 'incorrect';
+      } else {
+        delete next[index];
+      }
+      return next;
+    });
+  }, []);
+
+  const handleFinish = useCallback(async (stoppedBy?: FiredStoppingRule | null) => {
+    const reason = discontinueReason || stoppedBy?.description || '';
+    const isDiscontinued = !!reason;
+
+    // Save every marked letter; the session totals ride on the first one
+    const marked = Object.keys(marks).map(Number).sort((a, b) => a - b);
+    for (const idx of marked) {
+      const item = items[idx];
+      const isFirst = idx === marked[0];
+      const detail = { alphabet_section: sections[idx] };
+      await upsertResponse.mutateAsync({
+        session_id: session.session_id,
+        item_id: item.item_id,
+        sequence_number: item.sequence_number,
+        is_correct: marks[idx] === 'correct',
+        error_tags: marks[idx] === 'incorrect' ? [sections[idx]] : [],
+        notes: isFirst ? notes : undefined,
+        computed_scores: (isFirst ? { ...scores, ...detail, stopping_rule: stoppedBy ?? undefined } : detail) as unknown as Json,
+        discontinue_flag: isFirst ? isDiscontinued : undefined,
+        discontinue_reason: isFirst && isDiscontinued ? reason : undefined,
+      });
+    }
+
+    await updateSession.mutateAsync({
+      id: session.session_id,
+      updates: {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      }
+    });
+
+    exitSession();
+  }, [discontinueReason, marks, items, sections, notes, scores, session.session_id, upsertResponse, updateSession, exitSession]);
+
+  const handleStoppingRuleDiscontinue = useCallback(() => {
+    void handleFinish(stopping.accept());
+  }, [handleFinish, stopping]);
+
+  const getLetterStyle = (mark: AlphabetMark | undefined) => {
+    switch (mark) {
+      case 'correct': return 'bg-green-100 border-green-500 text-green-700';
+      case 'incorrect': return 'bg-red-100 border-red-500 text-red-700';
+      default: return 'bg-background border-border hover:bg-muted';
+    }
+  };
+
+  const sectionTotals: Record<AlphabetSection, { correct: number; total: number }> = {
+    uppercase_names: { correct: scores.uppercase_names_correct, total: scores.uppercase_names_total },
+    lowercase_names: { correct: scores.lowercase_names_correct, total: scores.lowercase_names_total },
+    letter_sounds: { correct: scores.letter_sounds_correct, total: scores.letter_sounds_total },
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => exitSession()}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div>
+                <h1 className="text-xl font-semibold">Alphabet Knowledge</h1>
+                <p className="text-sm text-muted-foreground">
+                  {session.student_name} • {session.grade_tag || session.form_id}
+                </p>
+              </div>
+            </div>
+            <ConnectionBadge />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6">
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Letter Grids */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>{ALPHABET_SECTION_LABELS[activeSection]}</span>
+                  <Badge variant="secondary">
+                    {sectionTotals[activeSection].total} letters
+                  </Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {presentSections.length > 1 && (
+                  <Tabs value={activeSection} onValueChange={handleSectionChange}>
+                    <TabsList>
+                      {presentSections.map(section => (
+                        <TabsTrigger key={section} value={section}>
+                          {ALPHABET_SECTION_LABELS[section]}
+                        </TabsTrigger>
+                      ))}
+                    </TabsList>
+                  </Tabs>
+                )}
+
+                <div className="grid grid-cols-6 md:grid-cols-9 gap-2">
+                  {items.map((item, idx) => sections[idx] === activeSection && (
+                    <button
+                      key={item.item_id}
+                      onClick={() => handleLetterClick(idx)}
+                      className={`
+                        aspect-square flex items-center justify-center
+                        text-3xl font-bold border-2 rounded-lg transition-colors cursor-pointer
+                        ${getLetterStyle(marks[idx])}
+                      `}
+                    >
+                      {(item.content_payload as { stimulus?: string } | null)?.stimulus || '?'}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Legend */}
+                <div className="flex gap-4 justify-center text-sm">
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded border-2 border-border bg-background" />
+                    <span>Not given</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded border-2 border-green-500 bg-green-100" />
+                    <span>Correct</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded border-2 border-red-500 bg-red-100" />
+                    <span>Incorrect</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Controls Panel */}
+          <div className="space-y-6">
+            {/* Scores */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Scores</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {presentSections.map(section => {
+                  const { correct, total } = sectionTotals[section];
+                  return (
+                    <div key={section} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">{ALPHABET_SECTION_LABELS[section]}</span>
+                        <span className="font-semibold">{correct}/{total}</span>
+                      </div>
+                      <Progress value={total > 0 ? (correct / total) * 100 : 0} className="h-2" />
+                    </div>
+                  );
+                })}
+                <div className="flex justify-between text-sm border-t pt-3">
+                  <span className="text-muted-foreground">Accuracy of letters given</span>
+                  <span className="font-semibold">{scores.accuracy_percentage}%</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Session */}
+            <Card>
+              <CardContent className="pt-6 space-y-4">
+                <div className="space-y-2">
+                  <Label>Discontinue Reason (if stopped early)</Label>
+                  <Select value={discontinueReason} onValueChange={setDiscontinueReason}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Not discontinued" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="student_refused">Student Refused</SelectItem>
+                      <SelectItem value="student_distressed">Student Distressed</SelectItem>
+                      <SelectItem value="technical_issue">Technical Issue</SelectItem>
+                      <SelectItem value="time_constraint">Time Constraint</SelectItem>
+                      <SelectItem value="other">Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Notes</Label>
+                  <Textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Optional notes..."
+                    rows={3}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Button
+              onClick={() => handleFinish()}
+              disabled={scores.letters_attempted === 0 || upsertResponse.isPending}
+              size="lg"
+              className="w-full gap-2"
+            >
+              <CheckCircle className="h-4 w-4" />
+              {upsertResponse.isPending ? 'Saving...' : 'Finish Session'}
+            </Button>
+          </div>
+        </div>
+      </main>
+
+      <StoppingRulePrompt
+        rule={stopping.prompt}
+        labelFor={(idx) => getDisplayText(items[idx]?.content_payload)}
+        onContinue={stopping.dismiss}
+        onDiscontinue={handleStoppingRuleDiscontinue}
+      />
+    </div>
+  );
+}
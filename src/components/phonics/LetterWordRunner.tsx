@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Link } from 'react-router-dom';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useExitSession } from '@/hooks/use-session-exit';
 import { ArrowLeft, ArrowRight, Check, X, Circle, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,10 +8,16 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
 import { useSessionResponses, useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import { useCurrentASR } from '@/lib/api/asrVersions';
+import { useStoppingRules, useDiscontinueByRule } from '@/hooks/use-stopping-rules';
+import { outcomesFromResponses } from '@/lib/scoring/stoppingRules';
+import { StoppingRulePrompt } from '@/components/runners/StoppingRulePrompt';
 import { toast } from 'sonner';
 import { getDisplayText, getPayloadField, getStimulusType } from '@/lib/itemDisplay';
-import type { SessionRow, ItemRow } from '@/types/database';
+import type { SessionRow, ItemRow, ASRSectionE } from '@/types/database';
+import { computeBasalCeiling, getBasalCeilingConfig, getStartIndex } from '@/types/basalCeiling';
 
 interface LetterWordRunnerProps {
   session: SessionRow;
@@ -23,6 +29,7 @@ type ErrorType = 'misidentification' | 'substitution' | 'omission' | 'no_respons
 
 export function LetterWordRunner({ session, items }: LetterWordRunnerProps) {
   const [currentIndex, setCurrentIndex] = useState(session.current_item_index ?? 0);
+  useStudentDisplayItem(session, currentIndex);
   const [responseState, setResponseState] = useState<ResponseState | null>(null);
   const [studentResponseText, setStudentResponseText] = useState('');
   const [errorType, setErrorType] = useState<ErrorType>(null);
@@ -32,10 +39,29 @@ export function LetterWordRunner({ session, items }: LetterWordRunnerProps) {
 
   const { data: responses, refetch: refetchResponses } = useSessionResponses(session.session_id);
   const updateSession = useUpdateSession();
+  const exitSession = useExitSession();
   const upsertResponse = useUpsertSessionResponse();
 
+  const outcomes = useMemo(() => outcomesFromResponses(items, responses), [items, responses]);
+  // The basal and ceiling steer administration here rather than prompting
+  const stopping = useStoppingRules(session.assessment_id, outcomes, { handled: ['basal', 'ceiling'] });
+  const discontinueByRule = useDiscontinueByRule(session, items, responses);
+
   const currentItem = items[currentIndex];
   const totalItems = items.length;
+
+  // Basal/ceiling administration from the grade's start point
+  const { data: asr } = useCurrentASR(session.assessment_id);
+  const startPoints = (asr?.section_e as ASRSectionE | null)?.start_points;
+  const startIndex = useMemo(
+    () => getStartIndex(items, session.grade_tag, startPoints),
+    [items, session.grade_tag, startPoints]
+  );
+  const basalCeilingConfig = useMemo(() => getBasalCeilingConfig(stopping.rules), [stopping.rules]);
+  const savedResults = useMemo(
+    () => Object.fromEntries(outcomes.map(o => [o.index, o.correct])),
+    [outcomes]
+  );
   const isConnected = !!session && items.length > 0;
 
   // Extract content using resilient helper (handles flat and nested payloads)
@@ -45,6 +71,23 @@ export function LetterWordRunner({ session, items }: LetterWordRunnerProps) {
   const difficultyBand = getPayloadField<string>(currentItem?.content_payload, 'difficulty_band') || 'medium';
   const orthographicPattern = getPayloadField<string | null>(currentItem?.content_payload, 'orthographic_pattern');
 
+  // Including the current mark, so the buttons show where it leads
+  const plan = computeBasalCeiling(
+    responseState === null ? savedResults : { ...savedResults, [currentIndex]: responseState === 'correct' },
+    startIndex,
+    totalItems,
+    basalCeilingConfig
+  );
+
+  // A new session opens at the grade's start point
+  const { mutate: moveSessionTo } = updateSession;
+  useEffect(() => {
+    if (responses?.length === 0 && startIndex > 0 && session.current_item_index !== startIndex) {
+      setCurrentIndex(startIndex);
+      moveSessionTo({ id: session.session_id, updates: { current_item_index: startIndex } });
+    }
+  }, [responses, startIndex, session.current_item_index, session.session_id, moveSessionTo]);
+
   // Load existing response for current item
   useEffect(() => {
     if (responses && currentItem) {
@@ -101,6 +144,8 @@ export function LetterWordRunner({ session, items }: LetterWordRunnerProps) {
       student_response_text: studentResponseText || null,
       error_type: errorType,
       stimulus_type: stimulusType,
+      item_index: currentIndex,
+      basal_ceiling: { start_index: startIndex, ...basalCeilingConfig },
     } as const;
 
     try {
@@ -122,14 +167,14 @@ export function LetterWordRunner({ session, items }: LetterWordRunnerProps) {
       toast.error('Failed to save response');
       return false;
     }
-  }, [currentItem, responseState, studentResponseText, errorType, stimulusType, notes, discontinueFlag, discontinueReason, session.session_id, upsertResponse, refetchResponses]);
+  }, [currentItem, currentIndex, startIndex, basalCeilingConfig, responseState, studentResponseText, errorType, stimulusType, notes, discontinueFlag, discontinueReason, session.session_id, upsertResponse, refetchResponses]);
 
   const handleNext = async () => {
     const saved = await saveResponse();
     if (!saved) return;
 
-    if (currentIndex < totalItems - 1) {
-      const nextIndex = currentIndex + 1;
+    if (plan.next_index !== null) {
+      const nextIndex = plan.next_index;
       setCurrentIndex(nextIndex);
       
       await updateSession.mutateAsync({
@@ -186,6 +231,13 @@ export function LetterWordRunner({ session, items }: LetterWordRunnerProps) {
     toast.success('Session discontinued');
   };
 
+  const handleStoppingRuleDiscontinue = async () => {
+    const rule = stopping.accept();
+    if (!rule) return;
+    await discontinueByRule(rule);
+    toast.success('Session discontinued');
+  };
+
   // Calculate letter/word correct counts from responses
   const letterCorrect = responses?.filter(r => {
     const c = r.computed_scores as Record<string, unknown> || {};
@@ -202,10 +254,8 @@ export function LetterWordRunner({ session, items }: LetterWordRunnerProps) {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
-          <Button variant="ghost" size="icon" asChild>
-            <Link to="/sessions">
-              <ArrowLeft className="h-4 w-4" />
-            </Link>
+          <Button variant="ghost" size="icon" onClick={() => exitSession()}>
+            <ArrowLeft className="h-4 w-4" />
           </Button>
           <div>
             <h1 className="text-xl font-bold text-foreground">
@@ -229,8 +279,19 @@ export function LetterWordRunner({ session, items }: LetterWordRunnerProps) {
       </div>
 
       {/* Progress */}
-      <div className="text-center">
+      <div className="text-center space-y-2">
         <span className="text-2xl font-bold">Item {currentIndex + 1} of {totalItems}</span>
+        <div className="flex justify-center gap-2">
+          <Badge variant="outline">Start: item {startIndex + 1}</Badge>
+          {plan.direction === 'reverse' ? (
+            <Badge variant="secondary">Testing back for a basal</Badge>
+          ) : plan.basal_index !== null && (
+            <Badge variant="secondary">Basal: item {plan.basal_index + 1}</Badge>
+          )}
+          {plan.ceiling_index !== null && (
+            <Badge variant="destructive">Ceiling: item {plan.ceiling_index + 1}</Badge>
+          )}
+        </div>
       </div>
 
       {/* Student Stimulus Display */}
@@ -398,7 +459,7 @@ export function LetterWordRunner({ session, items }: LetterWordRunnerProps) {
         </Button>
 
         <div className="flex gap-2">
-          {currentIndex < totalItems - 1 ? (
+          {plan.next_index !== null ? (
             <Button onClick={handleNext} disabled={responseState === null}>
               Save & Next
               <ArrowRight className="h-4 w-4 ml-2" />
@@ -410,6 +471,13 @@ export function LetterWordRunner({ session, items }: LetterWordRunnerProps) {
           )}
         </div>
       </div>
+
+      <StoppingRulePrompt
+        rule={stopping.prompt}
+        labelFor={(idx) => getDisplayText(items[idx]?.content_payload)}
+        onContinue={stopping.dismiss}
+        onDiscontinue={handleStoppingRuleDiscontinue}
+      />
     </div>
   );
 }
@@ -0,0 +1,482 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useExitSession } from '@/hooks/use-session-exit';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, CheckCircle, Play, Square, RotateCcw, Check, X, Blend, ListChecks } from 'lucide-react';
+import { ConnectionBadge } from '@/components/runners/ConnectionBadge';
+import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
+import { useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import { useStoppingRules } from '@/hooks/use-stopping-rules';
+import { toItemOutcomes } from '@/lib/scoring/stoppingRules';
+import { StoppingRulePrompt } from '@/components/runners/StoppingRulePrompt';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+import type { FiredStoppingRule } from '@/lib/scoring/stoppingRules';
+import { getDisplayText } from '@/lib/itemDisplay';
+import type { Json } from '@/integrations/supabase/types';
+import type { SessionRow, ItemRow } from '@/types/database';
+import {
+  type PseudowordContent,
+  type PseudowordResponse,
+  type PseudowordScoringMode,
+  PSEUDOWORD_MODE_LABELS,
+  computePseudowordScores,
+  getGraphemes,
+  getModeSounds,
+} from '@/types/pseudoword';
+
+const TIMER_DURATION = 60;
+
+type TimerState = 'idle' | 'running' | 'completed' | 'discontinued';
+
+// Working state checkpointed so a reload can resume mid-list
+interface PseudowordDraft {
+  currentIndex: number;
+  responses: Record<number, PseudowordResponse>;
+  markedSounds: boolean[];
+  timerState: TimerState;
+  remainingSeconds: number;
+  elapsedSeconds: number;
+  discontinueReason: string;
+  notes: string;
+  acceptedRule: FiredStoppingRule | null;
+}
+
+interface PseudowordRunnerProps {
+  session: SessionRow;
+  items: ItemRow[];
+}
+
+/**
+ * Timed nonsense word decoding (PH-PSWD). Each word is scored as read whole,
+ * recoded and blended, or sound by sound, producing correct letter sounds
+ * (CLS) and whole words read (WWR).
+ */
+export function PseudowordRunner({ session, items }: PseudowordRunnerProps) {
+  const exitSession = useExitSession();
+  const updateSession = useUpdateSession();
+  const upsertResponse = useUpsertSessionResponse();
+
+  const resumed = useResumedDraft<PseudowordDraft>();
+
+  const [currentIndex, setCurrentIndex] = useState(resumed?.currentIndex ?? 0);
+  useStudentDisplayItem(session, currentIndex);
+  const [responses, setResponses] = useState<Record<number, PseudowordResponse>>(resumed?.responses ?? {});
+  const [markedSounds, setMarkedSounds] = useState<boolean[]>(resumed?.markedSounds ?? []);
+  
+  // Timer state
+  const [timerState, setTimerState] = useState<TimerState>(resumed?.timerState ?? 'idle');
+  const [remainingSeconds, setRemainingSeconds] = useState(resumed?.remainingSeconds ?? TIMER_DURATION);
+  const [elapsedSeconds, setElapsedSeconds] = useState(resumed?.elapsedSeconds ?? 0);
+  
+  // UI state
+  const [discontinueReason, setDiscontinueReason] = useState(resumed?.discontinueReason ?? '');
+  const [notes, setNotes] = useState(resumed?.notes ?? '');
+
+  const currentItem = items[currentIndex];
+  const graphemes = useMemo(
+    () => getGraphemes(currentItem?.content_payload as PseudowordContent | null),
+    [currentItem]
+  );
+  const totalItems = items.length;
+
+  // Computed scores
+  const scores = useMemo(() => computePseudowordScores(responses, elapsedSeconds), [responses, elapsedSeconds]);
+
+  // A word counts as correct for the rules only when every sound was
+  const outcomes = useMemo(
+    () => toItemOutcomes(Object.fromEntries(
+      Object.entries(responses).map(([idx, r]) => [idx, r.sounds.length > 0 && r.sounds.every(Boolean)])
+    )),
+    [responses]
+  );
+  const stopping = useStoppingRules(session.assessment_id, outcomes, {
+    timerExpired: remainingSeconds === 0,
+    active: timerState === 'running',
+    initialAccepted: resumed?.acceptedRule,
+  });
+  const { accept: acceptStoppingRule, reset: resetStoppingRules } = stopping;
+  const stoppedBy = stopping.accepted ?? stopping.timerRule;
+
+  // Timer countdown
+  useEffect(() => {
+    if (timerState !== 'running') return;
+    
+    const interval = setInterval(() => {
+      setRemainingSeconds((prev) => {
+        if (prev <= 1) {
+          setTimerState('completed');
+          return 0;
+        }
+        return prev - 1;
+      });
+      setElapsedSeconds((prev) => prev + 1);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [timerState]);
+
+  const handleResponse = useCallback((mode: PseudowordScoringMode) => {
+    if (timerState !== 'running') return;
+
+    const sounds = getModeSounds(mode, graphemes.length, markedSounds);
+    setResponses(prev => ({ ...prev, [currentIndex]: { mode, sounds } }));
+    setMarkedSounds([]);
+
+    // Auto-advance to next word
+    if (currentIndex < totalItems - 1) {
+      setCurrentIndex(prev => prev + 1);
+    } else {
+      setTimerState('completed');
+    }
+  }, [timerState, currentIndex, totalItems, graphemes, markedSounds]);
+
+  const toggleSound = (index: number) => {
+    if (timerState !== 'running') return;
+    setMarkedSounds(prev => {
+      const next = [...prev];
+      next[index] = !next[index];
+      return next;
+    });
+  };
+
+  const handleStart = useCallback(() => {
+    setTimerState('running');
+    if (session.status === 'created') {
+      updateSession.mutate({
+        id: session.session_id,
+        updates: {
+          status: 'in_progress',
+          started_at: new Date().toISOString(),
+        }
+      });
+    }
+  }, [session, updateSession]);
+
+  const handleStop = useCallback(() => {
+    setTimerState('discontinued');
+  }, []);
+
+  const handleStoppingRuleDiscontinue = useCallback(() => {
+    acceptStoppingRule();
+    setTimerState('discontinued');
+  }, [acceptStoppingRule]);
+
+  const handleReset = useCallback(() => {
+    setResponses({});
+    setMarkedSounds([]);
+    setCurrentIndex(0);
+    setTimerState('idle');
+    setRemainingSeconds(TIMER_DURATION);
+    setElapsedSeconds(0);
+    setDiscontinueReason('');
+    setNotes('');
+    resetStoppingRules();
+  }, [resetStoppingRules]);
+
+  const handleFinish = useCallback(async () => {
+    const isDiscontinued = timerState === 'discontinued';
+    const reason = discontinueReason || stopping.accepted?.description || '';
+    
+    if (isDiscontinued && !reason) return;
+
+    // Save all responses; the session totals ride on the first one
+    for (const [idx, response] of Object.entries(responses)) {
+      const item = items[parseInt(idx)];
+      const isFirst = parseInt(idx) === 0;
+      const detail = {
+        pseudoword: {
+          mode: response.mode,
+          sounds: response.sounds,
+          graphemes: getGraphemes(item.content_payload as PseudowordContent | null),
+        },
+      };
+      await upsertResponse.mutateAsync({
+        session_id: session.session_id,
+        item_id: item.item_id,
+        sequence_number: item.sequence_number,
+        is_correct: response.sounds.length > 0 && response.sounds.every(Boolean),
+        error_tags: response.mode === 'sounds' ? ['sound_by_sound'] : response.mode === 'recoded' ? ['recoded'] : [],
+        elapsed_seconds: elapsedSeconds,
+        notes: isFirst ? notes : undefined,
+        computed_scores: (isFirst ? { ...scores, ...detail, stopping_rule: stoppedBy ?? undefined } : detail) as unknown as Json,
+        discontinue_flag: isFirst ? isDiscontinued : undefined,
+        discontinue_reason: isFirst && isDiscontinued ? reason : undefined,
+      });
+    }
+
+    await updateSession.mutateAsync({
+      id: session.session_id,
+      updates: {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      }
+    });
+
+    exitSession();
+  }, [timerState, discontinueReason, stopping.accepted, stoppedBy, responses, elapsedSeconds, scores, notes, session, items, upsertResponse, updateSession, exitSession]);
+
+  const isComplete = timerState === 'completed' || timerState === 'discontinued';
+
+  useDraftCheckpoint<PseudowordDraft>(session, {
+    currentIndex,
+    responses,
+    markedSounds,
+    timerState,
+    remainingSeconds,
+    elapsedSeconds,
+    discontinueReason,
+    notes,
+    acceptedRule: stopping.accepted,
+  }, { currentItemIndex: currentIndex, remainingSeconds, enabled: timerState !== 'idle' });
+  const canFinish = isComplete && (timerState !== 'discontinued' || !!discontinueReason || !!stopping.accepted);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => exitSession()}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div>
+                <h1 className="text-xl font-semibold">Pseudoword Decoding</h1>
+                <p className="text-sm text-muted-foreground">
+                  {session.student_name} • {session.grade_tag || session.form_id}
+                </p>
+              </div>
+            </div>
+            <ConnectionBadge />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6">
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Word Display */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>Current Word</span>
+                  <Badge variant="secondary">
+                    Word {currentIndex + 1} of {totalItems}
+                  </Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="flex justify-center gap-2 py-8">
+                  {graphemes.map((grapheme, idx) => (
+                    <button
+                      key={idx}
+                      type="button"
+                      onClick={() => toggleSound(idx)}
+                      disabled={timerState !== 'running'}
+                      className={`min-w-16 px-3 py-4 rounded-lg border-2 text-6xl font-bold transition-colors ${
+                        markedSounds[idx]
+                          ? 'border-green-600 bg-green-100 dark:bg-green-900/30'
+                          : 'border-border bg-card hover:bg-muted/50'
+                      }`}
+                    >
+                      {grapheme}
+                    </button>
+                  ))}
+                </div>
+
+                {timerState === 'running' && (
+                  <div className="space-y-3">
+                    <p className="text-sm text-center text-muted-foreground">
+                      Tap each sound produced correctly, then score sound by sound
+                    </p>
+                    <div className="flex flex-wrap justify-center gap-3">
+                      <Button
+                        size="lg"
+                        className="px-8 py-6 text-lg bg-green-600 hover:bg-green-700"
+                        onClick={() => handleResponse('whole')}
+                      >
+                        <Check className="h-5 w-5 mr-2" />
+                        {PSEUDOWORD_MODE_LABELS.whole}
+                      </Button>
+                      <Button
+                        size="lg"
+                        variant="secondary"
+                        className="px-8 py-6 text-lg"
+                        onClick={() => handleResponse('recoded')}
+                      >
+                        <Blend className="h-5 w-5 mr-2" />
+                        {PSEUDOWORD_MODE_LABELS.recoded}
+                      </Button>
+                      <Button
+                        size="lg"
+                        variant="outline"
+                        className="px-8 py-6 text-lg"
+                        onClick={() => handleResponse('sounds')}
+                      >
+                        {markedSounds.some(Boolean) ? (
+                          <ListChecks className="h-5 w-5 mr-2" />
+                        ) : (
+                          <X className="h-5 w-5 mr-2" />
+                        )}
+                        {PSEUDOWORD_MODE_LABELS.sounds} ({markedSounds.filter(Boolean).length}/{graphemes.length})
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Previous words */}
+                {Object.keys(responses).length > 0 && (
+                  <div className="border-t pt-4">
+                    <p className="text-sm text-muted-foreground mb-2">Previous words:</p>
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(responses).slice(-10).map(([idx, response]) => {
+                        const item = items[parseInt(idx)];
+                        const word = getGraphemes(item?.content_payload as PseudowordContent | null).join('');
+                        const correct = response.sounds.filter(Boolean).length;
+                        return (
+                          <Badge
+                            key={idx}
+                            variant={response.mode === 'whole' ? 'default' : response.mode === 'recoded' ? 'secondary' : 'outline'}
+                            className={response.mode === 'whole' ? 'bg-green-600' : ''}
+                          >
+                            {word} • {correct}/{response.sounds.length}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Controls */}
+          <div className="space-y-6">
+            {/* Timer */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Timer</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="text-center">
+                  <span className={`text-5xl font-mono ${remainingSeconds <= 10 ? 'text-destructive' : ''}`}>
+                    {remainingSeconds}s
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  {timerState === 'idle' && (
+                    <Button onClick={handleStart} className="flex-1 gap-2">
+                      <Play className="h-4 w-4" /> Start
+                    </Button>
+                  )}
+                  {timerState === 'running' && (
+                    <Button onClick={handleStop} variant="destructive" className="flex-1 gap-2">
+                      <Square className="h-4 w-4" /> Stop
+                    </Button>
+                  )}
+                  {isComplete && (
+                    <Button onClick={handleReset} variant="outline" className="flex-1 gap-2">
+                      <RotateCcw className="h-4 w-4" /> Reset
+                    </Button>
+                  )}
+                </div>
+
+                {stopping.accepted && (
+                  <p className="text-sm text-muted-foreground">
+                    Discontinued by stopping rule: {stopping.accepted.description}
+                  </p>
+                )}
+
+                {timerState === 'discontinued' && !stopping.accepted && (
+                  <div className="space-y-2">
+                    <Label>Discontinue Reason (required)</Label>
+                    <Select value={discontinueReason} onValueChange={setDiscontinueReason}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select reason..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="student_refused">Student Refused</SelectItem>
+                        <SelectItem value="student_distressed">Student Distressed</SelectItem>
+                        <SelectItem value="technical_issue">Technical Issue</SelectItem>
+                        <SelectItem value="time_constraint">Time Constraint</SelectItem>
+                        <SelectItem value="other">Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Notes</Label>
+                  <Textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Optional notes..."
+                    rows={3}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Scores */}
+            <Card>
+              <CardHeader>
+                <CardTitle>{isComplete ? 'Final Scores' : 'Live Scores'}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground">CLS</dt>
+                    <dd className="text-2xl font-bold">{scores.correct_letter_sounds}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">WWR</dt>
+                    <dd className="text-2xl font-bold">{scores.whole_words_read}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Words Attempted</dt>
+                    <dd className="text-lg font-semibold">{scores.words_attempted}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Sound Accuracy</dt>
+                    <dd className="text-lg font-semibold">{scores.accuracy_percentage}%</dd>
+                  </div>
+                  {timerState === 'completed' && elapsedSeconds < TIMER_DURATION && (
+                    <div className="col-span-2 text-xs text-muted-foreground">
+                      Finished early: {scores.cls_per_minute} CLS / {scores.wwr_per_minute} WWR per minute
+                    </div>
+                  )}
+                </dl>
+              </CardContent>
+            </Card>
+
+            {/* Finish */}
+            {isComplete && (
+              <Button 
+                onClick={handleFinish} 
+                disabled={!canFinish || upsertResponse.isPending}
+                size="lg" 
+                className="w-full gap-2"
+              >
+                <CheckCircle className="h-4 w-4" />
+                {upsertResponse.isPending ? 'Saving...' : 'Finish Session'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <StoppingRulePrompt
+        rule={stopping.prompt}
+        labelFor={(idx) => getDisplayText(items[idx]?.content_payload)}
+        onContinue={stopping.dismiss}
+        onDiscontinue={handleStoppingRuleDiscontinue}
+      />
+    </div>
+  );
+}
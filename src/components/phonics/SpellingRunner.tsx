@@ -0,0 +1,340 @@
+import { useState, useCallback, useMemo } from 'react';
+import { useExitSession } from '@/hooks/use-session-exit';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, ArrowRight, CheckCircle, Volume2 } from 'lucide-react';
+import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
+import { useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import {
+  analyzeSpelling,
+  summarizeSpelling,
+  SPELLING_FEATURE_LABELS,
+  type SpellingAnalysis,
+  type SpellingFeature,
+} from '@/lib/scoring/spellingAnalysis';
+import type { Json } from '@/integrations/supabase/types';
+import type { SessionRow, ItemRow } from '@/types/database';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+
+interface SpellingRunnerProps {
+  session: SessionRow;
+  items: ItemRow[];
+}
+
+interface ItemPayload {
+  target_word?: string;
+  stimulus?: string;
+  text?: string;
+  sentence?: string;
+  context_sentence?: string;
+  /** Features to score; detected from the target word when omitted */
+  features?: SpellingFeature[];
+}
+
+// Working state checkpointed so a reload keeps typed attempts not yet saved
+interface SpellingDraft {
+  currentIndex: number;
+  responses: Record<number, { attempt: string; notes: string }>;
+}
+
+const getTargetWord = (payload: ItemPayload | undefined) =>
+  payload?.target_word || payload?.stimulus || payload?.text || '';
+
+function analyzeItem(item: ItemRow | undefined, attempt: string): SpellingAnalysis {
+  const payload = item?.content_payload as ItemPayload | undefined;
+  const target = getTargetWord(payload);
+  return payload?.features?.length
+    ? analyzeSpelling(target, attempt, payload.features)
+    : analyzeSpelling(target, attempt);
+}
+
+/**
+ * Dictated spelling (PH-SPEL). The assessor reads each word, types the
+ * student's attempt and gets partial credit for correct letter sequences and
+ * spelling features alongside whole-word correctness.
+ */
+export function SpellingRunner({ session, items }: SpellingRunnerProps) {
+  const exitSession = useExitSession();
+  const updateSession = useUpdateSession();
+  const upsertResponse = useUpsertSessionResponse();
+
+  const resumed = useResumedDraft<SpellingDraft>();
+
+  const [currentIndex, setCurrentIndex] = useState(resumed?.currentIndex ?? (session.current_item_index || 0));
+  useStudentDisplayItem(session, currentIndex);
+  const [responses, setResponses] = useState<Record<number, { attempt: string; notes: string }>>(resumed?.responses ?? {});
+
+  useDraftCheckpoint<SpellingDraft>(session, { currentIndex, responses }, {
+    currentItemIndex: currentIndex,
+    enabled: Object.keys(responses).length > 0,
+  });
+
+  const currentItem = items[currentIndex];
+  const totalItems = items.length;
+  const payload = currentItem?.content_payload as ItemPayload | undefined;
+  const targetWord = getTargetWord(payload);
+  const sentence = payload?.sentence || payload?.context_sentence || '';
+
+  const currentResponse = responses[currentIndex] || { attempt: '', notes: '' };
+  const currentAnalysis = useMemo(
+    () => (currentResponse.attempt.trim() ? analyzeItem(currentItem, currentResponse.attempt) : null),
+    [currentItem, currentResponse.attempt]
+  );
+
+  // Running totals across every attempted word
+  const summary = useMemo(() => summarizeSpelling(
+    Object.entries(responses)
+      .filter(([, r]) => r.attempt.trim())
+      .map(([idx, r]) => analyzeItem(items[parseInt(idx)], r.attempt))
+  ), [responses, items]);
+
+  const updateResponse = useCallback((changes: Partial<{ attempt: string; notes: string }>) => {
+    setResponses(prev => ({
+      ...prev,
+      [currentIndex]: { attempt: '', notes: '', ...prev[currentIndex], ...changes },
+    }));
+  }, [currentIndex]);
+
+  const saveResponse = useCallback(async (index: number, computedScores: Record<string, unknown>) => {
+    const item = items[index];
+    const response = responses[index];
+    if (!item || !response?.attempt.trim()) return;
+
+    const analysis = analyzeItem(item, response.attempt);
+    await upsertResponse.mutateAsync({
+      session_id: session.session_id,
+      item_id: item.item_id,
+      sequence_number: item.sequence_number,
+      is_correct: analysis.word_correct,
+      error_tags: analysis.features.filter(f => !f.correct).map(f => f.feature),
+      notes: response.notes || null,
+      computed_scores: { ...computedScores, spelling: analysis } as unknown as Json,
+    });
+  }, [items, responses, session.session_id, upsertResponse]);
+
+  const handleNext = useCallback(async () => {
+    await saveResponse(currentIndex, {});
+
+    if (currentIndex < totalItems - 1) {
+      const nextIndex = currentIndex + 1;
+      setCurrentIndex(nextIndex);
+      await updateSession.mutateAsync({
+        id: session.session_id,
+        updates: { current_item_index: nextIndex }
+      });
+    }
+  }, [currentIndex, totalItems, saveResponse, session.session_id, updateSession]);
+
+  const handleBack = useCallback(() => {
+    if (currentIndex > 0) {
+      setCurrentIndex(currentIndex - 1);
+    }
+  }, [currentIndex]);
+
+  const handleFinish = useCallback(async () => {
+    await saveResponse(currentIndex, {});
+
+    // Session totals and the feature breakdown ride on the first attempted word
+    const firstIndex = Object.keys(responses)
+      .map(Number)
+      .filter(idx => responses[idx].attempt.trim())
+      .sort((a, b) => a - b)[0];
+    if (firstIndex !== undefined) {
+      await saveResponse(firstIndex, { ...summary });
+    }
+
+    await updateSession.mutateAsync({
+      id: session.session_id,
+      updates: {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      }
+    });
+
+    exitSession();
+  }, [currentIndex, responses, summary, saveResponse, session.session_id, updateSession, exitSession]);
+
+  const canProceed = currentResponse.attempt.trim().length > 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => exitSession()}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div>
+                <h1 className="text-xl font-semibold">Spelling</h1>
+                <p className="text-sm text-muted-foreground">
+                  {session.student_name} • {session.grade_tag || session.form_id}
+                </p>
+              </div>
+            </div>
+            <Badge variant="secondary">
+              Word {currentIndex + 1} of {totalItems}
+            </Badge>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6">
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Dictation Area */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Volume2 className="h-5 w-5 text-muted-foreground" />
+                  Read Aloud
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="text-center py-4 space-y-2">
+                  <p className="text-5xl font-bold">{targetWord}</p>
+                  {sentence && (
+                    <p className="text-lg text-muted-foreground italic">"{sentence}"</p>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    Say the word, read the sentence, then say the word again.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="attempt">Student's spelling</Label>
+                  <Input
+                    id="attempt"
+                    value={currentResponse.attempt}
+                    onChange={(e) => updateResponse({ attempt: e.target.value })}
+                    placeholder="Type exactly what the student wrote"
+                    className="text-2xl h-14 font-mono"
+                    autoComplete="off"
+                    autoCapitalize="off"
+                    spellCheck={false}
+                  />
+                </div>
+
+                {/* Live analysis */}
+                {currentAnalysis && (
+                  <div className="space-y-3 rounded-lg border p-4">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">
+                        Correct letter sequences: {' '}
+                        <span className="font-semibold text-foreground">
+                          {currentAnalysis.correct_letter_sequences}/{currentAnalysis.possible_letter_sequences}
+                        </span>
+                      </span>
+                      {currentAnalysis.word_correct ? (
+                        <Badge className="bg-green-600">Correct</Badge>
+                      ) : (
+                        <Badge variant="destructive">Misspelled</Badge>
+                      )}
+                    </div>
+                    {currentAnalysis.features.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {currentAnalysis.features.map((f, idx) => (
+                          <Badge
+                            key={idx}
+                            variant="outline"
+                            className={f.correct
+                              ? 'border-green-500 text-green-700 dark:text-green-400'
+                              : 'border-red-500 text-red-700 dark:text-red-400'}
+                          >
+                            {SPELLING_FEATURE_LABELS[f.feature]}: {f.pattern}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Notes</Label>
+                  <Textarea
+                    value={currentResponse.notes}
+                    onChange={(e) => updateResponse({ notes: e.target.value })}
+                    placeholder="Optional notes..."
+                    rows={2}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Scores Panel */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Progress</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground">Words Correct</dt>
+                    <dd className="text-2xl font-bold">{summary.words_correct}/{summary.words_spelled}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">CLS</dt>
+                    <dd className="text-2xl font-bold">
+                      {summary.correct_letter_sequences}/{summary.possible_letter_sequences}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Feature Points</dt>
+                    <dd className="text-lg font-semibold">
+                      {summary.feature_points}/{summary.possible_feature_points}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Feature %</dt>
+                    <dd className="text-lg font-semibold">{summary.feature_percentage}%</dd>
+                  </div>
+                </dl>
+              </CardContent>
+            </Card>
+
+            {/* Navigation */}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={handleBack}
+                disabled={currentIndex === 0}
+                className="flex-1"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              {currentIndex < totalItems - 1 ? (
+                <Button
+                  onClick={handleNext}
+                  disabled={!canProceed}
+                  className="flex-1"
+                >
+                  Next
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleFinish}
+                  disabled={!canProceed || upsertResponse.isPending}
+                  className="flex-1 gap-2"
+                >
+                  <CheckCircle className="h-4 w-4" />
+                  Finish
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
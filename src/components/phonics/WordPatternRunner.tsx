@@ -0,0 +1,278 @@
+import { useState, useCallback, useMemo } from 'react';
+import { useExitSession } from '@/hooks/use-session-exit';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, CheckCircle } from 'lucide-react';
+import { ConnectionBadge } from '@/components/runners/ConnectionBadge';
+import { useUpdateSession } from '@/lib/api/sessions';
+import { useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import { useStoppingRules } from '@/hooks/use-stopping-rules';
+import { toItemOutcomes, type FiredStoppingRule } from '@/lib/scoring/stoppingRules';
+import { StoppingRulePrompt } from '@/components/runners/StoppingRulePrompt';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+import { getDisplayText } from '@/lib/itemDisplay';
+import type { Json } from '@/integrations/supabase/types';
+import type { SessionRow, ItemRow } from '@/types/database';
+import {
+  PATTERN_MASTERY_BADGE_STYLES,
+  PATTERN_MASTERY_LABELS,
+  WORD_PATTERNS,
+  WORD_PATTERN_LABELS,
+  computePatternMastery,
+  getWordPattern,
+} from '@/types/wordPattern';
+
+// Working state checkpointed so a reload can resume mid-list
+interface WordPatternDraft {
+  marks: Record<number, boolean>;
+  discontinueReason: string;
+  notes: string;
+}
+
+interface WordPatternRunnerProps {
+  session: SessionRow;
+  items: ItemRow[];
+}
+
+/**
+ * Word pattern knowledge (PH-WPAT). Words are grouped by phonics pattern and
+ * mastery is reported per pattern rather than as one accuracy score.
+ */
+export function WordPatternRunner({ session, items }: WordPatternRunnerProps) {
+  const exitSession = useExitSession();
+  const updateSession = useUpdateSession();
+  const upsertResponse = useUpsertSessionResponse();
+
+  const patterns = useMemo(() => items.map(getWordPattern), [items]);
+  const groups = useMemo(
+    () => WORD_PATTERNS
+      .map(pattern => ({ pattern, indexes: patterns.flatMap((p, idx) => (p === pattern ? [idx] : [])) }))
+      .filter(g => g.indexes.length > 0),
+    [patterns]
+  );
+
+  const resumed = useResumedDraft<WordPatternDraft>();
+
+  // Item index -> read correctly
+  const [marks, setMarks] = useState<Record<number, boolean>>(resumed?.marks ?? {});
+
+  // UI state
+  const [discontinueReason, setDiscontinueReason] = useState(resumed?.discontinueReason ?? '');
+  const [notes, setNotes] = useState(resumed?.notes ?? '');
+
+  // Computed scores
+  const scores = useMemo(() => computePatternMastery(patterns, marks), [patterns, marks]);
+
+  const outcomes = useMemo(() => toItemOutcomes(marks), [marks]);
+  const stopping = useStoppingRules(session.assessment_id, outcomes);
+
+  const markedIndexes = Object.keys(marks).map(Number);
+  useDraftCheckpoint<WordPatternDraft>(session, { marks, discontinueReason, notes }, {
+    currentItemIndex: markedIndexes.length > 0 ? Math.max(...markedIndexes) : 0,
+    enabled: markedIndexes.length > 0,
+  });
+
+  // Cycle unmarked -> correct -> incorrect -> unmarked
+  const handleWordClick = useCallback((index: number) => {
+    setMarks(prev => {
+      const next = { ...prev };
+      if (prev[index] === undefined) {
+        next[index] = true;
+      } else if (prev[index]) {
+        next[index] = false;
+      } else {
+        delete next[index];
+      }
+      return next;
+    });
+  }, []);
+
+  const handleFinish = useCallback(async (stoppedBy?: FiredStoppingRule | null) => {
+    const reason = discontinueReason || stoppedBy?.description || '';
+    const isDiscontinued = !!reason;
+
+    // Save every scored word; the session totals ride on the first one
+    const marked = Object.keys(marks).map(Number).sort((a, b) => a - b);
+    for (const idx of marked) {
+      const item = items[idx];
+      const isFirst = idx === marked[0];
+      const detail = { word_pattern: patterns[idx] };
+      await upsertResponse.mutateAsync({
+        session_id: session.session_id,
+        item_id: item.item_id,
+        sequence_number: item.sequence_number,
+        is_correct: marks[idx],
+        error_tags: marks[idx] ? [] : [patterns[idx]],
+        notes: isFirst ? notes : undefined,
+        computed_scores: (isFirst ? { ...scores, ...detail, stopping_rule: stoppedBy ?? undefined } : detail) as unknown as Json,
+        discontinue_flag: isFirst ? isDiscontinued : undefined,
+        discontinue_reason: isFirst && isDiscontinued ? reason : undefined,
+      });
+    }
+
+    await updateSession.mutateAsync({
+      id: session.session_id,
+      updates: {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      }
+    });
+
+    exitSession();
+  }, [discontinueReason, marks, items, patterns, notes, scores, session.session_id, upsertResponse, updateSession, exitSession]);
+
+  const handleStoppingRuleDiscontinue = useCallback(() => {
+    void handleFinish(stopping.accept());
+  }, [handleFinish, stopping]);
+
+  const getWordStyle = (mark: boolean | undefined) => {
+    if (mark === true) return 'bg-green-100 border-green-500 text-green-700';
+    if (mark === false) return 'bg-red-100 border-red-500 text-red-700';
+    return 'bg-background border-border hover:bg-muted';
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => exitSession()}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div>
+                <h1 className="text-xl font-semibold">Word Pattern Knowledge</h1>
+                <p className="text-sm text-muted-foreground">
+                  {session.student_name} • {session.grade_tag || session.form_id}
+                </p>
+              </div>
+            </div>
+            <ConnectionBadge />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6">
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Pattern Groups */}
+          <div className="lg:col-span-2 space-y-4">
+            {groups.map(({ pattern, indexes }) => {
+              const mastery = scores.pattern_breakdown[pattern];
+              return (
+                <Card key={pattern}>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="flex items-center justify-between text-base">
+                      <span>{WORD_PATTERN_LABELS[pattern]}</span>
+                      {mastery ? (
+                        <Badge className={PATTERN_MASTERY_BADGE_STYLES[mastery.status]}>
+                          {PATTERN_MASTERY_LABELS[mastery.status]} • {mastery.correct}/{mastery.total}
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary">{indexes.length} words</Badge>
+                      )}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+                      {indexes.map(idx => {
+                        const payload = items[idx].content_payload as { stimulus?: string; text?: string } | null;
+                        return (
+                          <button
+                            key={items[idx].item_id}
+                            onClick={() => handleWordClick(idx)}
+                            className={`px-3 py-3 text-xl font-semibold border-2 rounded-lg transition-colors ${getWordStyle(marks[idx])}`}
+                          >
+                            {payload?.stimulus || payload?.text || '?'}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          {/* Controls Panel */}
+          <div className="space-y-6">
+            {/* Scores */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Pattern Mastery</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground">Patterns Mastered</dt>
+                    <dd className="text-2xl font-bold">{scores.patterns_mastered}/{groups.length}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Words Correct</dt>
+                    <dd className="text-2xl font-bold">{scores.words_correct}/{scores.words_attempted}</dd>
+                  </div>
+                </dl>
+                <p className="text-xs text-muted-foreground mt-4">
+                  Tap a word once for correct, twice for incorrect, three times to clear.
+                </p>
+              </CardContent>
+            </Card>
+
+            {/* Session */}
+            <Card>
+              <CardContent className="pt-6 space-y-4">
+                <div className="space-y-2">
+                  <Label>Discontinue Reason (if stopped early)</Label>
+                  <Select value={discontinueReason} onValueChange={setDiscontinueReason}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Not discontinued" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="student_refused">Student Refused</SelectItem>
+                      <SelectItem value="student_distressed">Student Distressed</SelectItem>
+                      <SelectItem value="technical_issue">Technical Issue</SelectItem>
+                      <SelectItem value="time_constraint">Time Constraint</SelectItem>
+                      <SelectItem value="other">Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Notes</Label>
+                  <Textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Optional notes..."
+                    rows={3}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Button
+              onClick={() => handleFinish()}
+              disabled={scores.words_attempted === 0 || upsertResponse.isPending}
+              size="lg"
+              className="w-full gap-2"
+            >
+              <CheckCircle className="h-4 w-4" />
+              {upsertResponse.isPending ? 'Saving...' : 'Finish Session'}
+            </Button>
+          </div>
+        </div>
+      </main>
+
+      <StoppingRulePrompt
+        rule={stopping.prompt}
+        labelFor={(idx) => getDisplayText(items[idx]?.content_payload)}
+        onContinue={stopping.dismiss}
+        onDiscontinue={handleStoppingRuleDiscontinue}
+      />
+    </div>
+  );
+}
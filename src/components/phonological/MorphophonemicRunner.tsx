@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Link } from 'react-router-dom';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useExitSession } from '@/hooks/use-session-exit';
 import { ArrowLeft, ArrowRight, Check, X, Circle, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,7 +7,12 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
 import { useSessionResponses, useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import { useStoppingRules, useDiscontinueByRule } from '@/hooks/use-stopping-rules';
+import { outcomesFromResponses } from '@/lib/scoring/stoppingRules';
+import { StoppingRulePrompt } from '@/components/runners/StoppingRulePrompt';
+import { getDisplayText } from '@/lib/itemDisplay';
 import { toast } from 'sonner';
 import type { SessionRow, ItemRow } from '@/types/database';
 
@@ -40,6 +45,7 @@ interface ItemResponse {
 
 export function MorphophonemicRunner({ session, items }: MorphophonemicRunnerProps) {
   const [currentIndex, setCurrentIndex] = useState(session.current_item_index ?? 0);
+  useStudentDisplayItem(session, currentIndex);
   const [responseState, setResponseState] = useState<ResponseState | null>(null);
   const [studentResponseText, setStudentResponseText] = useState('');
   const [errorType, setErrorType] = useState<ErrorType>(null);
@@ -49,8 +55,13 @@ export function MorphophonemicRunner({ session, items }: MorphophonemicRunnerPro
 
   const { data: responses, refetch: refetchResponses } = useSessionResponses(session.session_id);
   const updateSession = useUpdateSession();
+  const exitSession = useExitSession();
   const upsertResponse = useUpsertSessionResponse();
 
+  const outcomes = useMemo(() => outcomesFromResponses(items, responses), [items, responses]);
+  const stopping = useStoppingRules(session.assessment_id, outcomes);
+  const discontinueByRule = useDiscontinueByRule(session, items, responses);
+
   const currentItem = items[currentIndex];
   const totalItems = items.length;
   const isConnected = !!session && items.length > 0;
@@ -213,15 +224,20 @@ export function MorphophonemicRunner({ session, items }: MorphophonemicRunnerPro
     toast.success('Session discontinued');
   };
 
+  const handleStoppingRuleDiscontinue = async () => {
+    const rule = stopping.accept();
+    if (!rule) return;
+    await discontinueByRule(rule);
+    toast.success('Session discontinued');
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
-          <Button variant="ghost" size="icon" asChild>
-            <Link to="/sessions">
-              <ArrowLeft className="h-4 w-4" />
-            </Link>
+          <Button variant="ghost" size="icon" onClick={() => exitSession()}>
+            <ArrowLeft className="h-4 w-4" />
           </Button>
           <div>
             <h1 className="text-xl font-bold text-foreground">
@@ -411,6 +427,13 @@ export function MorphophonemicRunner({ session, items }: MorphophonemicRunnerPro
           )}
         </div>
       </div>
+
+      <StoppingRulePrompt
+        rule={stopping.prompt}
+        labelFor={(idx) => getDisplayText(items[idx]?.content_payload)}
+        onContinue={stopping.dismiss}
+        onDiscontinue={handleStoppingRuleDiscontinue}
+      />
     </div>
   );
 }
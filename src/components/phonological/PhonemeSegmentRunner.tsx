@@ -1,5 +1,5 @@
 import { useState, useCallback, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useExitSession } from '@/hooks/use-session-exit';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -8,8 +8,21 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { ArrowLeft, ArrowRight, CheckCircle, Check, X, MinusCircle } from 'lucide-react';
 import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
 import { useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import { useUploadSessionRecording } from '@/lib/api/sessionRecordings';
+import { useAudioRecorder } from '@/hooks/use-audio-recorder';
+import { RecordAudioToggle } from '@/components/recording/RecordAudioToggle';
 import type { SessionRow, ItemRow } from '@/types/database';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+
+type SegmentResponse = { isCorrect: boolean | null; notes: string };
+
+// Working state checkpointed so a reload keeps marks not yet saved
+interface PhonemeSegmentDraft {
+  currentIndex: number;
+  responses: Record<number, SegmentResponse>;
+}
 
 interface PhonemeSegmentRunnerProps {
   session: SessionRow;
@@ -25,12 +38,23 @@ interface ItemPayload {
 }
 
 export function PhonemeSegmentRunner({ session, items }: PhonemeSegmentRunnerProps) {
-  const navigate = useNavigate();
+  const exitSession = useExitSession();
   const updateSession = useUpdateSession();
   const upsertResponse = useUpsertSessionResponse();
+  const uploadRecording = useUploadSessionRecording();
+  const recorder = useAudioRecorder();
+  const { start: startRecording, stop: stopRecording, mark: markRecording } = recorder;
 
-  const [currentIndex, setCurrentIndex] = useState(session.current_item_index || 0);
-  const [responses, setResponses] = useState<Record<number, { isCorrect: boolean | null; notes: string }>>({});
+  const resumed = useResumedDraft<PhonemeSegmentDraft>();
+
+  const [currentIndex, setCurrentIndex] = useState(resumed?.currentIndex ?? (session.current_item_index || 0));
+  useStudentDisplayItem(session, currentIndex);
+  const [responses, setResponses] = useState<Record<number, SegmentResponse>>(resumed?.responses ?? {});
+
+  useDraftCheckpoint<PhonemeSegmentDraft>(session, { currentIndex, responses }, {
+    currentItemIndex: currentIndex,
+    enabled: Object.keys(responses).length > 0,
+  });
 
   const currentItem = items[currentIndex];
   const totalItems = items.length;
@@ -58,7 +82,13 @@ export function PhonemeSegmentRunner({ session, items }: PhonemeSegmentRunnerPro
       ...prev,
       [currentIndex]: { ...currentResponse, isCorrect }
     }));
-  }, [currentIndex, currentResponse]);
+    markRecording(currentIndex, word);
+  }, [currentIndex, currentResponse, markRecording, word]);
+
+  // Untimed, so the recording runs from switching it on until Finish
+  const handleRecordAudioChange = useCallback((enabled: boolean) => {
+    if (enabled) startRecording();
+  }, [startRecording]);
 
   const handleNotesChange = useCallback((notes: string) => {
     setResponses(prev => ({
@@ -101,6 +131,18 @@ export function PhonemeSegmentRunner({ session, items }: PhonemeSegmentRunnerPro
   const handleFinish = useCallback(async () => {
     await saveCurrentResponse();
 
+    // Responses are saved first; a recording that can't be uploaded waits in the outbox
+    const recorded = await stopRecording();
+    if (recorded) {
+      await uploadRecording.mutateAsync({
+        session_id: session.session_id,
+        item_id: null,
+        audio: recorded.audio,
+        duration_ms: recorded.duration_ms,
+        markers: recorder.markers,
+      }).catch(() => null);
+    }
+
     await updateSession.mutateAsync({
       id: session.session_id,
       updates: {
@@ -109,8 +151,8 @@ export function PhonemeSegmentRunner({ session, items }: PhonemeSegmentRunnerPro
       }
     });
 
-    navigate('/sessions');
-  }, [saveCurrentResponse, session.session_id, updateSession, navigate]);
+    exitSession();
+  }, [saveCurrentResponse, stopRecording, recorder.markers, uploadRecording, session.session_id, updateSession, exitSession]);
 
   const canProceed = currentResponse.isCorrect !== null;
 
@@ -121,7 +163,7 @@ export function PhonemeSegmentRunner({ session, items }: PhonemeSegmentRunnerPro
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
-              <Button variant="ghost" size="icon" onClick={() => navigate('/sessions')}>
+              <Button variant="ghost" size="icon" onClick={() => exitSession()}>
                 <ArrowLeft className="h-5 w-5" />
               </Button>
               <div>
@@ -234,6 +276,14 @@ export function PhonemeSegmentRunner({ session, items }: PhonemeSegmentRunnerPro
                     <dd className="text-lg font-semibold text-red-600">{scores.incorrect}</dd>
                   </div>
                 </dl>
+                <div className="border-t mt-4 pt-4">
+                  <RecordAudioToggle
+                    enabled={recorder.status === 'recording'}
+                    onEnabledChange={handleRecordAudioChange}
+                    status={recorder.status}
+                    error={recorder.error}
+                  />
+                </div>
               </CardContent>
             </Card>
 
@@ -260,7 +310,7 @@ export function PhonemeSegmentRunner({ session, items }: PhonemeSegmentRunnerPro
               ) : (
                 <Button
                   onClick={handleFinish}
-                  disabled={!canProceed || upsertResponse.isPending}
+                  disabled={!canProceed || upsertResponse.isPending || uploadRecording.isPending}
                   className="flex-1 gap-2"
                 >
                   <CheckCircle className="h-4 w-4" />
@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useExitSession } from '@/hooks/use-session-exit';
 import { ArrowLeft, ArrowRight, Check, X, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -24,7 +24,12 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
 import { useUpsertSessionResponse, useSessionResponses } from '@/lib/api/sessionResponses';
+import { useStoppingRules, useDiscontinueByRule } from '@/hooks/use-stopping-rules';
+import { outcomesFromResponses } from '@/lib/scoring/stoppingRules';
+import { StoppingRulePrompt } from '@/components/runners/StoppingRulePrompt';
+import { getDisplayText } from '@/lib/itemDisplay';
 import { toast } from 'sonner';
 import type { Tables } from '@/integrations/supabase/types';
 
@@ -46,12 +51,17 @@ interface RhymeRunnerProps {
 }
 
 export function RhymeRunner({ session, items }: RhymeRunnerProps) {
-  const navigate = useNavigate();
+  const exitSession = useExitSession();
   const updateSession = useUpdateSession();
   const upsertResponse = useUpsertSessionResponse();
   const { data: responses } = useSessionResponses(session.session_id);
 
+  const outcomes = useMemo(() => outcomesFromResponses(items, responses), [items, responses]);
+  const stopping = useStoppingRules(session.assessment_id, outcomes);
+  const discontinueByRule = useDiscontinueByRule(session, items, responses);
+
   const [currentIndex, setCurrentIndex] = useState(session.current_item_index);
+  useStudentDisplayItem(session, currentIndex);
   const [studentResponse, setStudentResponse] = useState<StudentResponse | null>(null);
   const [notes, setNotes] = useState('');
   const [discontinueDialogOpen, setDiscontinueDialogOpen] = useState(false);
@@ -188,7 +198,7 @@ export function RhymeRunner({ session, items }: RhymeRunnerProps) {
       }
     });
     toast.success('Session completed!');
-    navigate('/sessions');
+    exitSession();
   };
 
   const handleDiscontinue = async () => {
@@ -221,7 +231,15 @@ export function RhymeRunner({ session, items }: RhymeRunnerProps) {
     });
 
     toast.success('Session discontinued');
-    navigate('/sessions');
+    exitSession();
+  };
+
+  const handleStoppingRuleDiscontinue = async () => {
+    const rule = stopping.accept();
+    if (!rule) return;
+    await discontinueByRule(rule);
+    toast.success('Session discontinued');
+    exitSession();
   };
 
   const scores = computeScores();
@@ -245,10 +263,8 @@ export function RhymeRunner({ session, items }: RhymeRunnerProps) {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
-          <Button variant="ghost" size="icon" asChild>
-            <Link to="/sessions">
-              <ArrowLeft className="h-4 w-4" />
-            </Link>
+          <Button variant="ghost" size="icon" onClick={() => exitSession()}>
+            <ArrowLeft className="h-4 w-4" />
           </Button>
           <div>
             <h1 className="text-xl font-bold text-foreground">
@@ -451,6 +467,13 @@ export function RhymeRunner({ session, items }: RhymeRunnerProps) {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <StoppingRulePrompt
+        rule={stopping.prompt}
+        labelFor={(idx) => getDisplayText(items[idx]?.content_payload)}
+        onContinue={stopping.dismiss}
+        onDiscontinue={handleStoppingRuleDiscontinue}
+      />
     </div>
   );
 }
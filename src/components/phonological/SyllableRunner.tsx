@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Link } from 'react-router-dom';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useExitSession } from '@/hooks/use-session-exit';
 import { ArrowLeft, ArrowRight, Check, X, MinusCircle, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,7 +9,12 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
 import { useUpsertSessionResponse, useSessionResponses } from '@/lib/api/sessionResponses';
+import { useStoppingRules, useDiscontinueByRule } from '@/hooks/use-stopping-rules';
+import { outcomesFromResponses } from '@/lib/scoring/stoppingRules';
+import { StoppingRulePrompt } from '@/components/runners/StoppingRulePrompt';
+import { getDisplayText } from '@/lib/itemDisplay';
 import { toast } from 'sonner';
 import type { Tables } from '@/integrations/supabase/types';
 
@@ -34,6 +39,7 @@ type ErrorType = 'incorrect_segmentation' | 'partial_segmentation' | 'no_respons
 
 export function SyllableRunner({ session, items }: SyllableRunnerProps) {
   const [currentIndex, setCurrentIndex] = useState(session.current_item_index ?? 0);
+  useStudentDisplayItem(session, currentIndex);
   const [responseState, setResponseState] = useState<ResponseState | null>(null);
   const [syllablesCorrect, setSyllablesCorrect] = useState<number>(0);
   const [studentResponseText, setStudentResponseText] = useState('');
@@ -43,9 +49,14 @@ export function SyllableRunner({ session, items }: SyllableRunnerProps) {
   const [discontinueNotes, setDiscontinueNotes] = useState('');
 
   const updateSession = useUpdateSession();
+  const exitSession = useExitSession();
   const upsertResponse = useUpsertSessionResponse();
   const { data: responses } = useSessionResponses(session.session_id);
 
+  const outcomes = useMemo(() => outcomesFromResponses(items, responses), [items, responses]);
+  const stopping = useStoppingRules(session.assessment_id, outcomes);
+  const discontinueByRule = useDiscontinueByRule(session, items, responses);
+
   const currentItem = items[currentIndex];
   const content = currentItem?.content_payload as unknown as SyllableItemContent;
   const syllableCount = content?.syllable_count || 1;
@@ -202,15 +213,20 @@ export function SyllableRunner({ session, items }: SyllableRunnerProps) {
     toast.success('Session discontinued');
   };
 
+  const handleStoppingRuleDiscontinue = async () => {
+    const rule = stopping.accept();
+    if (!rule) return;
+    await discontinueByRule(rule);
+    toast.success('Session discontinued');
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
-          <Button variant="ghost" size="icon" asChild>
-            <Link to="/sessions">
-              <ArrowLeft className="h-4 w-4" />
-            </Link>
+          <Button variant="ghost" size="icon" onClick={() => exitSession()}>
+            <ArrowLeft className="h-4 w-4" />
           </Button>
           <div>
             <h1 className="text-xl font-bold text-foreground">
@@ -407,6 +423,13 @@ export function SyllableRunner({ session, items }: SyllableRunnerProps) {
           )}
         </div>
       </div>
+
+      <StoppingRulePrompt
+        rule={stopping.prompt}
+        labelFor={(idx) => getDisplayText(items[idx]?.content_payload)}
+        onContinue={stopping.dismiss}
+        onDiscontinue={handleStoppingRuleDiscontinue}
+      />
     </div>
   );
 }
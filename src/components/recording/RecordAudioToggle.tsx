@@ -0,0 +1,42 @@
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Mic } from 'lucide-react';
+import { isAudioRecordingSupported, type AudioRecorderStatus } from '@/hooks/use-audio-recorder';
+
+interface RecordAudioToggleProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  status: AudioRecorderStatus;
+  error: string | null;
+  /** Recording can only be switched on before the timed portion starts */
+  disabled?: boolean;
+}
+
+/**
+ * Opt-in switch for recording the student's reading, with the recorder's
+ * state once it's running.
+ */
+export function RecordAudioToggle({ enabled, onEnabledChange, status, error, disabled }: RecordAudioToggleProps) {
+  if (!isAudioRecordingSupported()) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="record-audio" className="flex items-center gap-2">
+          <Mic className="h-4 w-4" /> Record audio
+        </Label>
+        {status === 'recording' ? (
+          <Badge variant="destructive" className="gap-1.5">
+            <span className="h-2 w-2 rounded-full bg-current animate-pulse" /> Recording
+          </Badge>
+        ) : status === 'stopped' ? (
+          <Badge variant="secondary">Recorded</Badge>
+        ) : (
+          <Switch id="record-audio" checked={enabled} onCheckedChange={onEnabledChange} disabled={disabled} />
+        )}
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { AlertTriangle, CloudUpload, Wifi, WifiOff } from 'lucide-react';
+import { useOutboxStatus } from '@/hooks/use-outbox';
+import { outboxSessionId, type OutboxEntry } from '@/lib/outbox';
+import { toast } from 'sonner';
+
+function describeEntry(entry: OutboxEntry): string {
+  switch (entry.kind) {
+    case 'upsert_response': return `Response for item ${entry.response.item_id}`;
+    case 'delete_responses': return `Clearing ${entry.item_ids.length} response${entry.item_ids.length === 1 ? '' : 's'}`;
+    case 'update_session': return `Session update${entry.updates.status ? ` (${entry.updates.status})` : ''}`;
+    case 'save_draft': return 'Progress checkpoint';
+    case 'upload_recording': return `Recording${entry.upload.item_id ? ` for item ${entry.upload.item_id}` : ''}`;
+  }
+}
+
+/**
+ * Runner header badge: whether the device is online, and how many saves are
+ * waiting in the outbox. A save the server rejected can be retried from here,
+ * and one given up on can be retried or discarded.
+ */
+export function ConnectionBadge() {
+  const { isOnline, pending, lastError, retry, deadLetters, retryDeadLetter, discardDeadLetter } = useOutboxStatus();
+
+  const handleRetry = (seq: number) => {
+    retryDeadLetter(seq).catch(() => toast.error('Retry failed'));
+  };
+
+  const handleDiscard = (seq: number) => {
+    discardDeadLetter(seq).catch(() => toast.error('Failed to discard the save'));
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {deadLetters.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            {/* Badge doesn't forward its ref, so the trigger is a small button */}
+            <Button variant="destructive" size="sm" className="h-6 gap-1.5 rounded-full px-2.5 text-xs">
+              <AlertTriangle className="h-3 w-3" /> {deadLetters.length} failed
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-96 space-y-3">
+            <p className="text-sm font-medium">Saves that couldn't be written</p>
+            <ul className="space-y-2">
+              {deadLetters.map((entry) => (
+                <li key={entry.seq} className="rounded-md border p-2 space-y-1 text-sm">
+                  <p className="font-medium">{describeEntry(entry)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Session {outboxSessionId(entry)}
+                    {' · '}{new Date(entry.queued_at).toLocaleString()}
+                  </p>
+                  {entry.last_error && <p className="text-xs text-destructive">{entry.last_error}</p>}
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => handleDiscard(entry.seq)}>
+                      Discard
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleRetry(entry.seq)} disabled={!isOnline}>
+                      Retry
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </PopoverContent>
+        </Popover>
+      )}
+      {pending > 0 && (
+        <Badge
+          variant={lastError ? 'destructive' : 'secondary'}
+          className={`gap-1.5 ${lastError && isOnline ? 'cursor-pointer' : ''}`}
+          title={lastError ? `Sync failed: ${lastError}. Click to retry.` : 'Saved on this device; syncs when the connection is back'}
+          onClick={lastError && isOnline ? retry : undefined}
+        >
+          <CloudUpload className="h-3 w-3" /> {pending} unsynced
+        </Badge>
+      )}
+      <Badge variant="outline" className="gap-1.5">
+        {isOnline ? <><Wifi className="h-3 w-3" /> Online</> : <><WifiOff className="h-3 w-3" /> Offline</>}
+      </Badge>
+    </div>
+  );
+}
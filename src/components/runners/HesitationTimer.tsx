@@ -0,0 +1,46 @@
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Hourglass } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { useHesitationTimer } from '@/hooks/use-hesitation-timer';
+
+interface HesitationTimerProps {
+  timer: ReturnType<typeof useHesitationTimer>;
+  /** The timer can only be switched before the timed portion starts */
+  disabled?: boolean;
+}
+
+/**
+ * Switch for hesitation auto-marking, and while it runs, how long the
+ * student has left on the current item.
+ */
+export function HesitationTimer({ timer, disabled }: HesitationTimerProps) {
+  const warning = timer.running && timer.progress >= 0.5;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="hesitation-timer" className="flex items-center gap-2">
+          <Hourglass className="h-4 w-4" /> Auto-mark {timer.limitSeconds}s hesitations
+        </Label>
+        <Switch
+          id="hesitation-timer"
+          checked={timer.enabled}
+          onCheckedChange={timer.setEnabled}
+          disabled={disabled}
+        />
+      </div>
+      {timer.running && (
+        <div className="space-y-1">
+          <Progress value={timer.progress * 100} className={cn('h-2', warning && '[&>div]:bg-destructive')} />
+          <p className={cn('text-xs', warning ? 'text-destructive font-medium' : 'text-muted-foreground')}>
+            {warning
+              ? `Hesitating: marked incorrect in ${timer.remainingSeconds.toFixed(1)}s`
+              : `${timer.remainingSeconds.toFixed(1)}s on this item`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { History, RotateCcw } from 'lucide-react';
+import type { SessionDraft } from '@/lib/sessionDrafts';
+import type { SessionRow } from '@/types/database';
+
+interface ResumeSessionPromptProps {
+  session: SessionRow;
+  draft: SessionDraft;
+  totalItems: number;
+  onResume: () => void;
+  onStartOver: () => void;
+}
+
+/**
+ * Offered on reopening a session that has a checkpoint: carry on from it, or
+ * discard it and start the administration again.
+ */
+export function ResumeSessionPrompt({ session, draft, totalItems, onResume, onStartOver }: ResumeSessionPromptProps) {
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Resume this session?</CardTitle>
+          <CardDescription>
+            {session.student_name} was partway through this administration when it was interrupted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-muted-foreground">Last saved</dt>
+              <dd className="font-medium">{new Date(draft.saved_at).toLocaleString()}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Item</dt>
+              <dd className="font-medium">
+                {Math.min(draft.current_item_index + 1, totalItems)} of {totalItems}
+              </dd>
+            </div>
+            {draft.remaining_seconds !== undefined && (
+              <div>
+                <dt className="text-muted-foreground">Time left</dt>
+                <dd className="font-medium">{draft.remaining_seconds}s</dd>
+              </div>
+            )}
+          </dl>
+        </CardContent>
+        <CardFooter className="flex gap-2">
+          <Button variant="outline" className="flex-1 gap-2" onClick={onStartOver}>
+            <RotateCcw className="h-4 w-4" /> Start over
+          </Button>
+          <Button className="flex-1 gap-2" onClick={onResume}>
+            <History className="h-4 w-4" /> Resume
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { FiredStoppingRule } from '@/lib/scoring/stoppingRules';
+
+interface StoppingRulePromptProps {
+  rule: FiredStoppingRule | null;
+  /** Names the item or word the rule was met on */
+  labelFor?: (index: number) => string | undefined;
+  onContinue: () => void;
+  onDiscontinue: () => void;
+}
+
+/**
+ * Asks the assessor whether to stop when a stopping rule from the ASR is met.
+ * Stopping stays their call: they may keep testing, e.g. after a scoring slip.
+ */
+export function StoppingRulePrompt({ rule, labelFor, onContinue, onDiscontinue }: StoppingRulePromptProps) {
+  const itemLabel = rule?.item_index != null ? labelFor?.(rule.item_index) : undefined;
+
+  return (
+    <AlertDialog open={!!rule} onOpenChange={(open) => { if (!open) onContinue(); }}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Stopping rule met</AlertDialogTitle>
+          <AlertDialogDescription>
+            {rule?.description}
+            {itemLabel ? ` (at "${itemLabel}")` : ''}. The administration rules say to discontinue here.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Continue testing</AlertDialogCancel>
+          <AlertDialogAction onClick={onDiscontinue}>Discontinue</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,40 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ExternalLink, Eye, EyeOff, MonitorSmartphone } from 'lucide-react';
+import { useStudentDisplayHost } from '@/hooks/use-student-display';
+import type { SessionRow } from '@/types/database';
+
+interface StudentScreenControlsProps {
+  session: SessionRow;
+}
+
+/**
+ * Floating panel over the runner that hosts the student screen: opens it
+ * in a second window, and hides the stimulus while giving directions.
+ */
+export function StudentScreenControls({ session }: StudentScreenControlsProps) {
+  const { display, setStimulusVisible } = useStudentDisplayHost(session);
+  const visible = display?.stimulus_visible ?? true;
+
+  const openStudentScreen = () => {
+    window.open(`/sessions/${session.session_id}/student`, `student-screen-${session.session_id}`);
+  };
+
+  return (
+    <Card className="fixed bottom-4 right-4 z-40 shadow-lg">
+      <CardContent className="flex items-center gap-4 p-3">
+        <Button variant="ghost" size="sm" className="gap-2" onClick={openStudentScreen}>
+          <MonitorSmartphone className="h-4 w-4" /> Student screen <ExternalLink className="h-3 w-3" />
+        </Button>
+        <div className="flex items-center gap-2">
+          <Switch id="stimulus-visible" checked={visible} onCheckedChange={setStimulusVisible} />
+          <Label htmlFor="stimulus-visible" className="flex items-center gap-1.5 text-sm">
+            {visible ? <><Eye className="h-4 w-4" /> Stimulus shown</> : <><EyeOff className="h-4 w-4" /> Stimulus hidden</>}
+          </Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
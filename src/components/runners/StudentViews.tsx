@@ -0,0 +1,288 @@
+import { getDisplayText, getPayloadField } from '@/lib/itemDisplay';
+import { getAlphabetSections } from '@/types/alphabet';
+import { resolveMazeForm, stripPunctuation } from '@/types/maze';
+import { getPictureOptions, getSentenceText, type SentenceItemContent } from '@/types/sentence';
+import { getQuestionText, isPassageItem, isQuestionItem, type MCQPayload, type PassagePayload } from '@/types/comprehension';
+import {
+  getPictureChoices,
+  getPictureToName,
+  getVocabChoices,
+  getVocabQuestion,
+  type EPVTPayload,
+  type RPVTPayload,
+  type VocabMCQPayload,
+} from '@/types/vocabulary';
+import type { ItemRow, SessionRow } from '@/types/database';
+
+export interface StudentViewProps {
+  session: SessionRow;
+  items: ItemRow[];
+  currentIndex: number;
+}
+
+/** Full passage for reading aloud (ORF). */
+export function PassageStudentView({ items, currentIndex }: StudentViewProps) {
+  const stimulus = getDisplayText(items[currentIndex]?.content_payload);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="max-w-4xl">
+        <p className="text-3xl md:text-4xl font-serif text-foreground leading-relaxed text-justify">
+          {stimulus}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/** Oral tasks where the student hears the item and sees no text. */
+export function ListeningStudentView({ items, currentIndex }: StudentViewProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="text-center">
+        <div className="w-32 h-32 mx-auto mb-8 rounded-full bg-primary/10 flex items-center justify-center">
+          <div className="w-16 h-16 rounded-full bg-primary/20 animate-pulse" />
+        </div>
+        <p className="text-3xl font-medium text-foreground">Listening...</p>
+        <p className="text-lg text-muted-foreground mt-2">
+          Item {currentIndex + 1} of {items.length}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/** Printed word the student reads, preferring the affixed form when present. */
+export function PrintedWordStudentView({ items, currentIndex }: StudentViewProps) {
+  const payload = items[currentIndex]?.content_payload;
+  const displayText = getPayloadField(payload, 'affixed_form') || getDisplayText(payload);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="text-center max-w-4xl">
+        <p className="text-8xl md:text-9xl font-bold text-foreground leading-tight">
+          {displayText}
+        </p>
+        <p className="text-lg text-muted-foreground mt-8">
+          Item {currentIndex + 1} of {items.length}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/** Letters of the alphabet section being administered, as a grid. */
+export function LetterSetStudentView({ items, currentIndex }: StudentViewProps) {
+  const sections = getAlphabetSections(items);
+  const section = sections[currentIndex] ?? null;
+  const letters = items.filter((_, idx) => sections[idx] === section);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="grid grid-cols-6 md:grid-cols-9 gap-6 max-w-5xl">
+        {letters.map(item => (
+          <span key={item.item_id} className="text-5xl md:text-6xl font-bold text-foreground text-center">
+            {getDisplayText(item.content_payload)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Every word on the form, as a list to read down. */
+export function WordListStudentView({ items }: StudentViewProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-x-16 gap-y-6 max-w-5xl">
+        {items.map(item => (
+          <span key={item.item_id} className="text-4xl md:text-5xl font-semibold text-foreground">
+            {getDisplayText(item.content_payload)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Picture choices, labelled for pointing
+function PictureChoices({ pictures }: { pictures: { option_id: string; image_url?: string; label?: string }[] }) {
+  return (
+    <div className="grid grid-cols-2 gap-6 w-full max-w-4xl">
+      {pictures.map(option => (
+        <div key={option.option_id} className="relative aspect-video rounded-xl border-4 border-muted overflow-hidden bg-muted">
+          {option.image_url && (
+            <img src={option.image_url} alt={option.label || option.option_id} className="w-full h-full object-cover" />
+          )}
+          <span className="absolute top-2 left-2 w-10 h-10 rounded-full bg-background/90 flex items-center justify-center text-xl font-bold">
+            {option.option_id}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Sentence with its picture choices, if any, labelled for pointing. */
+export function SentenceStudentView({ items, currentIndex }: StudentViewProps) {
+  const content = items[currentIndex]?.content_payload as SentenceItemContent | null;
+  const pictures = getPictureOptions(content);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-10 bg-background p-8">
+      <p className="text-4xl md:text-5xl font-serif text-foreground text-center max-w-4xl">
+        {getSentenceText(content)}
+      </p>
+      {pictures.length > 0 && <PictureChoices pictures={pictures} />}
+    </div>
+  );
+}
+
+/** Default: single-item stimulus display. */
+export function StimulusStudentView({ items, currentIndex }: StudentViewProps) {
+  const stimulus = getDisplayText(items[currentIndex]?.content_payload);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="text-center max-w-4xl">
+        <p className="text-8xl md:text-9xl font-bold text-foreground leading-tight">
+          {stimulus}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/** Maze passage with each choice point shown as its three options. */
+export function MazeStudentView({ items }: StudentViewProps) {
+  const { tokens, blanks } = resolveMazeForm(items);
+  const blankAt = new Map(blanks.map(b => [b.word_index, b]));
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="max-w-4xl">
+        <p className="text-2xl md:text-3xl font-serif text-foreground leading-loose">
+          {tokens.map((token, idx) => {
+            const blank = blankAt.get(idx);
+            if (!blank) return <span key={idx}>{token} </span>;
+            const { leading, trailing } = stripPunctuation(token);
+            return (
+              <span key={idx}>
+                {leading}
+                <span className="font-sans font-semibold">({blank.options.join(' / ')})</span>
+                {trailing}{' '}
+              </span>
+            );
+          })}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/** Every letter on the form as the timed grid, read left to right. */
+export function LetterGridStudentView({ items }: StudentViewProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="grid grid-cols-10 gap-x-8 gap-y-6 max-w-6xl">
+        {items.map(item => (
+          <span key={item.item_id} className="text-4xl md:text-5xl font-bold text-foreground text-center">
+            {getDisplayText(item.content_payload)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Vocabulary question with its answer choices, lettered for pointing. */
+export function VocabChoiceStudentView({ items, currentIndex }: StudentViewProps) {
+  const payload = items[currentIndex]?.content_payload as VocabMCQPayload | null;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-10 bg-background p-8">
+      <p className="text-4xl md:text-5xl font-serif text-foreground text-center max-w-4xl">
+        {getVocabQuestion(payload) || payload?.target_word}
+      </p>
+      <ChoiceList choices={getVocabChoices(payload)} />
+    </div>
+  );
+}
+
+/** Picture choices for receptive vocabulary, or the one picture to name for expressive. */
+export function PictureVocabStudentView({ items, currentIndex }: StudentViewProps) {
+  const payload = items[currentIndex]?.content_payload as RPVTPayload & EPVTPayload | null;
+  const pictures = getPictureChoices(payload);
+  const pictureToName = getPictureToName(payload);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      {pictures.length > 0 ? (
+        <PictureChoices pictures={pictures} />
+      ) : pictureToName ? (
+        <img src={pictureToName} alt="Name this picture" className="max-h-[80vh] max-w-4xl rounded-xl object-contain" />
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Comprehension in its phases: the passage (heard, for listening passages),
+ * a retell prompt during recall, then each question with its choices.
+ */
+export function ComprehensionStudentView({ items, currentIndex }: StudentViewProps) {
+  const item = items[currentIndex];
+
+  if (item && isQuestionItem(item)) {
+    const payload = item.content_payload as unknown as MCQPayload | null;
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-10 bg-background p-8">
+        <p className="text-4xl md:text-5xl font-serif text-foreground text-center max-w-4xl">
+          {getQuestionText(payload)}
+        </p>
+        <ChoiceList choices={(payload?.options ?? []).map(option => option.text)} />
+      </div>
+    );
+  }
+
+  if (item && isPassageItem(item) && item.item_type !== 'listening_passage') {
+    const payload = item.content_payload as unknown as PassagePayload | null;
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-8">
+        <div className="max-w-4xl space-y-8">
+          {payload?.title && <h1 className="text-4xl font-serif font-semibold text-foreground text-center">{payload.title}</h1>}
+          <p className="text-3xl md:text-4xl font-serif text-foreground leading-relaxed text-justify">{payload?.text}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="text-center">
+        <div className="w-32 h-32 mx-auto mb-8 rounded-full bg-primary/10 flex items-center justify-center">
+          <div className="w-16 h-16 rounded-full bg-primary/20 animate-pulse" />
+        </div>
+        <p className="text-3xl font-medium text-foreground">
+          {item && isPassageItem(item) ? 'Listen to the story...' : 'Tell me what you remember'}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// Text answer choices, lettered A-D
+function ChoiceList({ choices }: { choices: string[] }) {
+  return (
+    <ol className="grid grid-cols-2 gap-6 w-full max-w-4xl">
+      {choices.map((choice, idx) => (
+        <li key={idx} className="flex items-center gap-4 rounded-xl border-4 border-muted p-6">
+          <span className="w-12 h-12 shrink-0 rounded-full bg-muted flex items-center justify-center text-2xl font-bold">
+            {String.fromCharCode(65 + idx)}
+          </span>
+          <span className="text-3xl text-foreground">{choice}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
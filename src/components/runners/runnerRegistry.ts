@@ -0,0 +1,131 @@
+import type { ComponentType } from 'react';
+import { GenericRunner } from './GenericRunner';
+import {
+  ComprehensionStudentView,
+  LetterGridStudentView,
+  LetterSetStudentView,
+  ListeningStudentView,
+  MazeStudentView,
+  PassageStudentView,
+  PictureVocabStudentView,
+  PrintedWordStudentView,
+  SentenceStudentView,
+  StimulusStudentView,
+  VocabChoiceStudentView,
+  WordListStudentView,
+  type StudentViewProps,
+} from './StudentViews';
+import { ORFSessionRunner } from '@/components/fluency/ORFSessionRunner';
+import { LetterGridRunner } from '@/components/fluency/LetterGridRunner';
+import { WordReadingRunner } from '@/components/fluency/WordReadingRunner';
+import { OnsetRimeRunner } from '@/components/phonological/OnsetRimeRunner';
+import { RhymeRunner } from '@/components/phonological/RhymeRunner';
+import { SyllableRunner } from '@/components/phonological/SyllableRunner';
+import { PhonemeSegmentRunner } from '@/components/phonological/PhonemeSegmentRunner';
+import { MorphophonemicRunner } from '@/components/phonological/MorphophonemicRunner';
+import { AlphabetKnowledgeRunner } from '@/components/phonics/AlphabetKnowledgeRunner';
+import { LetterWordRunner } from '@/components/phonics/LetterWordRunner';
+import { PseudowordRunner } from '@/components/phonics/PseudowordRunner';
+import { SpellingRunner } from '@/components/phonics/SpellingRunner';
+import { WordPatternRunner } from '@/components/phonics/WordPatternRunner';
+import { VocabMCQRunner } from '@/components/vocabulary/VocabMCQRunner';
+import { PictureVocabRunner } from '@/components/vocabulary/PictureVocabRunner';
+import { ComprehensionRunner } from '@/components/comprehension/ComprehensionRunner';
+import { MazeRunner } from '@/components/comprehension/MazeRunner';
+import { SentenceComprehensionRunner } from '@/components/comprehension/SentenceComprehensionRunner';
+import {
+  GENERIC_SCORING_ID,
+  SCORING_REGISTRY,
+  resolveScoring,
+  type ScoringId,
+  type ScoringRegistration,
+} from '@/lib/scoring/scorerRegistry';
+import type { ItemRow, SessionRow } from '@/types/database';
+
+export type { StudentViewProps } from './StudentViews';
+
+export interface RunnerProps {
+  session: SessionRow;
+  items: ItemRow[];
+}
+
+/** Layout used by the static assessment preview. */
+export type PreviewType =
+  | 'orf'
+  | 'letter-naming'
+  | 'phonological-awareness'
+  | 'phonics'
+  | 'vocabulary'
+  | 'comprehension'
+  | 'generic';
+
+/** The assessor-facing and student-facing parts of a runner. */
+export interface RunnerComponents {
+  /** Assessor-facing runner */
+  runner: ComponentType<RunnerProps>;
+  /** What the student sees on the second screen */
+  studentView: ComponentType<StudentViewProps>;
+  preview: PreviewType;
+}
+
+/** A scoring registration together with the runner that administers it. */
+export type RunnerDefinition = ScoringRegistration & RunnerComponents;
+
+/**
+ * Runner for every registration in the scoring registry, keyed by its ID.
+ * Supporting a new assessment means adding its registration there, which
+ * won't compile until its runner is added here; anything unregistered uses
+ * the generic runner.
+ */
+const RUNNER_COMPONENTS: Record<ScoringId, RunnerComponents> = {
+  orf: { runner: ORFSessionRunner, studentView: PassageStudentView, preview: 'orf' },
+  'letter-grid': { runner: LetterGridRunner, studentView: LetterGridStudentView, preview: 'letter-naming' },
+  'word-reading': { runner: WordReadingRunner, studentView: StimulusStudentView, preview: 'generic' },
+  'phoneme-segment-timed': { runner: PhonemeSegmentRunner, studentView: ListeningStudentView, preview: 'generic' },
+  'phoneme-segment': { runner: PhonemeSegmentRunner, studentView: ListeningStudentView, preview: 'phonological-awareness' },
+  'onset-rime': { runner: OnsetRimeRunner, studentView: ListeningStudentView, preview: 'phonological-awareness' },
+  rhyme: { runner: RhymeRunner, studentView: ListeningStudentView, preview: 'phonological-awareness' },
+  syllable: { runner: SyllableRunner, studentView: ListeningStudentView, preview: 'phonological-awareness' },
+  morphophonemic: { runner: MorphophonemicRunner, studentView: PrintedWordStudentView, preview: 'phonics' },
+  alphabet: { runner: AlphabetKnowledgeRunner, studentView: LetterSetStudentView, preview: 'phonics' },
+  'letter-word': { runner: LetterWordRunner, studentView: PrintedWordStudentView, preview: 'phonics' },
+  pseudoword: { runner: PseudowordRunner, studentView: PrintedWordStudentView, preview: 'phonics' },
+  spelling: { runner: SpellingRunner, studentView: ListeningStudentView, preview: 'phonics' },
+  'word-pattern': { runner: WordPatternRunner, studentView: WordListStudentView, preview: 'phonics' },
+  'vocab-mcq': { runner: VocabMCQRunner, studentView: VocabChoiceStudentView, preview: 'vocabulary' },
+  'picture-vocab': { runner: PictureVocabRunner, studentView: PictureVocabStudentView, preview: 'vocabulary' },
+  comprehension: { runner: ComprehensionRunner, studentView: ComprehensionStudentView, preview: 'comprehension' },
+  sentence: { runner: SentenceComprehensionRunner, studentView: SentenceStudentView, preview: 'comprehension' },
+  maze: { runner: MazeRunner, studentView: MazeStudentView, preview: 'comprehension' },
+};
+
+/** Every specialized runner, in resolution order. */
+export const RUNNER_REGISTRY: RunnerDefinition[] = SCORING_REGISTRY
+  .map(registration => ({ ...registration, ...RUNNER_COMPONENTS[registration.id] }));
+
+/** Preview layout for unregistered assessments, from the component prefix. */
+function getFallbackPreview(assessmentId: string): PreviewType {
+  if (assessmentId === 'PH-LNUC') return 'letter-naming';
+  if (assessmentId.startsWith('PA-')) return 'phonological-awareness';
+  if (assessmentId.startsWith('PH-')) return 'phonics';
+  if (assessmentId.startsWith('VO-')) return 'vocabulary';
+  if (assessmentId.startsWith('RC-')) return 'comprehension';
+  return 'generic';
+}
+
+/**
+ * Find the runner for an assessment, matched the same way as its scoring.
+ * Unmatched assessments get the generic correct/incorrect runner.
+ */
+export function resolveRunner(assessmentId: string, contentModel?: string | null): RunnerDefinition {
+  const registration = resolveScoring(assessmentId, contentModel);
+  if (registration.id !== GENERIC_SCORING_ID) {
+    return { ...registration, ...RUNNER_COMPONENTS[registration.id] };
+  }
+  return {
+    ...registration,
+    runner: GenericRunner,
+    studentView: StimulusStudentView,
+    preview: getFallbackPreview(assessmentId),
+  };
+}
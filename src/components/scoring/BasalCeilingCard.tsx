@@ -0,0 +1,78 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import type { BasalCeilingScores } from '@/lib/scoring';
+
+interface BasalCeilingCardProps {
+  scores: BasalCeilingScores;
+  /** Item position -> scored correct, for the items given */
+  results: Record<number, boolean>;
+}
+
+/**
+ * Where a basal/ceiling administration started, set its basal and reached
+ * its ceiling, with each item given and the items credited below the basal.
+ */
+export function BasalCeilingCard({ scores, results }: BasalCeilingCardProps) {
+  const given = Object.keys(results).map(Number);
+  const lastShown = Math.max(scores.ceiling_index ?? -1, ...given, scores.start_index);
+
+  const position = (index: number | null) => (index === null ? '—' : `Item ${index + 1}`);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Basal &amp; Ceiling</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <dl className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+          <div>
+            <dt className="text-muted-foreground">Raw Score</dt>
+            <dd className="text-2xl font-bold">{scores.raw_score}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Credited Below Basal</dt>
+            <dd className="text-2xl font-bold">{scores.implicit_credit}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Start Point</dt>
+            <dd className="text-lg font-semibold">{position(scores.start_index)}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Basal</dt>
+            <dd className="text-lg font-semibold">{position(scores.basal_index)}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Ceiling</dt>
+            <dd className="text-lg font-semibold">{position(scores.ceiling_index)}</dd>
+          </div>
+        </dl>
+
+        <div className="flex flex-wrap gap-1">
+          {Array.from({ length: lastShown + 1 }, (_, idx) => {
+            const credited = scores.basal_index !== null && idx < scores.basal_index;
+            return (
+              <div
+                key={idx}
+                title={credited ? 'Credited' : results[idx] === undefined ? 'Not given' : results[idx] ? 'Correct' : 'Incorrect'}
+                className={cn(
+                  'w-8 h-8 flex items-center justify-center rounded border text-xs font-mono',
+                  credited && 'bg-muted text-muted-foreground border-dashed',
+                  results[idx] === true && 'bg-green-100 border-green-500 text-green-700',
+                  results[idx] === false && 'bg-red-100 border-red-500 text-red-700',
+                  idx === scores.start_index && 'ring-2 ring-primary',
+                  idx === scores.basal_index && 'border-l-4 border-l-primary',
+                  idx === scores.ceiling_index && 'border-r-4 border-r-destructive'
+                )}
+              >
+                {idx + 1}
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The ringed item is the start point; the basal run begins at the thick left edge and the ceiling run ends at the thick right edge. Dashed items were credited without being given.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
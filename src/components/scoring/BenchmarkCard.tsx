@@ -0,0 +1,79 @@
+import { AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { BENCHMARK_TIER_LABELS, type BenchmarkClassification, type BenchmarkTier } from '@/lib/scoring';
+import { getGradeLabel } from '@/lib/gradeUtils';
+
+const TIER_CLASSES: Record<BenchmarkTier, string> = {
+  at_or_above: 'bg-green-600',
+  below: 'bg-amber-500',
+  well_below: 'bg-destructive',
+  not_classified: 'bg-muted text-muted-foreground',
+};
+
+export function BenchmarkTierBadge({ tier }: { tier: BenchmarkTier }) {
+  return <Badge className={TIER_CLASSES[tier]}>{BENCHMARK_TIER_LABELS[tier]}</Badge>;
+}
+
+interface BenchmarkCardProps {
+  benchmark: BenchmarkClassification;
+}
+
+/**
+ * Session benchmark classification with per-metric comparisons.
+ */
+export function BenchmarkCard({ benchmark }: BenchmarkCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Benchmark</CardTitle>
+          <BenchmarkTierBadge tier={benchmark.tier} />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Compared against thresholds for {getGradeLabel(benchmark.grade_tag)}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Alert variant={benchmark.placeholder_only ? 'destructive' : 'default'}>
+          {benchmark.placeholder_only && <AlertTriangle className="h-4 w-4" />}
+          <AlertDescription>{benchmark.message}</AlertDescription>
+        </Alert>
+
+        {benchmark.results.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metric</TableHead>
+                <TableHead>Grade Level</TableHead>
+                <TableHead>Score</TableHead>
+                <TableHead>Benchmark</TableHead>
+                <TableHead>Threshold Status</TableHead>
+                <TableHead>Tier</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {benchmark.results.map((result) => (
+                <TableRow key={result.threshold_id}>
+                  <TableCell className="font-mono text-xs">{result.metric_id}</TableCell>
+                  <TableCell>{result.grade_level}</TableCell>
+                  <TableCell>{result.observed_value ?? '—'}</TableCell>
+                  <TableCell>
+                    {result.benchmark_value !== null
+                      ? `${result.direction === 'lower_is_better' ? '≤' : '≥'} ${result.benchmark_value}`
+                      : 'TBD'}
+                  </TableCell>
+                  <TableCell><StatusBadge status={result.status} /></TableCell>
+                  <TableCell><BenchmarkTierBadge tier={result.tier} /></TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
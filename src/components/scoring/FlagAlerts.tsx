@@ -0,0 +1,55 @@
+import { AlertCircle, AlertTriangle, Info } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { FiredFlag } from '@/lib/scoring';
+
+const SEVERITY_STYLES: Record<FiredFlag['severity'], { alert: string; badge: string; icon: typeof Info }> = {
+  critical: { alert: 'border-red-300 bg-red-50 text-red-900', badge: 'bg-destructive', icon: AlertCircle },
+  warning: { alert: 'border-amber-300 bg-amber-50 text-amber-900', badge: 'bg-amber-500', icon: AlertTriangle },
+  info: { alert: 'border-blue-300 bg-blue-50 text-blue-900', badge: 'bg-primary', icon: Info },
+};
+
+/**
+ * Fired scoring flags as colored alerts, most severe first.
+ */
+export function FlagAlerts({ flags }: { flags: FiredFlag[] }) {
+  if (flags.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {flags.map((flag) => {
+        const style = SEVERITY_STYLES[flag.severity];
+        const Icon = style.icon;
+        return (
+          <Alert key={flag.flag_id} className={style.alert}>
+            <Icon className="h-4 w-4" />
+            <AlertTitle className="capitalize">{flag.severity}: {flag.name}</AlertTitle>
+            <AlertDescription className="font-mono text-xs">{flag.condition}</AlertDescription>
+          </Alert>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Compact fired-flag badges for tables.
+ */
+export function FlagBadges({ flags }: { flags: FiredFlag[] }) {
+  if (flags.length === 0) return <span className="text-muted-foreground">—</span>;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {flags.map((flag) => (
+        <Badge
+          key={flag.flag_id}
+          className={cn('text-xs', SEVERITY_STYLES[flag.severity].badge)}
+          title={flag.condition}
+        >
+          {flag.name}
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { evaluateFormulas, extractIdentifiers } from '@/lib/scoring';
+import type { ScoringFormula } from '@/types/database';
+
+interface FormulaTesterProps {
+  rawMetrics: Array<{ metric_id: string; name: string }>;
+  formulas: ScoringFormula[];
+}
+
+/**
+ * Runs a scoring model's formulas against sample raw metric values, using the
+ * same engine sessions are scored with.
+ */
+export function FormulaTester({ rawMetrics, formulas }: FormulaTesterProps) {
+  const [inputValues, setInputValues] = useState<Record<string, string>>({});
+
+  // Inputs referenced by formulas but missing from the raw metrics schema
+  const extraInputs = useMemo(() => {
+    const known = new Set([...rawMetrics.map(m => m.metric_id), ...formulas.map(f => f.output)]);
+    const extra = new Set<string>();
+    formulas.forEach(f => extractIdentifiers(f.expression).forEach(id => {
+      if (!known.has(id)) extra.add(id);
+    }));
+    return Array.from(extra);
+  }, [rawMetrics, formulas]);
+
+  const evaluation = useMemo(() => {
+    const scope: Record<string, number> = {};
+    Object.entries(inputValues).forEach(([key, value]) => {
+      if (value.trim() !== '' && !Number.isNaN(Number(value))) {
+        scope[key] = Number(value);
+      }
+    });
+    return evaluateFormulas(formulas, scope);
+  }, [formulas, inputValues]);
+
+  if (formulas.length === 0) return null;
+
+  const inputs = [
+    ...rawMetrics.map(m => ({ id: m.metric_id, label: m.name })),
+    ...extraInputs.map(id => ({ id, label: id })),
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Test Formulas</CardTitle>
+        <CardDescription>
+          Enter sample raw metric values to see the derived metrics a session would report
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          {inputs.map((input) => (
+            <div key={input.id} className="space-y-1">
+              <Label htmlFor={`tester-${input.id}`} className="text-xs font-mono">{input.id}</Label>
+              <Input
+                id={`tester-${input.id}`}
+                type="number"
+                value={inputValues[input.id] ?? ''}
+                onChange={(e) => setInputValues(prev => ({ ...prev, [input.id]: e.target.value }))}
+                placeholder={input.label}
+              />
+            </div>
+          ))}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Output Metric</TableHead>
+              <TableHead>Expression</TableHead>
+              <TableHead>Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {formulas.map((formula) => {
+              const value = evaluation.values[formula.output];
+              const error = evaluation.errors.find(e => e.formula_id === formula.formula_id);
+              return (
+                <TableRow key={formula.formula_id}>
+                  <TableCell className="font-mono text-xs">{formula.output}</TableCell>
+                  <TableCell className="font-mono text-xs">{formula.expression}</TableCell>
+                  <TableCell>
+                    {value !== undefined ? (
+                      <span className="font-semibold">{value}</span>
+                    ) : error ? (
+                      <div className="flex flex-col gap-1">
+                        <Badge variant="outline" className="w-fit text-xs">{error.code}</Badge>
+                        <span className="text-xs text-muted-foreground">{error.message}</span>
+                      </div>
+                    ) : '—'}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
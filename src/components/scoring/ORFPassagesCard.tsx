@@ -0,0 +1,51 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ORFMedianScores } from '@/types/orf';
+
+interface ORFPassagesCardProps {
+  scores: ORFMedianScores;
+}
+
+/**
+ * Each benchmark passage's scores with the medians the session reports.
+ */
+export function ORFPassagesCard({ scores }: ORFPassagesCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Passage Scores</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Passage</TableHead>
+              <TableHead className="text-right">WCPM</TableHead>
+              <TableHead className="text-right">Accuracy</TableHead>
+              <TableHead className="text-right">Words Read</TableHead>
+              <TableHead className="text-right">Errors</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {scores.passage_scores.map((passage, idx) => (
+              <TableRow key={passage.item_id}>
+                <TableCell>{idx + 1}</TableCell>
+                <TableCell className="text-right font-mono">{passage.words_correct_per_minute}</TableCell>
+                <TableCell className="text-right font-mono">{passage.accuracy_percentage}%</TableCell>
+                <TableCell className="text-right font-mono">{passage.total_words_read}</TableCell>
+                <TableCell className="text-right font-mono">{passage.total_errors}</TableCell>
+              </TableRow>
+            ))}
+            <TableRow className="font-semibold">
+              <TableCell>Median</TableCell>
+              <TableCell className="text-right font-mono">{scores.words_correct_per_minute}</TableCell>
+              <TableCell className="text-right font-mono">{scores.accuracy_percentage}%</TableCell>
+              <TableCell className="text-right font-mono">{scores.total_words_read}</TableCell>
+              <TableCell className="text-right font-mono">{scores.total_errors}</TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
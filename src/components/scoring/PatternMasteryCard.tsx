@@ -0,0 +1,49 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  PATTERN_MASTERY_BADGE_STYLES,
+  PATTERN_MASTERY_LABELS,
+  PATTERN_MASTERY_THRESHOLD,
+  WORD_PATTERNS,
+  WORD_PATTERN_LABELS,
+  type WordPatternComputedScores,
+} from '@/types/wordPattern';
+
+interface PatternMasteryCardProps {
+  scores: WordPatternComputedScores;
+}
+
+/**
+ * Mastery of each phonics pattern assessed, in teaching order.
+ */
+export function PatternMasteryCard({ scores }: PatternMasteryCardProps) {
+  const patterns = WORD_PATTERNS.filter(p => scores.pattern_breakdown[p]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pattern Mastery</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {scores.patterns_mastered} of {scores.patterns_assessed} patterns mastered
+          (at least {PATTERN_MASTERY_THRESHOLD}% correct)
+        </p>
+        {patterns.map(pattern => {
+          const mastery = scores.pattern_breakdown[pattern]!;
+          return (
+            <div key={pattern} className="grid grid-cols-[8rem_1fr_4rem_6rem] items-center gap-3 text-sm">
+              <span>{WORD_PATTERN_LABELS[pattern]}</span>
+              <Progress value={mastery.percentage} className="h-2" />
+              <span className="text-right font-mono">{mastery.correct}/{mastery.total}</span>
+              <Badge className={`justify-center ${PATTERN_MASTERY_BADGE_STYLES[mastery.status]}`}>
+                {PATTERN_MASTERY_LABELS[mastery.status]}
+              </Badge>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,36 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { ProsodyScores } from '@/types/prosody';
+
+interface ProsodyCardProps {
+  scores: ProsodyScores;
+  title?: string;
+}
+
+/**
+ * Assessor's prosody ratings, one row per rubric dimension.
+ */
+export function ProsodyCard({ scores, title = 'Prosody' }: ProsodyCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>{title}</span>
+          <Badge variant="secondary">{scores.total_score}/{scores.max_score}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          {scores.rubric_name} • mean rating {scores.mean_score}
+        </p>
+        {scores.ratings.map(rating => (
+          <div key={rating.dimension_id} className="grid grid-cols-[8rem_3rem_1fr] items-center gap-3 text-sm">
+            <span>{rating.label}</span>
+            <span className="font-mono text-right">{rating.score}</span>
+            <span className="text-muted-foreground">{rating.level_label}</span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { useRecordingUrl } from '@/lib/api/sessionRecordings';
+import type { SessionRecordingRow } from '@/types/database';
+import { getActiveMarker, parseRecordingMarkers, type RecordingMarker } from '@/types/recording';
+
+interface RecordingPlaybackCardProps {
+  recording: SessionRecordingRow;
+  /** Passage words, for ORF recordings; otherwise the marked items are listed */
+  tokens?: string[] | null;
+  title?: string;
+}
+
+const formatOffset = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Plays a session recording back. Each marked word or item jumps to where it
+ * was marked, and the one playing is highlighted.
+ */
+export function RecordingPlaybackCard({ recording, tokens, title = 'Recording' }: RecordingPlaybackCardProps) {
+  const { data: url, isLoading, error } = useRecordingUrl(recording.storage_path);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [currentMs, setCurrentMs] = useState(0);
+
+  const markers = useMemo(() => parseRecordingMarkers(recording.markers), [recording.markers]);
+  const markersByIndex = useMemo(() => new Map(markers.map(m => [m.index, m])), [markers]);
+  const active = getActiveMarker(markers, currentMs);
+
+  const seekTo = (marker: RecordingMarker) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = marker.offset_ms / 1000;
+    setCurrentMs(marker.offset_ms);
+    void audio.play();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>{title}</span>
+          {recording.duration_ms !== null && (
+            <Badge variant="secondary">{formatOffset(recording.duration_ms)}</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading recording...</p>
+        ) : error || !url ? (
+          <p className="text-sm text-destructive">The recording couldn't be loaded.</p>
+        ) : (
+          <audio
+            ref={audioRef}
+            src={url}
+            controls
+            className="w-full no-print"
+            onTimeUpdate={(e) => setCurrentMs(e.currentTarget.currentTime * 1000)}
+          />
+        )}
+
+        {markers.length > 0 && (
+          <>
+            <p className="text-xs text-muted-foreground no-print">
+              Select a marked {tokens?.length ? 'word' : 'item'} to hear it.
+            </p>
+            <div className="flex flex-wrap gap-1.5 font-serif text-lg">
+              {tokens?.length
+                ? tokens.map((word, idx) => {
+                    const marker = markersByIndex.get(idx);
+                    if (!marker) {
+                      return <span key={idx} className="px-1 text-muted-foreground">{word}</span>;
+                    }
+                    return (
+                      <button
+                        key={idx}
+                        type="button"
+                        onClick={() => seekTo(marker)}
+                        title={formatOffset(marker.offset_ms)}
+                        className={cn(
+                          'px-1 rounded underline decoration-dotted hover:bg-muted',
+                          active?.index === idx && 'bg-primary text-primary-foreground'
+                        )}
+                      >
+                        {word}
+                      </button>
+                    );
+                  })
+                : markers.map(marker => (
+                    <button
+                      key={marker.index}
+                      type="button"
+                      onClick={() => seekTo(marker)}
+                      className={cn(
+                        'px-2 py-0.5 rounded border text-sm font-sans hover:bg-muted',
+                        active?.index === marker.index && 'bg-primary text-primary-foreground'
+                      )}
+                    >
+                      {marker.label} <span className="font-mono text-xs opacity-70">{formatOffset(marker.offset_ms)}</span>
+                    </button>
+                  ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { Fragment } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import {
+  CUE_SOURCES,
+  CUE_SOURCE_LABELS,
+  MISCUE_TYPES,
+  MISCUE_TYPE_ABBREVIATIONS,
+  MISCUE_TYPE_LABELS,
+  computeMiscueBreakdown,
+  type ORFRunningRecord,
+  type TokenMiscue,
+  type TokenState,
+} from '@/types/orf';
+
+interface RunningRecordCardProps {
+  tokens: string[];
+  tokenStates: Record<number, TokenState>;
+  runningRecord?: ORFRunningRecord | null;
+  /** Last word read; older sessions without one fall back to the last marked word */
+  lastWordIndex?: number | null;
+  title?: string;
+}
+
+/** Notation written above a word, running-record style. */
+function getAnnotation(state: TokenState | undefined, miscue: TokenMiscue | undefined): string {
+  if (state === 'self_correction') return miscue?.said ? `${miscue.said} SC` : 'SC';
+  if (state !== 'incorrect') return '';
+  if (!miscue) return '✗';
+  switch (miscue.type) {
+    case 'substitution': return miscue.said || MISCUE_TYPE_ABBREVIATIONS.substitution;
+    case 'omission': return '—';
+    default: return miscue.said
+      ? `${miscue.said} ${MISCUE_TYPE_ABBREVIATIONS[miscue.type]}`
+      : MISCUE_TYPE_ABBREVIATIONS[miscue.type];
+  }
+}
+
+/**
+ * The passage annotated with each coded miscue, plus totals by miscue type
+ * and the MSV cues behind substitutions.
+ */
+export function RunningRecordCard({ tokens, tokenStates, runningRecord, lastWordIndex = null, title = 'Running Record' }: RunningRecordCardProps) {
+  const miscues = runningRecord?.miscues ?? {};
+  const insertions = runningRecord?.insertions ?? [];
+
+  // Words after the last one read (or, failing that, marked) weren't reached
+  const marked = Object.keys(tokenStates).map(Number).filter(idx => tokenStates[idx] !== 'unmarked');
+  const lastRead = lastWordIndex ?? (marked.length > 0 ? Math.max(...marked) : -1);
+  const readStates = Object.fromEntries(
+    Object.entries(tokenStates).filter(([idx]) => Number(idx) <= lastRead)
+  ) as Record<number, TokenState>;
+  const breakdown = computeMiscueBreakdown(readStates, miscues, insertions);
+
+  const renderInsertions = (after: number) =>
+    insertions
+      .filter(ins => ins.after === after)
+      .map((ins, i) => (
+        <span key={`ins-${after}-${i}`} className="inline-flex flex-col items-center text-red-600">
+          <span className="text-xs italic">{ins.said}</span>
+          <span>^</span>
+        </span>
+      ));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-x-2 gap-y-3 font-serif text-lg leading-tight">
+          {renderInsertions(-1)}
+          {tokens.map((word, idx) => {
+            const state = tokenStates[idx];
+            const miscue = miscues[idx];
+            const annotation = getAnnotation(state, miscue);
+            return (
+              <Fragment key={idx}>
+                <span className="inline-flex flex-col items-center">
+                  <span
+                    className={cn(
+                      'text-xs font-sans min-h-4',
+                      state === 'self_correction' ? 'text-amber-600' : 'text-red-600'
+                    )}
+                  >
+                    {annotation}
+                  </span>
+                  <span
+                    className={cn(
+                      idx > lastRead && 'text-muted-foreground/50',
+                      state === 'incorrect' && 'text-red-700 underline decoration-red-400',
+                      state === 'incorrect' && miscue?.type === 'omission' && 'line-through',
+                      state === 'self_correction' && 'text-amber-700'
+                    )}
+                  >
+                    {word}
+                  </span>
+                </span>
+                {renderInsertions(idx)}
+                {lastWordIndex === idx && <span className="self-end font-bold text-primary">]</span>}
+              </Fragment>
+            );
+          })}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6 text-sm">
+          <div className="space-y-2">
+            <h4 className="font-semibold">Miscues</h4>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+              {MISCUE_TYPES.map(type => (
+                <Fragment key={type}>
+                  <dt className="text-muted-foreground">{MISCUE_TYPE_LABELS[type]}</dt>
+                  <dd className="font-mono">{breakdown[type]}</dd>
+                </Fragment>
+              ))}
+              {breakdown.uncoded > 0 && (
+                <>
+                  <dt className="text-muted-foreground">Uncoded</dt>
+                  <dd className="font-mono">{breakdown.uncoded}</dd>
+                </>
+              )}
+            </dl>
+          </div>
+          <div className="space-y-2">
+            <h4 className="font-semibold">Cues Used in Substitutions</h4>
+            {breakdown.substitutions_with_cues > 0 ? (
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+                {CUE_SOURCES.map(cue => (
+                  <Fragment key={cue}>
+                    <dt className="text-muted-foreground">{CUE_SOURCE_LABELS[cue]}</dt>
+                    <dd className="font-mono">
+                      {breakdown.cues[cue]}/{breakdown.substitutions_with_cues}
+                    </dd>
+                  </Fragment>
+                ))}
+              </dl>
+            ) : (
+              <p className="text-muted-foreground">No substitutions were coded for MSV.</p>
+            )}
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Above each word: what the student said, SC for self-corrected, — for omitted,
+          T for teacher told, R for reversal; ^ marks an inserted word and ] the last word read.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
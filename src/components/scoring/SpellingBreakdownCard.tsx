@@ -0,0 +1,99 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  SPELLING_FEATURE_LABELS,
+  summarizeSpelling,
+  type SpellingAnalysis,
+  type SpellingFeatureType,
+} from '@/lib/scoring';
+
+interface SpellingBreakdownCardProps {
+  analyses: SpellingAnalysis[];
+}
+
+/**
+ * Spelling partial-credit totals, accuracy per spelling feature and each
+ * word's attempt.
+ */
+export function SpellingBreakdownCard({ analyses }: SpellingBreakdownCardProps) {
+  const summary = summarizeSpelling(analyses);
+  const features = Object.entries(summary.feature_breakdown) as [SpellingFeatureType, { correct: number; total: number }][];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Spelling Analysis</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <dl className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <div>
+            <dt className="text-sm text-muted-foreground">Words Correct</dt>
+            <dd className="text-2xl font-bold">{summary.words_correct}/{summary.words_spelled}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-muted-foreground">Correct Letter Sequences</dt>
+            <dd className="text-2xl font-bold">
+              {summary.correct_letter_sequences}/{summary.possible_letter_sequences}
+              <span className="text-sm font-normal text-muted-foreground ml-2">{summary.cls_percentage}%</span>
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm text-muted-foreground">Feature Points</dt>
+            <dd className="text-2xl font-bold">
+              {summary.feature_points}/{summary.possible_feature_points}
+              <span className="text-sm font-normal text-muted-foreground ml-2">{summary.feature_percentage}%</span>
+            </dd>
+          </div>
+        </dl>
+
+        {features.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-semibold">By Feature</h4>
+            {features.map(([feature, tally]) => (
+              <div key={feature} className="grid grid-cols-[10rem_1fr_4rem] items-center gap-3 text-sm">
+                <span>{SPELLING_FEATURE_LABELS[feature]}</span>
+                <Progress value={(tally.correct / tally.total) * 100} className="h-2" />
+                <span className="text-right font-mono">{tally.correct}/{tally.total}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Target</TableHead>
+              <TableHead>Attempt</TableHead>
+              <TableHead className="w-20">CLS</TableHead>
+              <TableHead>Features Missed</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {analyses.map((a, idx) => (
+              <TableRow key={idx}>
+                <TableCell className="font-mono">{a.target}</TableCell>
+                <TableCell className={`font-mono ${a.word_correct ? 'text-green-600' : 'text-destructive'}`}>
+                  {a.attempt || '—'}
+                </TableCell>
+                <TableCell className="font-mono">{a.correct_letter_sequences}/{a.possible_letter_sequences}</TableCell>
+                <TableCell>
+                  {a.features.some(f => !f.correct) ? (
+                    <div className="flex flex-wrap gap-1">
+                      {a.features.filter(f => !f.correct).map((f, i) => (
+                        <Badge key={i} variant="outline" className="text-xs">
+                          {SPELLING_FEATURE_LABELS[f.feature]}: {f.pattern}
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : '—'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, Trash2, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ProgressChart } from '@/components/students/ProgressChart';
+import { useDeleteStudentGoal, useUpdateStudentGoal } from '@/lib/api/studentGoals';
+import { analyzeGoal, DECISION_RULE_POINTS } from '@/lib/progressMonitoring';
+import { buildMetricPoints, getAvailableMetrics, type ProgressResponse } from '@/lib/studentProgress';
+import type { GoalStatus, SessionRow, StudentGoalRow } from '@/types/database';
+import { toast } from 'sonner';
+
+interface GoalCardProps {
+  goal: StudentGoalRow;
+  sessions: SessionRow[];
+  responses: ProgressResponse[];
+}
+
+const STATUS_VARIANTS: Record<GoalStatus, 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  met: 'secondary',
+  discontinued: 'outline',
+};
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const formatRoi = (roi: number | null) => (roi === null ? '—' : `${roi > 0 ? '+' : ''}${roi}/wk`);
+
+export function GoalCard({ goal, sessions, responses }: GoalCardProps) {
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const updateGoal = useUpdateStudentGoal();
+  const deleteGoal = useDeleteStudentGoal();
+
+  const metric = getAvailableMetrics(goal.assessment_id).find(m => m.metric_id === goal.metric_id);
+  const unit = metric?.unit ?? goal.metric_id;
+
+  const analysis = useMemo(
+    () => analyzeGoal(goal, buildMetricPoints(goal.assessment_id, goal.metric_id, sessions, responses)),
+    [goal, sessions, responses]
+  );
+
+  const status = goal.status as GoalStatus;
+  const onTrack = analysis.actual_roi !== null && analysis.needed_roi !== null && analysis.actual_roi >= analysis.needed_roi;
+
+  const handleStatusChange = async (next: GoalStatus) => {
+    try {
+      await updateGoal.mutateAsync({ id: goal.goal_id, updates: { status: next } });
+      toast.success(next === 'active' ? 'Goal reactivated' : `Goal marked ${next}`);
+    } catch (error) {
+      toast.error((error as Error)?.message || 'Failed to update goal');
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteGoal.mutateAsync({ goal_id: goal.goal_id, student_id: goal.student_id });
+      toast.success('Goal deleted');
+    } catch (error) {
+      toast.error((error as Error)?.message || 'Failed to delete goal');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <span className="font-mono">{goal.assessment_id}</span>
+              <Badge variant={STATUS_VARIANTS[status] ?? 'outline'} className="capitalize">{goal.status}</Badge>
+            </CardTitle>
+            <CardDescription>
+              {metric?.label ?? goal.metric_id}: {goal.baseline_value !== null ? `${goal.baseline_value} → ` : ''}
+              {goal.target_value} {unit} by {formatDate(goal.end_date)} (from {formatDate(goal.start_date)})
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {status === 'active' ? (
+              <>
+                <Button variant="outline" size="sm" onClick={() => handleStatusChange('met')} disabled={updateGoal.isPending}>
+                  <CheckCircle className="h-4 w-4 mr-1" /> Met
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleStatusChange('discontinued')} disabled={updateGoal.isPending}>
+                  <XCircle className="h-4 w-4 mr-1" /> Discontinue
+                </Button>
+              </>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => handleStatusChange('active')} disabled={updateGoal.isPending}>
+                Reactivate
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => setShowDeleteDialog(true)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status === 'active' && analysis.decision_rule_triggered && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Consider an instructional change</AlertTitle>
+            <AlertDescription>
+              The last {analysis.consecutive_below_aimline} data points fell below the aimline
+              ({DECISION_RULE_POINTS} in a row triggers the decision rule).
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Actual ROI</p>
+            <p className={`font-semibold ${analysis.actual_roi === null ? '' : onTrack ? 'text-green-600' : 'text-destructive'}`}>
+              {formatRoi(analysis.actual_roi)}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Needed ROI</p>
+            <p className="font-semibold">{formatRoi(analysis.needed_roi)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Projected at end date</p>
+            <p className="font-semibold">
+              {analysis.projected_value === null ? '—' : `${analysis.projected_value} ${unit}`}
+            </p>
+          </div>
+        </div>
+
+        {analysis.points.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No scored sessions since the goal started.</p>
+        ) : (
+          <ProgressChart
+            points={analysis.points}
+            unit={unit}
+            aimline={analysis.aimline}
+            trendline={analysis.trendline}
+          />
+        )}
+        {analysis.points.length === 1 && (
+          <p className="text-xs text-muted-foreground">At least two data points are needed for a trendline.</p>
+        )}
+        {goal.notes && <p className="text-sm text-muted-foreground">{goal.notes}</p>}
+      </CardContent>
+
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete goal?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the goal and its aimline. Session scores are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
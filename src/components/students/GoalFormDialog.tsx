@@ -0,0 +1,178 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCreateStudentGoal } from '@/lib/api/studentGoals';
+import { getAvailableMetrics } from '@/lib/studentProgress';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface GoalFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  studentId: string;
+  /** Assessments the student has scored sessions for */
+  assessmentIds: string[];
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function GoalFormDialog({ open, onOpenChange, studentId, assessmentIds }: GoalFormDialogProps) {
+  const [assessmentId, setAssessmentId] = useState('');
+  const [metricId, setMetricId] = useState('');
+  const [targetValue, setTargetValue] = useState('');
+  const [baselineValue, setBaselineValue] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const createGoal = useCreateStudentGoal();
+
+  const metrics = useMemo(() => (assessmentId ? getAvailableMetrics(assessmentId) : []), [assessmentId]);
+
+  useEffect(() => {
+    if (!open) return;
+    const initialAssessment = assessmentIds[0] ?? '';
+    setAssessmentId(initialAssessment);
+    setMetricId(initialAssessment ? getAvailableMetrics(initialAssessment)[0].metric_id : '');
+    setTargetValue('');
+    setBaselineValue('');
+    setStartDate(today());
+    setEndDate('');
+    setNotes('');
+  }, [open, assessmentIds]);
+
+  const handleAssessmentChange = (value: string) => {
+    setAssessmentId(value);
+    setMetricId(getAvailableMetrics(value)[0].metric_id);
+  };
+
+  const handleSave = async () => {
+    const target = parseFloat(targetValue);
+    const baseline = baselineValue.trim() ? parseFloat(baselineValue) : null;
+
+    if (!assessmentId || !metricId) {
+      toast.error('Select an assessment and metric');
+      return;
+    }
+    if (isNaN(target)) {
+      toast.error('Target value is required');
+      return;
+    }
+    if (baseline !== null && isNaN(baseline)) {
+      toast.error('Baseline must be a number');
+      return;
+    }
+    if (!startDate || !endDate || endDate <= startDate) {
+      toast.error('End date must be after the start date');
+      return;
+    }
+
+    try {
+      await createGoal.mutateAsync({
+        student_id: studentId,
+        assessment_id: assessmentId,
+        metric_id: metricId,
+        target_value: target,
+        baseline_value: baseline,
+        start_date: startDate,
+        end_date: endDate,
+        notes: notes.trim() || null,
+      });
+      toast.success('Goal added');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error)?.message || 'Failed to add goal');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Add Goal</DialogTitle>
+          <DialogDescription>
+            Set a progress-monitoring target. Leave the baseline blank to start the aimline at the first score on or after the start date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Assessment *</Label>
+              <Select value={assessmentId} onValueChange={handleAssessmentChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select assessment" />
+                </SelectTrigger>
+                <SelectContent>
+                  {assessmentIds.map((id) => (
+                    <SelectItem key={id} value={id} className="font-mono">{id}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Metric *</Label>
+              <Select value={metricId} onValueChange={setMetricId} disabled={!assessmentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select metric" />
+                </SelectTrigger>
+                <SelectContent>
+                  {metrics.map((metric) => (
+                    <SelectItem key={metric.metric_id} value={metric.metric_id}>
+                      {metric.label} ({metric.unit})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="targetValue">Target *</Label>
+              <Input id="targetValue" type="number" value={targetValue} onChange={(e) => setTargetValue(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="baselineValue">Baseline</Label>
+              <Input id="baselineValue" type="number" value={baselineValue} onChange={(e) => setBaselineValue(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="startDate">Start Date *</Label>
+              <Input id="startDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="endDate">End Date *</Label>
+              <Input id="endDate" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="goalNotes">Notes</Label>
+            <Textarea id="goalNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={createGoal.isPending}>
+            {createGoal.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Add Goal
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
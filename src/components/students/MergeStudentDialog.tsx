@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useMergeStudents } from '@/lib/api/students';
+import type { StudentRow } from '@/types/database';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface MergeStudentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The duplicate record that will be merged away */
+  source: StudentRow | null;
+  students: StudentRow[];
+}
+
+export function MergeStudentDialog({ open, onOpenChange, source, students }: MergeStudentDialogProps) {
+  const [targetId, setTargetId] = useState('');
+  const mergeStudents = useMergeStudents();
+
+  useEffect(() => {
+    if (open) setTargetId('');
+  }, [open]);
+
+  const candidates = students.filter(s => s.is_active && s.student_id !== source?.student_id);
+
+  const handleMerge = async () => {
+    if (!source || !targetId) return;
+    const target = candidates.find(s => s.student_id === targetId);
+
+    try {
+      await mergeStudents.mutateAsync({ sourceId: source.student_id, targetId });
+      toast.success(`Merged ${source.full_name} into ${target?.full_name ?? 'student'}`);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error)?.message || 'Failed to merge students');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Merge Student</DialogTitle>
+          <DialogDescription>
+            All sessions for <strong>{source?.full_name}</strong> will move to the selected student,
+            and this record will be archived.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Merge into</Label>
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select the student to keep" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((student) => (
+                <SelectItem key={student.student_id} value={student.student_id}>
+                  {student.full_name}{student.local_id ? ` (${student.local_id})` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={!targetId || mergeStudents.isPending}>
+            {mergeStudents.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useNavigate } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { ProgressBenchmark, ProgressPoint } from '@/lib/studentProgress';
+import type { LinePoint } from '@/lib/progressMonitoring';
+
+interface ProgressChartProps {
+  points: ProgressPoint[];
+  unit: string;
+  benchmark?: ProgressBenchmark | null;
+  /** Goal aimline from baseline to target */
+  aimline?: LinePoint[] | null;
+  /** OLS trendline through the points */
+  trendline?: LinePoint[] | null;
+}
+
+interface DotProps {
+  cx?: number;
+  cy?: number;
+  payload?: { session_id: string };
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+/**
+ * A metric over time for one assessment. Clicking a point opens that
+ * session's report; the benchmark is drawn as a dashed reference line and a
+ * goal's aimline and trendline can be overlaid.
+ */
+export function ProgressChart({ points, unit, benchmark, aimline, trendline }: ProgressChartProps) {
+  const navigate = useNavigate();
+
+  const chartConfig: ChartConfig = {
+    value: { label: unit, color: 'hsl(var(--primary))' },
+    aim: { label: 'Aimline', color: 'hsl(var(--muted-foreground))' },
+    trend: { label: 'Trend', color: 'hsl(var(--chart-2, 173 58% 39%))' },
+  };
+
+  const renderDot = ({ cx, cy, payload }: DotProps) => {
+    if (cx === undefined || cy === undefined || !payload) return <g />;
+    return (
+      <circle
+        key={payload.session_id}
+        cx={cx}
+        cy={cy}
+        r={5}
+        fill="var(--color-value)"
+        stroke="hsl(var(--background))"
+        strokeWidth={2}
+        className="cursor-pointer"
+        onClick={() => navigate(`/sessions/${payload.session_id}/report`)}
+      />
+    );
+  };
+
+  const overlayPoints = [...(aimline ?? []), ...(trendline ?? [])];
+  const allPoints = [...points, ...overlayPoints];
+  const maxValue = Math.max(...allPoints.map(p => p.value), benchmark?.value ?? 0);
+  const xDomain = [
+    Math.min(...allPoints.map(p => p.timestamp)),
+    Math.max(...allPoints.map(p => p.timestamp)),
+  ];
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+      <LineChart data={points} margin={{ top: 16, right: 24, left: 0, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="timestamp"
+          type="number"
+          scale="time"
+          domain={xDomain}
+          tickFormatter={formatDate}
+          padding={{ left: 16, right: 16 }}
+        />
+        <YAxis domain={[0, Math.ceil(maxValue * 1.1) || 1]} width={40} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => {
+                const point = payload?.[0]?.payload;
+                if (!point) return '';
+                return point.form_id ? `${formatDate(point.timestamp)} • ${point.form_id}` : formatDate(point.timestamp);
+              }}
+            />
+          }
+        />
+        {benchmark && (
+          <ReferenceLine
+            y={benchmark.value}
+            stroke="hsl(var(--destructive))"
+            strokeDasharray="6 4"
+            label={{
+              value: `Benchmark ${benchmark.value}${benchmark.status === 'placeholder' ? ' (placeholder)' : ''}`,
+              position: 'insideTopRight',
+              fontSize: 11,
+            }}
+          />
+        )}
+        {aimline && (
+          <Line
+            data={aimline.map(p => ({ timestamp: p.timestamp, aim: p.value }))}
+            dataKey="aim"
+            stroke="var(--color-aim)"
+            strokeWidth={2}
+            dot={false}
+            activeDot={false}
+            isAnimationActive={false}
+          />
+        )}
+        {trendline && (
+          <Line
+            data={trendline.map(p => ({ timestamp: p.timestamp, trend: p.value }))}
+            dataKey="trend"
+            stroke="var(--color-trend)"
+            strokeWidth={2}
+            strokeDasharray="4 4"
+            dot={false}
+            activeDot={false}
+            isAnimationActive={false}
+          />
+        )}
+        <Line
+          dataKey="value"
+          type="monotone"
+          stroke="var(--color-value)"
+          strokeWidth={2}
+          dot={renderDot}
+          activeDot={false}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
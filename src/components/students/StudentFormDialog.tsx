@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCreateStudent, useUpdateStudent } from '@/lib/api/students';
+import { GRADE_DISPLAY_NAMES } from '@/lib/gradeUtils';
+import type { StudentRow } from '@/types/database';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Students are enrolled in a single grade, so ranges and bands are not offered
+const STUDENT_GRADES = ['K', '1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'] as const;
+
+interface StudentFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Student to edit; omit to create a new one */
+  student?: StudentRow | null;
+}
+
+export function StudentFormDialog({ open, onOpenChange, student }: StudentFormDialogProps) {
+  const [fullName, setFullName] = useState('');
+  const [localId, setLocalId] = useState('');
+  const [dateOfBirth, setDateOfBirth] = useState('');
+  const [gradeTag, setGradeTag] = useState('');
+  const [classroom, setClassroom] = useState('');
+
+  const createStudent = useCreateStudent();
+  const updateStudent = useUpdateStudent();
+  const isPending = createStudent.isPending || updateStudent.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+    setFullName(student?.full_name ?? '');
+    setLocalId(student?.local_id ?? '');
+    setDateOfBirth(student?.date_of_birth ?? '');
+    setGradeTag(student?.grade_tag ?? '');
+    setClassroom(student?.classroom ?? '');
+  }, [open, student]);
+
+  const handleSave = async () => {
+    if (!fullName.trim()) {
+      toast.error('Student name is required');
+      return;
+    }
+
+    const values = {
+      full_name: fullName.trim().replace(/\s+/g, ' '),
+      local_id: localId.trim() || null,
+      date_of_birth: dateOfBirth || null,
+      grade_tag: gradeTag || null,
+      classroom: classroom.trim() || null,
+    };
+
+    try {
+      if (student) {
+        await updateStudent.mutateAsync({ id: student.student_id, updates: values });
+        toast.success('Student updated');
+      } else {
+        await createStudent.mutateAsync(values);
+        toast.success('Student added');
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error)?.message || 'Failed to save student');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{student ? 'Edit Student' : 'Add Student'}</DialogTitle>
+          <DialogDescription>
+            {student ? 'Update roster details for this student.' : 'Add a student to the roster.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="fullName">Name *</Label>
+            <Input id="fullName" value={fullName} onChange={(e) => setFullName(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="localId">Local ID</Label>
+              <Input id="localId" value={localId} onChange={(e) => setLocalId(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dateOfBirth">Date of Birth</Label>
+              <Input id="dateOfBirth" type="date" value={dateOfBirth} onChange={(e) => setDateOfBirth(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Grade</Label>
+              <Select value={gradeTag} onValueChange={setGradeTag}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select grade" />
+                </SelectTrigger>
+                <SelectContent>
+                  {STUDENT_GRADES.map((grade) => (
+                    <SelectItem key={grade} value={grade}>{GRADE_DISPLAY_NAMES[grade]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="classroom">Classroom</Label>
+              <Input id="classroom" value={classroom} onChange={(e) => setClassroom(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isPending}>
+            {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {student ? 'Save Changes' : 'Add Student'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
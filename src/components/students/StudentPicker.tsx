@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Check, ChevronsUpDown, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useStudents, useCreateStudent, normalizeStudentName } from '@/lib/api/students';
+import { getGradeLabel } from '@/lib/gradeUtils';
+import { cn } from '@/lib/utils';
+import type { StudentRow } from '@/types/database';
+import { toast } from 'sonner';
+
+interface StudentPickerProps {
+  value: string | null;
+  onChange: (student: StudentRow) => void;
+}
+
+/**
+ * Searchable roster picker. Searches name, local ID and classroom, and can add
+ * a new student when nobody matches.
+ */
+export function StudentPicker({ value, onChange }: StudentPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const { data: students = [], isLoading } = useStudents();
+  const createStudent = useCreateStudent();
+
+  const selected = students.find(s => s.student_id === value);
+  const trimmedSearch = search.trim();
+  const hasExactMatch = students.some(s => normalizeStudentName(s.full_name) === normalizeStudentName(search));
+
+  const handleSelect = (student: StudentRow) => {
+    onChange(student);
+    setOpen(false);
+    setSearch('');
+  };
+
+  const handleCreate = async () => {
+    try {
+      const student = await createStudent.mutateAsync({ full_name: trimmedSearch.replace(/\s+/g, ' ') });
+      toast.success(`Added ${student.full_name} to the roster`);
+      handleSelect(student);
+    } catch (error) {
+      toast.error((error as Error)?.message || 'Failed to add student');
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          {selected ? selected.full_name : isLoading ? 'Loading roster...' : 'Select a student'}
+          <ChevronsUpDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput
+            placeholder="Search by name, ID or classroom..."
+            value={search}
+            onValueChange={setSearch}
+          />
+          <CommandList>
+            <CommandEmpty>No students found.</CommandEmpty>
+            <CommandGroup>
+              {students.map((student) => (
+                <CommandItem
+                  key={student.student_id}
+                  value={[student.full_name, student.local_id, student.classroom, student.student_id].filter(Boolean).join(' ')}
+                  onSelect={() => handleSelect(student)}
+                >
+                  <Check className={cn('mr-2 h-4 w-4', value === student.student_id ? 'opacity-100' : 'opacity-0')} />
+                  <div className="flex flex-col">
+                    <span>{student.full_name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {[student.local_id, student.grade_tag && getGradeLabel(student.grade_tag), student.classroom]
+                        .filter(Boolean)
+                        .join(' • ')}
+                    </span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {trimmedSearch && !hasExactMatch && (
+              <CommandGroup>
+                <CommandItem
+                  value={`__create__ ${trimmedSearch}`}
+                  onSelect={handleCreate}
+                  disabled={createStudent.isPending}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add "{trimmedSearch}" to roster
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
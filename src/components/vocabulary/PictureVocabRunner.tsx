@@ -1,5 +1,5 @@
 import { useState, useCallback, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useExitSession } from '@/hooks/use-session-exit';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -16,54 +16,51 @@ import {
   Mic
 } from 'lucide-react';
 import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
 import { useUpsertSessionResponse } from '@/lib/api/sessionResponses';
-import { scoreAndPersistSession } from '@/lib/scoring';
+import { getPictureChoices, getPictureToName, type EPVTPayload, type RPVTPayload } from '@/types/vocabulary';
 import type { SessionRow, ItemRow } from '@/types/database';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+
+type PictureVocabResponse = {
+  selectedOption: string | null;
+  isCorrect: boolean | null;
+  notes: string;
+};
+
+// Working state checkpointed so a reload keeps answers not yet saved
+interface PictureVocabDraft {
+  currentIndex: number;
+  responses: Record<number, PictureVocabResponse>;
+}
 
 interface PictureVocabRunnerProps {
   session: SessionRow;
   items: ItemRow[];
 }
 
-// VO-RPVT: 4 images, student selects one based on spoken prompt
-interface RPVTPayload {
-  prompt_word?: string;
-  stimulus?: string;
-  images?: string[];
-  image_urls?: string[];
-  options?: Array<{ option_id: string; image_url: string; label?: string }>;
-  correct_answer?: string;
-  correct_option_id?: string;
-  semantic_category?: string;
-}
-
-// VO-EPVT: Single image, student names it orally
-interface EPVTPayload {
-  image_url?: string;
-  stimulus_image?: string;
-  target_word?: string;
-  acceptable_responses?: string[];
-  semantic_category?: string;
-}
-
 type ItemPayload = RPVTPayload | EPVTPayload;
 
 export function PictureVocabRunner({ session, items }: PictureVocabRunnerProps) {
-  const navigate = useNavigate();
+  const exitSession = useExitSession();
   const updateSession = useUpdateSession();
   const upsertResponse = useUpsertSessionResponse();
 
   const isExpressive = session.assessment_id === 'VO-EPVT';
   const isReceptive = session.assessment_id === 'VO-RPVT';
 
-  const [currentIndex, setCurrentIndex] = useState(session.current_item_index || 0);
-  const [responses, setResponses] = useState<Record<number, { 
-    selectedOption: string | null; 
-    isCorrect: boolean | null;
-    notes: string 
-  }>>({});
+  const resumed = useResumedDraft<PictureVocabDraft>();
+
+  const [currentIndex, setCurrentIndex] = useState(resumed?.currentIndex ?? (session.current_item_index || 0));
+  useStudentDisplayItem(session, currentIndex);
+  const [responses, setResponses] = useState<Record<number, PictureVocabResponse>>(resumed?.responses ?? {});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  useDraftCheckpoint<PictureVocabDraft>(session, { currentIndex, responses }, {
+    currentItemIndex: currentIndex,
+    enabled: Object.keys(responses).length > 0,
+  });
+
   const currentItem = items[currentIndex];
   const totalItems = items.length;
   const payload = currentItem?.content_payload as unknown as ItemPayload | undefined;
@@ -160,12 +157,11 @@ export function PictureVocabRunner({ session, items }: PictureVocabRunnerProps)
         }
       });
 
-      await scoreAndPersistSession(session.session_id);
-      navigate(`/sessions/${session.session_id}/report`);
+      exitSession(`/sessions/${session.session_id}/report`);
     } finally {
       setIsSubmitting(false);
     }
-  }, [saveCurrentResponse, session.session_id, updateSession, navigate]);
+  }, [saveCurrentResponse, session.session_id, updateSession, exitSession]);
 
   const canProceed = currentResponse.isCorrect !== null;
 
@@ -178,12 +174,7 @@ export function PictureVocabRunner({ session, items }: PictureVocabRunnerProps)
     const correctId = rpvtPayload?.correct_option_id || rpvtPayload?.correct_answer;
     
     // Get images from various possible payload structures
-    const imageOptions = rpvtPayload?.options || 
-      (rpvtPayload?.images || rpvtPayload?.image_urls || []).map((url, idx) => ({
-        option_id: String.fromCharCode(65 + idx), // A, B, C, D
-        image_url: url,
-        label: String.fromCharCode(65 + idx)
-      }));
+    const imageOptions = getPictureChoices(rpvtPayload);
 
     return (
       <Card>
@@ -279,7 +270,7 @@ export function PictureVocabRunner({ session, items }: PictureVocabRunnerProps)
   // ---------------------------------------------------------------------------
   const renderExpressiveContent = () => {
     const epvtPayload = payload as EPVTPayload;
-    const imageUrl = epvtPayload?.image_url || epvtPayload?.stimulus_image;
+    const imageUrl = getPictureToName(epvtPayload);
     const targetWord = epvtPayload?.target_word;
     const acceptableResponses = epvtPayload?.acceptable_responses || [];
 
@@ -354,7 +345,7 @@ export function PictureVocabRunner({ session, items }: PictureVocabRunnerProps)
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
-              <Button variant="ghost" size="icon" onClick={() => navigate('/sessions')}>
+              <Button variant="ghost" size="icon" onClick={() => exitSession()}>
                 <ArrowLeft className="h-5 w-5" />
               </Button>
               <div>
@@ -1,5 +1,5 @@
 import { useState, useCallback, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useExitSession } from '@/hooks/use-session-exit';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -7,40 +7,49 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { ArrowLeft, ArrowRight, CheckCircle, Check, X } from 'lucide-react';
 import { useUpdateSession } from '@/lib/api/sessions';
+import { useStudentDisplayItem } from '@/hooks/use-student-display';
 import { useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import { getVocabChoices, getVocabQuestion, type VocabMCQPayload } from '@/types/vocabulary';
 import type { SessionRow, ItemRow } from '@/types/database';
+import { useDraftCheckpoint, useResumedDraft } from '@/hooks/use-session-draft';
+
+type VocabMCQResponse = { selectedOption: string | null; notes: string };
+
+// Working state checkpointed so a reload keeps answers not yet saved
+interface VocabMCQDraft {
+  currentIndex: number;
+  responses: Record<number, VocabMCQResponse>;
+}
 
 interface VocabMCQRunnerProps {
   session: SessionRow;
   items: ItemRow[];
 }
 
-interface ItemPayload {
-  question?: string;
-  stimulus?: string;
-  context_sentence?: string;
-  target_word?: string;
-  options?: string[];
-  choices?: string[];
-  correct_answer?: string;
-}
-
 export function VocabMCQRunner({ session, items }: VocabMCQRunnerProps) {
-  const navigate = useNavigate();
+  const exitSession = useExitSession();
   const updateSession = useUpdateSession();
   const upsertResponse = useUpsertSessionResponse();
 
-  const [currentIndex, setCurrentIndex] = useState(session.current_item_index || 0);
-  const [responses, setResponses] = useState<Record<number, { selectedOption: string | null; notes: string }>>({});
+  const resumed = useResumedDraft<VocabMCQDraft>();
+
+  const [currentIndex, setCurrentIndex] = useState(resumed?.currentIndex ?? (session.current_item_index || 0));
+  useStudentDisplayItem(session, currentIndex);
+  const [responses, setResponses] = useState<Record<number, VocabMCQResponse>>(resumed?.responses ?? {});
+
+  useDraftCheckpoint<VocabMCQDraft>(session, { currentIndex, responses }, {
+    currentItemIndex: currentIndex,
+    enabled: Object.keys(responses).length > 0,
+  });
 
   const currentItem = items[currentIndex];
   const totalItems = items.length;
-  const payload = currentItem?.content_payload as ItemPayload | undefined;
+  const payload = currentItem?.content_payload as VocabMCQPayload | undefined;
 
   // Extract question content
-  const question = payload?.question || payload?.context_sentence || payload?.stimulus || '';
+  const question = getVocabQuestion(payload);
   const targetWord = payload?.target_word || '';
-  const options = payload?.options || payload?.choices || [];
+  const options = getVocabChoices(payload);
   const correctAnswer = payload?.correct_answer || '';
 
   // Current response state
@@ -52,7 +61,7 @@ export function VocabMCQRunner({ session, items }: VocabMCQRunnerProps) {
     const answered = Object.entries(responses).filter(([, r]) => r.selectedOption !== null);
     const correct = answered.filter(([idx, r]) => {
       const item = items[parseInt(idx)];
-      const itemPayload = item?.content_payload as ItemPayload | undefined;
+      const itemPayload = item?.content_payload as VocabMCQPayload | undefined;
       return r.selectedOption === itemPayload?.correct_answer;
     }).length;
     const accuracy = answered.length > 0 ? Math.round((correct / answered.length) * 100) : 0;
@@ -116,8 +125,8 @@ export function VocabMCQRunner({ session, items }: VocabMCQRunnerProps) {
       }
     });
 
-    navigate('/sessions');
-  }, [saveCurrentResponse, session.session_id, updateSession, navigate]);
+    exitSession();
+  }, [saveCurrentResponse, session.session_id, updateSession, exitSession]);
 
   const canProceed = currentResponse.selectedOption !== null;
 
@@ -144,7 +153,7 @@ export function VocabMCQRunner({ session, items }: VocabMCQRunnerProps) {
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
-              <Button variant="ghost" size="icon" onClick={() => navigate('/sessions')}>
+              <Button variant="ghost" size="icon" onClick={() => exitSession()}>
                 <ArrowLeft className="h-5 w-5" />
               </Button>
               <div>
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RecordingMarker } from '@/types/recording';
+
+export type AudioRecorderStatus = 'inactive' | 'recording' | 'stopped';
+
+export interface RecordedAudio {
+  audio: Blob;
+  duration_ms: number;
+}
+
+export const isAudioRecordingSupported = () =>
+  typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Microphone capture with MediaRecorder. While recording, `mark` notes the
+ * playback offset at which a token or item was first marked, so reviewers
+ * can jump to it later.
+ */
+export function useAudioRecorder() {
+  const [status, setStatus] = useState<AudioRecorderStatus>('inactive');
+  const [recorded, setRecorded] = useState<RecordedAudio | null>(null);
+  const [markers, setMarkers] = useState<Record<number, RecordingMarker>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef<number | null>(null);
+  const recordedRef = useRef<RecordedAudio | null>(null);
+  const stopResolversRef = useRef<((recorded: RecordedAudio | null) => void)[]>([]);
+
+  const releaseStream = useCallback(() => {
+    recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+  }, []);
+
+  const start = useCallback(async () => {
+    if (!isAudioRecordingSupported()) {
+      setError('Audio recording is not supported in this browser.');
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      chunksRef.current = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunksRef.current.push(e.data);
+      };
+      recorder.onstop = () => {
+        const result: RecordedAudio = {
+          audio: new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' }),
+          duration_ms: startedAtRef.current !== null ? Math.round(performance.now() - startedAtRef.current) : 0,
+        };
+        recordedRef.current = result;
+        setRecorded(result);
+        startedAtRef.current = null;
+        setStatus('stopped');
+        stream.getTracks().forEach(track => track.stop());
+        stopResolversRef.current.forEach(resolve => resolve(result));
+        stopResolversRef.current = [];
+      };
+      recorderRef.current = recorder;
+      recorder.start(1000);
+      startedAtRef.current = performance.now();
+      setError(null);
+      setStatus('recording');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Microphone access was denied.');
+    }
+  }, []);
+
+  // Resolves with the audio once it's finalized; safe to call when not recording
+  const stop = useCallback((): Promise<RecordedAudio | null> => {
+    if (recorderRef.current?.state !== 'recording') {
+      return Promise.resolve(recordedRef.current);
+    }
+    return new Promise(resolve => {
+      stopResolversRef.current.push(resolve);
+      recorderRef.current?.stop();
+    });
+  }, []);
+
+  // Stop and throw the audio away
+  const reset = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.onstop = null;
+      recorderRef.current.stop();
+      releaseStream();
+    }
+    recorderRef.current = null;
+    startedAtRef.current = null;
+    chunksRef.current = [];
+    recordedRef.current = null;
+    stopResolversRef.current.forEach(resolve => resolve(null));
+    stopResolversRef.current = [];
+    setRecorded(null);
+    setMarkers({});
+    setStatus('inactive');
+  }, [releaseStream]);
+
+  // Keeps the first offset for each index: when the word was heard
+  const mark = useCallback((index: number, label: string) => {
+    const startedAt = startedAtRef.current;
+    if (startedAt === null) return;
+    const offset = Math.round(performance.now() - startedAt);
+    setMarkers(prev => (prev[index] ? prev : { ...prev, [index]: { index, label, offset_ms: offset } }));
+  }, []);
+
+  // Release the microphone if the runner unmounts mid-recording
+  useEffect(() => () => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.onstop = null;
+      recorderRef.current.stop();
+    }
+    releaseStream();
+  }, [releaseStream]);
+
+  return { status, recorded, markers: Object.values(markers), error, start, stop, reset, mark };
+}
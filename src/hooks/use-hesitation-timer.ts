@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from 'react';
+import { useCurrentASR } from '@/lib/api/asrVersions';
+import { getHesitationLimit } from '@/types/hesitation';
+
+const TICK_MS = 100;
+
+/**
+ * Per-item hesitation timer for timed runners. It restarts whenever
+ * `itemKey` changes (an item is presented, or the previous one is scored)
+ * and calls `onHesitation` once the ASR's limit passes without a mark.
+ * The assessor can switch it off; it's on by default only when the ASR
+ * sets a limit.
+ */
+export function useHesitationTimer(
+  assessmentId: string,
+  itemKey: string | number | null,
+  onHesitation: () => void,
+  options: { active?: boolean } = {}
+) {
+  const { active = true } = options;
+  const { data: asr } = useCurrentASR(assessmentId);
+  const limit = getHesitationLimit(asr?.section_e);
+  const limitMs = limit.seconds * 1000;
+
+  const [choice, setEnabled] = useState<boolean | null>(null);
+  const enabled = choice ?? limit.configured;
+  const [elapsedMs, setElapsedMs] = useState(0);
+
+  // Always call the latest handler, so it sees the runner's current state
+  const onHesitationRef = useRef(onHesitation);
+  useEffect(() => {
+    onHesitationRef.current = onHesitation;
+  });
+
+  const running = enabled && active && itemKey !== null;
+
+  useEffect(() => {
+    setElapsedMs(0);
+    if (!running) return;
+
+    const startedAt = performance.now();
+    const interval = setInterval(() => {
+      const elapsed = performance.now() - startedAt;
+      if (elapsed >= limitMs) {
+        clearInterval(interval);
+        setElapsedMs(limitMs);
+        onHesitationRef.current();
+        return;
+      }
+      setElapsedMs(elapsed);
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [running, itemKey, limitMs]);
+
+  return {
+    enabled,
+    setEnabled,
+    running,
+    limitSeconds: limit.seconds,
+    remainingSeconds: Math.max(0, (limitMs - elapsedMs) / 1000),
+    /** 0 when the item is presented, 1 when it's auto-marked */
+    progress: running ? Math.min(1, elapsedMs / limitMs) : 0,
+  };
+}
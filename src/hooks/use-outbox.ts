@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  discardOutboxEntry,
+  errorMessage,
+  isNetworkError,
+  listDeadLetters,
+  listOutbox,
+  markOutboxFailure,
+  removeFromOutbox,
+  reviveOutboxEntry,
+  subscribeOutbox,
+  type OutboxEntry,
+} from '@/lib/outbox';
+import {
+  isFinishingUpdate,
+  saveSessionDraftRecord,
+  scoreFinishedSession,
+  sessionKeys,
+  updateSessionRecord,
+} from '@/lib/api/sessions';
+import { deleteSessionResponses, sessionResponseKeys, upsertSessionResponse } from '@/lib/api/sessionResponses';
+import { sessionRecordingKeys, uploadSessionRecording } from '@/lib/api/sessionRecordings';
+
+// How often to retry while writes are waiting, besides on reconnect
+const RETRY_INTERVAL_MS = 30_000;
+
+let flushing: Promise<void> | null = null;
+
+// A replayed update that finishes a session scores it; scoring failures are reported, not retried here
+async function replayUpdate(entry: Extract<OutboxEntry, { kind: 'update_session' }>, queryClient: QueryClient) {
+  await updateSessionRecord(entry.session_id, entry.updates);
+  if (isFinishingUpdate(entry.updates)) {
+    await scoreFinishedSession(entry.session_id, () => queryClient.invalidateQueries({ queryKey: sessionKeys.all }));
+  }
+}
+
+function replay(entry: OutboxEntry, queryClient: QueryClient): Promise<unknown> {
+  switch (entry.kind) {
+    case 'upsert_response': return upsertSessionResponse(entry.response);
+    case 'delete_responses': return deleteSessionResponses(entry.session_id, entry.item_ids);
+    case 'update_session': return replayUpdate(entry, queryClient);
+    case 'save_draft': return saveSessionDraftRecord(entry.session_id, entry.draft);
+    case 'upload_recording': return uploadSessionRecording(entry.path, entry.upload);
+  }
+}
+
+/**
+ * Replays queued writes oldest first. A write that couldn't reach the
+ * server stays at the head of the queue, holding back the ones after it so
+ * nothing is applied out of order, and the flush stops until the connection
+ * comes back or the next retry. One the server rejected becomes a dead
+ * letter and the queue moves on.
+ */
+export function flushOutbox(queryClient: QueryClient): Promise<void> {
+  if (!flushing) {
+    flushing = (async () => {
+      let replayed = 0;
+      while (navigator.onLine) {
+        const [next] = await listOutbox();
+        if (!next) break;
+        try {
+          await replay(next, queryClient);
+        } catch (error) {
+          const rejected = !isNetworkError(error);
+          await markOutboxFailure(next.seq, errorMessage(error), rejected);
+          if (rejected) continue;
+          break;
+        }
+        await removeFromOutbox(next);
+        replayed++;
+      }
+      if (replayed > 0) {
+        queryClient.invalidateQueries({ queryKey: sessionKeys.all });
+        queryClient.invalidateQueries({ queryKey: sessionResponseKeys.all });
+        queryClient.invalidateQueries({ queryKey: sessionRecordingKeys.all });
+      }
+    })().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+/**
+ * Replays the outbox on load, whenever the connection comes back, and
+ * periodically while anything is waiting. Mounted once, in the app layout.
+ */
+export function useOutboxSync() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const flush = () => {
+      flushOutbox(queryClient).catch(() => undefined);
+    };
+    flush();
+    window.addEventListener('online', flush);
+    const interval = setInterval(flush, RETRY_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', flush);
+      clearInterval(interval);
+    };
+  }, [queryClient]);
+}
+
+/**
+ * Connection state, the writes still waiting to reach the server, and the
+ * ones given up on, which can be retried or discarded.
+ */
+export function useOutboxStatus() {
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pending, setPending] = useState(0);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [deadLetters, setDeadLetters] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      Promise.all([listOutbox(), listDeadLetters()])
+        .then(([entries, dead]) => {
+          if (cancelled) return;
+          setPending(entries.length);
+          setLastError(entries[0]?.last_error ?? null);
+          setDeadLetters(dead);
+        })
+        .catch(() => undefined);
+    };
+    refresh();
+    const unsubscribe = subscribeOutbox(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const retry = useCallback(() => {
+    flushOutbox(queryClient).catch(() => undefined);
+  }, [queryClient]);
+
+  const retryDeadLetter = useCallback(async (seq: number) => {
+    await reviveOutboxEntry(seq);
+    await flushOutbox(queryClient);
+  }, [queryClient]);
+
+  const discardDeadLetter = useCallback((seq: number) => discardOutboxEntry(seq), []);
+
+  return { isOnline, pending, lastError, retry, deadLetters, retryDeadLetter, discardDeadLetter };
+}
@@ -0,0 +1,85 @@
+import { createContext, useContext, useEffect, useRef } from 'react';
+import { saveSessionDraft } from '@/lib/api/sessions';
+import { SESSION_DRAFT_VERSION, clearLocalDraft, writeLocalDraft, type SessionDraft } from '@/lib/sessionDrafts';
+import type { SessionRow } from '@/types/database';
+
+// How often the latest checkpoint goes to the session row
+const SERVER_CHECKPOINT_MS = 5000;
+
+export interface SessionDraftContextValue {
+  /** Registry runner being administered */
+  runnerId: string | null;
+  /** Checkpoint the assessor chose to resume from */
+  draft: SessionDraft | null;
+}
+
+export const SessionDraftContext = createContext<SessionDraftContextValue>({ runnerId: null, draft: null });
+
+/**
+ * The resumed checkpoint's state, for the runner to seed its useState calls
+ * from. Fields are optional since the draft may predate a field.
+ */
+export function useResumedDraft<T extends object>(): Partial<T> | null {
+  const { draft } = useContext(SessionDraftContext);
+  return (draft?.state as Partial<T> | undefined) ?? null;
+}
+
+/**
+ * Checkpoints a runner's working state: every change goes to this device's
+ * storage at once, and the latest reaches the session row every few seconds
+ * and when the runner unmounts. `state` must be JSON-serializable. Going
+ * from enabled to disabled, e.g. a reset back to idle, discards the draft.
+ */
+export function useDraftCheckpoint<T extends object>(
+  session: SessionRow,
+  state: T,
+  options: { currentItemIndex: number; remainingSeconds?: number; enabled?: boolean }
+) {
+  const { runnerId } = useContext(SessionDraftContext);
+  const { currentItemIndex, remainingSeconds, enabled = true } = options;
+  const sessionId = session.session_id;
+  // Compared as JSON so a re-render with equal state doesn't write again
+  const serialized = JSON.stringify(state);
+  // Null means discard; undefined means nothing to send
+  const unsentRef = useRef<SessionDraft | null | undefined>(undefined);
+  const checkpointedRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled) {
+      if (checkpointedRef.current) {
+        clearLocalDraft(sessionId);
+        unsentRef.current = null;
+        checkpointedRef.current = false;
+      }
+      return;
+    }
+    const draft: SessionDraft = {
+      version: SESSION_DRAFT_VERSION,
+      runner_id: runnerId,
+      saved_at: new Date().toISOString(),
+      current_item_index: currentItemIndex,
+      remaining_seconds: remainingSeconds,
+      state: JSON.parse(serialized),
+    };
+    writeLocalDraft(sessionId, draft);
+    unsentRef.current = draft;
+    checkpointedRef.current = true;
+  }, [enabled, serialized, currentItemIndex, remainingSeconds, runnerId, sessionId]);
+
+  useEffect(() => {
+    const send = () => {
+      const draft = unsentRef.current;
+      if (draft === undefined) return;
+      unsentRef.current = undefined;
+      saveSessionDraft(sessionId, draft).catch(() => {
+        // Kept for the next attempt unless a newer checkpoint replaced it
+        if (unsentRef.current === undefined) unsentRef.current = draft;
+      });
+    };
+    const interval = setInterval(send, SERVER_CHECKPOINT_MS);
+    return () => {
+      clearInterval(interval);
+      send();
+    };
+  }, [sessionId]);
+}
@@ -0,0 +1,19 @@
+import { createContext, useCallback, useContext } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+/** Where runners go when the assessor leaves or finishes; null for their own default. */
+export const SessionExitContext = createContext<string | null>(null);
+
+/**
+ * Leaves the runner: for the sessions list, or `path` where the runner
+ * goes somewhere else on finishing, e.g. the report. A session given as
+ * part of a battery always goes back to the battery instead.
+ */
+export function useExitSession() {
+  const navigate = useNavigate();
+  const exitPath = useContext(SessionExitContext);
+  return useCallback(
+    (path = '/sessions') => navigate(exitPath ?? path),
+    [navigate, exitPath]
+  );
+}
@@ -0,0 +1,114 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useCurrentASR } from '@/lib/api/asrVersions';
+import { useUpdateSession } from '@/lib/api/sessions';
+import { useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import type { Json } from '@/integrations/supabase/types';
+import type { ItemRow, SessionResponseRow, SessionRow, StoppingRuleType } from '@/types/database';
+import {
+  evaluateStoppingRules,
+  getStoppingRules,
+  type FiredStoppingRule,
+  type ItemOutcome,
+} from '@/lib/scoring/stoppingRules';
+
+const firingKey = (rule: FiredStoppingRule) => `${rule.rule_id}:${rule.item_index}`;
+
+/**
+ * Evaluates the assessment's stopping rules against the outcomes so far.
+ * `prompt` is the first discontinue rule the assessor hasn't answered yet;
+ * they either keep testing (`dismiss`) or stop (`accept`), and the accepted
+ * rule is what the runner records. Rule types in `handled` are still
+ * evaluated but never prompt, for runners that act on them themselves.
+ * `initialAccepted` restores a rule accepted before a resumed checkpoint.
+ */
+export function useStoppingRules(
+  assessmentId: string,
+  outcomes: ItemOutcome[],
+  options: {
+    timerExpired?: boolean;
+    active?: boolean;
+    handled?: StoppingRuleType[];
+    initialAccepted?: FiredStoppingRule | null;
+  } = {}
+) {
+  const { timerExpired = false, active = true, handled, initialAccepted = null } = options;
+  const { data: asr } = useCurrentASR(assessmentId);
+  const rules = useMemo(() => getStoppingRules(asr?.section_e), [asr]);
+
+  const fired = useMemo(
+    () => evaluateStoppingRules(rules, outcomes, { timerExpired }),
+    [rules, outcomes, timerExpired]
+  );
+
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [accepted, setAccepted] = useState<FiredStoppingRule | null>(initialAccepted);
+
+  const prompt = active && !accepted
+    ? fired.find(f => f.action === 'discontinue' && !handled?.includes(f.type) && !dismissed.includes(firingKey(f))) ?? null
+    : null;
+
+  const dismiss = useCallback(() => {
+    if (prompt) setDismissed(prev => [...prev, firingKey(prompt)]);
+  }, [prompt]);
+
+  // Returns the accepted rule so the caller can record it in the same tick
+  const accept = useCallback(() => {
+    if (prompt) setAccepted(prompt);
+    return prompt;
+  }, [prompt]);
+
+  // For runners that can start the administration over
+  const reset = useCallback(() => {
+    setDismissed([]);
+    setAccepted(null);
+  }, []);
+
+  return {
+    rules,
+    fired,
+    prompt,
+    dismiss,
+    accept,
+    accepted,
+    reset,
+    basal: fired.find(f => f.action === 'basal') ?? null,
+    timerRule: fired.find(f => f.action === 'complete') ?? null,
+  };
+}
+
+/**
+ * For runners that save each item as it's scored: flags the saved response
+ * the rule was met on with the rule, then marks the session discontinued.
+ */
+export function useDiscontinueByRule(
+  session: SessionRow,
+  items: ItemRow[],
+  responses: SessionResponseRow[] | undefined
+) {
+  const updateSession = useUpdateSession();
+  const upsertResponse = useUpsertSessionResponse();
+
+  return useCallback(async (rule: FiredStoppingRule) => {
+    const item = rule.item_index !== null ? items[rule.item_index] : undefined;
+    const existing = item && responses?.find(r => r.item_id === item.item_id);
+    if (item && existing) {
+      const computedScores = (existing.computed_scores as Record<string, unknown> | null) ?? {};
+      await upsertResponse.mutateAsync({
+        session_id: session.session_id,
+        item_id: item.item_id,
+        sequence_number: item.sequence_number,
+        discontinue_flag: true,
+        discontinue_reason: rule.description,
+        computed_scores: { ...computedScores, stopping_rule: rule } as unknown as Json,
+      });
+    }
+
+    await updateSession.mutateAsync({
+      id: session.session_id,
+      updates: {
+        status: 'discontinued',
+        completed_at: new Date().toISOString(),
+      }
+    });
+  }, [items, responses, session.session_id, upsertResponse, updateSession]);
+}
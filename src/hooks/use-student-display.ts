@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  getStudentDisplay,
+  hostStudentDisplay,
+  openStudentDisplayChannel,
+  publishStudentDisplay,
+  subscribeStudentDisplay,
+  type StudentDisplayState,
+} from '@/lib/studentDisplay';
+import { FINISHED_STATUSES } from '@/lib/api/sessions';
+import type { SessionRow } from '@/types/database';
+
+const isFinished = (session: SessionRow) => FINISHED_STATUSES.includes(session.status);
+
+/**
+ * Hosts the student screen for the session being run. Mounted once, by the
+ * run page; it starts from the session row and the runner drives it from
+ * there with useStudentDisplayItem.
+ */
+export function useStudentDisplayHost(session: SessionRow) {
+  const sessionId = session.session_id;
+
+  // The runner may already have pointed the display at its item, and a
+  // remount keeps the stimulus toggle, so the row only fills in the rest
+  const [seed] = useState(() => ({
+    item_index: session.current_item_index ?? 0,
+    complete: isFinished(session),
+  }));
+  useEffect(() => {
+    const { item_index, complete } = seed;
+    publishStudentDisplay(sessionId, getStudentDisplay(sessionId) ? { complete } : { item_index, complete });
+    return hostStudentDisplay(sessionId);
+  }, [sessionId, seed]);
+
+  const display = useSyncExternalStore(subscribeStudentDisplay, () => getStudentDisplay(sessionId));
+
+  const setStimulusVisible = useCallback(
+    (visible: boolean) => publishStudentDisplay(sessionId, { stimulus_visible: visible }),
+    [sessionId]
+  );
+
+  return { display, setStimulusVisible };
+}
+
+/**
+ * Shows the runner's current item on the student screen. Null leaves the
+ * screen as it is, e.g. between the last item and finishing.
+ */
+export function useStudentDisplayItem(session: SessionRow, itemIndex: number | null) {
+  const sessionId = session.session_id;
+  useEffect(() => {
+    if (itemIndex !== null) publishStudentDisplay(sessionId, { item_index: itemIndex });
+  }, [sessionId, itemIndex]);
+}
+
+/**
+ * What the student screen should show, pushed by the assessor's run page.
+ * Until the run page answers (it may not be open yet), the session row is
+ * the best guess.
+ */
+export function useStudentDisplay(session: SessionRow | null | undefined): StudentDisplayState | null {
+  const sessionId = session?.session_id;
+  const [pushed, setPushed] = useState<StudentDisplayState | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const channel = openStudentDisplayChannel(sessionId, {
+      onMessage: (message) => {
+        if (message.type !== 'state') return;
+        // Each message can arrive over both transports; keep the newest
+        setPushed(current => (current && current.sent_at >= message.state.sent_at ? current : message.state));
+      },
+      onConnect: () => channel.send({ type: 'request' }),
+    });
+    channel.send({ type: 'request' });
+    return channel.close;
+  }, [sessionId]);
+
+  if (!session) return null;
+  return pushed ?? {
+    item_index: session.current_item_index ?? 0,
+    stimulus_visible: true,
+    complete: isFinished(session),
+    sent_at: 0,
+  };
+}
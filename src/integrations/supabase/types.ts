@@ -154,6 +154,81 @@ export type Database = {
         }
         Relationships: []
       }
+      batteries: {
+        Row: {
+          battery_id: string
+          created_at: string | null
+          description: string | null
+          name: string
+          steps: Json
+          updated_at: string | null
+        }
+        Insert: {
+          battery_id?: string
+          created_at?: string | null
+          description?: string | null
+          name: string
+          steps?: Json
+          updated_at?: string | null
+        }
+        Update: {
+          battery_id?: string
+          created_at?: string | null
+          description?: string | null
+          name?: string
+          steps?: Json
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      battery_sessions: {
+        Row: {
+          battery_id: string
+          battery_session_id: string
+          completed_at: string | null
+          created_at: string | null
+          grade_tag: string | null
+          status: string
+          student_id: string | null
+          student_name: string
+        }
+        Insert: {
+          battery_id: string
+          battery_session_id?: string
+          completed_at?: string | null
+          created_at?: string | null
+          grade_tag?: string | null
+          status?: string
+          student_id?: string | null
+          student_name: string
+        }
+        Update: {
+          battery_id?: string
+          battery_session_id?: string
+          completed_at?: string | null
+          created_at?: string | null
+          grade_tag?: string | null
+          status?: string
+          student_id?: string | null
+          student_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "battery_sessions_battery_id_fkey"
+            columns: ["battery_id"]
+            isOneToOne: false
+            referencedRelation: "batteries"
+            referencedColumns: ["battery_id"]
+          },
+          {
+            foreignKeyName: "battery_sessions_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["student_id"]
+          },
+        ]
+      }
       content_banks: {
         Row: {
           content_bank_id: string
@@ -344,9 +419,12 @@ export type Database = {
           created_at: string | null
           derived_metrics_schema: Json | null
           flags: Json | null
+          form_id: string | null
           formulas: Json | null
+          grade_or_level_tag: string | null
           raw_metrics_schema: Json | null
           scoring_model_id: string
+          status: string
           thresholds: Json | null
           updated_at: string | null
         }
@@ -355,9 +433,12 @@ export type Database = {
           created_at?: string | null
           derived_metrics_schema?: Json | null
           flags?: Json | null
+          form_id?: string | null
           formulas?: Json | null
+          grade_or_level_tag?: string | null
           raw_metrics_schema?: Json | null
           scoring_model_id: string
+          status?: string
           thresholds?: Json | null
           updated_at?: string | null
         }
@@ -366,9 +447,12 @@ export type Database = {
           created_at?: string | null
           derived_metrics_schema?: Json | null
           flags?: Json | null
+          form_id?: string | null
           formulas?: Json | null
+          grade_or_level_tag?: string | null
           raw_metrics_schema?: Json | null
           scoring_model_id?: string
+          status?: string
           thresholds?: Json | null
           updated_at?: string | null
         }
@@ -380,6 +464,13 @@ export type Database = {
             referencedRelation: "assessments"
             referencedColumns: ["assessment_id"]
           },
+          {
+            foreignKeyName: "scoring_outputs_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["form_id"]
+          },
         ]
       }
       session_responses: {
@@ -448,41 +539,104 @@ export type Database = {
           },
         ]
       }
+      session_recordings: {
+        Row: {
+          created_at: string | null
+          duration_ms: number | null
+          item_id: string | null
+          markers: Json
+          mime_type: string
+          recording_id: string
+          session_id: string
+          storage_path: string
+        }
+        Insert: {
+          created_at?: string | null
+          duration_ms?: number | null
+          item_id?: string | null
+          markers?: Json
+          mime_type: string
+          recording_id?: string
+          session_id: string
+          storage_path: string
+        }
+        Update: {
+          created_at?: string | null
+          duration_ms?: number | null
+          item_id?: string | null
+          markers?: Json
+          mime_type?: string
+          recording_id?: string
+          session_id?: string
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_recordings_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["item_id"]
+          },
+          {
+            foreignKeyName: "session_recordings_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["session_id"]
+          },
+        ]
+      }
       sessions: {
         Row: {
           assessment_id: string
+          battery_position: number | null
+          battery_session_id: string | null
           completed_at: string | null
           created_at: string | null
           current_item_index: number
+          draft_state: Json | null
+          fired_flags: Json
           form_id: string
           grade_tag: string | null
           session_id: string
           started_at: string | null
           status: string
+          student_id: string | null
           student_name: string
         }
         Insert: {
           assessment_id: string
+          battery_position?: number | null
+          battery_session_id?: string | null
           completed_at?: string | null
           created_at?: string | null
           current_item_index?: number
+          draft_state?: Json | null
+          fired_flags?: Json
           form_id: string
           grade_tag?: string | null
           session_id?: string
           started_at?: string | null
           status?: string
+          student_id?: string | null
           student_name: string
         }
         Update: {
           assessment_id?: string
+          battery_position?: number | null
+          battery_session_id?: string | null
           completed_at?: string | null
           created_at?: string | null
           current_item_index?: number
+          draft_state?: Json | null
+          fired_flags?: Json
           form_id?: string
           grade_tag?: string | null
           session_id?: string
           started_at?: string | null
           status?: string
+          student_id?: string | null
           student_name?: string
         }
         Relationships: [
@@ -493,6 +647,13 @@ export type Database = {
             referencedRelation: "assessments"
             referencedColumns: ["assessment_id"]
           },
+          {
+            foreignKeyName: "sessions_battery_session_id_fkey"
+            columns: ["battery_session_id"]
+            isOneToOne: false
+            referencedRelation: "battery_sessions"
+            referencedColumns: ["battery_session_id"]
+          },
           {
             foreignKeyName: "sessions_form_id_fkey"
             columns: ["form_id"]
@@ -500,6 +661,120 @@ export type Database = {
             referencedRelation: "forms"
             referencedColumns: ["form_id"]
           },
+          {
+            foreignKeyName: "sessions_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["student_id"]
+          },
+        ]
+      }
+      student_goals: {
+        Row: {
+          assessment_id: string
+          baseline_value: number | null
+          created_at: string | null
+          end_date: string
+          goal_id: string
+          metric_id: string
+          notes: string | null
+          start_date: string
+          status: string
+          student_id: string
+          target_value: number
+          updated_at: string | null
+        }
+        Insert: {
+          assessment_id: string
+          baseline_value?: number | null
+          created_at?: string | null
+          end_date: string
+          goal_id?: string
+          metric_id: string
+          notes?: string | null
+          start_date?: string
+          status?: string
+          student_id: string
+          target_value: number
+          updated_at?: string | null
+        }
+        Update: {
+          assessment_id?: string
+          baseline_value?: number | null
+          created_at?: string | null
+          end_date?: string
+          goal_id?: string
+          metric_id?: string
+          notes?: string | null
+          start_date?: string
+          status?: string
+          student_id?: string
+          target_value?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_goals_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "assessments"
+            referencedColumns: ["assessment_id"]
+          },
+          {
+            foreignKeyName: "student_goals_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["student_id"]
+          },
+        ]
+      }
+      students: {
+        Row: {
+          classroom: string | null
+          created_at: string | null
+          date_of_birth: string | null
+          full_name: string
+          grade_tag: string | null
+          is_active: boolean
+          local_id: string | null
+          merged_into_id: string | null
+          student_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          classroom?: string | null
+          created_at?: string | null
+          date_of_birth?: string | null
+          full_name: string
+          grade_tag?: string | null
+          is_active?: boolean
+          local_id?: string | null
+          merged_into_id?: string | null
+          student_id?: string
+          updated_at?: string | null
+        }
+        Update: {
+          classroom?: string | null
+          created_at?: string | null
+          date_of_birth?: string | null
+          full_name?: string
+          grade_tag?: string | null
+          is_active?: boolean
+          local_id?: string | null
+          merged_into_id?: string | null
+          student_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "students_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["student_id"]
+          },
         ]
       }
     }
@@ -507,7 +782,10 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      merge_students: {
+        Args: { source_id: string; target_id: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
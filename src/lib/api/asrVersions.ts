@@ -1,7 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import type { ASRVersionRow, ASRVersionInsert, ASRVersionUpdate } from '@/types/database';
-import { assessmentKeys } from './assessments';
+import { assessmentKeys, useAssessment } from './assessments';
 import { canActivateASR, formatGateError } from '@/lib/activationGates';
 import { toast } from '@/hooks/use-toast';
 
@@ -64,6 +64,12 @@ export function useASRVersion(id: string) {
   });
 }
 
+// Fetch the ASR version currently active for an assessment
+export function useCurrentASR(assessmentId: string) {
+  const { data: assessment } = useAssessment(assessmentId);
+  return useASRVersion(assessment?.current_asr_version_id ?? '');
+}
+
 // Create ASR version
 export function useCreateASRVersion() {
   const queryClient = useQueryClient();
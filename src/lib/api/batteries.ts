@@ -0,0 +1,297 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { normalizeBatterySteps, planBattery, sortBatterySessions, type BatteryPlanStep } from '@/types/battery';
+import type {
+  BatteryRow,
+  BatteryInsert,
+  BatteryUpdate,
+  BatterySessionRow,
+  FormRow,
+  SessionRow,
+  StudentRow,
+} from '@/types/database';
+import { queuedSessionUpdates } from '@/lib/outbox';
+import { sessionKeys } from './sessions';
+import { fetchProgressResponses } from './sessionResponses';
+
+// Query keys
+export const batteryKeys = {
+  all: ['batteries'] as const,
+  lists: () => [...batteryKeys.all, 'list'] as const,
+  plan: (id: string, gradeTag: string, studentId: string) => [...batteryKeys.all, 'plan', id, gradeTag, studentId] as const,
+  administrations: () => [...batteryKeys.all, 'administration'] as const,
+  administration: (id: string) => [...batteryKeys.administrations(), id] as const,
+  /** Keyed on the sessions' statuses, so a finished session's results are fetched */
+  report: (id: string, statuses: string[]) => [...batteryKeys.administrations(), id, 'report', statuses] as const,
+};
+
+// Fetch all battery definitions
+export function useBatteries() {
+  return useQuery({
+    queryKey: batteryKeys.lists(),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('batteries')
+        .select('*')
+        .order('name');
+      if (error) throw error;
+      return data as BatteryRow[];
+    },
+  });
+}
+
+// Create battery
+export function useCreateBattery() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (battery: BatteryInsert) => {
+      const { data, error } = await supabase
+        .from('batteries')
+        .insert(battery)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as BatteryRow;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: batteryKeys.all });
+    },
+  });
+}
+
+// Update battery
+export function useUpdateBattery() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: BatteryUpdate }) => {
+      const { data, error } = await supabase
+        .from('batteries')
+        .update(updates)
+        .eq('battery_id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as BatteryRow;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: batteryKeys.all });
+    },
+  });
+}
+
+// Delete battery; fails once it has been administered
+export function useDeleteBattery() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('batteries')
+        .delete()
+        .eq('battery_id', id);
+      if (error) throw error;
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: batteryKeys.all });
+    },
+  });
+}
+
+/**
+ * Forms each assessment can be given on, by the same rule as a single
+ * session: forms in a content bank linked to the assessment.
+ */
+async function fetchEligibleForms(assessmentIds: string[]): Promise<Map<string, FormRow[]>> {
+  const byAssessment = new Map<string, FormRow[]>(assessmentIds.map(id => [id, []]));
+  if (assessmentIds.length === 0) return byAssessment;
+
+  const { data: links, error: linksError } = await supabase
+    .from('assessment_banks')
+    .select('assessment_id, content_bank_id')
+    .in('assessment_id', assessmentIds);
+  if (linksError) throw linksError;
+
+  const bankIds = Array.from(new Set((links || []).map(l => l.content_bank_id)));
+  if (bankIds.length === 0) return byAssessment;
+
+  const { data: forms, error: formsError } = await supabase
+    .from('forms')
+    .select('*')
+    .in('content_bank_id', bankIds);
+  if (formsError) throw formsError;
+
+  (links || []).forEach(link => {
+    const linked = (forms || []).filter(f => f.content_bank_id === link.content_bank_id);
+    byAssessment.get(link.assessment_id)?.push(...(linked as FormRow[]));
+  });
+  return byAssessment;
+}
+
+// A student's earlier sessions; none before a student is picked
+async function fetchStudentSessions(studentId: string | null | undefined): Promise<SessionRow[]> {
+  if (!studentId) return [];
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('*')
+    .eq('student_id', studentId);
+  if (error) throw error;
+  return data as SessionRow[];
+}
+
+/**
+ * How a battery would be given to a student at a grade: each step's form,
+ * rotated through the forms the student hasn't had yet, or why it's skipped.
+ */
+export function useBatteryPlan(battery: BatteryRow | null | undefined, gradeTag: string, studentId: string | null | undefined) {
+  return useQuery({
+    queryKey: batteryKeys.plan(battery?.battery_id ?? '', gradeTag, studentId ?? ''),
+    queryFn: async () => {
+      const steps = normalizeBatterySteps(battery?.steps);
+      const [formsByAssessment, studentSessions] = await Promise.all([
+        fetchEligibleForms(Array.from(new Set(steps.map(s => s.assessment_id)))),
+        fetchStudentSessions(studentId),
+      ]);
+      return planBattery(steps, gradeTag || null, formsByAssessment, studentSessions);
+    },
+    enabled: !!battery,
+  });
+}
+
+/**
+ * Start a battery for a student: one administration row, and a session for
+ * every step in the plan that will be given, in order.
+ */
+export function useStartBattery() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ battery, plan, student, gradeTag }: {
+      battery: BatteryRow;
+      plan: BatteryPlanStep[];
+      student: StudentRow;
+      gradeTag: string | null;
+    }) => {
+      const given = plan.filter((p): p is BatteryPlanStep & { form_id: string } => p.form_id !== null);
+      if (given.length === 0) throw new Error('No assessment in this battery can be given at this grade');
+
+      const { data: administration, error } = await supabase
+        .from('battery_sessions')
+        .insert({
+          battery_id: battery.battery_id,
+          student_id: student.student_id,
+          student_name: student.full_name,
+          grade_tag: gradeTag,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+
+      const { error: sessionsError } = await supabase
+        .from('sessions')
+        .insert(given.map(p => ({
+          assessment_id: p.step.assessment_id,
+          form_id: p.form_id,
+          student_id: student.student_id,
+          student_name: student.full_name,
+          grade_tag: gradeTag,
+          battery_session_id: administration.battery_session_id,
+          battery_position: p.position,
+        })));
+      if (sessionsError) {
+        // Don't leave an administration with nothing to give
+        await supabase.from('battery_sessions').delete().eq('battery_session_id', administration.battery_session_id);
+        throw sessionsError;
+      }
+
+      return administration as BatterySessionRow;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: batteryKeys.administrations() });
+      queryClient.invalidateQueries({ queryKey: sessionKeys.all });
+    },
+  });
+}
+
+/**
+ * A battery administration with its definition and its sessions, in the
+ * order they're given.
+ */
+export function useBatterySession(id: string) {
+  return useQuery({
+    queryKey: batteryKeys.administration(id),
+    queryFn: async () => {
+      const { data: administration, error } = await supabase
+        .from('battery_sessions')
+        .select('*')
+        .eq('battery_session_id', id)
+        .maybeSingle();
+      if (error) throw error;
+      if (!administration) return null;
+
+      const [{ data: battery, error: batteryError }, { data: sessions, error: sessionsError }] = await Promise.all([
+        supabase.from('batteries').select('*').eq('battery_id', administration.battery_id).single(),
+        supabase.from('sessions').select('*').eq('battery_session_id', id),
+      ]);
+      if (batteryError) throw batteryError;
+      if (sessionsError) throw sessionsError;
+
+      // A session finished offline reads back as finished until it's been replayed
+      const withQueued = await Promise.all((sessions || []).map(async session => {
+        const queued = await queuedSessionUpdates(session.session_id);
+        return (queued ? { ...session, ...queued } : session) as SessionRow;
+      }));
+
+      return {
+        administration: administration as BatterySessionRow,
+        battery: battery as BatteryRow,
+        sessions: sortBatterySessions(withQueued),
+      };
+    },
+    enabled: !!id,
+  });
+}
+
+// Mark a battery administration complete once its sessions are finished
+export function useCompleteBatterySession() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase
+        .from('battery_sessions')
+        .update({ status: 'completed', completed_at: new Date().toISOString() })
+        .eq('battery_session_id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as BatterySessionRow;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: batteryKeys.administration(data.battery_session_id) });
+    },
+  });
+}
+
+/**
+ * Everything the combined report needs: the sessions' responses, and the
+ * scoring outputs (for benchmarks) of the assessments given.
+ */
+export function useBatteryReportData(id: string, sessions: SessionRow[] | undefined) {
+  return useQuery({
+    queryKey: batteryKeys.report(id, (sessions || []).map(s => s.status)),
+    queryFn: async () => {
+      const sessionIds = (sessions || []).map(s => s.session_id);
+      const assessmentIds = Array.from(new Set((sessions || []).map(s => s.assessment_id)));
+
+      const [responses, { data: scoringOutputs, error: scoringError }] = await Promise.all([
+        fetchProgressResponses(sessionIds),
+        supabase
+          .from('scoring_outputs')
+          .select('assessment_id, thresholds')
+          .in('assessment_id', assessmentIds),
+      ]);
+      if (scoringError) throw scoringError;
+
+      return { responses, scoringOutputs: scoringOutputs || [] };
+    },
+    enabled: !!id && !!sessions,
+  });
+}
@@ -8,3 +8,7 @@ export * from './items';
 export * from './scoringOutputs';
 export * from './sessions';
 export * from './sessionResponses';
+export * from './students';
+export * from './studentGoals';
+export * from './sessionRecordings';
+export * from './batteries';
@@ -1,18 +1,24 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { supabase } from '@/integrations/supabase/client';
-import { sessionResponseKeys } from './sessionResponses';
-import type { TokenState, ORFComputedScores } from '@/types/orf';
+import { writeOrQueue } from '@/lib/outbox';
+import { sessionResponseKeys, upsertSessionResponse } from './sessionResponses';
+import type { Json } from '@/integrations/supabase/types';
+import type { SessionResponseInsert } from '@/types/database';
+import type { StoredTokenStateMap, ORFComputedScores, ORFMedianScores, ORFRunningRecord } from '@/types/orf';
 
 export interface ORFResponseInsert {
   session_id: string;
   item_id: string;
   sequence_number: number;
   is_correct?: boolean;
-  token_state_map: Record<number, TokenState>;
+  token_state_map: StoredTokenStateMap;
   elapsed_seconds: number;
   discontinue_flag: boolean;
   discontinue_reason?: string;
   computed_scores: ORFComputedScores;
+  /** Miscue coding, saved with the computed scores */
+  running_record?: ORFRunningRecord;
+  /** Median over every passage, saved with the passage that ends the session */
+  orf_summary?: ORFMedianScores;
   notes?: string;
 }
 
@@ -21,26 +27,24 @@ export function useUpsertORFResponse() {
   
   return useMutation({
     mutationFn: async (response: ORFResponseInsert) => {
-      // Cast to any to handle JSONB fields that Supabase types as Json
-      const { data, error } = await supabase
-        .from('session_responses')
-        .upsert({
-          session_id: response.session_id,
-          item_id: response.item_id,
-          sequence_number: response.sequence_number,
-          is_correct: response.is_correct,
-          token_state_map: response.token_state_map as unknown as Record<string, unknown>,
-          elapsed_seconds: response.elapsed_seconds,
-          discontinue_flag: response.discontinue_flag,
-          discontinue_reason: response.discontinue_reason,
-          computed_scores: response.computed_scores as unknown as Record<string, unknown>,
-          notes: response.notes,
-        } as never, { onConflict: 'session_id,item_id' })
-        .select()
-        .single();
-      
-      if (error) throw error;
-      return data;
+      const row: SessionResponseInsert = {
+        session_id: response.session_id,
+        item_id: response.item_id,
+        sequence_number: response.sequence_number,
+        is_correct: response.is_correct,
+        token_state_map: response.token_state_map as unknown as Json,
+        elapsed_seconds: response.elapsed_seconds,
+        discontinue_flag: response.discontinue_flag,
+        discontinue_reason: response.discontinue_reason,
+        computed_scores: {
+          ...response.computed_scores,
+          running_record: response.running_record,
+          orf_summary: response.orf_summary,
+        } as unknown as Json,
+        notes: response.notes,
+      };
+      // Queued in the outbox like any other response when the network is down
+      return (await writeOrQueue({ kind: 'upsert_response', response: row }, () => upsertSessionResponse(row))) ?? row;
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: sessionResponseKeys.bySession(data.session_id) });
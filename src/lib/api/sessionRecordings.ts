@@ -0,0 +1,117 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import type { SessionRecordingRow } from '@/types/database';
+import type { Json } from '@/integrations/supabase/types';
+import type { SessionRecordingUpload } from '@/types/recording';
+import { enqueueOutbox, errorMessage, writeOrQueue } from '@/lib/outbox';
+
+// Private storage bucket holding the audio files
+export const RECORDINGS_BUCKET = 'session-recordings';
+
+// Signed playback URLs last an hour
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Query keys
+export const sessionRecordingKeys = {
+  all: ['sessionRecordings'] as const,
+  bySession: (sessionId: string) => [...sessionRecordingKeys.all, 'session', sessionId] as const,
+  url: (path: string) => [...sessionRecordingKeys.all, 'url', path] as const,
+};
+
+// Fetch a session's recordings, oldest first
+export function useSessionRecordings(sessionId: string) {
+  return useQuery({
+    queryKey: sessionRecordingKeys.bySession(sessionId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('session_recordings')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('created_at');
+      if (error) throw error;
+      return data as SessionRecordingRow[];
+    },
+    enabled: !!sessionId,
+  });
+}
+
+// Signed URL for playing a recording back
+export function useRecordingUrl(storagePath: string) {
+  return useQuery({
+    queryKey: sessionRecordingKeys.url(storagePath),
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from(RECORDINGS_BUCKET)
+        .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS);
+      if (error) throw error;
+      return data.signedUrl;
+    },
+    enabled: !!storagePath,
+    staleTime: (SIGNED_URL_TTL_SECONDS - 60) * 1000,
+  });
+}
+
+/** Storage path for a new recording, fixed before the first attempt so retries land on the same file. */
+export function recordingStoragePath(upload: SessionRecordingUpload): string {
+  const extension = upload.audio.type.includes('mp4') ? 'mp4' : upload.audio.type.includes('ogg') ? 'ogg' : 'webm';
+  return `${upload.session_id}/${upload.item_id ?? 'session'}-${Date.now()}.${extension}`;
+}
+
+/** Upload the audio to `path` and link it to the session. */
+export async function uploadSessionRecording(path: string, upload: SessionRecordingUpload): Promise<SessionRecordingRow> {
+  const { error: uploadError } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .upload(path, upload.audio, { contentType: upload.audio.type || 'audio/webm', upsert: true });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('session_recordings')
+    .insert({
+      session_id: upload.session_id,
+      item_id: upload.item_id,
+      storage_path: path,
+      mime_type: upload.audio.type || 'audio/webm',
+      duration_ms: upload.duration_ms,
+      markers: upload.markers as unknown as Json,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as SessionRecordingRow;
+}
+
+/**
+ * Saves a recording, keeping the audio in the outbox whenever it can't be
+ * uploaded so it's never lost: offline it waits for the connection, and a
+ * rejected upload is set aside to retry or discard. Resolves with null when
+ * the recording was queued.
+ */
+export function useUploadSessionRecording() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (upload: SessionRecordingUpload) => {
+      const op = { kind: 'upload_recording' as const, path: recordingStoragePath(upload), upload };
+      try {
+        return await writeOrQueue(op, () => uploadSessionRecording(op.path, upload));
+      } catch (error) {
+        await enqueueOutbox(op);
+        toast({
+          title: 'Recording kept on this device',
+          description: `The upload failed (${errorMessage(error)}); it will be tried again.`,
+        });
+        return null;
+      }
+    },
+    onSuccess: (data) => {
+      if (data) queryClient.invalidateQueries({ queryKey: sessionRecordingKeys.bySession(data.session_id) });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Recording not saved',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -1,12 +1,86 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { definedFields, queuedResponses, writeOrQueue } from '@/lib/outbox';
 import type { SessionResponseRow, SessionResponseInsert } from '@/types/database';
+import type { ProgressResponse } from '@/lib/studentProgress';
 
 export const sessionResponseKeys = {
   all: ['sessionResponses'] as const,
   bySession: (sessionId: string) => [...sessionResponseKeys.all, 'session', sessionId] as const,
 };
 
+/** Upsert one response on the session_id, item_id key. */
+export async function upsertSessionResponse(response: SessionResponseInsert): Promise<SessionResponseRow> {
+  const { data, error } = await supabase
+    .from('session_responses')
+    .upsert(response, { onConflict: 'session_id,item_id' })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as SessionResponseRow;
+}
+
+/** Delete a session's responses to the given items. */
+export async function deleteSessionResponses(sessionId: string, itemIds: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('session_responses')
+    .delete()
+    .eq('session_id', sessionId)
+    .in('item_id', itemIds);
+  if (error) throw error;
+}
+
+// A select returns at most this many rows, so longer reads are paged
+const RESPONSE_PAGE_SIZE = 1000;
+
+/**
+ * The scoring fields of every response across the given sessions, read a
+ * page at a time so a long history isn't cut off at the row cap.
+ */
+export async function fetchProgressResponses(sessionIds: string[]): Promise<ProgressResponse[]> {
+  const rows: ProgressResponse[] = [];
+  if (sessionIds.length === 0) return rows;
+
+  for (let from = 0; ; from += RESPONSE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('session_responses')
+      .select('session_id, is_correct, elapsed_seconds, computed_scores')
+      .in('session_id', sessionIds)
+      .order('session_id')
+      .order('item_id')
+      .range(from, from + RESPONSE_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < RESPONSE_PAGE_SIZE) return rows;
+  }
+}
+
+// How a response still waiting in the outbox will read once it's written
+function pendingResponseRow(response: SessionResponseInsert, existing?: SessionResponseRow): SessionResponseRow {
+  const base: SessionResponseRow = existing ?? {
+    response_id: `pending:${response.session_id}:${response.item_id}`,
+    session_id: response.session_id,
+    item_id: response.item_id,
+    sequence_number: response.sequence_number,
+    is_correct: null,
+    error_tags: null,
+    computed_scores: null,
+    token_state_map: null,
+    elapsed_seconds: null,
+    response_time_ms: null,
+    discontinue_flag: null,
+    discontinue_reason: null,
+    notes: null,
+    created_at: null,
+  };
+  return { ...base, ...definedFields(response) } as SessionResponseRow;
+}
+
+function withResponse(rows: SessionResponseRow[], row: SessionResponseRow): SessionResponseRow[] {
+  return [...rows.filter(r => r.item_id !== row.item_id), row]
+    .sort((a, b) => a.sequence_number - b.sequence_number);
+}
+
 export function useSessionResponses(sessionId: string) {
   return useQuery({
     queryKey: sessionResponseKeys.bySession(sessionId),
@@ -17,26 +91,61 @@ export function useSessionResponses(sessionId: string) {
         .eq('session_id', sessionId)
         .order('sequence_number');
       if (error) throw error;
-      return data as SessionResponseRow[];
+      // Marks made offline read back until they've been replayed
+      return (await queuedResponses(sessionId)).reduce(
+        (rows, queued) => withResponse(rows, pendingResponseRow(queued, rows.find(r => r.item_id === queued.item_id))),
+        data as SessionResponseRow[]
+      );
     },
     enabled: !!sessionId,
   });
 }
 
+/**
+ * Saves a response, queuing it in the outbox when the network is down; the
+ * queued row is returned and cached so the runner carries on regardless.
+ */
 export function useUpsertSessionResponse() {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: async (response: SessionResponseInsert) => {
-      const { data, error } = await supabase
-        .from('session_responses')
-        .upsert(response, { onConflict: 'session_id,item_id' })
-        .select()
-        .single();
-      if (error) throw error;
-      return data as SessionResponseRow;
+      const saved = await writeOrQueue(
+        { kind: 'upsert_response', response },
+        () => upsertSessionResponse(response)
+      );
+      if (saved) return saved;
+      const cached = queryClient.getQueryData<SessionResponseRow[]>(sessionResponseKeys.bySession(response.session_id));
+      return pendingResponseRow(response, cached?.find(r => r.item_id === response.item_id));
     },
     onSuccess: (data) => {
+      queryClient.setQueryData<SessionResponseRow[]>(
+        sessionResponseKeys.bySession(data.session_id),
+        (rows) => rows && withResponse(rows, data)
+      );
       queryClient.invalidateQueries({ queryKey: sessionResponseKeys.bySession(data.session_id) });
     },
   });
 }
+
+/**
+ * Deletes a session's responses to the given items, queuing the delete in
+ * the outbox when the network is down.
+ */
+export function useDeleteSessionResponses() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ sessionId, itemIds }: { sessionId: string; itemIds: string[] }) => {
+      await writeOrQueue(
+        { kind: 'delete_responses', session_id: sessionId, item_ids: itemIds },
+        () => deleteSessionResponses(sessionId, itemIds)
+      );
+    },
+    onSuccess: (_data, { sessionId, itemIds }) => {
+      queryClient.setQueryData<SessionResponseRow[]>(
+        sessionResponseKeys.bySession(sessionId),
+        (rows) => rows?.filter(r => !itemIds.includes(r.item_id))
+      );
+      queryClient.invalidateQueries({ queryKey: sessionResponseKeys.bySession(sessionId) });
+    },
+  });
+}
@@ -1,10 +1,19 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { scoreAndPersistSession } from '@/lib/scoring';
+import { definedFields, errorMessage, queuedSessionUpdates, writeOrQueue } from '@/lib/outbox';
+import { clearLocalDraft, toDraftJson, type SessionDraft } from '@/lib/sessionDrafts';
+import { publishStudentDisplay } from '@/lib/studentDisplay';
 import type { SessionRow, SessionInsert, SessionUpdate } from '@/types/database';
+import { toast } from 'sonner';
+
+/** Statuses that end a session and trigger scoring. */
+export const FINISHED_STATUSES = ['completed', 'discontinued'];
 
 export const sessionKeys = {
   all: ['sessions'] as const,
   lists: () => [...sessionKeys.all, 'list'] as const,
+  attention: () => [...sessionKeys.all, 'attention'] as const,
   detail: (id: string) => [...sessionKeys.all, 'detail', id] as const,
 };
 
@@ -22,7 +31,26 @@ export function useSessions() {
   });
 }
 
-export function useSession(id: string, options?: { refetchInterval?: number }) {
+/**
+ * Sessions whose last scoring fired at least one critical flag.
+ */
+export function useSessionsNeedingAttention(limit = 10) {
+  return useQuery({
+    queryKey: [...sessionKeys.attention(), limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('sessions')
+        .select('*')
+        .contains('fired_flags', [{ severity: 'critical' }])
+        .order('completed_at', { ascending: false, nullsFirst: false })
+        .limit(limit);
+      if (error) throw error;
+      return data as SessionRow[];
+    },
+  });
+}
+
+export function useSession(id: string) {
   return useQuery({
     queryKey: sessionKeys.detail(id),
     queryFn: async () => {
@@ -32,10 +60,11 @@ export function useSession(id: string, options?: { refetchInterval?: number }) {
         .eq('session_id', id)
         .maybeSingle();
       if (error) throw error;
-      return data as SessionRow | null;
+      // Updates made offline read back until they've been replayed
+      const queued = data && await queuedSessionUpdates(id);
+      return queued ? { ...data, ...queued } as SessionRow : data as SessionRow | null;
     },
     enabled: !!id,
-    refetchInterval: options?.refetchInterval,
   });
 }
 
@@ -57,20 +86,90 @@ export function useCreateSession() {
   });
 }
 
+/** Whether an update ends the session. */
+export const isFinishingUpdate = (updates: SessionUpdate) =>
+  !!updates.status && FINISHED_STATUSES.includes(updates.status);
+
+/** Update a session, dropping its draft when the update finishes it. */
+export async function updateSessionRecord(id: string, updates: SessionUpdate): Promise<SessionRow> {
+  const { data, error } = await supabase
+    .from('sessions')
+    .update(isFinishingUpdate(updates) ? { ...updates, draft_state: null } : updates)
+    .eq('session_id', id)
+    .select()
+    .single();
+  if (error) throw error;
+  return data as SessionRow;
+}
+
+/**
+ * Score a session once it's finished, which also stores its fired flags.
+ * This runs apart from the status write: a failure leaves the session
+ * finished and is reported with a retry, rather than failing the save.
+ */
+export async function scoreFinishedSession(id: string, onScored?: () => void): Promise<void> {
+  try {
+    await scoreAndPersistSession(id);
+    onScored?.();
+  } catch (error) {
+    toast.error('Session saved, but scoring failed', {
+      description: errorMessage(error),
+      action: { label: 'Retry', onClick: () => { scoreFinishedSession(id, onScored); } },
+    });
+  }
+}
+
+/** Checkpoint a runner's working state on the session row; null discards it. */
+export async function saveSessionDraftRecord(id: string, draft: SessionDraft | null): Promise<void> {
+  // A checkpoint that lands after the session finished mustn't bring the draft back
+  const { error } = await supabase
+    .from('sessions')
+    .update({ draft_state: toDraftJson(draft) })
+    .eq('session_id', id)
+    .eq('status', 'in_progress');
+  if (error) throw error;
+}
+
+/**
+ * Checkpoints go out through the outbox like other session writes, but
+ * don't refresh session queries: the runner already holds the state.
+ */
+export async function saveSessionDraft(id: string, draft: SessionDraft | null): Promise<void> {
+  await writeOrQueue({ kind: 'save_draft', session_id: id, draft }, () => saveSessionDraftRecord(id, draft));
+}
+
+/**
+ * Updates a session, queuing the update in the outbox when the network is
+ * down; scoring then happens when it's replayed. A session the update
+ * finishes is scored once the update is written.
+ */
 export function useUpdateSession() {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: async ({ id, updates }: { id: string; updates: SessionUpdate }) => {
-      const { data, error } = await supabase
-        .from('sessions')
-        .update(updates)
-        .eq('session_id', id)
-        .select()
-        .single();
-      if (error) throw error;
-      return data as SessionRow;
+      const finishing = isFinishingUpdate(updates);
+      if (finishing) {
+        clearLocalDraft(id);
+        publishStudentDisplay(id, { complete: true });
+      }
+      const saved = await writeOrQueue(
+        { kind: 'update_session', session_id: id, updates },
+        () => updateSessionRecord(id, updates)
+      );
+      if (saved) {
+        if (finishing) {
+          await scoreFinishedSession(id, () => queryClient.invalidateQueries({ queryKey: sessionKeys.all }));
+        }
+        return saved;
+      }
+      const cached = queryClient.getQueryData<SessionRow | null>(sessionKeys.detail(id));
+      return { ...cached, ...definedFields(updates), session_id: id } as SessionRow;
     },
     onSuccess: (data) => {
+      queryClient.setQueryData<SessionRow | null>(
+        sessionKeys.detail(data.session_id),
+        (session) => session && { ...session, ...data }
+      );
       queryClient.invalidateQueries({ queryKey: sessionKeys.all });
       queryClient.invalidateQueries({ queryKey: sessionKeys.detail(data.session_id) });
     },
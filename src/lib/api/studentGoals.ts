@@ -0,0 +1,83 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { StudentGoalRow, StudentGoalInsert, StudentGoalUpdate } from '@/types/database';
+
+// Query keys
+export const studentGoalKeys = {
+  all: ['studentGoals'] as const,
+  byStudent: (studentId: string) => [...studentGoalKeys.all, 'student', studentId] as const,
+};
+
+// Fetch a student's goals, soonest end date first
+export function useStudentGoals(studentId: string) {
+  return useQuery({
+    queryKey: studentGoalKeys.byStudent(studentId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('student_goals')
+        .select('*')
+        .eq('student_id', studentId)
+        .order('end_date');
+      if (error) throw error;
+      return data as StudentGoalRow[];
+    },
+    enabled: !!studentId,
+  });
+}
+
+// Create goal
+export function useCreateStudentGoal() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (goal: StudentGoalInsert) => {
+      const { data, error } = await supabase
+        .from('student_goals')
+        .insert(goal)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as StudentGoalRow;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: studentGoalKeys.byStudent(data.student_id) });
+    },
+  });
+}
+
+// Update goal
+export function useUpdateStudentGoal() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: StudentGoalUpdate }) => {
+      const { data, error } = await supabase
+        .from('student_goals')
+        .update(updates)
+        .eq('goal_id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as StudentGoalRow;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: studentGoalKeys.byStudent(data.student_id) });
+    },
+  });
+}
+
+// Delete goal
+export function useDeleteStudentGoal() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (goal: Pick<StudentGoalRow, 'goal_id' | 'student_id'>) => {
+      const { error } = await supabase
+        .from('student_goals')
+        .delete()
+        .eq('goal_id', goal.goal_id);
+      if (error) throw error;
+      return goal;
+    },
+    onSuccess: (goal) => {
+      queryClient.invalidateQueries({ queryKey: studentGoalKeys.byStudent(goal.student_id) });
+    },
+  });
+}
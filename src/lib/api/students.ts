@@ -0,0 +1,264 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { StudentRow, StudentInsert, StudentUpdate, SessionRow } from '@/types/database';
+import { sessionKeys } from './sessions';
+import { fetchProgressResponses } from './sessionResponses';
+
+// Query keys
+export const studentKeys = {
+  all: ['students'] as const,
+  lists: () => [...studentKeys.all, 'list'] as const,
+  list: (includeArchived: boolean) => [...studentKeys.lists(), { includeArchived }] as const,
+  details: () => [...studentKeys.all, 'detail'] as const,
+  detail: (id: string) => [...studentKeys.details(), id] as const,
+  sessions: (id: string) => [...studentKeys.detail(id), 'sessions'] as const,
+  progress: (id: string) => [...studentKeys.detail(id), 'progress'] as const,
+};
+
+/**
+ * Normalize a student name for matching: trimmed, single-spaced, lowercase.
+ */
+export function normalizeStudentName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * The student a merged record ended up in, following merged_into_id through
+ * any chain of merges. Unmerged students resolve to themselves.
+ */
+export function resolveMergedStudentId(
+  studentId: string,
+  students: Pick<StudentRow, 'student_id' | 'merged_into_id'>[]
+): string {
+  const mergedInto = new Map(students.map(s => [s.student_id, s.merged_into_id]));
+  const visited = new Set<string>();
+  let current = studentId;
+  while (mergedInto.get(current) && !visited.has(current)) {
+    visited.add(current);
+    current = mergedInto.get(current)!;
+  }
+  return current;
+}
+
+// Fetch roster (active students only unless includeArchived)
+export function useStudents(options?: { includeArchived?: boolean }) {
+  const includeArchived = options?.includeArchived ?? false;
+  return useQuery({
+    queryKey: studentKeys.list(includeArchived),
+    queryFn: async () => {
+      let query = supabase
+        .from('students')
+        .select('*')
+        .order('full_name');
+      if (!includeArchived) {
+        query = query.eq('is_active', true);
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as StudentRow[];
+    },
+  });
+}
+
+// Fetch single student
+export function useStudent(id: string) {
+  return useQuery({
+    queryKey: studentKeys.detail(id),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('students')
+        .select('*')
+        .eq('student_id', id)
+        .maybeSingle();
+      if (error) throw error;
+      return data as StudentRow | null;
+    },
+    enabled: !!id,
+  });
+}
+
+// Fetch a student's sessions, oldest first
+export function useStudentSessions(id: string) {
+  return useQuery({
+    queryKey: studentKeys.sessions(id),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('sessions')
+        .select('*')
+        .eq('student_id', id)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data as SessionRow[];
+    },
+    enabled: !!id,
+  });
+}
+
+// Create student
+export function useCreateStudent() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (student: StudentInsert) => {
+      const { data, error } = await supabase
+        .from('students')
+        .insert(student)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as StudentRow;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: studentKeys.all });
+    },
+  });
+}
+
+// Update student (also used to archive/restore via is_active)
+export function useUpdateStudent() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: StudentUpdate }) => {
+      const { data, error } = await supabase
+        .from('students')
+        .update(updates)
+        .eq('student_id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as StudentRow;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: studentKeys.all });
+    },
+  });
+}
+
+/**
+ * Merge a duplicate student into another in one transaction (the
+ * merge_students function): moves the source's sessions, batteries and goals
+ * to the target, then archives the source and records where it went. A
+ * target that was itself merged resolves to the student it ended up in.
+ */
+export function useMergeStudents() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ sourceId, targetId }: { sourceId: string; targetId: string }) => {
+      if (sourceId === targetId) {
+        throw new Error('Cannot merge a student into itself');
+      }
+
+      const { data, error } = await supabase.rpc('merge_students', { source_id: sourceId, target_id: targetId });
+      if (error) throw error;
+
+      return { sourceId, targetId: data };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: studentKeys.all });
+      queryClient.invalidateQueries({ queryKey: sessionKeys.all });
+    },
+  });
+}
+
+/**
+ * Link sessions that have no student_id to roster students by name, creating
+ * a student for any name that has no match. Returns how many were linked.
+ */
+export function useBackfillSessionStudents() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      const [{ data: sessions, error: sessionsError }, { data: students, error: studentsError }] = await Promise.all([
+        supabase
+          .from('sessions')
+          .select('session_id, student_name, grade_tag')
+          .is('student_id', null)
+          .order('created_at', { ascending: false }),
+        supabase.from('students').select('student_id, full_name, merged_into_id'),
+      ]);
+      if (sessionsError) throw sessionsError;
+      if (studentsError) throw studentsError;
+
+      const byName = new Map<string, string>();
+      (students || []).forEach(s => {
+        const key = normalizeStudentName(s.full_name);
+        // Merged duplicates resolve to the student they ended up in
+        if (!byName.has(key) || !s.merged_into_id) {
+          byName.set(key, resolveMergedStudentId(s.student_id, students || []));
+        }
+      });
+
+      let linked = 0;
+      let created = 0;
+      for (const session of sessions || []) {
+        const key = normalizeStudentName(session.student_name);
+        if (!key) continue;
+
+        let studentId = byName.get(key);
+        if (!studentId) {
+          const { data: student, error } = await supabase
+            .from('students')
+            .insert({ full_name: session.student_name.trim().replace(/\s+/g, ' '), grade_tag: session.grade_tag })
+            .select('student_id')
+            .single();
+          if (error) throw error;
+          studentId = student.student_id;
+          byName.set(key, studentId);
+          created++;
+        }
+
+        const { error } = await supabase
+          .from('sessions')
+          .update({ student_id: studentId })
+          .eq('session_id', session.session_id);
+        if (error) throw error;
+        linked++;
+      }
+
+      return { linked, created };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: studentKeys.all });
+      queryClient.invalidateQueries({ queryKey: sessionKeys.all });
+    },
+  });
+}
+
+/**
+ * Everything the progress page needs for one student: sessions, their
+ * responses, and the scoring outputs (for benchmarks) of assessments taken.
+ */
+export function useStudentProgressData(id: string) {
+  return useQuery({
+    queryKey: studentKeys.progress(id),
+    queryFn: async () => {
+      const { data: sessions, error: sessionsError } = await supabase
+        .from('sessions')
+        .select('*')
+        .eq('student_id', id)
+        .order('created_at', { ascending: true });
+      if (sessionsError) throw sessionsError;
+
+      const sessionIds = (sessions || []).map(s => s.session_id);
+      const assessmentIds = Array.from(new Set((sessions || []).map(s => s.assessment_id)));
+      if (sessionIds.length === 0) {
+        return { sessions: [] as SessionRow[], responses: [], scoringOutputs: [] };
+      }
+
+      const [responses, { data: scoringOutputs, error: scoringError }] = await Promise.all([
+        fetchProgressResponses(sessionIds),
+        supabase
+          .from('scoring_outputs')
+          .select('assessment_id, thresholds')
+          .in('assessment_id', assessmentIds),
+      ]);
+      if (scoringError) throw scoringError;
+
+      return {
+        sessions: sessions as SessionRow[],
+        responses,
+        scoringOutputs: scoringOutputs || [],
+      };
+    },
+    enabled: !!id,
+  });
+}
@@ -0,0 +1,122 @@
+import type { FormRow, SessionRow } from '@/types/database';
+import { getGradeLabel, gradeTagCovers } from '@/lib/gradeUtils';
+
+/**
+ * Automatic form selection for a new session: an active form at the
+ * student's grade that they haven't been given yet, kept to the equivalence
+ * set of their last session so progress-monitoring scores stay comparable,
+ * and rotating through the alternates once every form has been seen.
+ */
+
+export interface FormExposure {
+  count: number;
+  /** When the form was last given, ms since epoch */
+  last_given: number;
+}
+
+export interface FormRecommendation {
+  form: FormRow;
+  /** Why this form, in the order the rules were applied */
+  reasons: string[];
+}
+
+// A session created but never started hasn't shown the student anything
+function wasGiven(session: SessionRow): boolean {
+  return session.status !== 'created' || !!session.started_at;
+}
+
+function givenAt(session: SessionRow): number {
+  return new Date(session.started_at ?? session.created_at ?? 0).getTime();
+}
+
+const byFormNumber = (a: FormRow, b: FormRow) => a.form_number - b.form_number || a.form_id.localeCompare(b.form_id);
+
+/**
+ * How often, and how recently, a student has been given each form. Forms
+ * can be shared between assessments, so every session counts.
+ */
+export function getFormExposures(sessions: SessionRow[]): Map<string, FormExposure> {
+  const exposures = new Map<string, FormExposure>();
+  sessions.filter(wasGiven).forEach(session => {
+    const previous = exposures.get(session.form_id);
+    exposures.set(session.form_id, {
+      count: (previous?.count ?? 0) + 1,
+      last_given: Math.max(previous?.last_given ?? 0, givenAt(session)),
+    });
+  });
+  return exposures;
+}
+
+/**
+ * Pick the form for a student's next session of an assessment from its
+ * eligible forms. Returns null when every form is retired.
+ */
+export function recommendForm(
+  forms: FormRow[],
+  sessions: SessionRow[],
+  assessmentId: string,
+  gradeTag: string | null
+): FormRecommendation | null {
+  const reasons: string[] = [];
+
+  const usable = forms.filter(f => f.status !== 'retired');
+  if (usable.length === 0) return null;
+
+  const active = usable.filter(f => f.status === 'active');
+  let pool = active.length > 0 ? active : usable;
+  if (active.length === 0) reasons.push('No active forms, so a draft form was used');
+
+  if (gradeTag) {
+    const atGrade = pool.filter(f => gradeTagCovers(f.grade_or_level_tag, gradeTag));
+    if (atGrade.length > 0) {
+      pool = atGrade;
+    } else {
+      reasons.push(`No form covers ${getGradeLabel(gradeTag)}, so every grade band was considered`);
+    }
+  } else {
+    reasons.push('No grade given, so every grade band was considered');
+  }
+
+  const exposures = getFormExposures(sessions);
+  const formsById = new Map(forms.map(f => [f.form_id, f]));
+
+  // Stay with the equivalence set of the student's last session, if it's still offered
+  const lastInSet = sessions
+    .filter(s => s.assessment_id === assessmentId && wasGiven(s))
+    .sort((a, b) => givenAt(b) - givenAt(a))
+    .map(s => formsById.get(s.form_id))
+    .find(f => f?.equivalence_set_id && pool.some(p => p.equivalence_set_id === f.equivalence_set_id));
+  const setPool = lastInSet ? pool.filter(f => f.equivalence_set_id === lastInSet.equivalence_set_id) : pool;
+
+  const unseenInSet = setPool.filter(f => !exposures.has(f.form_id)).sort(byFormNumber);
+  const unseen = pool.filter(f => !exposures.has(f.form_id)).sort(byFormNumber);
+
+  let form: FormRow;
+  if (unseenInSet.length > 0) {
+    form = unseenInSet[0];
+    if (lastInSet) {
+      reasons.push(`Same equivalence set (${lastInSet.equivalence_set_id}) as the last session, on ${lastInSet.form_id}`);
+    }
+    reasons.push(unseenInSet.length > 1
+      ? `Not given to this student yet; ${unseenInSet.length - 1} other unseen alternate(s) left`
+      : 'Not given to this student yet; the last unseen alternate');
+  } else if (unseen.length > 0) {
+    form = unseen[0];
+    reasons.push(`Every form in equivalence set ${lastInSet?.equivalence_set_id} has been given, so moved to an unseen form`);
+  } else {
+    // Everything's been seen: rotate back to the form given longest ago
+    form = [...setPool].sort((a, b) =>
+      (exposures.get(a.form_id)?.last_given ?? 0) - (exposures.get(b.form_id)?.last_given ?? 0) || byFormNumber(a, b)
+    )[0];
+    const lastGiven = exposures.get(form.form_id)?.last_given;
+    reasons.push(`Every eligible form has been given, so rotating back to the one given longest ago${
+      lastGiven ? ` (${new Date(lastGiven).toLocaleDateString()})` : ''
+    }`);
+  }
+
+  if (gradeTag && gradeTagCovers(form.grade_or_level_tag, gradeTag)) {
+    reasons.unshift(`${getGradeLabel(form.grade_or_level_tag)} form for a ${getGradeLabel(gradeTag)} student`);
+  }
+
+  return { form, reasons };
+}
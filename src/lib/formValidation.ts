@@ -10,7 +10,7 @@ export interface FormValidationResult {
 // Assessment-specific item count requirements
 const ITEM_COUNT_RULES: Record<string, { min: number; max: number }> = {
   'FL-LNF': { min: 100, max: 100 },
-  'FL-ORF': { min: 1, max: 1 },
+  'FL-ORF': { min: 1, max: 3 },
   'FL-WRF': { min: 40, max: 50 },
   'FL-PSF': { min: 20, max: 20 },
   'PA-OONS': { min: 20, max: 20 },
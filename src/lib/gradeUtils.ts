@@ -56,3 +56,58 @@ export function getGradeLabel(tag: string | null | undefined): string {
   if (!tag) return 'Unknown';
   return GRADE_DISPLAY_NAMES[tag as CanonicalGradeTag] || tag;
 }
+
+/** Inclusive grade span, with PreK as -1 and Kindergarten as 0. */
+export interface GradeSpan {
+  min: number;
+  max: number;
+}
+
+const GRADE_PERIOD_PREFIX = /^(beginning|start|mid|middle|end|fall|winter|spring|boy|moy|eoy)(\s+of)?[\s-]*/;
+
+function parseGradeNumber(value: string): number | null {
+  const v = value.trim().replace(/^(grades?|g)\s*/, '');
+  if (v === 'prek' || v === 'pre-k' || v === 'pk') return -1;
+  if (v === 'k') return 0;
+  if (/^\d{1,2}$/.test(v)) return Number(v);
+  return null;
+}
+
+/**
+ * Resolve a grade tag to the grades it covers. Handles canonical tags
+ * ('2', 'K-1', 'G2_3', 'all') as well as legacy labels such as 'Mid-K' or
+ * 'End of Grade 1'. Returns null when the tag cannot be interpreted.
+ */
+export function getGradeSpan(tag: string | null | undefined): GradeSpan | null {
+  if (!tag) return null;
+  const normalized = tag.trim().toLowerCase().replace(GRADE_PERIOD_PREFIX, '');
+  if (normalized === 'all') return { min: -1, max: 12 };
+
+  const single = parseGradeNumber(normalized);
+  if (single !== null) return { min: single, max: single };
+
+  const parts = normalized.replace(/^(grades?|g)\s*/, '').split(/\s*(?:-|_|\bto\b)\s*/);
+  if (parts.length !== 2) return null;
+  const min = parseGradeNumber(parts[0]);
+  const max = parseGradeNumber(parts[1]);
+  if (min === null || max === null || min > max) return null;
+  return { min, max };
+}
+
+/**
+ * Check whether every grade in `inner` falls within `outer`.
+ */
+export function gradeSpanContains(outer: GradeSpan, inner: GradeSpan): boolean {
+  return inner.min >= outer.min && inner.max <= outer.max;
+}
+
+/**
+ * Check whether a tag such as 'K-1' or 'all' covers a student's grade. A
+ * grade that can't be read matches only the same tag.
+ */
+export function gradeTagCovers(tag: string, gradeTag: string): boolean {
+  const outer = getGradeSpan(tag);
+  const inner = getGradeSpan(gradeTag);
+  if (!outer || !inner) return tag.trim().toLowerCase() === gradeTag.trim().toLowerCase();
+  return gradeSpanContains(outer, inner);
+}
@@ -50,6 +50,17 @@ function buildContentPayload(row: Record<string, string>): Json {
   if (row.word_count) payload.word_count = parseInt(row.word_count);
   if (row.sentence_count) payload.sentence_count = parseInt(row.sentence_count);
   
+  // Maze-specific fields
+  if (row.blank_interval) payload.blank_interval = parseInt(row.blank_interval);
+  if (row.time_limit_seconds) payload.time_limit_seconds = parseInt(row.time_limit_seconds);
+  if (row.word_index) payload.word_index = parseInt(row.word_index);
+  if (row.distractors) {
+    payload.distractors = row.distractors.split('|').map(d => d.trim()).filter(Boolean);
+  }
+  if (row.item_type === 'cloze_blank' && row.correct_answer) {
+    payload.correct_answer = row.correct_answer;
+  }
+  
   // Auto-calculate word count for passages
   if (row.item_type === 'passage' && row.text && !row.word_count) {
     payload.word_count = row.text.split(/\s+/).filter(Boolean).length;
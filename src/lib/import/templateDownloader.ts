@@ -4,10 +4,13 @@ import type { ImportType } from './templateSchemas';
  * CSV template content for each import type
  */
 const TEMPLATES: Record<ImportType, string> = {
-  items: `item_id,form_id,item_type,sequence_number,stimulus,text,choices,correct_answer,scoring_tags,sentence_id,skill_tag,genre,word_count,sentence_count
-{ASSESSMENT_ID}.G2.form01.passage01,{ASSESSMENT_ID}.G2.form01,passage,1,"","The Lost Ball. Max had a red ball. He rolled it down the hill.","","",narrative,,,narrative,25,3
-{ASSESSMENT_ID}.G2.form01.recall.s1,{ASSESSMENT_ID}.G2.form01,recall_sentence_unit,2,"","Max had a red ball.","","",recall,s1,,,
-{ASSESSMENT_ID}.G2.form01.q1,{ASSESSMENT_ID}.G2.form01,mcq_item,3,"What color was Max's ball?","",Blue|Red|Green|Yellow,Red,mcq|key_detail,,key_detail,,`,
+  items: `item_id,form_id,item_type,sequence_number,stimulus,text,choices,correct_answer,scoring_tags,sentence_id,skill_tag,genre,word_count,sentence_count,blank_interval,time_limit_seconds,word_index,distractors
+{ASSESSMENT_ID}.G2.form01.passage01,{ASSESSMENT_ID}.G2.form01,passage,1,"","The Lost Ball. Max had a red ball. He rolled it down the hill.","","",narrative,,,narrative,25,3,,,,
+{ASSESSMENT_ID}.G2.form01.recall.s1,{ASSESSMENT_ID}.G2.form01,recall_sentence_unit,2,"","Max had a red ball.","","",recall,s1,,,,,,,,
+{ASSESSMENT_ID}.G2.form01.q1,{ASSESSMENT_ID}.G2.form01,mcq_item,3,"What color was Max's ball?","",Blue|Red|Green|Yellow,Red,mcq|key_detail,,key_detail,,,,,,,
+{ASSESSMENT_ID}.G3.form01.maze,{ASSESSMENT_ID}.G3.form01,passage,1,"","Sam wanted a dog. Every day after school he walked past the shelter on Main Street.","","",maze,,,narrative,,,7,180,,
+{ASSESSMENT_ID}.G3.form01.maze.b1,{ASSESSMENT_ID}.G3.form01,cloze_blank,2,"","","","",maze,,,,,,,,,cat|ran
+{ASSESSMENT_ID}.G3.form01.maze.b2,{ASSESSMENT_ID}.G3.form01,cloze_blank,3,"","",Main|blue|sing,Main,maze,,,,,,,,14,`,
 
   forms: `form_id,assessment_id,content_bank_id,grade_or_level_tag,form_number,status,equivalence_set_id
 {ASSESSMENT_ID}.G2.form01,{ASSESSMENT_ID},{ASSESSMENT_ID}.bank1,G2,1,draft,
@@ -74,7 +77,7 @@ export function downloadTemplate(
 export function getTemplateDescription(type: ImportType): string {
   switch (type) {
     case 'items':
-      return 'Items template includes comprehension support with sentence_id, skill_tag, and genre columns. Use pipe (|) for choices and scoring_tags.';
+      return 'Items template includes comprehension support with sentence_id, skill_tag, and genre columns. Use pipe (|) for choices, scoring_tags and distractors. Maze passages are a passage row followed by one cloze_blank row per choice; blanks default to every blank_interval-th word after the first sentence and to the passage word as the answer.';
     case 'forms':
       return 'Forms template defines form structure with grade tags and bank references. form_number should be unique per grade.';
     case 'banks':
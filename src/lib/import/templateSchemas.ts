@@ -36,9 +36,19 @@ export const itemsCSVSchema = z.object({
   genre: z.string().optional(),
   word_count: z.string().optional(),
   sentence_count: z.string().optional(),
+  // Maze-specific: blank_interval and time_limit_seconds on the passage row,
+  // word_index and distractors on each cloze_blank row
+  blank_interval: z.string().regex(/^\d*$/, 'Must be a number').optional(),
+  time_limit_seconds: z.string().regex(/^\d*$/, 'Must be a number').optional(),
+  word_index: z.string().regex(/^\d*$/, 'Must be a number').optional(),
+  distractors: z.string().optional(), // pipe-delimited
 }).refine(
-  data => data.stimulus || data.text,
+  // A cloze_blank's answer defaults to the passage word it replaces
+  data => data.stimulus || data.text || data.item_type === 'cloze_blank',
   { message: 'Either stimulus or text is required' }
+).refine(
+  data => data.item_type !== 'cloze_blank' || data.choices || data.distractors,
+  { message: 'cloze_blank items need choices or distractors', path: ['distractors'] }
 );
 
 // Forms CSV schema
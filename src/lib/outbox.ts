@@ -0,0 +1,299 @@
+import type { SessionResponseInsert, SessionUpdate } from '@/types/database';
+import type { SessionDraft } from '@/lib/sessionDrafts';
+import type { SessionRecordingUpload } from '@/types/recording';
+
+/**
+ * Durable outbox for session writes, kept in IndexedDB so an administration
+ * survives a dropped connection or a closed tab.
+ *
+ * Writes that can't reach the server are queued here and replayed in the
+ * order they were made once the connection is back. A queued response is
+ * keyed like the server's upsert (session_id, item_id): saving the same item
+ * again folds into the queued write rather than adding a second one, so the
+ * latest marks win, and the write keeps its place ahead of any later session
+ * update, e.g. the one that finishes and scores the session. Draft
+ * checkpoints fold the same way, one per session. Deleting responses drops
+ * their queued saves, so a save made after the delete queues behind it
+ * rather than folding in ahead of it. Recordings are queued
+ * with their audio, under the storage path chosen when they were made, so a
+ * replay after a partial upload overwrites rather than duplicates the file.
+ *
+ * A write the server rejects is set aside as a dead letter so it doesn't
+ * hold back every write after it. One that can't reach the server is never
+ * given up on: it keeps its place, however often the connection drops.
+ * Dead letters stay on the device until the assessor retries or discards
+ * them.
+ */
+
+export type OutboxOp =
+  | { kind: 'upsert_response'; response: SessionResponseInsert }
+  | { kind: 'delete_responses'; session_id: string; item_ids: string[] }
+  | { kind: 'update_session'; session_id: string; updates: SessionUpdate }
+  /** A null draft discards the checkpoint */
+  | { kind: 'save_draft'; session_id: string; draft: SessionDraft | null }
+  | { kind: 'upload_recording'; path: string; upload: SessionRecordingUpload };
+
+export type OutboxEntry = OutboxOp & {
+  seq: number;
+  queued_at: string;
+  /** Bumped whenever a later save folds into this entry */
+  revision: number;
+  /** Times the server rejected the write; network failures don't count */
+  attempts: number;
+  last_error?: string;
+  /** Set when the entry was given up on; it no longer holds back the queue */
+  dead_at?: string;
+};
+
+const DB_NAME = 'reading-compass-outbox';
+const DB_VERSION = 1;
+const STORE = 'ops';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Runs `work` in one transaction and settles when it commits
+async function transact<T>(
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore, setResult: (value: T) => void) => void
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    let result: T;
+    work(tx.objectStore(STORE), (value) => { result = value; });
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+/** Called whenever the queue changes; returns the unsubscribe. */
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Keys left undefined aren't sent, so they mustn't clear a queued value either
+export function definedFields<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+// The queued entry a new write folds into, if any
+function foldsInto(entry: OutboxEntry, op: OutboxOp): OutboxEntry | null {
+  if (entry.kind === 'upsert_response' && op.kind === 'upsert_response') {
+    return entry.response.session_id === op.response.session_id && entry.response.item_id === op.response.item_id
+      ? { ...entry, response: { ...entry.response, ...definedFields(op.response) } }
+      : null;
+  }
+  if (entry.kind === 'save_draft' && op.kind === 'save_draft') {
+    return entry.session_id === op.session_id ? { ...entry, draft: op.draft } : null;
+  }
+  return null;
+}
+
+export async function enqueueOutbox(op: OutboxOp): Promise<void> {
+  const queued_at = new Date().toISOString();
+  const fresh = { ...op, queued_at, revision: 0, attempts: 0 };
+
+  await transact<void>('readwrite', (store) => {
+    if (op.kind === 'update_session') {
+      store.add(fresh);
+      return;
+    }
+    if (op.kind === 'delete_responses') {
+      const deleteRequest = store.openCursor();
+      deleteRequest.onsuccess = () => {
+        const cursor = deleteRequest.result;
+        if (!cursor) {
+          store.add(fresh);
+          return;
+        }
+        const entry = cursor.value as OutboxEntry;
+        if (!entry.dead_at && entry.kind === 'upsert_response' && entry.response.session_id === op.session_id
+          && op.item_ids.includes(entry.response.item_id)) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      return;
+    }
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        store.add(fresh);
+        return;
+      }
+      const entry = cursor.value as OutboxEntry;
+      const folded = entry.dead_at ? null : foldsInto(entry, op);
+      if (folded) {
+        cursor.update({ ...folded, queued_at, revision: entry.revision + 1 });
+        return;
+      }
+      cursor.continue();
+    };
+  });
+  notify();
+}
+
+function listAll(): Promise<OutboxEntry[]> {
+  return transact<OutboxEntry[]>('readonly', (store, setResult) => {
+    const request = store.getAll();
+    request.onsuccess = () => setResult(request.result as OutboxEntry[]);
+  });
+}
+
+/** Every write still waiting to go out, oldest first. */
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  return (await listAll()).filter(e => !e.dead_at);
+}
+
+/** Writes that were given up on, oldest first. */
+export async function listDeadLetters(): Promise<OutboxEntry[]> {
+  return (await listAll()).filter(e => !!e.dead_at);
+}
+
+/**
+ * Drop an entry once it's been written, unless a later save folded into it
+ * while it was in flight; that one still has to go out.
+ */
+export async function removeFromOutbox(entry: Pick<OutboxEntry, 'seq' | 'revision'>): Promise<void> {
+  await transact<void>('readwrite', (store) => {
+    const request = store.get(entry.seq);
+    request.onsuccess = () => {
+      const current = request.result as OutboxEntry | undefined;
+      if (current && current.revision === entry.revision) store.delete(entry.seq);
+    };
+  });
+  notify();
+}
+
+/**
+ * Record a failed attempt. A write the server rejected becomes a dead
+ * letter; one that never reached it keeps its place, uncounted, for the
+ * next flush.
+ */
+export async function markOutboxFailure(seq: number, message: string, rejected: boolean): Promise<void> {
+  await transact<void>('readwrite', (store) => {
+    const request = store.get(seq);
+    request.onsuccess = () => {
+      const current = request.result as OutboxEntry | undefined;
+      if (!current) return;
+      store.put(rejected
+        ? { ...current, attempts: current.attempts + 1, last_error: message, dead_at: new Date().toISOString() }
+        : { ...current, last_error: message });
+    };
+  });
+  notify();
+}
+
+/** Put a dead letter back in the queue, in its original place, for another try. */
+export async function reviveOutboxEntry(seq: number): Promise<void> {
+  await transact<void>('readwrite', (store) => {
+    const request = store.get(seq);
+    request.onsuccess = () => {
+      const current = request.result as OutboxEntry | undefined;
+      if (!current) return;
+      const { dead_at: _deadAt, last_error: _lastError, ...revived } = current;
+      store.put({ ...revived, attempts: 0 });
+    };
+  });
+  notify();
+}
+
+/** Throw away a dead letter; its write is lost. */
+export async function discardOutboxEntry(seq: number): Promise<void> {
+  await transact<void>('readwrite', (store) => {
+    store.delete(seq);
+  });
+  notify();
+}
+
+/** The session a queued write belongs to. */
+export function outboxSessionId(entry: OutboxOp): string {
+  switch (entry.kind) {
+    case 'upsert_response': return entry.response.session_id;
+    case 'upload_recording': return entry.upload.session_id;
+    case 'delete_responses':
+    case 'update_session':
+    case 'save_draft': return entry.session_id;
+  }
+}
+
+// supabase-js errors aren't always Error instances
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'object' && error !== null && 'message' in error) return String(error.message);
+  return String(error);
+}
+
+/**
+ * Whether a failed request never reached the server. supabase-js reports
+ * these as errors whose message is the browser's fetch failure.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return /failed to fetch|networkerror|load failed|network request failed|fetch failed/i.test(errorMessage(error));
+}
+
+/**
+ * Runs a write, or queues it when it can't reach the server. Writes also
+ * queue while earlier ones are still waiting, so they replay in order;
+ * dead letters don't count. Returns null when the write was queued.
+ */
+export async function writeOrQueue<T>(op: OutboxOp, write: () => Promise<T>): Promise<T | null> {
+  const waiting = navigator.onLine ? (await listOutbox()).length > 0 : true;
+  if (waiting) {
+    await enqueueOutbox(op);
+    return null;
+  }
+
+  try {
+    return await write();
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    await enqueueOutbox(op);
+    return null;
+  }
+}
+
+/** Queued responses for a session, as they'll be written. */
+export async function queuedResponses(sessionId: string): Promise<SessionResponseInsert[]> {
+  return (await listOutbox())
+    .filter((e): e is Extract<OutboxEntry, { kind: 'upsert_response' }> => e.kind === 'upsert_response')
+    .map(e => e.response)
+    .filter(r => r.session_id === sessionId);
+}
+
+/** Queued updates for a session, merged in order. */
+export async function queuedSessionUpdates(sessionId: string): Promise<SessionUpdate | null> {
+  const updates = (await listOutbox())
+    .filter((e): e is Extract<OutboxEntry, { kind: 'update_session' }> => e.kind === 'update_session')
+    .filter(e => e.session_id === sessionId);
+  return updates.length > 0
+    ? updates.reduce<SessionUpdate>((merged, e) => ({ ...merged, ...definedFields(e.updates) }), {})
+    : null;
+}
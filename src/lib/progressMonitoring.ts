@@ -0,0 +1,159 @@
+import type { StudentGoalRow } from '@/types/database';
+import type { ProgressPoint } from '@/lib/studentProgress';
+
+/**
+ * Progress-monitoring math for student goals: aimlines, OLS rate of
+ * improvement (ROI) in units per week, and the consecutive-points decision
+ * rule.
+ */
+
+const MS_PER_WEEK = 7 * 24 * 60 * 60 * 1000;
+
+/** Points below the aimline in a row that trigger an instructional change. */
+export const DECISION_RULE_POINTS = 4;
+
+export interface LinePoint {
+  timestamp: number;
+  value: number;
+}
+
+export interface RegressionLine {
+  /** Growth per week */
+  slope: number;
+  /** Fitted value at the origin timestamp */
+  intercept: number;
+  origin: number;
+}
+
+export interface GoalAnalysis {
+  goal_id: string;
+  points: ProgressPoint[];
+  aimline: [LinePoint, LinePoint] | null;
+  trendline: [LinePoint, LinePoint] | null;
+  /** Observed ROI (OLS slope), units per week */
+  actual_roi: number | null;
+  /** ROI needed to reach the target from the baseline by the end date */
+  needed_roi: number | null;
+  /** Trendline value projected to the goal end date */
+  projected_value: number | null;
+  consecutive_below_aimline: number;
+  decision_rule_triggered: boolean;
+}
+
+/** Parse a DATE column as local midnight. */
+function dateToTimestamp(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime();
+}
+
+/**
+ * Ordinary-least-squares fit of value against weeks since the first point.
+ * Returns null with fewer than two points or when all points share a date.
+ */
+export function fitWeeklyTrend(points: LinePoint[]): RegressionLine | null {
+  if (points.length < 2) return null;
+
+  const origin = points[0].timestamp;
+  const xs = points.map(p => (p.timestamp - origin) / MS_PER_WEEK);
+  const ys = points.map(p => p.value);
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+
+  let sxx = 0;
+  let sxy = 0;
+  xs.forEach((x, i) => {
+    sxx += (x - meanX) * (x - meanX);
+    sxy += (x - meanX) * (ys[i] - meanY);
+  });
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  return { slope, intercept: meanY - slope * meanX, origin };
+}
+
+/** Value of a regression line at a timestamp. */
+export function valueAt(line: RegressionLine, timestamp: number): number {
+  return line.intercept + line.slope * ((timestamp - line.origin) / MS_PER_WEEK);
+}
+
+/**
+ * Aimline from the baseline at the goal start to the target at the end date.
+ * Without an explicit baseline, the first point on or after the start date is
+ * used. Returns null when there is no baseline to start from.
+ */
+export function buildAimline(goal: StudentGoalRow, points: ProgressPoint[]): [LinePoint, LinePoint] | null {
+  const start = dateToTimestamp(goal.start_date);
+  const end = dateToTimestamp(goal.end_date);
+
+  let baseline: LinePoint | null = null;
+  if (goal.baseline_value !== null) {
+    baseline = { timestamp: start, value: goal.baseline_value };
+  } else {
+    const first = points.find(p => p.timestamp >= start);
+    if (first) baseline = { timestamp: first.timestamp, value: first.value };
+  }
+  if (!baseline || baseline.timestamp >= end) return null;
+
+  return [baseline, { timestamp: end, value: goal.target_value }];
+}
+
+/** Interpolated aimline value at a timestamp. */
+export function aimlineValueAt(aimline: [LinePoint, LinePoint], timestamp: number): number {
+  const [from, to] = aimline;
+  const fraction = (timestamp - from.timestamp) / (to.timestamp - from.timestamp);
+  return from.value + (to.value - from.value) * fraction;
+}
+
+/**
+ * Count how many of the most recent points fall below the aimline in a row.
+ */
+export function countConsecutiveBelowAimline(aimline: [LinePoint, LinePoint], points: ProgressPoint[]): number {
+  let count = 0;
+  for (let i = points.length - 1; i >= 0; i--) {
+    if (points[i].value < aimlineValueAt(aimline, points[i].timestamp)) {
+      count++;
+    } else {
+      break;
+    }
+  }
+  return count;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Analyze a goal against the metric points its assessment has produced.
+ * Only points from the goal start date onward are considered.
+ */
+export function analyzeGoal(goal: StudentGoalRow, allPoints: ProgressPoint[]): GoalAnalysis {
+  const start = dateToTimestamp(goal.start_date);
+  const end = dateToTimestamp(goal.end_date);
+  const points = allPoints.filter(p => p.timestamp >= start);
+
+  const aimline = buildAimline(goal, points);
+  const trend = fitWeeklyTrend(points);
+
+  const neededRoi = aimline
+    ? (aimline[1].value - aimline[0].value) / ((aimline[1].timestamp - aimline[0].timestamp) / MS_PER_WEEK)
+    : null;
+
+  const trendline: [LinePoint, LinePoint] | null = trend
+    ? [
+        { timestamp: points[0].timestamp, value: round(valueAt(trend, points[0].timestamp)) },
+        { timestamp: Math.max(end, points[points.length - 1].timestamp), value: round(valueAt(trend, Math.max(end, points[points.length - 1].timestamp))) },
+      ]
+    : null;
+
+  const consecutiveBelow = aimline ? countConsecutiveBelowAimline(aimline, points) : 0;
+
+  return {
+    goal_id: goal.goal_id,
+    points,
+    aimline,
+    trendline,
+    actual_roi: trend ? round(trend.slope) : null,
+    needed_roi: neededRoi !== null ? round(neededRoi) : null,
+    projected_value: trend ? round(valueAt(trend, end)) : null,
+    consecutive_below_aimline: consecutiveBelow,
+    decision_rule_triggered: consecutiveBelow >= DECISION_RULE_POINTS,
+  };
+}
@@ -0,0 +1,39 @@
+import { supabase } from '@/integrations/supabase/client';
+import { calculateAccuracyScore, type AccuracyScores } from './accuracyScorer';
+import { replayBasalCeiling } from '@/types/basalCeiling';
+
+export interface BasalCeilingScores extends AccuracyScores {
+  /** Correct responses plus the items credited below the basal */
+  raw_score: number;
+  implicit_credit: number;
+  start_index: number;
+  basal_index: number | null;
+  ceiling_index: number | null;
+}
+
+/**
+ * Calculate scores for basal/ceiling tests (PH-LWID): accuracy over the items
+ * given, and a raw score that credits every item below the basal.
+ */
+export async function calculateBasalCeilingScore(sessionId: string): Promise<BasalCeilingScores> {
+  const accuracy = await calculateAccuracyScore(sessionId);
+
+  const { data: responses, error } = await supabase
+    .from('session_responses')
+    .select('is_correct, computed_scores')
+    .eq('session_id', sessionId)
+    .order('sequence_number');
+
+  if (error) throw error;
+
+  const state = replayBasalCeiling(responses || []);
+
+  return {
+    ...accuracy,
+    raw_score: accuracy.correct + (state?.implicit_credit ?? 0),
+    implicit_credit: state?.implicit_credit ?? 0,
+    start_index: state?.start_index ?? 0,
+    basal_index: state?.basal_index ?? null,
+    ceiling_index: state?.ceiling_index ?? null,
+  };
+}
@@ -0,0 +1,209 @@
+import type { MetricDirection, ThresholdDefinition } from '@/types/database';
+import { getGradeSpan, gradeSpanContains } from '@/lib/gradeUtils';
+
+export type BenchmarkTier = 'at_or_above' | 'below' | 'well_below' | 'not_classified';
+
+export const BENCHMARK_TIER_LABELS: Record<BenchmarkTier, string> = {
+  at_or_above: 'At/Above Benchmark',
+  below: 'Below Benchmark',
+  well_below: 'Well Below Benchmark',
+  not_classified: 'Not Classified',
+};
+
+// Error counts and times: fewer errors and faster responses are better
+const LOWER_IS_BETTER_PATTERN = /(error|incorrect|miss|latency|_ms$|seconds|time)/i;
+
+/**
+ * Which way a metric improves, for thresholds that don't say. Error counts
+ * and latencies are lower-is-better; everything else is higher-is-better.
+ */
+export function inferMetricDirection(metricId: string): MetricDirection {
+  return LOWER_IS_BETTER_PATTERN.test(metricId) ? 'lower_is_better' : 'higher_is_better';
+}
+
+export interface BenchmarkResult {
+  threshold_id: string;
+  metric_id: string;
+  grade_level: string;
+  benchmark_value: number | null;
+  well_below_value: number | null;
+  direction: MetricDirection;
+  observed_value: number | null;
+  status: ThresholdDefinition['status'];
+  tier: BenchmarkTier;
+}
+
+export interface BenchmarkClassification {
+  grade_tag: string | null;
+  tier: BenchmarkTier;
+  results: BenchmarkResult[];
+  /** True when every matching threshold is still a placeholder */
+  placeholder_only: boolean;
+  message: string;
+}
+
+const TIER_SEVERITY: Record<BenchmarkTier, number> = {
+  not_classified: 0,
+  at_or_above: 1,
+  below: 2,
+  well_below: 3,
+};
+
+/**
+ * Parse the thresholds JSONB column into typed definitions, skipping
+ * malformed entries.
+ */
+export function normalizeThresholds(raw: unknown): ThresholdDefinition[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((t): t is Record<string, unknown> => typeof t === 'object' && t !== null)
+    .filter(t => typeof t.metric_id === 'string' && typeof t.grade_level === 'string')
+    .map((t, idx) => ({
+      threshold_id: String(t.threshold_id ?? `threshold_${idx + 1}`),
+      metric_id: t.metric_id as string,
+      grade_level: t.grade_level as string,
+      benchmark_value: typeof t.benchmark_value === 'number' ? t.benchmark_value : null,
+      well_below_value: typeof t.well_below_value === 'number' ? t.well_below_value : null,
+      direction: t.direction === 'lower_is_better' || t.direction === 'higher_is_better'
+        ? t.direction
+        : inferMetricDirection(t.metric_id as string),
+      status: t.status === 'validated' ? 'validated' : 'placeholder',
+    }));
+}
+
+/**
+ * Compare an observed value against a benchmark. A score short of the
+ * benchmark is only "well below" when the threshold defines that cut.
+ */
+export function classifyValue(
+  value: number,
+  benchmark: number,
+  { well_below_value = null, direction = 'higher_is_better' }: {
+    well_below_value?: number | null;
+    direction?: MetricDirection;
+  } = {}
+): BenchmarkTier {
+  const meets = (cut: number) => (direction === 'lower_is_better' ? value <= cut : value >= cut);
+  if (meets(benchmark)) return 'at_or_above';
+  if (well_below_value !== null && !meets(well_below_value)) return 'well_below';
+  return 'below';
+}
+
+/**
+ * Pick the thresholds that apply to a student's grade: one per metric, using
+ * the narrowest grade span that covers the student's grade and preferring
+ * validated thresholds over placeholders.
+ */
+export function findMatchingThresholds(
+  thresholds: ThresholdDefinition[],
+  gradeTag: string | null
+): ThresholdDefinition[] {
+  const studentSpan = getGradeSpan(gradeTag);
+  if (!studentSpan) return [];
+
+  const best = new Map<string, { threshold: ThresholdDefinition; width: number }>();
+
+  thresholds.forEach(threshold => {
+    const span = getGradeSpan(threshold.grade_level);
+    if (!span || !gradeSpanContains(span, studentSpan)) return;
+
+    const width = span.max - span.min;
+    const current = best.get(threshold.metric_id);
+    const isBetter = !current
+      || width < current.width
+      || (width === current.width && threshold.status === 'validated' && current.threshold.status !== 'validated');
+
+    if (isBetter) best.set(threshold.metric_id, { threshold, width });
+  });
+
+  return Array.from(best.values()).map(b => b.threshold);
+}
+
+/**
+ * Classify a scored session against its scoring model's thresholds.
+ *
+ * `metrics` should include both raw and derived metrics. The overall tier is
+ * the lowest tier across all metrics that could be classified.
+ */
+export function classifyBenchmarks(
+  thresholds: ThresholdDefinition[],
+  metrics: Record<string, number>,
+  gradeTag: string | null
+): BenchmarkClassification {
+  if (thresholds.length === 0) {
+    return {
+      grade_tag: gradeTag,
+      tier: 'not_classified',
+      results: [],
+      placeholder_only: false,
+      message: 'No benchmark thresholds are defined for this scoring model.',
+    };
+  }
+
+  if (!getGradeSpan(gradeTag)) {
+    return {
+      grade_tag: gradeTag,
+      tier: 'not_classified',
+      results: [],
+      placeholder_only: false,
+      message: 'The session has no recognizable grade, so no benchmark applies.',
+    };
+  }
+
+  const matching = findMatchingThresholds(thresholds, gradeTag);
+  if (matching.length === 0) {
+    return {
+      grade_tag: gradeTag,
+      tier: 'not_classified',
+      results: [],
+      placeholder_only: false,
+      message: `No thresholds cover grade ${gradeTag}.`,
+    };
+  }
+
+  const results: BenchmarkResult[] = matching.map(threshold => {
+    const observed = metrics[threshold.metric_id];
+    const observedValue = typeof observed === 'number' ? observed : null;
+    const tier = observedValue !== null && threshold.benchmark_value !== null
+      ? classifyValue(observedValue, threshold.benchmark_value, threshold)
+      : 'not_classified';
+
+    return {
+      threshold_id: threshold.threshold_id,
+      metric_id: threshold.metric_id,
+      grade_level: threshold.grade_level,
+      benchmark_value: threshold.benchmark_value,
+      well_below_value: threshold.well_below_value,
+      direction: threshold.direction,
+      observed_value: observedValue,
+      status: threshold.status,
+      tier,
+    };
+  });
+
+  const tier = results.reduce<BenchmarkTier>(
+    (worst, r) => (TIER_SEVERITY[r.tier] > TIER_SEVERITY[worst] ? r.tier : worst),
+    'not_classified'
+  );
+  const placeholderOnly = results.every(r => r.status === 'placeholder');
+
+  let message: string;
+  if (tier === 'not_classified') {
+    message = 'Matching thresholds were found, but none have both a benchmark value and a session score to compare.';
+  } else if (placeholderOnly) {
+    message = 'Only placeholder thresholds are defined. This classification is provisional and should not be used for decisions.';
+  } else if (results.some(r => r.status === 'placeholder')) {
+    message = 'Some thresholds are placeholders; results based on them are provisional.';
+  } else {
+    message = 'Classified against validated thresholds.';
+  }
+
+  return {
+    grade_tag: gradeTag,
+    tier,
+    results,
+    placeholder_only: placeholderOnly,
+    message,
+  };
+}
@@ -0,0 +1,214 @@
+import type { ScoringFlag } from '@/types/database';
+import { evaluateExpression, type FormulaErrorCode } from './formulaEngine';
+
+/**
+ * Runtime evaluation of scoring_outputs.flags conditions.
+ *
+ * A condition is one or more comparisons joined by AND / OR (AND binds
+ * tighter), e.g. `accuracy_percentage < 90 OR self_correction_count > 5`.
+ * Each side of a comparison is a formula-engine expression. Text context such
+ * as `grade` can be compared with == / != against a bare word (`grade == K`).
+ */
+
+export interface FiredFlag {
+  flag_id: string;
+  name: string;
+  condition: string;
+  severity: ScoringFlag['severity'];
+}
+
+export interface FlagError {
+  flag_id: string;
+  name: string;
+  code: FormulaErrorCode;
+  message: string;
+}
+
+export interface FlagEvaluation {
+  fired: FiredFlag[];
+  errors: FlagError[];
+}
+
+type Comparator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+type Operand =
+  | { kind: 'number'; value: number }
+  | { kind: 'text'; value: string }
+  | { kind: 'error'; code: FormulaErrorCode; message: string };
+
+/** Three-valued result: a clause is unknown when an input is missing. */
+type Truth =
+  | { state: 'true' }
+  | { state: 'false' }
+  | { state: 'unknown'; code: FormulaErrorCode; message: string };
+
+const TRUE: Truth = { state: 'true' };
+const FALSE: Truth = { state: 'false' };
+
+const SEVERITY_ORDER: Record<ScoringFlag['severity'], number> = {
+  critical: 0,
+  warning: 1,
+  info: 2,
+};
+
+const COMPARISON = /^(.+?)\s*(<=|>=|==|!=|=|<|>)\s*(.+)$/;
+
+function resolveOperand(
+  text: string,
+  numeric: Record<string, number>,
+  textual: Record<string, string | null>,
+  allowLiteral: boolean
+): Operand {
+  const trimmed = text.trim();
+
+  const result = evaluateExpression(trimmed, numeric);
+  if (result.ok === true) return { kind: 'number', value: result.value };
+
+  if (trimmed in textual) {
+    const value = textual[trimmed];
+    return value === null
+      ? { kind: 'error', code: 'unknown_input', message: `'${trimmed}' is not recorded for this session` }
+      : { kind: 'text', value };
+  }
+
+  const quoted = trimmed.match(/^(['"])(.*)\1$/);
+  if (quoted) return { kind: 'text', value: quoted[2] };
+  if (allowLiteral && /^[\w.-]+$/.test(trimmed)) return { kind: 'text', value: trimmed };
+
+  return { kind: 'error', code: result.code, message: result.message };
+}
+
+function evaluateComparison(
+  clause: string,
+  numeric: Record<string, number>,
+  textual: Record<string, string | null>
+): Truth {
+  const match = clause.trim().match(COMPARISON);
+  if (!match) {
+    return { state: 'unknown', code: 'syntax_error', message: `'${clause.trim()}' is not a comparison` };
+  }
+
+  const comparator = (match[2] === '=' ? '==' : match[2]) as Comparator;
+  const isEquality = comparator === '==' || comparator === '!=';
+  const left = resolveOperand(match[1], numeric, textual, false);
+  const right = resolveOperand(match[3], numeric, textual, isEquality);
+
+  if (left.kind === 'error') return { state: 'unknown', code: left.code, message: left.message };
+  if (right.kind === 'error') return { state: 'unknown', code: right.code, message: right.message };
+
+  if (left.kind === 'number' && right.kind === 'number') {
+    const l = left.value;
+    const r = right.value;
+    const holds = comparator === '<' ? l < r
+      : comparator === '<=' ? l <= r
+      : comparator === '>' ? l > r
+      : comparator === '>=' ? l >= r
+      : comparator === '==' ? l === r
+      : l !== r;
+    return holds ? TRUE : FALSE;
+  }
+
+  if (!isEquality) {
+    return { state: 'unknown', code: 'syntax_error', message: `'${comparator}' can only compare numbers` };
+  }
+
+  const equal = String(left.value).toLowerCase() === String(right.value).toLowerCase();
+  return equal === (comparator === '==') ? TRUE : FALSE;
+}
+
+/**
+ * Evaluate a single flag condition. Returns true/false, or an error when the
+ * outcome depends on an input the session does not have.
+ */
+export function evaluateCondition(
+  condition: string,
+  numeric: Record<string, number>,
+  textual: Record<string, string | null> = {}
+): Truth {
+  if (!condition.trim()) {
+    return { state: 'unknown', code: 'syntax_error', message: 'Condition is empty' };
+  }
+
+  const orGroups = condition.split(/\s+OR\s+|\s*\|\|\s*/i);
+  let firstUnknown: Truth | null = null;
+
+  for (const group of orGroups) {
+    const clauses = group.split(/\s+AND\s+|\s*&&\s*/i);
+    let groupResult: Truth = TRUE;
+
+    for (const clause of clauses) {
+      const result = evaluateComparison(clause, numeric, textual);
+      if (result.state === 'false') {
+        groupResult = FALSE;
+        break;
+      }
+      if (result.state === 'unknown' && groupResult.state === 'true') {
+        groupResult = result;
+      }
+    }
+
+    if (groupResult.state === 'true') return TRUE;
+    if (groupResult.state === 'unknown' && !firstUnknown) firstUnknown = groupResult;
+  }
+
+  return firstUnknown ?? FALSE;
+}
+
+/**
+ * Parse the flags JSONB column into typed definitions, skipping malformed
+ * entries. Unrecognized severities are treated as 'info'.
+ */
+export function normalizeFlags(raw: unknown): ScoringFlag[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((f): f is Record<string, unknown> => typeof f === 'object' && f !== null)
+    .filter(f => typeof f.condition === 'string' && f.condition.trim() !== '')
+    .map((f, idx) => {
+      const flagId = String(f.flag_id ?? `flag_${idx + 1}`);
+      const severity = f.severity === 'critical' || f.severity === 'warning' ? f.severity : 'info';
+      return {
+        flag_id: flagId,
+        name: String(f.name ?? f.message ?? flagId),
+        condition: f.condition as string,
+        severity,
+      };
+    });
+}
+
+/**
+ * Evaluate every flag against a session's metrics. Fired flags are returned
+ * most severe first.
+ */
+export function evaluateFlags(
+  flags: ScoringFlag[],
+  numeric: Record<string, number>,
+  textual: Record<string, string | null> = {}
+): FlagEvaluation {
+  const fired: FiredFlag[] = [];
+  const errors: FlagError[] = [];
+
+  flags.forEach(flag => {
+    const result = evaluateCondition(flag.condition, numeric, textual);
+    if (result.state === 'true') {
+      fired.push({
+        flag_id: flag.flag_id,
+        name: flag.name,
+        condition: flag.condition,
+        severity: flag.severity,
+      });
+    } else if (result.state === 'unknown') {
+      errors.push({ flag_id: flag.flag_id, name: flag.name, code: result.code, message: result.message });
+    }
+  });
+
+  fired.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  return { fired, errors };
+}
+
+/**
+ * Read the fired_flags JSONB column of a session row.
+ */
+export function getFiredFlags(raw: unknown): FiredFlag[] {
+  return normalizeFlags(raw) as FiredFlag[];
+}
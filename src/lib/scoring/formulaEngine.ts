@@ -0,0 +1,427 @@
+import type { ScoringFormula } from '@/types/database';
+
+/**
+ * Sandboxed expression engine for scoring_outputs.formulas.
+ *
+ * Expressions are parsed into a small AST and evaluated against a plain
+ * metric scope — nothing is ever passed to eval/Function. Supported syntax:
+ * - numbers and metric identifiers (e.g. `uppercase_correct`)
+ * - arithmetic: + - * / % and parentheses
+ * - whitelisted functions: min, max, round, floor, ceil, abs
+ *
+ * Failures are returned as structured FormulaError objects rather than thrown.
+ */
+
+export type FormulaErrorCode =
+  | 'syntax_error'
+  | 'unknown_input'
+  | 'unknown_function'
+  | 'divide_by_zero'
+  | 'circular_dependency'
+  | 'dependency_failed'
+  | 'invalid_result';
+
+export interface FormulaError {
+  formula_id: string;
+  output: string;
+  code: FormulaErrorCode;
+  message: string;
+}
+
+export interface FormulaEvaluation {
+  values: Record<string, number>;
+  errors: FormulaError[];
+}
+
+export type ExpressionResult =
+  | { ok: true; value: number }
+  | { ok: false; code: FormulaErrorCode; message: string };
+
+// ============= AST =============
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'unary'; op: '-' | '+'; operand: Node }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/' | '%'; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator' | 'lparen' | 'rparen' | 'comma';
+  value: string;
+  position: number;
+}
+
+interface Fault {
+  code: FormulaErrorCode;
+  message: string;
+}
+
+function fail(code: FormulaErrorCode, message: string): never {
+  throw { code, message } satisfies Fault;
+}
+
+function isFault(value: unknown): value is Fault {
+  return typeof value === 'object' && value !== null && 'code' in value && 'message' in value;
+}
+
+const FUNCTIONS: Record<string, { arity: [number, number]; fn: (...args: number[]) => number }> = {
+  min: { arity: [1, Infinity], fn: (...args) => Math.min(...args) },
+  max: { arity: [1, Infinity], fn: (...args) => Math.max(...args) },
+  round: { arity: [1, 2], fn: (value, digits = 0) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  } },
+  floor: { arity: [1, 1], fn: (value) => Math.floor(value) },
+  ceil: { arity: [1, 1], fn: (value) => Math.ceil(value) },
+  abs: { arity: [1, 1], fn: (value) => Math.abs(value) },
+};
+
+// ============= Tokenizer =============
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(expression.slice(i));
+      if (!match) fail('syntax_error', `Invalid number at position ${i}`);
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if ('+-*/%'.includes(char)) {
+      tokens.push({ type: 'operator', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'lparen', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ type: 'rparen', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ type: 'comma', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    fail('syntax_error', `Unexpected character '${char}' at position ${i}`);
+  }
+
+  return tokens;
+}
+
+// ============= Parser (recursive descent) =============
+
+function parseTokens(tokens: Token[]): Node {
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  const expect = (type: Token['type'], label: string) => {
+    const token = next();
+    if (!token || token.type !== type) {
+      fail('syntax_error', `Expected ${label}${token ? ` at position ${token.position}` : ' before end of expression'}`);
+    }
+    return token;
+  };
+
+  function parseAdditive(): Node {
+    let left = parseMultiplicative();
+    while (peek()?.type === 'operator' && (peek().value === '+' || peek().value === '-')) {
+      const op = next().value as '+' | '-';
+      left = { kind: 'binary', op, left, right: parseMultiplicative() };
+    }
+    return left;
+  }
+
+  function parseMultiplicative(): Node {
+    let left = parseUnary();
+    while (peek()?.type === 'operator' && ['*', '/', '%'].includes(peek().value)) {
+      const op = next().value as '*' | '/' | '%';
+      left = { kind: 'binary', op, left, right: parseUnary() };
+    }
+    return left;
+  }
+
+  function parseUnary(): Node {
+    const token = peek();
+    if (token?.type === 'operator' && (token.value === '-' || token.value === '+')) {
+      next();
+      return { kind: 'unary', op: token.value as '-' | '+', operand: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): Node {
+    const token = next();
+    if (!token) fail('syntax_error', 'Unexpected end of expression');
+
+    if (token.type === 'number') {
+      return { kind: 'number', value: parseFloat(token.value) };
+    }
+
+    if (token.type === 'identifier') {
+      if (peek()?.type === 'lparen') {
+        next();
+        const args: Node[] = [];
+        if (peek()?.type !== 'rparen') {
+          args.push(parseAdditive());
+          while (peek()?.type === 'comma') {
+            next();
+            args.push(parseAdditive());
+          }
+        }
+        expect('rparen', "')'");
+        return { kind: 'call', name: token.value, args };
+      }
+      return { kind: 'identifier', name: token.value };
+    }
+
+    if (token.type === 'lparen') {
+      const inner = parseAdditive();
+      expect('rparen', "')'");
+      return inner;
+    }
+
+    fail('syntax_error', `Unexpected '${token.value}' at position ${token.position}`);
+  }
+
+  if (tokens.length === 0) fail('syntax_error', 'Expression is empty');
+
+  const ast = parseAdditive();
+  if (pos < tokens.length) {
+    const token = tokens[pos];
+    fail('syntax_error', `Unexpected '${token.value}' at position ${token.position}`);
+  }
+  return ast;
+}
+
+function parse(expression: string): Node {
+  return parseTokens(tokenize(expression));
+}
+
+// ============= Evaluation =============
+
+function evaluateNode(node: Node, scope: Record<string, number>): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'identifier': {
+      const value = scope[node.name];
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        fail('unknown_input', `Unknown input '${node.name}'`);
+      }
+      return value;
+    }
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.op === '-' ? -operand : operand;
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+        case '%':
+          if (right === 0) fail('divide_by_zero', 'Division by zero');
+          return node.op === '/' ? left / right : left % right;
+      }
+      break;
+    }
+    case 'call': {
+      const definition = FUNCTIONS[node.name];
+      if (!definition) fail('unknown_function', `Unknown function '${node.name}'`);
+      const [minArgs, maxArgs] = definition.arity;
+      if (node.args.length < minArgs || node.args.length > maxArgs) {
+        fail('syntax_error', `Function '${node.name}' called with ${node.args.length} argument(s)`);
+      }
+      return definition.fn(...node.args.map(arg => evaluateNode(arg, scope)));
+    }
+  }
+  return fail('syntax_error', 'Unsupported expression');
+}
+
+function collectIdentifiers(node: Node, into: Set<string>): Set<string> {
+  switch (node.kind) {
+    case 'identifier':
+      into.add(node.name);
+      break;
+    case 'unary':
+      collectIdentifiers(node.operand, into);
+      break;
+    case 'binary':
+      collectIdentifiers(node.left, into);
+      collectIdentifiers(node.right, into);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectIdentifiers(arg, into));
+      break;
+  }
+  return into;
+}
+
+/**
+ * Evaluate a single expression against a scope of named numeric values.
+ */
+export function evaluateExpression(expression: string, scope: Record<string, number>): ExpressionResult {
+  try {
+    const value = evaluateNode(parse(expression), scope);
+    if (!Number.isFinite(value)) {
+      return { ok: false, code: 'invalid_result', message: 'Expression did not produce a finite number' };
+    }
+    return { ok: true, value };
+  } catch (err) {
+    if (isFault(err)) return { ok: false, code: err.code, message: err.message };
+    throw err;
+  }
+}
+
+/**
+ * List the metric identifiers referenced by an expression (function names excluded).
+ * Returns an empty array when the expression cannot be parsed.
+ */
+export function extractIdentifiers(expression: string): string[] {
+  try {
+    return Array.from(collectIdentifiers(parse(expression), new Set()));
+  } catch (err) {
+    if (isFault(err)) return [];
+    throw err;
+  }
+}
+
+/**
+ * Normalize the formulas JSONB column into ScoringFormula objects.
+ * Accepts both the canonical shape ({ expression, output }) and the legacy
+ * shape ({ formula, output_metric }) some records still use.
+ */
+export function normalizeFormulas(raw: unknown): ScoringFormula[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((f): f is Record<string, unknown> => typeof f === 'object' && f !== null)
+    .map((f, idx) => {
+      const output = String(f.output ?? f.output_metric ?? '');
+      return {
+        formula_id: String(f.formula_id ?? (output ? `${output}_formula` : `formula_${idx + 1}`)),
+        name: String(f.name ?? f.description ?? output),
+        expression: String(f.expression ?? f.formula ?? ''),
+        inputs: Array.isArray(f.inputs) ? f.inputs.map(String) : [],
+        output,
+      };
+    })
+    .filter(f => f.output && f.expression);
+}
+
+/**
+ * Evaluate an assessment's formulas against the raw metrics a session produced.
+ *
+ * Formulas may consume the outputs of other formulas; they are evaluated in
+ * dependency order regardless of how they are listed. Inputs are read from the
+ * expression itself, so an incomplete `inputs` array does not matter.
+ */
+export function evaluateFormulas(
+  formulas: ScoringFormula[],
+  rawMetrics: Record<string, number>
+): FormulaEvaluation {
+  const values: Record<string, number> = {};
+  const errors: FormulaError[] = [];
+  const scope: Record<string, number> = { ...rawMetrics };
+
+  const byOutput = new Map<string, ScoringFormula>();
+  formulas.forEach(f => byOutput.set(f.output, f));
+
+  const state = new Map<string, 'visiting' | 'done' | 'failed'>();
+
+  const pushError = (formula: ScoringFormula, code: FormulaErrorCode, message: string) => {
+    errors.push({ formula_id: formula.formula_id, output: formula.output, code, message });
+    state.set(formula.output, 'failed');
+  };
+
+  const visit = (formula: ScoringFormula, path: string[]): boolean => {
+    const current = state.get(formula.output);
+    if (current === 'done') return true;
+    if (current === 'failed') return false;
+    if (current === 'visiting') {
+      // Every formula on the cycle is reported, not just the one that closed it
+      const members = path.slice(path.indexOf(formula.output));
+      const description = [...members, formula.output].join(' → ');
+      members.forEach(output => {
+        pushError(byOutput.get(output)!, 'circular_dependency', `Circular dependency: ${description}`);
+      });
+      return false;
+    }
+
+    state.set(formula.output, 'visiting');
+
+    let dependencies: string[];
+    try {
+      dependencies = Array.from(collectIdentifiers(parse(formula.expression), new Set()));
+    } catch (err) {
+      if (!isFault(err)) throw err;
+      pushError(formula, err.code, err.message);
+      return false;
+    }
+
+    for (const dep of dependencies) {
+      const upstream = byOutput.get(dep);
+      if (!upstream || upstream === formula) continue;
+      if (!visit(upstream, [...path, formula.output])) {
+        // A cycle may already have marked this formula as failed
+        if (state.get(formula.output) !== 'failed') {
+          pushError(formula, 'dependency_failed', `Input '${dep}' could not be computed`);
+        }
+        return false;
+      }
+    }
+
+    if (dependencies.includes(formula.output) && !(formula.output in rawMetrics)) {
+      pushError(formula, 'circular_dependency', `Formula '${formula.output}' references itself`);
+      return false;
+    }
+
+    const result = evaluateExpression(formula.expression, scope);
+    if (result.ok === false) {
+      pushError(formula, result.code, result.message);
+      return false;
+    }
+
+    scope[formula.output] = result.value;
+    values[formula.output] = Math.round(result.value * 10) / 10;
+    state.set(formula.output, 'done');
+    return true;
+  };
+
+  formulas.forEach(f => visit(f, []));
+
+  return { values, errors };
+}
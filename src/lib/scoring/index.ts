@@ -1,3 +1,78 @@
 export { calculateFluencyScore, type FluencyScores } from './fluencyScorer';
 export { calculateAccuracyScore, type AccuracyScores } from './accuracyScorer';
-export { scoreSession, scoreAndPersistSession, type SessionScores, type ScoredSession } from './sessionScorer';
+export { calculateORFScore } from './orfScorer';
+export { calculateBasalCeilingScore, type BasalCeilingScores } from './basalCeilingScorer';
+export { calculatePseudowordScore, type PseudowordScores } from './pseudowordScorer';
+export {
+  scoreSession,
+  scoreAndPersistSession,
+  collectRawMetrics,
+  type SessionScores,
+  type ScoredSession,
+} from './sessionScorer';
+export {
+  resolveScoring,
+  SCORING_REGISTRY,
+  GENERIC_SCORING_ID,
+  FLUENCY_SCORER,
+  ACCURACY_SCORER,
+  ORF_SCORER,
+  BASAL_CEILING_SCORER,
+  PSEUDOWORD_SCORER,
+  type ScoringType,
+  type SessionScorer,
+  type ScoringRegistration,
+  type ScoringId,
+} from './scorerRegistry';
+export {
+  evaluateFormulas,
+  evaluateExpression,
+  extractIdentifiers,
+  normalizeFormulas,
+  type FormulaError,
+  type FormulaErrorCode,
+  type FormulaEvaluation,
+} from './formulaEngine';
+export {
+  classifyBenchmarks,
+  classifyValue,
+  findMatchingThresholds,
+  normalizeThresholds,
+  BENCHMARK_TIER_LABELS,
+  inferMetricDirection,
+  type BenchmarkTier,
+  type BenchmarkResult,
+  type BenchmarkClassification,
+} from './benchmarkEngine';
+export {
+  evaluateFlags,
+  evaluateCondition,
+  normalizeFlags,
+  getFiredFlags,
+  type FiredFlag,
+  type FlagError,
+  type FlagEvaluation,
+} from './flagEngine';
+export {
+  analyzeSpelling,
+  alignSpelling,
+  detectSpellingFeatures,
+  summarizeSpelling,
+  SPELLING_FEATURE_LABELS,
+  type SpellingAnalysis,
+  type SpellingFeature,
+  type SpellingFeatureType,
+  type SpellingSummary,
+} from './spellingAnalysis';
+export {
+  evaluateStoppingRules,
+  getStoppingRules,
+  normalizeStoppingRules,
+  parseStoppingRuleText,
+  describeStoppingRule,
+  toItemOutcomes,
+  outcomesFromResponses,
+  type FiredStoppingRule,
+  type ItemOutcome,
+  type StoppingRuleAction,
+} from './stoppingRules';
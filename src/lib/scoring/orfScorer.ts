@@ -0,0 +1,22 @@
+import { supabase } from '@/integrations/supabase/client';
+import { computeORFMedianScores, toORFPassageScore, type ORFMedianScores, type ORFPassageScore } from '@/types/orf';
+
+/**
+ * Calculate benchmark ORF scores: the median WCPM and accuracy over the
+ * passages read, from each passage's saved scores.
+ */
+export async function calculateORFScore(sessionId: string): Promise<ORFMedianScores> {
+  const { data: responses, error } = await supabase
+    .from('session_responses')
+    .select('item_id, sequence_number, computed_scores')
+    .eq('session_id', sessionId)
+    .order('sequence_number');
+
+  if (error) throw error;
+
+  const passages = (responses || [])
+    .map(r => toORFPassageScore(r.item_id, r.sequence_number, r.computed_scores))
+    .filter((p): p is ORFPassageScore => p !== null);
+
+  return computeORFMedianScores(passages);
+}
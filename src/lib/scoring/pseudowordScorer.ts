@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+import { computePseudowordScores, type PseudowordComputedScores, type PseudowordResponse } from '@/types/pseudoword';
+
+export interface PseudowordScores extends PseudowordComputedScores {
+  total_time_seconds: number;
+}
+
+// The per-word marks the runner stores on each response
+function readPseudowordResponse(computedScores: unknown): PseudowordResponse | null {
+  const detail = (computedScores as { pseudoword?: Partial<PseudowordResponse> } | null)?.pseudoword;
+  if (!detail || !detail.mode || !Array.isArray(detail.sounds)) return null;
+  return { mode: detail.mode, sounds: detail.sounds.map(Boolean) };
+}
+
+/**
+ * Calculate nonsense word fluency scores (PH-PSWD): correct letter sounds
+ * and whole words read, in total and per minute, from each word's marks.
+ */
+export async function calculatePseudowordScore(sessionId: string): Promise<PseudowordScores> {
+  const { data: responses, error } = await supabase
+    .from('session_responses')
+    .select('elapsed_seconds, computed_scores')
+    .eq('session_id', sessionId)
+    .order('sequence_number');
+
+  if (error) throw error;
+
+  const marked = (responses || [])
+    .map(r => readPseudowordResponse(r.computed_scores))
+    .filter((r): r is PseudowordResponse => r !== null);
+  const maxElapsed = Math.max(0, ...(responses || []).map(r => r.elapsed_seconds || 0));
+
+  return {
+    ...computePseudowordScores({ ...marked }, maxElapsed),
+    total_time_seconds: maxElapsed,
+  };
+}
@@ -0,0 +1,127 @@
+import { calculateFluencyScore } from './fluencyScorer';
+import { calculateAccuracyScore } from './accuracyScorer';
+import { calculateORFScore } from './orfScorer';
+import { calculateBasalCeilingScore } from './basalCeilingScorer';
+import { calculatePseudowordScore } from './pseudowordScorer';
+import type { SessionScores } from './sessionScorer';
+
+export type ScoringType = 'fluency' | 'accuracy' | 'orf' | 'basal_ceiling' | 'pseudoword';
+
+/** Computes a session's base scores; each registration declares which one it uses. */
+export interface SessionScorer {
+  scoring_type: ScoringType;
+  score: (sessionId: string) => Promise<SessionScores>;
+}
+
+export const FLUENCY_SCORER: SessionScorer = {
+  scoring_type: 'fluency',
+  score: calculateFluencyScore,
+};
+
+export const ACCURACY_SCORER: SessionScorer = {
+  scoring_type: 'accuracy',
+  score: calculateAccuracyScore,
+};
+
+export const ORF_SCORER: SessionScorer = {
+  scoring_type: 'orf',
+  score: calculateORFScore,
+};
+
+export const BASAL_CEILING_SCORER: SessionScorer = {
+  scoring_type: 'basal_ceiling',
+  score: calculateBasalCeilingScore,
+};
+
+export const PSEUDOWORD_SCORER: SessionScorer = {
+  scoring_type: 'pseudoword',
+  score: calculatePseudowordScore,
+};
+
+export interface ScoringRegistration<Id extends string = string> {
+  /** Key of the runner the runner registry must provide for these assessments */
+  id: Id;
+  /** Assessments scored this way */
+  assessment_ids: readonly string[];
+  /** Assessment content models scored this way when the ID isn't registered */
+  content_models: readonly string[];
+  scorer: SessionScorer;
+}
+
+/**
+ * The one list of specialized assessments, in resolution order: how each is
+ * matched and scored. The runner registry must give every ID here a runner
+ * and student view, so an assessment is matched the same way when it's
+ * given and when it's scored.
+ */
+export const SCORING_REGISTRY = [
+  { id: 'orf', assessment_ids: ['FL-ORF'], content_models: ['Timed Passage'], scorer: ORF_SCORER },
+  { id: 'letter-grid', assessment_ids: ['FL-LNF'], content_models: ['Timed Random Letters'], scorer: FLUENCY_SCORER },
+  { id: 'word-reading', assessment_ids: ['FL-WRF'], content_models: ['Timed Word List'], scorer: FLUENCY_SCORER },
+  { id: 'phoneme-segment-timed', assessment_ids: ['FL-PSF'], content_models: ['Timed Segmentation'], scorer: FLUENCY_SCORER },
+  { id: 'phoneme-segment', assessment_ids: ['PA-PHON'], content_models: [], scorer: ACCURACY_SCORER },
+  { id: 'onset-rime', assessment_ids: ['PA-OONS'], content_models: [], scorer: ACCURACY_SCORER },
+  { id: 'rhyme', assessment_ids: ['PA-RHYM'], content_models: [], scorer: ACCURACY_SCORER },
+  { id: 'syllable', assessment_ids: ['PA-SYLS'], content_models: [], scorer: ACCURACY_SCORER },
+  { id: 'morphophonemic', assessment_ids: ['PH-MPHY'], content_models: ['Morpheme Items'], scorer: ACCURACY_SCORER },
+  { id: 'alphabet', assessment_ids: ['PH-ALPH'], content_models: ['Fixed Set'], scorer: ACCURACY_SCORER },
+  { id: 'letter-word', assessment_ids: ['PH-LWID'], content_models: ['Graded Word List'], scorer: BASAL_CEILING_SCORER },
+  { id: 'pseudoword', assessment_ids: ['PH-PSWD'], content_models: ['Graded Nonsense Words'], scorer: PSEUDOWORD_SCORER },
+  { id: 'spelling', assessment_ids: ['PH-SPEL'], content_models: ['Developmental Stages'], scorer: ACCURACY_SCORER },
+  { id: 'word-pattern', assessment_ids: ['PH-WPAT'], content_models: ['Pattern-Based Items'], scorer: ACCURACY_SCORER },
+  {
+    id: 'vocab-mcq',
+    assessment_ids: ['VO-MORP', 'VO-VOCA'],
+    content_models: ['Word Parts Items', 'Passage-Based Items'],
+    scorer: ACCURACY_SCORER,
+  },
+  {
+    id: 'picture-vocab',
+    assessment_ids: ['VO-RPVT', 'VO-EPVT'],
+    content_models: ['Picture Matching', 'Picture Naming'],
+    scorer: ACCURACY_SCORER,
+  },
+  {
+    id: 'comprehension',
+    assessment_ids: ['RC-NARR', 'RC-INFO', 'RC-LIST'],
+    content_models: ['Passage + Questions', 'Read-Aloud Passage'],
+    scorer: ACCURACY_SCORER,
+  },
+  { id: 'sentence', assessment_ids: ['RC-SENT'], content_models: ['Sentence-Picture Match'], scorer: ACCURACY_SCORER },
+  { id: 'maze', assessment_ids: ['RC-MAZE'], content_models: ['Fill-in-Blank Passage'], scorer: ACCURACY_SCORER },
+] as const satisfies readonly ScoringRegistration[];
+
+/** ID of a specialized registration; the runner registry is keyed on these. */
+export type ScoringId = (typeof SCORING_REGISTRY)[number]['id'];
+
+/** Registration ID for assessments nothing specialized is registered for. */
+export const GENERIC_SCORING_ID = 'generic';
+
+const normalizeContentModel = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Find how an assessment is scored. An assessment ID registration wins over
+ * a content model one; unmatched assessments are scored for fluency when
+ * they belong to the FL component and for accuracy otherwise.
+ */
+export function resolveScoring(
+  assessmentId: string,
+  contentModel?: string | null
+): ScoringRegistration<ScoringId | typeof GENERIC_SCORING_ID> {
+  const registrations: readonly ScoringRegistration<ScoringId>[] = SCORING_REGISTRY;
+  const byId = registrations.find(r => r.assessment_ids.includes(assessmentId));
+  if (byId) return byId;
+
+  if (contentModel) {
+    const model = normalizeContentModel(contentModel);
+    const byModel = registrations.find(r => r.content_models.some(m => normalizeContentModel(m) === model));
+    if (byModel) return byModel;
+  }
+
+  return {
+    id: GENERIC_SCORING_ID,
+    assessment_ids: [],
+    content_models: [],
+    scorer: assessmentId.startsWith('FL-') ? FLUENCY_SCORER : ACCURACY_SCORER,
+  };
+}
@@ -1,64 +1,194 @@
 import { supabase } from '@/integrations/supabase/client';
-import { calculateFluencyScore, type FluencyScores } from './fluencyScorer';
-import { calculateAccuracyScore, type AccuracyScores } from './accuracyScorer';
+import type { FluencyScores } from './fluencyScorer';
+import type { AccuracyScores } from './accuracyScorer';
+import type { BasalCeilingScores } from './basalCeilingScorer';
+import type { PseudowordScores } from './pseudowordScorer';
+import { resolveScoring, type ScoringType } from './scorerRegistry';
+import { evaluateFormulas, normalizeFormulas, type FormulaError } from './formulaEngine';
+import { evaluateFlags, normalizeFlags, type FiredFlag, type FlagError } from './flagEngine';
+import { classifyBenchmarks, normalizeThresholds, type BenchmarkClassification } from './benchmarkEngine';
+import type { ORFMedianScores } from '@/types/orf';
+import type { ScoringOutputRow } from '@/types/database';
+import { gradeTagCovers } from '@/lib/gradeUtils';
 
-export type SessionScores = FluencyScores | AccuracyScores;
+export type SessionScores = FluencyScores | AccuracyScores | ORFMedianScores | BasalCeilingScores | PseudowordScores;
 
 export interface ScoredSession {
   session_id: string;
   assessment_id: string;
-  scoring_type: 'fluency' | 'accuracy';
+  scoring_type: ScoringType;
   scores: SessionScores;
+  scoring_model_id: string | null;
+  derived_metrics: Record<string, number>;
+  formula_errors: FormulaError[];
+  benchmark: BenchmarkClassification;
+  fired_flags: FiredFlag[];
+  flag_errors: FlagError[];
 }
 
 /**
- * Unified scoring dispatcher that routes to appropriate scorer based on assessment type.
+ * Flatten a session's scores and per-response computed_scores into the raw
+ * metric scope formulas are evaluated against. Error breakdown tags are
+ * exposed as `<tag>_count`, matching the raw metrics provisioning creates.
+ */
+export function collectRawMetrics(
+  scores: SessionScores,
+  computedScores: unknown[] = []
+): Record<string, number> {
+  const metrics: Record<string, number> = {};
+
+  const addNumeric = (source: unknown) => {
+    if (!source || typeof source !== 'object' || Array.isArray(source)) return;
+    Object.entries(source as Record<string, unknown>).forEach(([key, value]) => {
+      if (typeof value === 'number' && Number.isFinite(value) && !(key in metrics)) {
+        metrics[key] = value;
+      }
+    });
+  };
+
+  addNumeric(scores);
+  if ('error_breakdown' in scores) {
+    Object.entries(scores.error_breakdown).forEach(([tag, count]) => {
+      metrics[`${tag.toLowerCase().replace(/\s+/g, '_')}_count`] = count;
+    });
+  }
+  computedScores.forEach(addNumeric);
+
+  return metrics;
+}
+
+type ScoringModel = Pick<
+  ScoringOutputRow,
+  'scoring_model_id' | 'formulas' | 'thresholds' | 'flags' | 'grade_or_level_tag' | 'form_id'
+>;
+
+/**
+ * Pick the scoring model a session is scored with from its assessment's
+ * active models: one made for the session's form wins over one for its
+ * grade, which wins over one that applies to every grade and form. Two
+ * models matching at the same level can't be told apart, so that throws
+ * instead of picking one arbitrarily.
+ */
+function selectScoringModel(
+  models: ScoringModel[],
+  session: { session_id: string; form_id: string; grade_tag: string | null }
+): ScoringModel | null {
+  const { form_id: formId, grade_tag: gradeTag } = session;
+  const levels = [
+    models.filter(m => m.form_id === formId),
+    models.filter(m => !m.form_id && !!m.grade_or_level_tag && !!gradeTag && gradeTagCovers(m.grade_or_level_tag, gradeTag)),
+    models.filter(m => !m.form_id && !m.grade_or_level_tag),
+  ];
+  const matches = levels.find(level => level.length > 0);
+  if (!matches) return null;
+
+  if (matches.length > 1) {
+    const ids = matches.map(m => m.scoring_model_id).join(', ');
+    throw new Error(
+      `Session ${session.session_id} matches several active scoring models (${ids}); ` +
+      'retire all but one or narrow them to a grade or form.'
+    );
+  }
+  return matches[0];
+}
+
+/**
+ * Unified scoring dispatcher that routes to the scorer the session's
+ * assessment is registered with.
  */
 export async function scoreSession(sessionId: string): Promise<ScoredSession | null> {
   const { data: session, error } = await supabase
     .from('sessions')
-    .select('session_id, assessment_id')
+    .select('session_id, assessment_id, form_id, grade_tag, assessments(content_model)')
     .eq('session_id', sessionId)
     .single();
 
   if (error || !session) return null;
 
-  const isFluency = session.assessment_id.startsWith('FL-');
-  
-  const scores = isFluency
-    ? await calculateFluencyScore(sessionId)
-    : await calculateAccuracyScore(sessionId);
+  const { scorer } = resolveScoring(session.assessment_id, session.assessments?.content_model);
+
+  const scores = await scorer.score(sessionId);
+
+  // Evaluate the assessment's scoring model formulas, thresholds and flags against the raw metrics
+  const [{ data: scoringOutputs, error: scoringError }, { data: responses }] = await Promise.all([
+    supabase
+      .from('scoring_outputs')
+      .select('scoring_model_id, formulas, thresholds, flags, grade_or_level_tag, form_id')
+      .eq('assessment_id', session.assessment_id)
+      .eq('status', 'active'),
+    supabase
+      .from('session_responses')
+      .select('computed_scores')
+      .eq('session_id', sessionId)
+      .order('sequence_number'),
+  ]);
+
+  if (scoringError) throw scoringError;
+
+  const scoringOutput = selectScoringModel(scoringOutputs || [], session);
+  const rawMetrics = collectRawMetrics(scores, (responses || []).map(r => r.computed_scores));
+  const { values, errors } = evaluateFormulas(normalizeFormulas(scoringOutput?.formulas), rawMetrics);
+  const metrics = { ...rawMetrics, ...values };
+  const benchmark = classifyBenchmarks(normalizeThresholds(scoringOutput?.thresholds), metrics, session.grade_tag);
+  const flags = evaluateFlags(normalizeFlags(scoringOutput?.flags), metrics, {
+    grade: session.grade_tag,
+    grade_tag: session.grade_tag,
+    assessment_id: session.assessment_id,
+    benchmark_tier: benchmark.tier,
+  });
 
   return {
     session_id: sessionId,
     assessment_id: session.assessment_id,
-    scoring_type: isFluency ? 'fluency' : 'accuracy',
+    scoring_type: scorer.scoring_type,
     scores,
+    scoring_model_id: scoringOutput?.scoring_model_id ?? null,
+    derived_metrics: values,
+    formula_errors: errors,
+    benchmark,
+    fired_flags: flags.fired,
+    flag_errors: flags.errors,
   };
 }
 
 /**
- * Score a session and persist the scores to the first response record.
+ * Score a session, persist the scores to the first response record and store
+ * the fired flags on the session.
  */
 export async function scoreAndPersistSession(sessionId: string): Promise<ScoredSession | null> {
   const result = await scoreSession(sessionId);
   
   if (!result) return null;
 
-  // Update the first response with computed scores
-  const { data: responses } = await supabase
+  // Update the first response with computed scores, keeping the runner's own
+  // per-item data (restore state, ORF scores) intact
+  const { data: responses, error: responsesError } = await supabase
     .from('session_responses')
-    .select('response_id')
+    .select('response_id, computed_scores')
     .eq('session_id', sessionId)
     .order('sequence_number')
     .limit(1);
+  if (responsesError) throw responsesError;
 
   if (responses && responses.length > 0) {
-    await supabase
+    const existing = responses[0].computed_scores;
+    const persisted = {
+      ...(existing && typeof existing === 'object' && !Array.isArray(existing) ? existing : {}),
+      session_scores: result.scores,
+      derived_metrics: result.derived_metrics,
+    };
+    const { error: scoresError } = await supabase
       .from('session_responses')
-      .update({ computed_scores: result.scores as unknown as import('@/integrations/supabase/types').Json })
+      .update({ computed_scores: persisted as unknown as import('@/integrations/supabase/types').Json })
       .eq('response_id', responses[0].response_id);
+    if (scoresError) throw scoresError;
   }
 
+  const { error: flagsError } = await supabase
+    .from('sessions')
+    .update({ fired_flags: result.fired_flags as unknown as import('@/integrations/supabase/types').Json })
+    .eq('session_id', sessionId);
+  if (flagsError) throw flagsError;
+
   return result;
 }
@@ -0,0 +1,274 @@
+/**
+ * Spelling Analysis
+ *
+ * Partial-credit scoring for dictated spelling: correct letter sequences
+ * (CLS), feature points for orthographic features and whole-word
+ * correctness. Attempts are aligned letter by letter to the target so a
+ * single slip only costs the sequences and features it touches.
+ */
+
+export type SpellingFeatureType =
+  | 'initial_consonant'
+  | 'final_consonant'
+  | 'short_vowel'
+  | 'digraph'
+  | 'blend'
+  | 'vowel_team'
+  | 'r_controlled'
+  | 'silent_e'
+  | 'inflected_ending';
+
+export const SPELLING_FEATURE_LABELS: Record<SpellingFeatureType, string> = {
+  initial_consonant: 'Initial consonant',
+  final_consonant: 'Final consonant',
+  short_vowel: 'Short vowel',
+  digraph: 'Digraph',
+  blend: 'Blend',
+  vowel_team: 'Vowel team',
+  r_controlled: 'R-controlled vowel',
+  silent_e: 'Silent e',
+  inflected_ending: 'Inflected ending',
+};
+
+/** A feature expected in the target word, by letter position. */
+export interface SpellingFeature {
+  feature: SpellingFeatureType;
+  pattern: string;
+  start: number;
+}
+
+export interface SpellingFeatureResult extends SpellingFeature {
+  correct: boolean;
+}
+
+export interface SpellingAnalysis {
+  target: string;
+  attempt: string;
+  word_correct: boolean;
+  correct_letter_sequences: number;
+  possible_letter_sequences: number;
+  feature_points: number;
+  possible_feature_points: number;
+  features: SpellingFeatureResult[];
+}
+
+export interface SpellingFeatureTally {
+  correct: number;
+  total: number;
+}
+
+export interface SpellingSummary {
+  words_spelled: number;
+  words_correct: number;
+  correct_letter_sequences: number;
+  possible_letter_sequences: number;
+  feature_points: number;
+  possible_feature_points: number;
+  cls_percentage: number;
+  feature_percentage: number;
+  feature_breakdown: Partial<Record<SpellingFeatureType, SpellingFeatureTally>>;
+}
+
+const DIGRAPHS = ['tch', 'dge', 'sh', 'ch', 'th', 'wh', 'ph', 'ck', 'ng', 'kn', 'wr'];
+const BLENDS = [
+  'scr', 'spl', 'spr', 'str', 'squ', 'thr', 'shr',
+  'bl', 'br', 'cl', 'cr', 'dr', 'fl', 'fr', 'gl', 'gr', 'pl', 'pr', 'sc', 'sk', 'sl',
+  'sm', 'sn', 'sp', 'st', 'sw', 'tr', 'tw',
+  'nd', 'nk', 'nt', 'mp', 'lt', 'ld', 'lp', 'ft', 'pt', 'xt',
+];
+const VOWEL_TEAMS = ['igh', 'eigh', 'ai', 'ay', 'ea', 'ee', 'ie', 'oa', 'oe', 'oo', 'ou', 'ow', 'oi', 'oy', 'au', 'aw', 'ew', 'ue', 'ey'];
+const R_CONTROLLED = ['ar', 'er', 'ir', 'or', 'ur'];
+const INFLECTED_ENDINGS = ['ing', 'ed', 'es'];
+const VOWELS = 'aeiou';
+
+const normalizeWord = (value: string) => value.trim().toLowerCase().replace(/[^a-z']/g, '');
+
+const isConsonant = (ch: string | undefined) => !!ch && /[a-z]/.test(ch) && !VOWELS.includes(ch);
+
+function overlaps(taken: boolean[], start: number, length: number): boolean {
+  for (let i = start; i < start + length; i++) {
+    if (taken[i]) return true;
+  }
+  return false;
+}
+
+/**
+ * Find the orthographic features of a target word. Longer and more specific
+ * patterns claim their letters first, so "ship" yields the digraph "sh" and
+ * not an initial consonant "s".
+ */
+export function detectSpellingFeatures(target: string): SpellingFeature[] {
+  const word = normalizeWord(target);
+  const features: SpellingFeature[] = [];
+  const taken: boolean[] = Array(word.length).fill(false);
+
+  const claim = (feature: SpellingFeatureType, pattern: string, start: number) => {
+    features.push({ feature, pattern, start });
+    for (let i = start; i < start + pattern.length; i++) taken[i] = true;
+  };
+
+  // Inflected ending on a base of at least three letters
+  for (const ending of INFLECTED_ENDINGS) {
+    if (word.length >= ending.length + 3 && word.endsWith(ending)) {
+      claim('inflected_ending', ending, word.length - ending.length);
+      break;
+    }
+  }
+
+  // Silent e: consonant-e at the end after a vowel-consonant (make, hope)
+  const e = word.length - 1;
+  if (
+    word.length >= 4 && word[e] === 'e' && !taken[e] &&
+    isConsonant(word[e - 1]) && VOWELS.includes(word[e - 2]) && !VOWELS.includes(word[e - 3] ?? '')
+  ) {
+    claim('silent_e', `${word[e - 2]}_e`, e - 2);
+    taken[e - 1] = false;
+  }
+
+  const scan = (feature: SpellingFeatureType, patterns: string[]) => {
+    const sorted = [...patterns].sort((a, b) => b.length - a.length);
+    for (let i = 0; i < word.length; i++) {
+      const pattern = sorted.find(p => word.startsWith(p, i) && !overlaps(taken, i, p.length));
+      if (pattern) {
+        claim(feature, pattern, i);
+        i += pattern.length - 1;
+      }
+    }
+  };
+
+  scan('vowel_team', VOWEL_TEAMS);
+  scan('r_controlled', R_CONTROLLED);
+  scan('digraph', DIGRAPHS);
+  scan('blend', BLENDS);
+
+  // Single-letter features on whatever is left
+  if (isConsonant(word[0]) && !taken[0]) claim('initial_consonant', word[0], 0);
+  const last = word.length - 1;
+  if (last > 0 && isConsonant(word[last]) && !taken[last]) claim('final_consonant', word[last], last);
+  for (let i = 1; i < last; i++) {
+    if (VOWELS.includes(word[i]) && !taken[i] && isConsonant(word[i - 1]) && isConsonant(word[i + 1])) {
+      claim('short_vowel', word[i], i);
+    }
+  }
+
+  return features.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Align attempt to target, matching as many letters as possible. Returns,
+ * for each target letter, the index of the attempt letter it matched, or null
+ * when it was substituted or omitted.
+ */
+export function alignSpelling(target: string, attempt: string): Array<number | null> {
+  const n = target.length;
+  const m = attempt.length;
+  const cost: number[][] = Array.from({ length: n + 1 }, (_, i) =>
+    Array.from({ length: m + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      // A substitution costs as much as an omission plus an insertion, which
+      // keeps as many letters matched as possible
+      const match = target[i - 1] === attempt[j - 1] ? 0 : 2;
+      cost[i][j] = Math.min(cost[i - 1][j - 1] + match, cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+    }
+  }
+
+  const mapping: Array<number | null> = Array(n).fill(null);
+  let i = n;
+  let j = m;
+  while (i > 0 && j > 0) {
+    if (target[i - 1] === attempt[j - 1] && cost[i][j] === cost[i - 1][j - 1]) {
+      mapping[i - 1] = j - 1;
+      i--;
+      j--;
+    } else if (cost[i][j] === cost[i - 1][j] + 1) {
+      i--;
+    } else if (cost[i][j] === cost[i][j - 1] + 1) {
+      j--;
+    } else {
+      i--;
+      j--;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Score one attempt against its target word. Features default to those
+ * detected in the target; items can supply their own.
+ */
+export function analyzeSpelling(
+  targetWord: string,
+  attemptWord: string,
+  features: SpellingFeature[] = detectSpellingFeatures(targetWord)
+): SpellingAnalysis {
+  const target = normalizeWord(targetWord);
+  const attempt = normalizeWord(attemptWord);
+  const mapping = alignSpelling(target, attempt);
+
+  // Letter sequences include the word boundaries: ^c, ca, at, t$
+  const position = (i: number) => (i < 0 ? -1 : i >= target.length ? attempt.length : mapping[i]);
+  let cls = 0;
+  for (let i = -1; i < target.length; i++) {
+    const from = position(i);
+    const to = position(i + 1);
+    if (from !== null && to !== null && to === from + 1) cls++;
+  }
+
+  const results = features.map(feature => {
+    const letters = feature.feature === 'silent_e'
+      ? [feature.start, target.length - 1]
+      : Array.from({ length: feature.pattern.length }, (_, k) => feature.start + k);
+    const mapped = letters.map(i => mapping[i]);
+    const correct = mapped.every(j => j !== null && j !== undefined) &&
+      (feature.feature === 'silent_e' || mapped.every((j, k) => k === 0 || j === (mapped[k - 1] as number) + 1));
+    return { ...feature, correct };
+  });
+
+  return {
+    target,
+    attempt,
+    word_correct: attempt.length > 0 && attempt === target,
+    correct_letter_sequences: cls,
+    possible_letter_sequences: target.length + 1,
+    feature_points: results.filter(f => f.correct).length,
+    possible_feature_points: results.length,
+    features: results,
+  };
+}
+
+const percentage = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+
+/**
+ * Roll per-word analyses up into session totals and a per-feature breakdown.
+ */
+export function summarizeSpelling(analyses: SpellingAnalysis[]): SpellingSummary {
+  const breakdown: Partial<Record<SpellingFeatureType, SpellingFeatureTally>> = {};
+  analyses.forEach(a => a.features.forEach(f => {
+    const tally = breakdown[f.feature] ?? { correct: 0, total: 0 };
+    tally.total++;
+    if (f.correct) tally.correct++;
+    breakdown[f.feature] = tally;
+  }));
+
+  const sum = (pick: (a: SpellingAnalysis) => number) => analyses.reduce((total, a) => total + pick(a), 0);
+  const cls = sum(a => a.correct_letter_sequences);
+  const possibleCls = sum(a => a.possible_letter_sequences);
+  const points = sum(a => a.feature_points);
+  const possiblePoints = sum(a => a.possible_feature_points);
+
+  return {
+    words_spelled: analyses.length,
+    words_correct: analyses.filter(a => a.word_correct).length,
+    correct_letter_sequences: cls,
+    possible_letter_sequences: possibleCls,
+    feature_points: points,
+    possible_feature_points: possiblePoints,
+    cls_percentage: percentage(cls, possibleCls),
+    feature_percentage: percentage(points, possiblePoints),
+    feature_breakdown: breakdown,
+  };
+}
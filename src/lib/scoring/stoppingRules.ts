@@ -0,0 +1,225 @@
+import type { ItemRow, SessionResponseRow, StoppingRule, StoppingRuleType } from '@/types/database';
+
+/**
+ * Live evaluation of ASR section E stopping rules.
+ *
+ * Runners pass their scored items in administration order; each rule reports
+ * the item at which it was met. Discontinue rules (consecutive errors, no
+ * correct answers in the opening items, too many errors in a window, a
+ * ceiling) prompt the assessor; a timer rule completes the session; a basal
+ * only marks where credit for earlier items starts.
+ */
+
+export interface ItemOutcome {
+  /** Item index in the form */
+  index: number;
+  correct: boolean;
+}
+
+export type StoppingRuleAction = 'discontinue' | 'complete' | 'basal';
+
+export interface FiredStoppingRule {
+  rule_id: string;
+  type: StoppingRuleType;
+  description: string;
+  action: StoppingRuleAction;
+  /** Item at which the rule was met; null for the timer */
+  item_index: number | null;
+}
+
+const RULE_ACTIONS: Record<StoppingRuleType, StoppingRuleAction> = {
+  consecutive_errors: 'discontinue',
+  zero_correct_in_first: 'discontinue',
+  errors_in_window: 'discontinue',
+  ceiling: 'discontinue',
+  timer_expires: 'complete',
+  basal: 'basal',
+};
+
+const RULE_TYPES = Object.keys(RULE_ACTIONS) as StoppingRuleType[];
+
+const positive = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+
+/**
+ * Readable form of a rule, used when the ASR gives no description.
+ */
+export function describeStoppingRule(rule: StoppingRule): string {
+  if (rule.description) return rule.description;
+  switch (rule.type) {
+    case 'consecutive_errors': return `${rule.count} consecutive errors`;
+    case 'zero_correct_in_first': return `No correct responses in the first ${rule.count} items`;
+    case 'errors_in_window': return `${rule.errors} errors in ${rule.count} items`;
+    case 'timer_expires': return 'Timer expires';
+    case 'basal': return `Basal: ${rule.count} consecutive correct`;
+    case 'ceiling': return `Ceiling: ${rule.count} consecutive errors`;
+  }
+}
+
+/**
+ * Parse the stopping_rules JSONB into typed rules, skipping entries with an
+ * unknown type or without the counts their type needs.
+ */
+export function normalizeStoppingRules(raw: unknown): StoppingRule[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((r): r is Record<string, unknown> => typeof r === 'object' && r !== null)
+    .filter(r => RULE_TYPES.includes(r.type as StoppingRuleType))
+    .map((r, idx): StoppingRule => ({
+      rule_id: String(r.rule_id ?? `rule_${idx + 1}`),
+      type: r.type as StoppingRuleType,
+      count: positive(r.count),
+      errors: positive(r.errors),
+      description: typeof r.description === 'string' && r.description.trim() ? r.description : undefined,
+    }))
+    .filter(r => {
+      if (r.type === 'timer_expires') return true;
+      if (r.type === 'errors_in_window') return !!r.count && !!r.errors && r.errors <= r.count;
+      return !!r.count;
+    });
+}
+
+/**
+ * Best-effort rules from the free-text stopping_rule, for ASRs written before
+ * structured rules: "discontinue after 4 consecutive errors", "0 correct in
+ * the first 10", "stop when the timer expires", "basal of 6 / ceiling of 6".
+ */
+export function parseStoppingRuleText(text: string | null | undefined): StoppingRule[] {
+  if (!text) return [];
+  const rules: StoppingRule[] = [];
+  const lower = text.toLowerCase();
+  const add = (type: StoppingRuleType, fields: Partial<StoppingRule> = {}) =>
+    rules.push({ rule_id: `text_${type}`, type, ...fields });
+
+  const basal = lower.match(/basal[^0-9]{0,30}(\d+)/);
+  if (basal) add('basal', { count: Number(basal[1]) });
+
+  const ceiling = lower.match(/ceiling[^0-9]{0,30}(\d+)/);
+  if (ceiling && !/no ceiling/.test(lower)) add('ceiling', { count: Number(ceiling[1]) });
+
+  const window = lower.match(/(\d+)\s+(?:errors?|incorrect)\s+(?:in|out of|of)\s+(\d+)/);
+  if (window) add('errors_in_window', { errors: Number(window[1]), count: Number(window[2]) });
+
+  const consecutive = lower.match(/(\d+)\s+consecutive\s+(?:errors?|incorrect|misses|wrong)/);
+  if (consecutive && !ceiling) add('consecutive_errors', { count: Number(consecutive[1]) });
+
+  const zeroFirst = lower.match(/(?:0|no|zero)\s+(?:correct|right)[^0-9]{0,30}first\s+(\d+)/);
+  if (zeroFirst) add('zero_correct_in_first', { count: Number(zeroFirst[1]) });
+
+  if (/tim(?:er|e)\s+(?:expires|runs out|is up)/.test(lower)) add('timer_expires');
+
+  return normalizeStoppingRules(rules);
+}
+
+/**
+ * Rules for an assessment: the structured ones in section E, falling back to
+ * whatever the prose rule can be read as.
+ */
+export function getStoppingRules(sectionE: unknown): StoppingRule[] {
+  const section = (sectionE ?? {}) as { stopping_rules?: unknown; stopping_rule?: string };
+  const structured = normalizeStoppingRules(section.stopping_rules);
+  return structured.length > 0 ? structured : parseStoppingRuleText(section.stopping_rule);
+}
+
+// Every point a run of `count` matching outcomes completes; a run resets after it's counted
+function findRuns(outcomes: ItemOutcome[], count: number, correct: boolean): number[] {
+  const hits: number[] = [];
+  let run = 0;
+  outcomes.forEach(o => {
+    run = o.correct === correct ? run + 1 : 0;
+    if (run === count) {
+      hits.push(o.index);
+      run = 0;
+    }
+  });
+  return hits;
+}
+
+function fire(rule: StoppingRule, itemIndex: number | null): FiredStoppingRule {
+  return {
+    rule_id: rule.rule_id,
+    type: rule.type,
+    description: describeStoppingRule(rule),
+    action: RULE_ACTIONS[rule.type],
+    item_index: itemIndex,
+  };
+}
+
+/**
+ * Every point at which a rule was met, in the order it happened. Basal runs
+ * report the item that starts the run, since credit applies below it.
+ */
+export function evaluateStoppingRules(
+  rules: StoppingRule[],
+  outcomes: ItemOutcome[],
+  options: { timerExpired?: boolean } = {}
+): FiredStoppingRule[] {
+  const fired: { rule: FiredStoppingRule; position: number }[] = [];
+  const positionOf = (index: number) => outcomes.findIndex(o => o.index === index);
+
+  rules.forEach(rule => {
+    const count = rule.count ?? 0;
+    switch (rule.type) {
+      case 'consecutive_errors':
+      case 'ceiling':
+        findRuns(outcomes, count, false).forEach(index => fired.push({ rule: fire(rule, index), position: positionOf(index) }));
+        break;
+      case 'basal':
+        findRuns(outcomes, count, true).slice(0, 1).forEach(index => {
+          const end = positionOf(index);
+          fired.push({ rule: fire(rule, outcomes[end - count + 1].index), position: end });
+        });
+        break;
+      case 'zero_correct_in_first':
+        if (outcomes.length >= count && outcomes.slice(0, count).every(o => !o.correct)) {
+          fired.push({ rule: fire(rule, outcomes[count - 1].index), position: count - 1 });
+        }
+        break;
+      case 'errors_in_window': {
+        const errors = rule.errors ?? count;
+        for (let end = count - 1; end < outcomes.length; end++) {
+          const window = outcomes.slice(end - count + 1, end + 1);
+          if (window.filter(o => !o.correct).length >= errors) {
+            fired.push({ rule: fire(rule, outcomes[end].index), position: end });
+            break;
+          }
+        }
+        break;
+      }
+      case 'timer_expires':
+        if (options.timerExpired) fired.push({ rule: fire(rule, null), position: outcomes.length });
+        break;
+    }
+  });
+
+  return fired.sort((a, b) => a.position - b.position).map(f => f.rule);
+}
+
+/**
+ * Outcomes from a map of item index to correctness, in item order. Items
+ * without a scored answer are left out.
+ */
+export function toItemOutcomes(correctByIndex: Record<number, boolean | null | undefined>): ItemOutcome[] {
+  return Object.entries(correctByIndex)
+    .filter((entry): entry is [string, boolean] => typeof entry[1] === 'boolean')
+    .map(([index, correct]) => ({ index: Number(index), correct }))
+    .sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Outcomes from saved responses, indexed by the item's position in the form.
+ * Only marked rows count; a row written just to flag a discontinue has no
+ * mark, but an item marked as it was discontinued on still does.
+ */
+export function outcomesFromResponses(
+  items: Pick<ItemRow, 'item_id'>[],
+  responses: Pick<SessionResponseRow, 'item_id' | 'is_correct'>[] | undefined
+): ItemOutcome[] {
+  const positions = new Map(items.map((item, idx) => [item.item_id, idx]));
+  return toItemOutcomes(Object.fromEntries(
+    (responses ?? [])
+      .filter(r => r.is_correct !== null && positions.has(r.item_id))
+      .map(r => [positions.get(r.item_id), r.is_correct])
+  ));
+}
@@ -0,0 +1,81 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { SessionRow } from '@/types/database';
+
+/**
+ * Checkpoints of a runner's working state, so an administration interrupted
+ * by a reload or a crash can pick up where the assessor stopped.
+ *
+ * Each checkpoint is written to localStorage straight away, and to the
+ * session row's draft_state every few seconds (through the outbox when
+ * offline), so another device can resume it too. The newer copy wins.
+ */
+
+export const SESSION_DRAFT_VERSION = 1;
+
+export interface SessionDraft {
+  version: number;
+  /** Registry runner that wrote it; another runner can't read its state */
+  runner_id: string | null;
+  saved_at: string;
+  /** Item the assessor was on, for the resume prompt */
+  current_item_index: number;
+  /** Seconds left on the runner's timer, when it has one */
+  remaining_seconds?: number;
+  /** Runner-specific working state */
+  state: Record<string, unknown>;
+}
+
+const storageKey = (sessionId: string) => `session-draft:${sessionId}`;
+
+export function parseSessionDraft(value: unknown): SessionDraft | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const draft = value as Partial<SessionDraft>;
+  if (draft.version !== SESSION_DRAFT_VERSION || typeof draft.saved_at !== 'string') return null;
+  if (typeof draft.state !== 'object' || draft.state === null) return null;
+  return draft as SessionDraft;
+}
+
+export function readLocalDraft(sessionId: string): SessionDraft | null {
+  try {
+    const raw = localStorage.getItem(storageKey(sessionId));
+    return raw ? parseSessionDraft(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Storage can be full or disabled; the server copy still goes out then
+export function writeLocalDraft(sessionId: string, draft: SessionDraft) {
+  try {
+    localStorage.setItem(storageKey(sessionId), JSON.stringify(draft));
+  } catch {
+    // Ignored
+  }
+}
+
+export function clearLocalDraft(sessionId: string) {
+  try {
+    localStorage.removeItem(storageKey(sessionId));
+  } catch {
+    // Ignored
+  }
+}
+
+export const toDraftJson = (draft: SessionDraft | null) => draft as unknown as Json;
+
+/**
+ * The draft to offer on reopening a session: the newer of this device's and
+ * the session row's, if the session is still open and the draft was written
+ * by the runner that will load it.
+ */
+export function resumableDraft(session: SessionRow, runnerId: string): SessionDraft | null {
+  if (session.status !== 'in_progress') return null;
+
+  const local = readLocalDraft(session.session_id);
+  const remote = parseSessionDraft(session.draft_state);
+  const newest = local && remote
+    ? (local.saved_at >= remote.saved_at ? local : remote)
+    : local ?? remote;
+
+  return newest && newest.runner_id === runnerId ? newest : null;
+}
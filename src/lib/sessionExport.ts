@@ -1,5 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
-import { scoreSession, type SessionScores } from './scoring';
+import { scoreSession, type ScoringType, type SessionScores, type FormulaError, type BenchmarkClassification, type FiredFlag, type FlagError, type FiredStoppingRule } from './scoring';
+import { getORFWordTokens, parseTokenStateMap, type ORFPassageContent, type TokenState } from '@/types/orf';
 
 export interface SessionExport {
   session_id: string;
@@ -10,7 +11,15 @@ export interface SessionExport {
   started_at: string | null;
   completed_at: string | null;
   status: string;
+  /** Which scorer produced `scores`; null when the session couldn't be scored */
+  scoring_type: ScoringType | null;
   scores: SessionScores | null;
+  scoring_model_id: string | null;
+  derived_metrics: Record<string, number>;
+  formula_errors: FormulaError[];
+  benchmark: BenchmarkClassification | null;
+  fired_flags: FiredFlag[];
+  flag_errors: FlagError[];
   responses: Array<{
     sequence: number;
     item_id: string;
@@ -19,11 +28,20 @@ export interface SessionExport {
     error_tags: string[] | null;
     response_time_ms: number | null;
     notes: string | null;
+    /** Runner-specific scoring detail, e.g. spelling analysis */
+    computed_scores: Record<string, unknown> | null;
+    /** ORF token marks and the passage words they index */
+    token_state_map: Record<number, TokenState> | null;
+    /** ORF last-word-read marker; null when not marked */
+    last_word_index: number | null;
+    word_tokens: string[] | null;
   }>;
   discontinue?: {
     flag: boolean;
     reason: string | null;
   };
+  /** ASR stopping rule that ended the session, if one did */
+  stopping_rule: FiredStoppingRule | null;
   metadata: {
     exported_at: string;
     export_version: string;
@@ -55,12 +73,17 @@ export async function exportSession(sessionId: string): Promise<SessionExport |
   // Calculate scores
   const scoredSession = await scoreSession(sessionId);
 
-  // Find discontinue info from first response
-  const firstResponse = responses?.[0];
-  const discontinue = firstResponse?.discontinue_flag
-    ? { flag: true, reason: firstResponse.discontinue_reason }
+  // Find discontinue info from the response that was flagged
+  const flaggedResponse = responses?.find(r => r.discontinue_flag);
+  const discontinue = flaggedResponse
+    ? { flag: true, reason: flaggedResponse.discontinue_reason }
     : undefined;
 
+  // Runners record a fired stopping rule in the computed scores of one response
+  const stoppingRule = (responses || [])
+    .map(r => (r.computed_scores as { stopping_rule?: FiredStoppingRule } | null)?.stopping_rule)
+    .find(rule => !!rule) ?? null;
+
   return {
     session_id: session.session_id,
     student_name: session.student_name,
@@ -70,7 +93,14 @@ export async function exportSession(sessionId: string): Promise<SessionExport |
     started_at: session.started_at,
     completed_at: session.completed_at,
     status: session.status,
+    scoring_type: scoredSession?.scoring_type ?? null,
     scores: scoredSession?.scores || null,
+    scoring_model_id: scoredSession?.scoring_model_id ?? null,
+    derived_metrics: scoredSession?.derived_metrics || {},
+    formula_errors: scoredSession?.formula_errors || [],
+    benchmark: scoredSession?.benchmark || null,
+    fired_flags: scoredSession?.fired_flags || [],
+    flag_errors: scoredSession?.flag_errors || [],
     responses: (responses || []).map(r => ({
       sequence: r.sequence_number,
       item_id: r.item_id,
@@ -79,11 +109,18 @@ export async function exportSession(sessionId: string): Promise<SessionExport |
       error_tags: r.error_tags,
       response_time_ms: r.response_time_ms,
       notes: r.notes,
+      computed_scores: r.computed_scores && typeof r.computed_scores === 'object' && !Array.isArray(r.computed_scores)
+        ? r.computed_scores as Record<string, unknown>
+        : null,
+      token_state_map: parseTokenStateMap(r.token_state_map)?.states ?? null,
+      last_word_index: parseTokenStateMap(r.token_state_map)?.last_word_index ?? null,
+      word_tokens: r.token_state_map ? getORFWordTokens(r.items?.content_payload as unknown as ORFPassageContent | null) : null,
     })),
     discontinue,
+    stopping_rule: stoppingRule,
     metadata: {
       exported_at: new Date().toISOString(),
-      export_version: '1.0',
+      export_version: '1.8',
     },
   };
 }
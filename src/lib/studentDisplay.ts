@@ -0,0 +1,184 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Live link from the assessor's runner to the student screen.
+ *
+ * The run page hosts a session's display: the item the student should see,
+ * whether the stimulus is showing, and whether the session is over. Every
+ * change is pushed to the student screen at once, over a Supabase Realtime
+ * broadcast channel for another device and a BroadcastChannel for a second
+ * window on the same one. Nothing is stored: a student screen that opens or
+ * reconnects asks the host for the current state, and falls back to the
+ * session row until it hears back.
+ */
+
+export interface StudentDisplayState {
+  /** Index into the form's items of what the student should see */
+  item_index: number;
+  /** Off while the assessor gives directions, so the student sees a blank screen */
+  stimulus_visible: boolean;
+  complete: boolean;
+  /** Host's clock; a student screen drops anything older than what it shows */
+  sent_at: number;
+}
+
+export type StudentDisplayMessage =
+  | { type: 'state'; state: StudentDisplayState }
+  /** From a student screen that has just (re)connected */
+  | { type: 'request' };
+
+export interface StudentDisplayChannel {
+  send: (message: StudentDisplayMessage) => void;
+  close: () => void;
+}
+
+interface DisplayHandlers {
+  onMessage: (message: StudentDisplayMessage) => void;
+  onConnect?: () => void;
+}
+
+interface DisplayLink {
+  send: (message: StudentDisplayMessage) => void;
+  handlers: Set<DisplayHandlers>;
+  joined: boolean;
+  teardown: () => void;
+  closeTimer?: ReturnType<typeof setTimeout>;
+}
+
+const EVENT = 'display';
+
+// How long a link stays open after its last user closes, so a last change,
+// e.g. completion as the runner navigates away, still goes out, and a
+// remount picks the same link back up
+const LINGER_MS = 2000;
+
+const channelName = (sessionId: string) => `student-display:${sessionId}`;
+
+// One link per session: Realtime channels are shared by topic within a
+// client, and leaving one is asynchronous, so they're never reopened eagerly
+const links = new Map<string, DisplayLink>();
+
+function openLink(sessionId: string): DisplayLink {
+  const handlers = new Set<DisplayHandlers>();
+  const local = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(channelName(sessionId)) : null;
+  if (local) {
+    local.onmessage = (event: MessageEvent<StudentDisplayMessage>) => handlers.forEach(h => h.onMessage(event.data));
+  }
+
+  // Held until the channel has joined; only the latest of each type matters
+  let unsent: StudentDisplayMessage[] = [];
+  const remote = supabase.channel(channelName(sessionId), { config: { broadcast: { self: false } } });
+
+  const link: DisplayLink = {
+    handlers,
+    joined: false,
+    teardown: () => {
+      links.delete(sessionId);
+      local?.close();
+      supabase.removeChannel(remote);
+    },
+    send: (message) => {
+      local?.postMessage(message);
+      if (link.joined) {
+        remote.send({ type: 'broadcast', event: EVENT, payload: message });
+      } else {
+        unsent = [...unsent.filter(m => m.type !== message.type), message];
+      }
+    },
+  };
+
+  remote
+    .on('broadcast', { event: EVENT }, ({ payload }) => handlers.forEach(h => h.onMessage(payload as StudentDisplayMessage)))
+    .subscribe((status) => {
+      link.joined = status === 'SUBSCRIBED';
+      if (!link.joined) return;
+      unsent.forEach(message => remote.send({ type: 'broadcast', event: EVENT, payload: message }));
+      unsent = [];
+      handlers.forEach(h => h.onConnect?.());
+    });
+
+  return link;
+}
+
+/**
+ * Joins a session's display link. Messages from either transport reach
+ * `onMessage`, so on one device each arrives twice; `onConnect` runs on
+ * every later (re)join of the Realtime channel, to resync after a dropout.
+ */
+export function openStudentDisplayChannel(sessionId: string, handlers: DisplayHandlers): StudentDisplayChannel {
+  let link = links.get(sessionId);
+  if (!link) {
+    link = openLink(sessionId);
+    links.set(sessionId, link);
+  }
+  clearTimeout(link.closeTimer);
+  link.handlers.add(handlers);
+
+  const joinedLink = link;
+  return {
+    send: joinedLink.send,
+    close: () => {
+      joinedLink.handlers.delete(handlers);
+      if (joinedLink.handlers.size > 0) return;
+      joinedLink.closeTimer = setTimeout(joinedLink.teardown, LINGER_MS);
+    },
+  };
+}
+
+// Hosted displays, by session
+const displays = new Map<string, StudentDisplayState>();
+const listeners = new Set<() => void>();
+
+/** Called whenever a hosted display changes; returns the unsubscribe. */
+export function subscribeStudentDisplay(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getStudentDisplay(sessionId: string): StudentDisplayState | undefined {
+  return displays.get(sessionId);
+}
+
+/**
+ * Changes what a session's student screen shows. Anything not in `changes`
+ * is kept; a session that isn't hosted yet starts from the first item.
+ */
+export function publishStudentDisplay(
+  sessionId: string,
+  changes: Partial<Omit<StudentDisplayState, 'sent_at'>>
+) {
+  const current = displays.get(sessionId);
+  const base = current ?? { item_index: 0, stimulus_visible: true, complete: false };
+  const unchanged = current && (Object.keys(changes) as (keyof typeof changes)[])
+    .every(key => changes[key] === undefined || changes[key] === current[key]);
+  if (unchanged) return;
+
+  const next: StudentDisplayState = { ...base, ...definedChanges(changes), sent_at: Date.now() };
+  displays.set(sessionId, next);
+  // Still sent while the link lingers after the run page has gone
+  links.get(sessionId)?.send({ type: 'state', state: next });
+  listeners.forEach(listener => listener());
+}
+
+function definedChanges<T extends object>(changes: T): Partial<T> {
+  return Object.fromEntries(Object.entries(changes).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/**
+ * Opens a session's display to student screens, answering their requests
+ * for the current state. Returns the release.
+ */
+export function hostStudentDisplay(sessionId: string): () => void {
+  const sendCurrent = () => {
+    const state = displays.get(sessionId);
+    if (state) channel.send({ type: 'state', state });
+  };
+  const channel = openStudentDisplayChannel(sessionId, {
+    onMessage: (message) => {
+      if (message.type === 'request') sendCurrent();
+    },
+    onConnect: sendCurrent,
+  });
+  sendCurrent();
+  return channel.close;
+}
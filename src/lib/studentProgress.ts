@@ -0,0 +1,229 @@
+import type { MetricDirection, SessionRow, SessionResponseRow, ScoringOutputRow } from '@/types/database';
+import { normalizeThresholds, findMatchingThresholds } from '@/lib/scoring/benchmarkEngine';
+import { computeORFMedianScores, toORFPassageScore, type ORFPassageScore } from '@/types/orf';
+
+/** The metric plotted over time for an assessment. */
+export interface KeyMetric {
+  metric_id: string;
+  label: string;
+  unit: string;
+  /** Other metric ids thresholds may use for the same measure */
+  aliases: string[];
+}
+
+export interface ProgressPoint {
+  session_id: string;
+  timestamp: number;
+  value: number;
+  form_id: string;
+  grade_tag: string | null;
+}
+
+export interface ProgressBenchmark {
+  value: number;
+  well_below_value: number | null;
+  direction: MetricDirection;
+  grade_level: string;
+  status: 'placeholder' | 'validated';
+}
+
+export interface ProgressSeries {
+  assessment_id: string;
+  metric: KeyMetric;
+  points: ProgressPoint[];
+  benchmark: ProgressBenchmark | null;
+}
+
+export type ProgressResponse = Pick<SessionResponseRow, 'session_id' | 'is_correct' | 'elapsed_seconds' | 'computed_scores'>;
+
+const WCPM: KeyMetric = {
+  metric_id: 'words_correct_per_minute',
+  label: 'Words Correct per Minute',
+  unit: 'WCPM',
+  aliases: ['wcpm'],
+};
+
+const LPM: KeyMetric = {
+  metric_id: 'items_per_minute',
+  label: 'Letters per Minute',
+  unit: 'LPM',
+  aliases: ['letters_per_minute', 'lpm'],
+};
+
+const ITEMS_PER_MINUTE: KeyMetric = {
+  metric_id: 'items_per_minute',
+  label: 'Items per Minute',
+  unit: 'per min',
+  aliases: [],
+};
+
+const ACCURACY: KeyMetric = {
+  metric_id: 'accuracy_percentage',
+  label: 'Accuracy',
+  unit: '%',
+  aliases: ['accuracy', 'accuracy_pct'],
+};
+
+/** Session statuses with a final score worth plotting. */
+export const SCORED_STATUSES = ['completed', 'discontinued'];
+
+/**
+ * Key metric for an assessment: WCPM for ORF, letters per minute for LNF,
+ * a per-minute rate for other fluency measures, accuracy otherwise.
+ */
+export function getKeyMetric(assessmentId: string): KeyMetric {
+  if (assessmentId === 'FL-ORF') return WCPM;
+  if (assessmentId === 'FL-LNF') return LPM;
+  if (assessmentId.startsWith('FL-')) return ITEMS_PER_MINUTE;
+  return ACCURACY;
+}
+
+/**
+ * Metrics that can be computed for an assessment's sessions.
+ */
+export function getAvailableMetrics(assessmentId: string): KeyMetric[] {
+  const key = getKeyMetric(assessmentId);
+  return key === ACCURACY ? [ACCURACY] : [key, ACCURACY];
+}
+
+/**
+ * Compute a metric for one session from its responses, or null when the
+ * session has nothing scoreable. WCPM is the median over the ORF passages'
+ * computed_scores; rates and accuracy follow the fluency and accuracy scorers.
+ */
+export function computeMetricValue(metricId: string, responses: ProgressResponse[]): number | null {
+  if (metricId === WCPM.metric_id) {
+    const passages = responses
+      .map((r, idx) => toORFPassageScore('', idx, r.computed_scores))
+      .filter((p): p is ORFPassageScore => p !== null);
+    return passages.length > 0 ? computeORFMedianScores(passages).words_correct_per_minute : null;
+  }
+
+  const correct = responses.filter(r => r.is_correct === true).length;
+  const incorrect = responses.filter(r => r.is_correct === false).length;
+  if (correct + incorrect === 0) return null;
+
+  if (metricId === ACCURACY.metric_id) {
+    return Math.round((correct / (correct + incorrect)) * 1000) / 10;
+  }
+
+  // Same rate calculation as the fluency scorer
+  const maxElapsed = Math.max(...responses.map(r => r.elapsed_seconds || 0));
+  const totalTime = maxElapsed > 0 ? maxElapsed : 60;
+  return Math.round((correct / totalTime) * 60 * 10) / 10;
+}
+
+/**
+ * Compute a session's key metric from its responses.
+ */
+export function computeKeyMetricValue(assessmentId: string, responses: ProgressResponse[]): number | null {
+  return computeMetricValue(getKeyMetric(assessmentId).metric_id, responses);
+}
+
+/**
+ * Time-ordered values of one metric across an assessment's scored sessions.
+ */
+export function buildMetricPoints(
+  assessmentId: string,
+  metricId: string,
+  sessions: SessionRow[],
+  responses: ProgressResponse[]
+): ProgressPoint[] {
+  return sessions
+    .filter(s => s.assessment_id === assessmentId && SCORED_STATUSES.includes(s.status))
+    .map(session => {
+      const value = computeMetricValue(metricId, responses.filter(r => r.session_id === session.session_id));
+      return value === null ? null : {
+        session_id: session.session_id,
+        timestamp: getSessionTimestamp(session),
+        value,
+        form_id: session.form_id,
+        grade_tag: session.grade_tag,
+      };
+    })
+    .filter((p): p is ProgressPoint => p !== null)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function getSessionTimestamp(session: SessionRow): number {
+  return new Date(session.completed_at ?? session.started_at ?? session.created_at ?? Date.now()).getTime();
+}
+
+/**
+ * Find the benchmark for an assessment's key metric at the student's grade.
+ */
+export function findKeyMetricBenchmark(
+  metric: KeyMetric,
+  scoringOutputs: Pick<ScoringOutputRow, 'thresholds'>[],
+  gradeTag: string | null
+): ProgressBenchmark | null {
+  const metricIds = [metric.metric_id, ...metric.aliases];
+  const thresholds = scoringOutputs
+    .flatMap(s => normalizeThresholds(s.thresholds))
+    .filter(t => metricIds.includes(t.metric_id) && t.benchmark_value !== null);
+
+  const match = findMatchingThresholds(thresholds, gradeTag)[0];
+  if (!match || match.benchmark_value === null) return null;
+
+  return {
+    value: match.benchmark_value,
+    well_below_value: match.well_below_value,
+    direction: match.direction,
+    grade_level: match.grade_level,
+    status: match.status,
+  };
+}
+
+/**
+ * Group a student's scored sessions into one time series per assessment.
+ */
+export function buildProgressSeries(
+  sessions: SessionRow[],
+  responses: ProgressResponse[],
+  scoringOutputs: Pick<ScoringOutputRow, 'assessment_id' | 'thresholds'>[],
+  gradeTag: string | null
+): ProgressSeries[] {
+  const responsesBySession = new Map<string, ProgressResponse[]>();
+  responses.forEach(r => {
+    const list = responsesBySession.get(r.session_id) ?? [];
+    list.push(r);
+    responsesBySession.set(r.session_id, list);
+  });
+
+  const seriesByAssessment = new Map<string, ProgressSeries>();
+
+  sessions
+    .filter(s => SCORED_STATUSES.includes(s.status))
+    .forEach(session => {
+      const value = computeKeyMetricValue(session.assessment_id, responsesBySession.get(session.session_id) ?? []);
+      if (value === null) return;
+
+      let series = seriesByAssessment.get(session.assessment_id);
+      if (!series) {
+        const metric = getKeyMetric(session.assessment_id);
+        series = {
+          assessment_id: session.assessment_id,
+          metric,
+          points: [],
+          benchmark: findKeyMetricBenchmark(
+            metric,
+            scoringOutputs.filter(s => s.assessment_id === session.assessment_id),
+            gradeTag ?? session.grade_tag
+          ),
+        };
+        seriesByAssessment.set(session.assessment_id, series);
+      }
+
+      series.points.push({
+        session_id: session.session_id,
+        timestamp: getSessionTimestamp(session),
+        value,
+        form_id: session.form_id,
+        grade_tag: session.grade_tag,
+      });
+    });
+
+  return Array.from(seriesByAssessment.values())
+    .map(series => ({ ...series, points: series.points.sort((a, b) => a.timestamp - b.timestamp) }))
+    .sort((a, b) => a.assessment_id.localeCompare(b.assessment_id));
+}
@@ -8,9 +8,11 @@ import { Separator } from '@/components/ui/separator';
 import { LoadingState } from '@/components/ui/loading-state';
 import { ErrorState } from '@/components/ui/error-state';
 import { useForms } from '@/lib/api/forms';
+import { useAssessment } from '@/lib/api/assessments';
 import { useItemsByForm } from '@/lib/api/items';
 import { getDisplayText } from '@/lib/itemDisplay';
 import { getGradeLabel } from '@/lib/gradeUtils';
+import { resolveRunner, type PreviewType } from '@/components/runners/runnerRegistry';
 import type { ORFPassageContent } from '@/types/orf';
 
 export default function AssessmentPreviewPage() {
@@ -20,22 +22,15 @@ export default function AssessmentPreviewPage() {
   const { data: items, isLoading: itemsLoading } = useItemsByForm(selectedFormId);
   
   const selectedForm = forms?.find(f => f.form_id === selectedFormId);
+  const { data: assessment } = useAssessment(selectedForm?.assessment_id || '');
   
   if (formsLoading) return <LoadingState title="Loading forms..." />;
   if (formsError) return <ErrorState title="Failed to load forms" />;
 
-  // Determine assessment type from form ID
-  const getAssessmentType = (formId: string) => {
-    if (formId.startsWith('FL-ORF')) return 'orf';
-    if (formId.startsWith('PH-LNUC')) return 'letter-naming';
-    if (formId.startsWith('PA-')) return 'phonological-awareness';
-    if (formId.startsWith('PH-')) return 'phonics';
-    if (formId.startsWith('VO-')) return 'vocabulary';
-    if (formId.startsWith('RC-')) return 'comprehension';
-    return 'generic';
-  };
-
-  const assessmentType = selectedFormId ? getAssessmentType(selectedFormId) : null;
+  // Preview layout comes from the runner the form's assessment resolves to
+  const assessmentType = selectedForm
+    ? resolveRunner(selectedForm.assessment_id, assessment?.content_model).preview
+    : null;
 
   return (
     <div className="space-y-6">
@@ -160,7 +155,7 @@ function StudentViewPreview({
   formId 
 }: { 
   items: Array<{ item_id: string; content_payload: unknown; sequence_number: number; item_type: string }>;
-  assessmentType: string;
+  assessmentType: PreviewType;
   formId: string;
 }) {
   if (items.length === 0) {
@@ -246,7 +241,7 @@ function AssessorViewPreview({
   formId 
 }: { 
   items: Array<{ item_id: string; content_payload: unknown; sequence_number: number; item_type: string; scoring_tags?: string[] | null }>;
-  assessmentType: string;
+  assessmentType: PreviewType;
   formId: string;
 }) {
   if (items.length === 0) {
@@ -385,8 +380,8 @@ function AssessorViewPreview({
 }
 
 // Interaction Documentation Component
-function InteractionDocumentation({ type }: { type: string }) {
-  const docs: Record<string, { title: string; student: string[]; assessor: string[] }> = {
+function InteractionDocumentation({ type }: { type: PreviewType }) {
+  const docs: Record<PreviewType, { title: string; student: string[]; assessor: string[] }> = {
     'orf': {
       title: 'Oral Reading Fluency (FL-ORF)',
       student: [
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Layers, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { LoadingState } from '@/components/ui/loading-state';
+import { ErrorState } from '@/components/ui/error-state';
+import { EmptyState } from '@/components/ui/empty-state';
+import { BatteryFormDialog } from '@/components/batteries/BatteryFormDialog';
+import { useBatteries, useDeleteBattery } from '@/lib/api/batteries';
+import { normalizeBatterySteps } from '@/types/battery';
+import type { BatteryRow } from '@/types/database';
+import { toast } from 'sonner';
+
+export default function BatteriesPage() {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<BatteryRow | null>(null);
+  const [deleting, setDeleting] = useState<BatteryRow | null>(null);
+
+  const { data: batteries = [], isLoading, error, refetch } = useBatteries();
+  const deleteBattery = useDeleteBattery();
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (battery: BatteryRow) => {
+    setEditing(battery);
+    setFormOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteBattery.mutateAsync(deleting.battery_id);
+      toast.success(`${deleting.name} deleted`);
+    } catch (err) {
+      toast.error((err as Error)?.message || 'Failed to delete battery; it may already have been given');
+    }
+    setDeleting(null);
+  };
+
+  if (isLoading) {
+    return <LoadingState title="Loading batteries..." />;
+  }
+
+  if (error) {
+    return <ErrorState title="Failed to load batteries" error={error} onRetry={refetch} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Batteries</h1>
+          <p className="text-muted-foreground mt-1">Assessments given back to back in one sitting</p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Battery
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Batteries ({batteries.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {batteries.length === 0 ? (
+            <EmptyState
+              icon={<Layers className="h-6 w-6 text-muted-foreground" />}
+              title="No batteries yet"
+              description="Group assessments to give them in one sitting"
+              actionLabel="New Battery"
+              onAction={openCreate}
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Assessments</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batteries.map((battery) => (
+                  <TableRow key={battery.battery_id}>
+                    <TableCell className="font-medium">{battery.name}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {normalizeBatterySteps(battery.steps).map((step, index) => (
+                          <Badge key={index} variant="outline" title={step.grades?.length ? `Grades ${step.grades.join(', ')}` : undefined}>
+                            {step.assessment_id}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{battery.description || '-'}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(battery)} title="Edit">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setDeleting(battery)} title="Delete">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <BatteryFormDialog open={formOpen} onOpenChange={setFormOpen} battery={editing} />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A battery that has already been given can't be deleted, so its results stay grouped.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useMemo } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { LoadingState } from '@/components/ui/loading-state';
+import { ErrorState } from '@/components/ui/error-state';
+import { BenchmarkTierBadge } from '@/components/scoring/BenchmarkCard';
+import { FlagBadges } from '@/components/scoring/FlagAlerts';
+import { useBatteryReportData, useBatterySession } from '@/lib/api/batteries';
+import { classifyValue, getFiredFlags } from '@/lib/scoring';
+import { computeKeyMetricValue, findKeyMetricBenchmark, getKeyMetric, SCORED_STATUSES } from '@/lib/studentProgress';
+import { isValidRouteId } from '@/lib/routeValidation';
+import { getGradeLabel } from '@/lib/gradeUtils';
+
+/**
+ * One row per assessment in a battery: its key metric against the
+ * benchmark for the student's grade, and any flags raised.
+ */
+export default function BatteryReportPage() {
+  const { id } = useParams<{ id: string }>();
+  const validId = id && isValidRouteId(id) ? id : '';
+  const { data, isLoading, error, refetch } = useBatterySession(validId);
+  const { data: reportData, isLoading: reportLoading } = useBatteryReportData(validId, data?.sessions);
+
+  const rows = useMemo(() => {
+    if (!data || !reportData) return [];
+    return data.sessions.map(session => {
+      const metric = getKeyMetric(session.assessment_id);
+      const scored = SCORED_STATUSES.includes(session.status);
+      const value = scored
+        ? computeKeyMetricValue(session.assessment_id, reportData.responses.filter(r => r.session_id === session.session_id))
+        : null;
+      const benchmark = findKeyMetricBenchmark(
+        metric,
+        reportData.scoringOutputs.filter(s => s.assessment_id === session.assessment_id),
+        session.grade_tag
+      );
+      return {
+        session,
+        metric,
+        value,
+        benchmark,
+        tier: value !== null && benchmark ? classifyValue(value, benchmark.value, benchmark) : null,
+        flags: getFiredFlags(session.fired_flags),
+      };
+    });
+  }, [data, reportData]);
+
+  if (!validId) {
+    return <ErrorState title="Invalid battery session ID" />;
+  }
+
+  if (isLoading || reportLoading) {
+    return <LoadingState title="Loading battery report..." />;
+  }
+
+  if (error) {
+    return <ErrorState title="Failed to load battery report" error={error} onRetry={refetch} />;
+  }
+
+  if (!data) {
+    return <ErrorState title="Battery session not found" />;
+  }
+
+  const { administration, battery } = data;
+  const flagCount = rows.reduce((sum, row) => sum + row.flags.length, 0);
+
+  return (
+    <>
+      {/* Print styles */}
+      <style>{`
+        @media print {
+          .no-print { display: none !important; }
+        }
+      `}</style>
+
+      <div className="space-y-6">
+        <div className="flex items-center justify-between no-print">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to={`/battery-sessions/${administration.battery_session_id}`}>
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Battery Report</h1>
+              <p className="text-muted-foreground mt-1">{battery.name}</p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{administration.student_name}</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Grade</p>
+              <p className="font-medium">{administration.grade_tag ? getGradeLabel(administration.grade_tag) : '-'}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Started</p>
+              <p className="font-medium">
+                {administration.created_at ? new Date(administration.created_at).toLocaleDateString() : '-'}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Status</p>
+              <StatusBadge status={administration.status} />
+            </div>
+            <div>
+              <p className="text-muted-foreground">Flags</p>
+              <p className="font-medium">{flagCount}</p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Results</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Assessment</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Key Metric</TableHead>
+                  <TableHead>Benchmark</TableHead>
+                  <TableHead>Flags</TableHead>
+                  <TableHead className="no-print"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ session, metric, value, benchmark, tier, flags }) => (
+                  <TableRow key={session.session_id}>
+                    <TableCell>
+                      <p className="font-medium">{session.assessment_id}</p>
+                      <p className="font-mono text-xs text-muted-foreground">{session.form_id}</p>
+                    </TableCell>
+                    <TableCell><StatusBadge status={session.status} size="sm" /></TableCell>
+                    <TableCell>
+                      {value !== null ? (
+                        <>
+                          <span className="font-medium">{value}</span>{' '}
+                          <span className="text-xs text-muted-foreground">{metric.unit}</span>
+                        </>
+                      ) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {benchmark ? (
+                        <div className="space-y-1">
+                          <p className="text-xs text-muted-foreground">
+                            {benchmark.value} {metric.unit}
+                            {benchmark.status === 'placeholder' && ' (placeholder)'}
+                          </p>
+                          {tier && <BenchmarkTierBadge tier={tier} />}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell><FlagBadges flags={flags} /></TableCell>
+                    <TableCell className="no-print">
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link to={`/sessions/${session.session_id}/report`}>Details</Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
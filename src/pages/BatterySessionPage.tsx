@@ -0,0 +1,153 @@
+import { useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, CheckCircle2, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { LoadingState } from '@/components/ui/loading-state';
+import { ErrorState } from '@/components/ui/error-state';
+import { useBatterySession, useCompleteBatterySession } from '@/lib/api/batteries';
+import { FINISHED_STATUSES } from '@/lib/api/sessions';
+import { isValidRouteId } from '@/lib/routeValidation';
+import { getGradeLabel } from '@/lib/gradeUtils';
+import { cn } from '@/lib/utils';
+
+/**
+ * Transition screen between the assessments of a battery: what's done,
+ * and the next one to give.
+ */
+export default function BatterySessionPage() {
+  const { id } = useParams<{ id: string }>();
+  const validId = id && isValidRouteId(id) ? id : '';
+  const { data, isLoading, error, refetch } = useBatterySession(validId);
+  const { mutate: completeBattery, isIdle: completionIdle } = useCompleteBatterySession();
+
+  const sessions = data?.sessions ?? [];
+  const finishedCount = sessions.filter(s => FINISHED_STATUSES.includes(s.status)).length;
+  const next = sessions.find(s => !FINISHED_STATUSES.includes(s.status));
+  const allFinished = !!data && sessions.length > 0 && !next;
+
+  useEffect(() => {
+    if (allFinished && data?.administration.status !== 'completed' && completionIdle) {
+      completeBattery(validId);
+    }
+  }, [allFinished, data?.administration.status, completionIdle, completeBattery, validId]);
+
+  if (!validId) {
+    return <ErrorState title="Invalid battery session ID" />;
+  }
+
+  if (isLoading) {
+    return <LoadingState title="Loading battery..." />;
+  }
+
+  if (error) {
+    return <ErrorState title="Failed to load battery" error={error} onRetry={refetch} />;
+  }
+
+  if (!data) {
+    return <ErrorState title="Battery session not found" />;
+  }
+
+  const { administration, battery } = data;
+
+  return (
+    <div className="space-y-6 max-w-3xl mx-auto">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to="/sessions">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">{battery.name}</h1>
+          <p className="text-muted-foreground mt-1">
+            {administration.student_name}
+            {administration.grade_tag && ` · ${getGradeLabel(administration.grade_tag)}`}
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">{finishedCount} of {sessions.length} assessments done</span>
+            <StatusBadge status={administration.status} />
+          </div>
+          <Progress value={sessions.length ? (finishedCount / sessions.length) * 100 : 0} />
+        </CardContent>
+      </Card>
+
+      {next ? (
+        <Card className="border-primary">
+          <CardHeader>
+            <CardTitle>{finishedCount === 0 ? 'First up' : 'Up next'}: {next.assessment_id}</CardTitle>
+          </CardHeader>
+          <CardContent className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Form <span className="font-mono">{next.form_id}</span>
+              {next.status === 'in_progress' && ' · started, will resume where it left off'}
+            </p>
+            <Button asChild>
+              <Link to={`/sessions/${next.session_id}/run`}>
+                {next.status === 'in_progress' ? 'Resume' : 'Start'}
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="border-primary">
+          <CardContent className="pt-6 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <CheckCircle2 className="h-6 w-6 text-primary" />
+              <div>
+                <p className="font-medium">Battery complete</p>
+                <p className="text-sm text-muted-foreground">Every assessment has been given.</p>
+              </div>
+            </div>
+            <Button asChild>
+              <Link to={`/battery-sessions/${administration.battery_session_id}/report`}>
+                <FileText className="h-4 w-4 mr-2" />
+                View Report
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Assessments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ol className="space-y-2">
+            {sessions.map((session, index) => (
+              <li
+                key={session.session_id}
+                className={cn(
+                  'flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm',
+                  session.session_id === next?.session_id && 'border-primary bg-primary/5'
+                )}
+              >
+                <span className="font-medium">
+                  {index + 1}. {session.assessment_id}
+                  <span className="ml-2 font-mono text-xs text-muted-foreground">{session.form_id}</span>
+                </span>
+                <span className="flex items-center gap-2">
+                  <StatusBadge status={session.status} size="sm" />
+                  {FINISHED_STATUSES.includes(session.status) && (
+                    <Button variant="ghost" size="sm" asChild>
+                      <Link to={`/sessions/${session.session_id}/report`}>Report</Link>
+                    </Button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,31 +1,38 @@
 import { useState, useMemo } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { ArrowLeft } from 'lucide-react';
+import { ArrowLeft, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LoadingState } from '@/components/ui/loading-state';
 import { ErrorState } from '@/components/ui/error-state';
 import { useAssessments } from '@/lib/api/assessments';
 import { useAssessmentBanks } from '@/lib/api/assessmentBanks';
 import { useForms } from '@/lib/api/forms';
 import { useCreateSession } from '@/lib/api/sessions';
+import { useStudentSessions } from '@/lib/api/students';
+import { StudentPicker } from '@/components/students/StudentPicker';
+import { StartBatteryForm } from '@/components/batteries/StartBatteryForm';
+import type { StudentRow } from '@/types/database';
 import { toast } from 'sonner';
 import { getGradeLabel } from '@/lib/gradeUtils';
+import { getFormExposures, recommendForm } from '@/lib/formRotation';
 
 export default function NewSessionPage() {
   const navigate = useNavigate();
   const [selectedAssessmentId, setSelectedAssessmentId] = useState<string>('');
   const [selectedGradeBand, setSelectedGradeBand] = useState<string>('');
   const [selectedFormId, setSelectedFormId] = useState<string>('');
-  const [studentName, setStudentName] = useState('');
+  const [student, setStudent] = useState<StudentRow | null>(null);
   const [gradeTag, setGradeTag] = useState('');
 
   const { data: assessments, isLoading: assessmentsLoading, error: assessmentsError } = useAssessments();
   const { data: assessmentBanks } = useAssessmentBanks(selectedAssessmentId);
   const { data: allForms } = useForms();
+  const { data: studentSessions } = useStudentSessions(student?.student_id ?? '');
   const createSession = useCreateSession();
 
   // Detect grade-banded assessments
@@ -48,11 +55,27 @@ export default function NewSessionPage() {
     return Array.from(bands).filter(b => b !== 'unknown').sort();
   }, [eligibleForms]);
 
-  // Filter forms by selected grade band for grade-banded assessments
+  const exposures = useMemo(() => getFormExposures(studentSessions ?? []), [studentSessions]);
+
+  // Form the student should get next, within the grade band if one was picked
+  const recommendation = useMemo(() => {
+    if (!selectedAssessmentId || !student || !studentSessions) return null;
+    const candidates = isGradeBanded && selectedGradeBand
+      ? eligibleForms.filter(f => f.grade_or_level_tag === selectedGradeBand)
+      : eligibleForms;
+    return recommendForm(candidates, studentSessions, selectedAssessmentId, gradeTag.trim() || null);
+  }, [selectedAssessmentId, student, studentSessions, isGradeBanded, selectedGradeBand, eligibleForms, gradeTag]);
+
+  // The assessor's choice wins; otherwise the recommended form and its grade band
+  const gradeBand = selectedGradeBand || (isGradeBanded ? recommendation?.form.grade_or_level_tag ?? '' : '');
+  const formId = selectedFormId || recommendation?.form.form_id || '';
+  const isRecommended = !!recommendation && formId === recommendation.form.form_id;
+
+  // Filter forms by grade band for grade-banded assessments
   const filteredForms = useMemo(() => {
-    if (!isGradeBanded || !selectedGradeBand) return eligibleForms;
-    return eligibleForms.filter(f => f.grade_or_level_tag === selectedGradeBand);
-  }, [eligibleForms, isGradeBanded, selectedGradeBand]);
+    if (!isGradeBanded || !gradeBand) return eligibleForms;
+    return eligibleForms.filter(f => f.grade_or_level_tag === gradeBand);
+  }, [eligibleForms, isGradeBanded, gradeBand]);
 
   const handleAssessmentChange = (assessmentId: string) => {
     setSelectedAssessmentId(assessmentId);
@@ -65,10 +88,19 @@ export default function NewSessionPage() {
     setSelectedFormId(''); // Reset form selection when grade band changes
   };
 
+  const handleStudentChange = (selected: StudentRow) => {
+    setStudent(selected);
+    setSelectedFormId(''); // Choose again for the new student
+    // Default the session grade to the student's roster grade
+    if (!gradeTag.trim() && selected.grade_tag) {
+      setGradeTag(selected.grade_tag);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!selectedAssessmentId || !selectedFormId || !studentName.trim()) {
+    if (!selectedAssessmentId || !formId || !student) {
       toast.error('Please fill in all required fields');
       return;
     }
@@ -76,8 +108,9 @@ export default function NewSessionPage() {
     try {
       const session = await createSession.mutateAsync({
         assessment_id: selectedAssessmentId,
-        form_id: selectedFormId,
-        student_name: studentName.trim(),
+        form_id: formId,
+        student_id: student.student_id,
+        student_name: student.full_name,
         grade_tag: gradeTag.trim() || null,
       });
       
@@ -110,115 +143,167 @@ export default function NewSessionPage() {
         </div>
       </div>
 
-      <Card className="max-w-xl">
-        <CardHeader>
-          <CardTitle>Session Details</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="assessment">Assessment *</Label>
-              <Select value={selectedAssessmentId} onValueChange={handleAssessmentChange}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select an assessment" />
-                </SelectTrigger>
-                <SelectContent>
-                  {assessments?.map((assessment) => (
-                    <SelectItem key={assessment.assessment_id} value={assessment.assessment_id}>
-                      {assessment.assessment_id} - {assessment.subcomponent_name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Grade Band Selector (for grade-banded assessments) */}
-            {isGradeBanded && (
-              <div className="space-y-2">
-                <Label htmlFor="gradeBand">Grade Band *</Label>
-                <Select value={selectedGradeBand} onValueChange={handleGradeBandChange}>
-                  <SelectTrigger>
-                    <SelectValue placeholder={
-                      availableGradeBands.length === 0 
-                        ? "No grade bands available"
-                        : "Select a grade band"
-                    } />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {availableGradeBands.map((band) => (
-                      <SelectItem key={band} value={band}>
-                        {getGradeLabel(band)}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-            )}
-
-            <div className="space-y-2">
-              <Label htmlFor="form">Form *</Label>
-              <Select 
-                value={selectedFormId} 
-                onValueChange={setSelectedFormId}
-                disabled={!selectedAssessmentId || filteredForms.length === 0 || (isGradeBanded && !selectedGradeBand)}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder={
-                    !selectedAssessmentId 
-                      ? "Select an assessment first" 
-                      : isGradeBanded && !selectedGradeBand
-                        ? "Select a grade band first"
-                        : filteredForms.length === 0 
-                          ? "No forms available for this assessment"
-                          : "Select a form"
-                  } />
-                </SelectTrigger>
-                <SelectContent>
-                  {filteredForms.map((form) => (
-                    <SelectItem key={form.form_id} value={form.form_id}>
-                      {form.form_id}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              {selectedAssessmentId && !isGradeBanded && eligibleForms.length === 0 && (
-                <p className="text-sm text-muted-foreground">
-                  No forms are linked to this assessment's content banks.
-                </p>
-              )}
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="studentName">Student Name *</Label>
-              <Input
-                id="studentName"
-                value={studentName}
-                onChange={(e) => setStudentName(e.target.value)}
-                placeholder="Enter student name"
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="gradeTag">Grade (optional)</Label>
-              <Input
-                id="gradeTag"
-                value={gradeTag}
-                onChange={(e) => setGradeTag(e.target.value)}
-                placeholder="e.g., K, 1, 2"
-              />
-            </div>
-
-            <Button 
-              type="submit" 
-              className="w-full"
-              disabled={createSession.isPending || !selectedAssessmentId || !selectedFormId || !studentName.trim()}
-            >
-              {createSession.isPending ? 'Creating...' : 'Create Session'}
-            </Button>
-          </form>
-        </CardContent>
-      </Card>
+      <Tabs defaultValue="single" className="max-w-xl">
+        <TabsList>
+          <TabsTrigger value="single">Single assessment</TabsTrigger>
+          <TabsTrigger value="battery">Battery</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="single">
+          <Card>
+            <CardHeader>
+              <CardTitle>Session Details</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="assessment">Assessment *</Label>
+                  <Select value={selectedAssessmentId} onValueChange={handleAssessmentChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an assessment" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assessments?.map((assessment) => (
+                        <SelectItem key={assessment.assessment_id} value={assessment.assessment_id}>
+                          {assessment.assessment_id} - {assessment.subcomponent_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Student *</Label>
+                  <StudentPicker value={student?.student_id ?? null} onChange={handleStudentChange} />
+                  <p className="text-xs text-muted-foreground">
+                    Manage the roster on the <Link to="/students" className="text-primary hover:underline">Students</Link> page.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="gradeTag">Grade (optional)</Label>
+                  <Input
+                    id="gradeTag"
+                    value={gradeTag}
+                    onChange={(e) => setGradeTag(e.target.value)}
+                    placeholder="e.g., K, 1, 2"
+                  />
+                </div>
+
+                {/* Grade Band Selector (for grade-banded assessments) */}
+                {isGradeBanded && (
+                  <div className="space-y-2">
+                    <Label htmlFor="gradeBand">Grade Band *</Label>
+                    <Select value={gradeBand} onValueChange={handleGradeBandChange}>
+                      <SelectTrigger>
+                        <SelectValue placeholder={
+                          availableGradeBands.length === 0 
+                            ? "No grade bands available"
+                            : "Select a grade band"
+                        } />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableGradeBands.map((band) => (
+                          <SelectItem key={band} value={band}>
+                            {getGradeLabel(band)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="form">Form *</Label>
+                  <Select 
+                    value={formId} 
+                    onValueChange={setSelectedFormId}
+                    disabled={!selectedAssessmentId || filteredForms.length === 0 || (isGradeBanded && !gradeBand)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={
+                        !selectedAssessmentId 
+                          ? "Select an assessment first" 
+                          : isGradeBanded && !gradeBand
+                            ? "Select a grade band first"
+                            : filteredForms.length === 0 
+                              ? "No forms available for this assessment"
+                              : "Select a form"
+                      } />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {filteredForms.map((form) => {
+                        const exposure = exposures.get(form.form_id);
+                        return (
+                          <SelectItem key={form.form_id} value={form.form_id}>
+                            {form.form_id}
+                            {exposure && (
+                              <span className="text-muted-foreground"> · given {exposure.count}×</span>
+                            )}
+                          </SelectItem>
+                        );
+                      })}
+                    </SelectContent>
+                  </Select>
+                  {selectedAssessmentId && !isGradeBanded && eligibleForms.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      No forms are linked to this assessment's content banks.
+                    </p>
+                  )}
+                  {selectedAssessmentId && !student && eligibleForms.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Select a student to have a form they haven't seen chosen automatically.
+                    </p>
+                  )}
+                  {recommendation && (
+                    <div className="rounded-md border bg-muted/40 p-3 space-y-1">
+                      <p className="flex items-center gap-2 text-sm font-medium">
+                        <Sparkles className="h-4 w-4 text-primary" />
+                        {isRecommended ? 'Chosen automatically' : `Recommended: ${recommendation.form.form_id}`}
+                      </p>
+                      <ul className="list-disc pl-6 text-xs text-muted-foreground space-y-0.5">
+                        {recommendation.reasons.map((reason) => (
+                          <li key={reason}>{reason}</li>
+                        ))}
+                      </ul>
+                      {!isRecommended && (
+                        <Button
+                          type="button"
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0"
+                          onClick={() => setSelectedFormId('')}
+                        >
+                          Use recommended form
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <Button 
+                  type="submit" 
+                  className="w-full"
+                  disabled={createSession.isPending || !selectedAssessmentId || !formId || !student}
+                >
+                  {createSession.isPending ? 'Creating...' : 'Create Session'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="battery">
+          <Card>
+            <CardHeader>
+              <CardTitle>Battery Details</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <StartBatteryForm />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
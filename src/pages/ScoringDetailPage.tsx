@@ -8,6 +8,9 @@ import { StatusBadge } from '@/components/ui/status-badge';
 import { ArrowLeft } from 'lucide-react';
 import { LoadingState } from '@/components/ui/loading-state';
 import { ErrorState } from '@/components/ui/error-state';
+import { FormulaTester } from '@/components/scoring/FormulaTester';
+import { normalizeFormulas } from '@/lib/scoring';
+import { getGradeLabel } from '@/lib/gradeUtils';
 
 interface Metric {
   metric_id: string;
@@ -16,12 +19,6 @@ interface Metric {
   description: string;
 }
 
-interface Formula {
-  output_metric: string;
-  formula: string;
-  description?: string;
-}
-
 interface Flag {
   flag_id: string;
   condition: string;
@@ -77,7 +74,7 @@ export default function ScoringDetailPage() {
 
   const rawMetrics = (Array.isArray(scoring.raw_metrics_schema) ? scoring.raw_metrics_schema : []) as unknown as Metric[];
   const derivedMetrics = (Array.isArray(scoring.derived_metrics_schema) ? scoring.derived_metrics_schema : []) as unknown as Metric[];
-  const formulas = (Array.isArray(scoring.formulas) ? scoring.formulas : []) as unknown as Formula[];
+  const formulas = normalizeFormulas(scoring.formulas);
   const flags = (Array.isArray(scoring.flags) ? scoring.flags : []) as unknown as Flag[];
   const thresholds = (Array.isArray(scoring.thresholds) ? scoring.thresholds : []) as unknown as Threshold[];
 
@@ -110,6 +107,20 @@ export default function ScoringDetailPage() {
               {scoring.assessment_id}
             </Link>
           </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Status</p>
+            <StatusBadge status={scoring.status} />
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Applies To</p>
+            <p>
+              {scoring.form_id
+                ? `Form ${scoring.form_id}`
+                : scoring.grade_or_level_tag
+                  ? getGradeLabel(scoring.grade_or_level_tag)
+                  : 'All grades and forms'}
+            </p>
+          </div>
         </CardContent>
       </Card>
 
@@ -193,15 +204,15 @@ export default function ScoringDetailPage() {
                 <TableRow>
                   <TableHead>Output Metric</TableHead>
                   <TableHead>Formula</TableHead>
-                  <TableHead>Description</TableHead>
+                  <TableHead>Name</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {formulas.map((formula, idx) => (
-                  <TableRow key={formula.output_metric || idx}>
-                    <TableCell className="font-mono text-xs">{formula.output_metric}</TableCell>
-                    <TableCell className="font-mono text-xs">{formula.formula}</TableCell>
-                    <TableCell className="text-sm text-muted-foreground">{formula.description || '-'}</TableCell>
+                {formulas.map((formula) => (
+                  <TableRow key={formula.formula_id}>
+                    <TableCell className="font-mono text-xs">{formula.output}</TableCell>
+                    <TableCell className="font-mono text-xs">{formula.expression}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{formula.name || '-'}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -210,6 +221,8 @@ export default function ScoringDetailPage() {
         </CardContent>
       </Card>
 
+      <FormulaTester rawMetrics={rawMetrics} formulas={formulas} />
+
       {/* Flags */}
       <Card>
         <CardHeader>
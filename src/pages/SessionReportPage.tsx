@@ -7,14 +7,29 @@ import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { LoadingState } from '@/components/ui/loading-state';
 import { ErrorState } from '@/components/ui/error-state';
+import { BenchmarkCard } from '@/components/scoring/BenchmarkCard';
+import { FlagAlerts } from '@/components/scoring/FlagAlerts';
+import { SpellingBreakdownCard } from '@/components/scoring/SpellingBreakdownCard';
+import { PatternMasteryCard } from '@/components/scoring/PatternMasteryCard';
+import { RunningRecordCard } from '@/components/scoring/RunningRecordCard';
+import { ProsodyCard } from '@/components/scoring/ProsodyCard';
+import { ORFPassagesCard } from '@/components/scoring/ORFPassagesCard';
+import { BasalCeilingCard } from '@/components/scoring/BasalCeilingCard';
+import { RecordingPlaybackCard } from '@/components/scoring/RecordingPlaybackCard';
+import { useSessionRecordings } from '@/lib/api/sessionRecordings';
 import { exportSession, downloadSessionJSON, type SessionExport } from '@/lib/sessionExport';
 import { isValidRouteId } from '@/lib/routeValidation';
+import type { PseudowordScores, SpellingAnalysis } from '@/lib/scoring';
+import type { WordPatternComputedScores } from '@/types/wordPattern';
+import type { ORFRunningRecord } from '@/types/orf';
+import type { ProsodyScores } from '@/types/prosody';
 
 export default function SessionReportPage() {
   const { id } = useParams<{ id: string }>();
   const [data, setData] = useState<SessionExport | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const { data: recordings } = useSessionRecordings(id && isValidRouteId(id) ? id : '');
 
   useEffect(() => {
     if (!id || !isValidRouteId(id)) {
@@ -53,7 +68,24 @@ export default function SessionReportPage() {
     return <ErrorState title="Failed to load report" error={error} />;
   }
 
-  const isFluency = data.assessment_id.startsWith('FL-');
+  const isFluency = data.scoring_type === 'fluency';
+  const pseudowordScores = data.scoring_type === 'pseudoword' ? data.scores as PseudowordScores : null;
+  const spellingAnalyses = data.responses
+    .map(r => r.computed_scores?.spelling as SpellingAnalysis | undefined)
+    .filter((a): a is SpellingAnalysis => !!a);
+  const orfScores = data.scores && 'passage_scores' in data.scores ? data.scores : null;
+  const basalCeilingScores = data.scores && 'implicit_credit' in data.scores ? data.scores : null;
+  const basalCeilingResults = Object.fromEntries(data.responses
+    .filter(r => typeof r.computed_scores?.item_index === 'number' && r.is_correct !== null)
+    .map(r => [r.computed_scores!.item_index as number, r.is_correct as boolean]));
+  const orfResponses = data.responses.filter(r => r.token_state_map && r.word_tokens?.length);
+  const hasLatency = data.responses.some(r => r.response_time_ms !== null);
+  const prosodyRatings = data.responses
+    .map(r => r.computed_scores?.prosody as ProsodyScores | undefined)
+    .filter((s): s is ProsodyScores => !!s?.ratings?.length);
+  const patternMastery = data.responses
+    .map(r => r.computed_scores as Partial<WordPatternComputedScores> | null)
+    .find((s): s is WordPatternComputedScores => !!s?.pattern_breakdown);
 
   return (
     <>
@@ -91,6 +123,9 @@ export default function SessionReportPage() {
           </div>
         </div>
 
+        {/* Fired scoring flags */}
+        <FlagAlerts flags={data.fired_flags} />
+
         {/* Session Info */}
         <Card>
           <CardHeader>
@@ -140,6 +175,12 @@ export default function SessionReportPage() {
                   <dd className="font-semibold text-destructive">{data.discontinue.reason}</dd>
                 </div>
               )}
+              {data.stopping_rule && (
+                <div>
+                  <dt className="text-sm text-muted-foreground">Stopping Rule</dt>
+                  <dd className="font-semibold">{data.stopping_rule.description}</dd>
+                </div>
+              )}
             </dl>
           </CardContent>
         </Card>
@@ -152,7 +193,45 @@ export default function SessionReportPage() {
             </CardHeader>
             <CardContent>
               <dl className="grid grid-cols-2 md:grid-cols-4 gap-6">
-                {isFluency ? (
+                {orfScores ? (
+                  <>
+                    <div className="text-center p-4 bg-muted rounded-lg">
+                      <dt className="text-sm text-muted-foreground mb-1">Median WCPM</dt>
+                      <dd className="text-4xl font-bold">{orfScores.words_correct_per_minute}</dd>
+                    </div>
+                    <div className="text-center p-4 bg-muted rounded-lg">
+                      <dt className="text-sm text-muted-foreground mb-1">Median Accuracy</dt>
+                      <dd className="text-4xl font-bold">{orfScores.accuracy_percentage}%</dd>
+                    </div>
+                    <div className="text-center p-4 bg-green-50 rounded-lg">
+                      <dt className="text-sm text-muted-foreground mb-1">Median Words Correct</dt>
+                      <dd className="text-4xl font-bold text-green-600">{orfScores.correct_word_count}</dd>
+                    </div>
+                    <div className="text-center p-4 bg-red-50 rounded-lg">
+                      <dt className="text-sm text-muted-foreground mb-1">Median Errors</dt>
+                      <dd className="text-4xl font-bold text-red-600">{orfScores.total_errors}</dd>
+                    </div>
+                  </>
+                ) : pseudowordScores ? (
+                  <>
+                    <div className="text-center p-4 bg-muted rounded-lg">
+                      <dt className="text-sm text-muted-foreground mb-1">Correct Letter Sounds</dt>
+                      <dd className="text-4xl font-bold">{pseudowordScores.correct_letter_sounds}</dd>
+                    </div>
+                    <div className="text-center p-4 bg-muted rounded-lg">
+                      <dt className="text-sm text-muted-foreground mb-1">CLS/Minute</dt>
+                      <dd className="text-4xl font-bold">{pseudowordScores.cls_per_minute}</dd>
+                    </div>
+                    <div className="text-center p-4 bg-green-50 rounded-lg">
+                      <dt className="text-sm text-muted-foreground mb-1">Whole Words Read</dt>
+                      <dd className="text-4xl font-bold text-green-600">{pseudowordScores.whole_words_read}</dd>
+                    </div>
+                    <div className="text-center p-4 bg-green-50 rounded-lg">
+                      <dt className="text-sm text-muted-foreground mb-1">WWR/Minute</dt>
+                      <dd className="text-4xl font-bold text-green-600">{pseudowordScores.wwr_per_minute}</dd>
+                    </div>
+                  </>
+                ) : isFluency ? (
                   <>
                     <div className="text-center p-4 bg-muted rounded-lg">
                       <dt className="text-sm text-muted-foreground mb-1">Items/Minute</dt>
@@ -212,6 +291,88 @@ export default function SessionReportPage() {
           </Card>
         )}
 
+        {/* Basal and ceiling positions */}
+        {basalCeilingScores && <BasalCeilingCard scores={basalCeilingScores} results={basalCeilingResults} />}
+
+        {/* Benchmark classification */}
+        {data.benchmark && <BenchmarkCard benchmark={data.benchmark} />}
+
+        {/* Spelling Analysis */}
+        {spellingAnalyses.length > 0 && <SpellingBreakdownCard analyses={spellingAnalyses} />}
+
+        {/* ORF passages and their median */}
+        {orfScores && orfScores.passages_read > 1 && <ORFPassagesCard scores={orfScores} />}
+
+        {/* Running Record, one per passage */}
+        {orfResponses.map((r, idx) => (
+          <RunningRecordCard
+            key={r.item_id}
+            title={orfResponses.length > 1 ? `Running Record — Passage ${idx + 1}` : undefined}
+            tokens={r.word_tokens!}
+            tokenStates={r.token_state_map!}
+            lastWordIndex={r.last_word_index}
+            runningRecord={r.computed_scores?.running_record as ORFRunningRecord | undefined}
+          />
+        ))}
+
+        {/* Recordings, with ORF recordings laid over their passage */}
+        {(recordings ?? []).map((recording, idx, all) => (
+          <RecordingPlaybackCard
+            key={recording.recording_id}
+            recording={recording}
+            tokens={orfResponses.find(r => r.item_id === recording.item_id)?.word_tokens}
+            title={all.length > 1 ? `Recording ${idx + 1}` : undefined}
+          />
+        ))}
+
+        {/* Prosody */}
+        {prosodyRatings.map((scores, idx) => (
+          <ProsodyCard
+            key={idx}
+            title={prosodyRatings.length > 1 ? `Prosody — Passage ${idx + 1}` : undefined}
+            scores={scores}
+          />
+        ))}
+
+        {/* Word Pattern Mastery */}
+        {patternMastery && <PatternMasteryCard scores={patternMastery} />}
+
+        {/* Derived Metrics (from scoring model formulas) */}
+        {(Object.keys(data.derived_metrics).length > 0 || data.formula_errors.length > 0) && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Derived Metrics</CardTitle>
+              {data.scoring_model_id && (
+                <p className="text-sm text-muted-foreground font-mono">{data.scoring_model_id}</p>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {Object.keys(data.derived_metrics).length > 0 && (
+                <dl className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                  {Object.entries(data.derived_metrics).map(([metricId, value]) => (
+                    <div key={metricId} className="text-center p-4 bg-muted rounded-lg">
+                      <dt className="text-sm text-muted-foreground mb-1 font-mono">{metricId}</dt>
+                      <dd className="text-3xl font-bold">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+              {data.formula_errors.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-destructive">Formulas that could not be evaluated</p>
+                  <ul className="text-sm text-muted-foreground space-y-1">
+                    {data.formula_errors.map((err) => (
+                      <li key={err.formula_id}>
+                        <span className="font-mono">{err.output}</span>: {err.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Response Details */}
         <Card>
           <CardHeader>
@@ -224,6 +385,7 @@ export default function SessionReportPage() {
                   <TableHead className="w-16">#</TableHead>
                   <TableHead>Stimulus</TableHead>
                   <TableHead className="w-24">Result</TableHead>
+                  {hasLatency && <TableHead className="w-24">Latency</TableHead>}
                   <TableHead>Error Tags</TableHead>
                   <TableHead>Notes</TableHead>
                 </TableRow>
@@ -242,6 +404,11 @@ export default function SessionReportPage() {
                         <Badge variant="destructive">Incorrect</Badge>
                       )}
                     </TableCell>
+                    {hasLatency && (
+                      <TableCell className="font-mono text-sm">
+                        {r.response_time_ms !== null ? `${(r.response_time_ms / 1000).toFixed(2)}s` : '—'}
+                      </TableCell>
+                    )}
                     <TableCell>
                       {r.error_tags?.length ? (
                         <div className="flex flex-wrap gap-1">
@@ -1,96 +1,52 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { useParams, Link } from 'react-router-dom';
-import { ArrowLeft, ArrowRight, Check, X, Clock, Circle } from 'lucide-react';
-import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Textarea } from '@/components/ui/textarea';
-import { Checkbox } from '@/components/ui/checkbox';
-import { Label } from '@/components/ui/label';
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { LoadingState } from '@/components/ui/loading-state';
 import { ErrorState } from '@/components/ui/error-state';
-import { useSession, useUpdateSession } from '@/lib/api/sessions';
-import { useSessionResponses, useUpsertSessionResponse } from '@/lib/api/sessionResponses';
+import { FINISHED_STATUSES, useSession, useUpdateSession } from '@/lib/api/sessions';
+import { useAssessment } from '@/lib/api/assessments';
 import { useItemsByForm } from '@/lib/api/items';
 import { isValidRouteId } from '@/lib/routeValidation';
-import { toast } from 'sonner';
-import type { ItemContent } from '@/types/database';
-import { ORFRunner } from '@/components/fluency/ORFRunner';
-import { LetterGridRunner } from '@/components/fluency/LetterGridRunner';
-import { WordReadingRunner } from '@/components/fluency/WordReadingRunner';
-import { OnsetRimeRunner } from '@/components/phonological/OnsetRimeRunner';
-import { RhymeRunner } from '@/components/phonological/RhymeRunner';
-import { SyllableRunner } from '@/components/phonological/SyllableRunner';
-import { PhonemeSegmentRunner } from '@/components/phonological/PhonemeSegmentRunner';
-import { MorphophonemicRunner } from '@/components/phonological/MorphophonemicRunner';
-import { LetterWordRunner } from '@/components/phonics/LetterWordRunner';
-import { VocabMCQRunner } from '@/components/vocabulary/VocabMCQRunner';
-import { PictureVocabRunner } from '@/components/vocabulary/PictureVocabRunner';
-import { ComprehensionRunner } from '@/components/comprehension/ComprehensionRunner';
-import type { ORFPassageContent } from '@/types/orf';
+import { resolveRunner } from '@/components/runners/runnerRegistry';
+import { ResumeSessionPrompt } from '@/components/runners/ResumeSessionPrompt';
+import { StudentScreenControls } from '@/components/runners/StudentScreenControls';
+import { SessionDraftContext } from '@/hooks/use-session-draft';
+import { SessionExitContext } from '@/hooks/use-session-exit';
+import { saveSessionDraft } from '@/lib/api/sessions';
+import { clearLocalDraft, resumableDraft, type SessionDraft } from '@/lib/sessionDrafts';
+
+type DraftChoice =
+  | { status: 'unchecked' }
+  | { status: 'offered'; draft: SessionDraft }
+  | { status: 'decided'; draft: SessionDraft | null };
 
 export default function SessionRunPage() {
   const { id } = useParams<{ id: string }>();
-  const [timerRunning, setTimerRunning] = useState(false);
-  const [elapsedMs, setElapsedMs] = useState(0);
-  const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
-  const [selectedErrorTags, setSelectedErrorTags] = useState<string[]>([]);
-  const [notes, setNotes] = useState('');
+  const navigate = useNavigate();
 
   const { data: session, isLoading: sessionLoading, error: sessionError, refetch: refetchSession } = useSession(id || '');
+  const { data: assessment, isLoading: assessmentLoading } = useAssessment(session?.assessment_id || '');
   const { data: items, isLoading: itemsLoading, error: itemsError } = useItemsByForm(session?.form_id || '');
-  const { data: responses } = useSessionResponses(id || '');
   const updateSession = useUpdateSession();
-  const upsertResponse = useUpsertSessionResponse();
 
-  const currentIndex = session?.current_item_index ?? 0;
-  const currentItem = items?.[currentIndex];
-  const totalItems = items?.length ?? 0;
-  const isConnected = !!session && !!items;
+  // Runners in a battery go back to its transition screen rather than the sessions list
+  const batteryPath = session?.battery_session_id ? `/battery-sessions/${session.battery_session_id}` : null;
 
-  // Detect ORF session and extract word tokens (must be before any early returns)
-  const isORFSession = session?.assessment_id === 'FL-ORF';
-  const passageContent = currentItem?.content_payload as unknown as ORFPassageContent | undefined;
-  const wordTokens = useMemo(() => {
-    if (!passageContent) return [];
-    // Use existing word_tokens if available, otherwise tokenize from stimulus/text
-    if (passageContent.word_tokens?.length) {
-      return passageContent.word_tokens;
-    }
-    const text = passageContent.stimulus || (passageContent as unknown as ItemContent)?.text || '';
-    return text.split(/\s+/).filter(Boolean);
-  }, [passageContent]);
-
-  // Get error types from item content
-  const errorTypes = currentItem 
-    ? (currentItem.content_payload as ItemContent)?.error_types || currentItem.scoring_tags || []
-    : [];
-
-  // Load existing response for current item
-  useEffect(() => {
-    if (responses && currentItem) {
-      const existing = responses.find(r => r.item_id === currentItem.item_id);
-      if (existing) {
-        setIsCorrect(existing.is_correct);
-        setSelectedErrorTags(existing.error_tags || []);
-        setNotes(existing.notes || '');
-      } else {
-        setIsCorrect(null);
-        setSelectedErrorTags([]);
-        setNotes('');
-      }
-    }
-  }, [responses, currentItem]);
+  const runnerId = session && !assessmentLoading ? resolveRunner(session.assessment_id, assessment?.content_model).id : null;
 
-  // Timer logic
+  // Checked once, when the session loads: after that the runner's own checkpoints would always match
+  const [draftChoice, setDraftChoice] = useState<DraftChoice>({ status: 'unchecked' });
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (timerRunning) {
-      interval = setInterval(() => {
-        setElapsedMs(prev => prev + 100);
-      }, 100);
-    }
-    return () => clearInterval(interval);
-  }, [timerRunning]);
+    if (draftChoice.status !== 'unchecked' || !session || !runnerId) return;
+    const draft = resumableDraft(session, runnerId);
+    setDraftChoice(draft ? { status: 'offered', draft } : { status: 'decided', draft: null });
+  }, [draftChoice.status, session, runnerId]);
+
+  const handleStartOver = () => {
+    if (!session) return;
+    clearLocalDraft(session.session_id);
+    saveSessionDraft(session.session_id, null).catch(() => undefined);
+    setDraftChoice({ status: 'decided', draft: null });
+  };
 
   // Start session on first load if not started
   useEffect(() => {
@@ -102,82 +58,17 @@ export default function SessionRunPage() {
     }
   }, [session]);
 
-  const formatTime = (ms: number) => {
-    const seconds = Math.floor(ms / 1000);
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
-
-  const handleSave = useCallback(async () => {
-    if (!session || !currentItem || isCorrect === null) {
-      toast.error('Please mark the response as correct or incorrect');
-      return;
-    }
-
-    await upsertResponse.mutateAsync({
-      session_id: session.session_id,
-      item_id: currentItem.item_id,
-      sequence_number: currentItem.sequence_number,
-      is_correct: isCorrect,
-      error_tags: selectedErrorTags,
-      response_time_ms: elapsedMs,
-      notes: notes.trim() || null,
-    });
-
-    // Reset timer for next item
-    setTimerRunning(false);
-    setElapsedMs(0);
-  }, [session, currentItem, isCorrect, selectedErrorTags, elapsedMs, notes, upsertResponse]);
-
-  const handleNext = async () => {
-    await handleSave();
-    
-    if (currentIndex < totalItems - 1 && session) {
-      await updateSession.mutateAsync({
-        id: session.session_id,
-        updates: { current_item_index: currentIndex + 1 }
-      });
-    }
-  };
-
-  const handleBack = async () => {
-    if (currentIndex > 0 && session) {
-      await updateSession.mutateAsync({
-        id: session.session_id,
-        updates: { current_item_index: currentIndex - 1 }
-      });
-    }
-  };
-
-  const handleFinish = async () => {
-    await handleSave();
-    
-    if (session) {
-      await updateSession.mutateAsync({
-        id: session.session_id,
-        updates: { 
-          status: 'completed', 
-          completed_at: new Date().toISOString() 
-        }
-      });
-      toast.success('Session completed!');
-    }
-  };
-
-  const toggleErrorTag = (tag: string) => {
-    setSelectedErrorTags(prev => 
-      prev.includes(tag) 
-        ? prev.filter(t => t !== tag)
-        : [...prev, tag]
-    );
-  };
+  // Some runners stay put once finished; in a battery, move straight on
+  const finished = !!session && FINISHED_STATUSES.includes(session.status);
+  useEffect(() => {
+    if (batteryPath && finished) navigate(batteryPath, { replace: true });
+  }, [batteryPath, finished, navigate]);
 
   if (!id || !isValidRouteId(id)) {
     return <ErrorState title="Invalid session ID" />;
   }
 
-  if (sessionLoading || itemsLoading) {
+  if (sessionLoading || itemsLoading || assessmentLoading) {
     return <LoadingState title="Loading session..." />;
   }
 
@@ -193,245 +84,30 @@ export default function SessionRunPage() {
     return <ErrorState title="No items found for this form" />;
   }
 
-  // Route to ORF Runner for FL-ORF sessions with word tokens
-  if (isORFSession && wordTokens.length > 0 && currentItem && session) {
-    return (
-      <ORFRunner 
-        session={session} 
-        item={currentItem} 
-        wordTokens={wordTokens} 
-      />
-    );
-  }
-
-  // Route to Onset-Rime Runner for PA-OONS sessions
-  if (session?.assessment_id === 'PA-OONS' && items) {
+  if (draftChoice.status === 'offered') {
     return (
-      <OnsetRimeRunner 
-        session={session} 
-        items={items} 
+      <ResumeSessionPrompt
+        session={session}
+        draft={draftChoice.draft}
+        totalItems={items.length}
+        onResume={() => setDraftChoice({ status: 'decided', draft: draftChoice.draft })}
+        onStartOver={handleStartOver}
       />
     );
   }
 
-  // Route to Rhyme Runner for PA-RHYM sessions
-  if (session?.assessment_id === 'PA-RHYM' && items) {
-    return (
-      <RhymeRunner 
-        session={session} 
-        items={items} 
-      />
-    );
-  }
-
-  // Route to Syllable Runner for PA-SYLS sessions
-  if (session?.assessment_id === 'PA-SYLS' && items) {
-    return (
-      <SyllableRunner 
-        session={session} 
-        items={items} 
-      />
-    );
-  }
-
-  // Route to Morphophonemic Runner for PH-MPHY sessions
-  if (session?.assessment_id === 'PH-MPHY' && items) {
-    return (
-      <MorphophonemicRunner 
-        session={session} 
-        items={items} 
-      />
-    );
-  }
-
-  // Route to Letter-Word Runner for PH-LWID sessions
-  if (session?.assessment_id === 'PH-LWID' && items) {
-    return <LetterWordRunner session={session} items={items} />;
-  }
-
-  // Route to Letter Grid Runner for FL-LNF sessions
-  if (session?.assessment_id === 'FL-LNF' && items) {
-    return <LetterGridRunner session={session} items={items} />;
-  }
-
-  // Route to Word Reading Runner for FL-WRF sessions
-  if (session?.assessment_id === 'FL-WRF' && items) {
-    return <WordReadingRunner session={session} items={items} />;
-  }
-
-  // Route to Phoneme Segment Runner for FL-PSF and PA-PHON sessions
-  if ((session?.assessment_id === 'FL-PSF' || session?.assessment_id === 'PA-PHON') && items) {
-    return <PhonemeSegmentRunner session={session} items={items} />;
-  }
-
-  // Route to Vocab MCQ Runner for VO-MORP and VO-VOCA sessions
-  if ((session?.assessment_id === 'VO-MORP' || session?.assessment_id === 'VO-VOCA') && items) {
-    return <VocabMCQRunner session={session} items={items} />;
-  }
-
-  // Route to Picture Vocab Runner for VO-RPVT and VO-EPVT sessions
-  if ((session?.assessment_id === 'VO-RPVT' || session?.assessment_id === 'VO-EPVT') && items) {
-    return <PictureVocabRunner session={session} items={items} />;
-  }
-
-  // Route to Comprehension Runner for RC-NARR, RC-INFO, and RC-LIST sessions
-  if ((session?.assessment_id === 'RC-NARR' || 
-       session?.assessment_id === 'RC-INFO' || 
-       session?.assessment_id === 'RC-LIST') && items) {
-    return <ComprehensionRunner session={session} items={items} />;
+  if (draftChoice.status === 'unchecked') {
+    return <LoadingState title="Loading session..." />;
   }
 
-  const content = currentItem?.content_payload as ItemContent;
+  const { id: resolvedRunnerId, runner: Runner } = resolveRunner(session.assessment_id, assessment?.content_model);
 
   return (
-    <div className="space-y-6">
-      {/* Header */}
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-4">
-          <Button variant="ghost" size="icon" asChild>
-            <Link to="/sessions">
-              <ArrowLeft className="h-4 w-4" />
-            </Link>
-          </Button>
-          <div>
-            <h1 className="text-xl font-bold text-foreground">
-              Session: {session.student_name}
-            </h1>
-            <p className="text-sm text-muted-foreground">Form: {session.form_id}</p>
-          </div>
-        </div>
-        <div className="flex items-center gap-2">
-          <Circle className={`h-3 w-3 ${isConnected ? 'fill-green-500 text-green-500' : 'fill-muted text-muted'}`} />
-          <span className="text-sm text-muted-foreground">
-            {isConnected ? 'Connected' : 'Loading...'}
-          </span>
-        </div>
-      </div>
-
-      {/* Progress */}
-      <div className="text-center">
-        <span className="text-2xl font-bold">Item {currentIndex + 1} of {totalItems}</span>
-      </div>
-
-      {/* Item Display */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-lg">Stimulus</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-8">
-            <p className="text-4xl font-bold">{content?.stimulus || content?.text || 'No stimulus'}</p>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Scoring */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-lg">Scoring</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-6">
-          {/* Correct/Incorrect buttons */}
-          <div className="flex gap-4 justify-center">
-            <Button
-              variant={isCorrect === true ? 'default' : 'outline'}
-              size="lg"
-              onClick={() => setIsCorrect(true)}
-              className={isCorrect === true ? 'bg-green-600 hover:bg-green-700' : ''}
-            >
-              <Check className="h-5 w-5 mr-2" />
-              Correct
-            </Button>
-            <Button
-              variant={isCorrect === false ? 'default' : 'outline'}
-              size="lg"
-              onClick={() => setIsCorrect(false)}
-              className={isCorrect === false ? 'bg-red-600 hover:bg-red-700' : ''}
-            >
-              <X className="h-5 w-5 mr-2" />
-              Incorrect
-            </Button>
-          </div>
-
-          {/* Error tags (show when incorrect) */}
-          {isCorrect === false && errorTypes.length > 0 && (
-            <div className="space-y-2">
-              <Label>Error Tags</Label>
-              <div className="flex flex-wrap gap-3">
-                {errorTypes.map((tag) => (
-                  <div key={tag} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={tag}
-                      checked={selectedErrorTags.includes(tag)}
-                      onCheckedChange={() => toggleErrorTag(tag)}
-                    />
-                    <Label htmlFor={tag} className="text-sm">{tag}</Label>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
-
-          {/* Notes */}
-          <div className="space-y-2">
-            <Label htmlFor="notes">Notes</Label>
-            <Textarea
-              id="notes"
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              placeholder="Optional notes about this response..."
-              rows={3}
-            />
-          </div>
-
-          {/* Timer */}
-          <div className="flex items-center justify-center gap-4">
-            <Clock className="h-5 w-5 text-muted-foreground" />
-            <span className="text-2xl font-mono">{formatTime(elapsedMs)}</span>
-            <div className="flex gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setTimerRunning(!timerRunning)}
-              >
-                {timerRunning ? 'Stop' : 'Start'}
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => { setElapsedMs(0); setTimerRunning(false); }}
-              >
-                Reset
-              </Button>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Navigation */}
-      <div className="flex justify-between items-center">
-        <Button
-          variant="outline"
-          onClick={handleBack}
-          disabled={currentIndex === 0}
-        >
-          <ArrowLeft className="h-4 w-4 mr-2" />
-          Back
-        </Button>
-
-        <div className="flex gap-2">
-          {currentIndex < totalItems - 1 ? (
-            <Button onClick={handleNext} disabled={isCorrect === null}>
-              Save & Next
-              <ArrowRight className="h-4 w-4 ml-2" />
-            </Button>
-          ) : (
-            <Button onClick={handleFinish} disabled={isCorrect === null}>
-              Finish Session
-            </Button>
-          )}
-        </div>
-      </div>
-    </div>
+    <SessionDraftContext.Provider value={{ runnerId: resolvedRunnerId, draft: draftChoice.draft }}>
+      <SessionExitContext.Provider value={batteryPath}>
+        <Runner session={session} items={items} />
+      </SessionExitContext.Provider>
+      <StudentScreenControls session={session} />
+    </SessionDraftContext.Provider>
   );
 }
@@ -2,18 +2,20 @@ import { useParams } from 'react-router-dom';
 import { LoadingState } from '@/components/ui/loading-state';
 import { ErrorState } from '@/components/ui/error-state';
 import { useSession } from '@/lib/api/sessions';
+import { useAssessment } from '@/lib/api/assessments';
 import { useItemsByForm } from '@/lib/api/items';
 import { isValidRouteId } from '@/lib/routeValidation';
-import { getDisplayText, getPayloadField } from '@/lib/itemDisplay';
+import { resolveRunner } from '@/components/runners/runnerRegistry';
+import { useStudentDisplay } from '@/hooks/use-student-display';
 
 export default function SessionStudentPage() {
   const { id } = useParams<{ id: string }>();
 
-  // Poll session every 2 seconds for updates
-  const { data: session, isLoading: sessionLoading, error: sessionError } = useSession(id || '', {
-    refetchInterval: 2000,
-  });
+  const { data: session, isLoading: sessionLoading, error: sessionError } = useSession(id || '');
+  const { data: assessment, isLoading: assessmentLoading } = useAssessment(session?.assessment_id || '');
   const { data: items, isLoading: itemsLoading, error: itemsError } = useItemsByForm(session?.form_id || '');
+  // Pushed by the assessor's run page as it moves through the items
+  const display = useStudentDisplay(session);
 
   if (!id || !isValidRouteId(id)) {
     return (
@@ -23,7 +25,7 @@ export default function SessionStudentPage() {
     );
   }
 
-  if (sessionLoading || itemsLoading) {
+  if (sessionLoading || itemsLoading || assessmentLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <LoadingState title="Loading..." />
@@ -39,7 +41,7 @@ export default function SessionStudentPage() {
     );
   }
 
-  if (!session) {
+  if (!session || !display) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <ErrorState title="Session not found" />
@@ -55,17 +57,8 @@ export default function SessionStudentPage() {
     );
   }
 
-  const currentIndex = session.current_item_index ?? 0;
-  const currentItem = items[currentIndex];
-  const stimulus = getDisplayText(currentItem?.content_payload);
-
-  // Detect assessment type for specialized displays
-  const isORFSession = session.assessment_id === 'FL-ORF';
-  const isBlankListeningSession = ['PA-OONS', 'PA-RHYM', 'PA-SYLS'].includes(session.assessment_id);
-  const isPrintedWordSession = ['PH-MPHY', 'PH-LWID'].includes(session.assessment_id);
-
   // Show completion message if session is done
-  if (session.status === 'completed') {
+  if (display.complete) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center">
@@ -76,62 +69,13 @@ export default function SessionStudentPage() {
     );
   }
 
-  // ORF sessions show full passage for reading aloud
-  if (isORFSession) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background p-8">
-        <div className="max-w-4xl">
-          <p className="text-3xl md:text-4xl font-serif text-foreground leading-relaxed text-justify">
-            {stimulus}
-          </p>
-        </div>
-      </div>
-    );
+  // Blank while the assessor gives directions
+  if (!display.stimulus_visible) {
+    return <div className="min-h-screen bg-background" />;
   }
 
-  // Blank listening sessions: PA-OONS, PA-RHYM (student doesn't see text)
-  if (isBlankListeningSession) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background p-8">
-        <div className="text-center">
-          <div className="w-32 h-32 mx-auto mb-8 rounded-full bg-primary/10 flex items-center justify-center">
-            <div className="w-16 h-16 rounded-full bg-primary/20 animate-pulse" />
-          </div>
-          <p className="text-3xl font-medium text-foreground">Listening...</p>
-          <p className="text-lg text-muted-foreground mt-2">
-            Item {currentIndex + 1} of {items.length}
-          </p>
-        </div>
-      </div>
-    );
-  }
+  const currentIndex = Math.min(display.item_index, items.length - 1);
+  const { studentView: StudentView } = resolveRunner(session.assessment_id, assessment?.content_model);
 
-  // PH-MPHY/PH-LWID: Show printed stimulus to student
-  if (isPrintedWordSession) {
-    const displayText = getPayloadField(currentItem?.content_payload, 'affixed_form') || stimulus;
-    
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background p-8">
-        <div className="text-center max-w-4xl">
-          <p className="text-8xl md:text-9xl font-bold text-foreground leading-tight">
-            {displayText}
-          </p>
-          <p className="text-lg text-muted-foreground mt-8">
-            Item {currentIndex + 1} of {items.length}
-          </p>
-        </div>
-      </div>
-    );
-  }
-
-  // Default: single-item stimulus display
-  return (
-    <div className="min-h-screen flex items-center justify-center bg-background p-8">
-      <div className="text-center max-w-4xl">
-        <p className="text-8xl md:text-9xl font-bold text-foreground leading-tight">
-          {stimulus}
-        </p>
-      </div>
-    </div>
-  );
+  return <StudentView session={session} items={items} currentIndex={currentIndex} />;
 }
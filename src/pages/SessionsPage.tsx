@@ -7,7 +7,9 @@ import { StatusBadge } from '@/components/ui/status-badge';
 import { LoadingState } from '@/components/ui/loading-state';
 import { ErrorState } from '@/components/ui/error-state';
 import { EmptyState } from '@/components/ui/empty-state';
+import { FlagBadges } from '@/components/scoring/FlagAlerts';
 import { useSessions } from '@/lib/api/sessions';
+import { getFiredFlags } from '@/lib/scoring';
 
 export default function SessionsPage() {
   const { data: sessions, isLoading, error, refetch } = useSessions();
@@ -56,6 +58,7 @@ export default function SessionsPage() {
                   <TableHead>Assessment</TableHead>
                   <TableHead>Form</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Flags</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead></TableHead>
                 </TableRow>
@@ -63,12 +66,21 @@ export default function SessionsPage() {
               <TableBody>
                 {sessions.map((session) => (
                   <TableRow key={session.session_id}>
-                    <TableCell className="font-medium">{session.student_name}</TableCell>
+                    <TableCell className="font-medium">
+                      {session.student_id ? (
+                        <Link to={`/students/${session.student_id}`} className="hover:underline">
+                          {session.student_name}
+                        </Link>
+                      ) : session.student_name}
+                    </TableCell>
                     <TableCell>{session.assessment_id}</TableCell>
                     <TableCell>{session.form_id}</TableCell>
                     <TableCell>
                       <StatusBadge status={session.status} />
                     </TableCell>
+                    <TableCell>
+                      <FlagBadges flags={getFiredFlags(session.fired_flags)} />
+                    </TableCell>
                     <TableCell className="text-muted-foreground">
                       {session.created_at ? new Date(session.created_at).toLocaleDateString() : '-'}
                     </TableCell>
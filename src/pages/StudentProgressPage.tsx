@@ -0,0 +1,173 @@
+import { useMemo, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ArrowLeft, LineChart as LineChartIcon, Plus, Target } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading-state';
+import { ErrorState } from '@/components/ui/error-state';
+import { EmptyState } from '@/components/ui/empty-state';
+import { ProgressChart } from '@/components/students/ProgressChart';
+import { GoalCard } from '@/components/students/GoalCard';
+import { GoalFormDialog } from '@/components/students/GoalFormDialog';
+import { useStudent, useStudentProgressData } from '@/lib/api/students';
+import { useStudentGoals } from '@/lib/api/studentGoals';
+import { buildProgressSeries } from '@/lib/studentProgress';
+import { getGradeLabel } from '@/lib/gradeUtils';
+import { isValidRouteId } from '@/lib/routeValidation';
+
+export default function StudentProgressPage() {
+  const { id } = useParams<{ id: string }>();
+  const validId = isValidRouteId(id) ? id : '';
+
+  const { data: student, isLoading: studentLoading, error: studentError, refetch } = useStudent(validId);
+  const { data: progress, isLoading: progressLoading, error: progressError } = useStudentProgressData(validId);
+  const { data: goals, isLoading: goalsLoading, error: goalsError } = useStudentGoals(validId);
+  const [showGoalDialog, setShowGoalDialog] = useState(false);
+
+  const series = useMemo(() => {
+    if (!progress) return [];
+    return buildProgressSeries(
+      progress.sessions,
+      progress.responses,
+      progress.scoringOutputs,
+      student?.grade_tag ?? null
+    );
+  }, [progress, student?.grade_tag]);
+
+  const assessedIds = useMemo(() => series.map(s => s.assessment_id), [series]);
+
+  if (!validId) {
+    return <ErrorState title="Invalid Route" error="Invalid student ID in URL" />;
+  }
+
+  if (studentLoading || progressLoading || goalsLoading) {
+    return <LoadingState title="Loading student progress..." />;
+  }
+
+  if (studentError || progressError || goalsError) {
+    return <ErrorState title="Failed to load student" error={studentError || progressError || goalsError} onRetry={refetch} />;
+  }
+
+  if (!student) {
+    return (
+      <div className="space-y-4">
+        <Link to="/students" className="text-sm text-primary hover:underline inline-flex items-center gap-1">
+          <ArrowLeft className="h-4 w-4" /> Back to Students
+        </Link>
+        <p className="text-muted-foreground">Student not found.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link to="/students" className="text-sm text-primary hover:underline inline-flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" /> Back to Students
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold">{student.full_name}</h1>
+          {!student.is_active && <Badge variant="outline">Archived</Badge>}
+        </div>
+        <p className="text-muted-foreground">
+          {[student.local_id, student.grade_tag && getGradeLabel(student.grade_tag), student.classroom]
+            .filter(Boolean)
+            .join(' • ') || 'No roster details'}
+        </p>
+      </div>
+
+      {/* Goals */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Goals</h2>
+          <Button size="sm" onClick={() => setShowGoalDialog(true)} disabled={assessedIds.length === 0}>
+            <Plus className="h-4 w-4 mr-1" /> Add Goal
+          </Button>
+        </div>
+        {!goals || goals.length === 0 ? (
+          <EmptyState
+            icon={<Target className="h-6 w-6 text-muted-foreground" />}
+            title="No goals"
+            description="Set a target to track the student's rate of improvement against an aimline"
+          />
+        ) : (
+          goals.map((goal) => (
+            <GoalCard
+              key={goal.goal_id}
+              goal={goal}
+              sessions={progress?.sessions ?? []}
+              responses={progress?.responses ?? []}
+            />
+          ))
+        )}
+      </div>
+
+      <h2 className="text-lg font-semibold">Progress</h2>
+      {series.length === 0 ? (
+        <EmptyState
+          icon={<LineChartIcon className="h-6 w-6 text-muted-foreground" />}
+          title="No scored sessions yet"
+          description="Completed sessions for this student will be charted here"
+        />
+      ) : (
+        series.map((s) => (
+          <Card key={s.assessment_id}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="font-mono">{s.assessment_id}</CardTitle>
+                  <CardDescription>{s.metric.label} ({s.metric.unit})</CardDescription>
+                </div>
+                {s.benchmark ? (
+                  <Badge variant="outline">
+                    Benchmark {s.benchmark.value} for {s.benchmark.grade_level}
+                    {s.benchmark.status === 'placeholder' && ' (placeholder)'}
+                  </Badge>
+                ) : (
+                  <Badge variant="secondary">No benchmark</Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ProgressChart points={s.points} unit={s.metric.unit} benchmark={s.benchmark} />
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Form</TableHead>
+                    <TableHead>{s.metric.unit}</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {s.points.map((point) => (
+                    <TableRow key={point.session_id}>
+                      <TableCell>{new Date(point.timestamp).toLocaleDateString()}</TableCell>
+                      <TableCell className="font-mono text-xs">{point.form_id}</TableCell>
+                      <TableCell className="font-semibold">{point.value}</TableCell>
+                      <TableCell className="text-right">
+                        <Link to={`/sessions/${point.session_id}/report`} className="text-sm text-primary hover:underline">
+                          View report
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <GoalFormDialog
+        open={showGoalDialog}
+        onOpenChange={setShowGoalDialog}
+        studentId={student.student_id}
+        assessmentIds={assessedIds}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, Users, Search, Pencil, Merge, Archive, ArchiveRestore, Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading-state';
+import { ErrorState } from '@/components/ui/error-state';
+import { EmptyState } from '@/components/ui/empty-state';
+import { StudentFormDialog } from '@/components/students/StudentFormDialog';
+import { MergeStudentDialog } from '@/components/students/MergeStudentDialog';
+import { useStudents, useUpdateStudent, useBackfillSessionStudents, resolveMergedStudentId } from '@/lib/api/students';
+import { getGradeLabel } from '@/lib/gradeUtils';
+import type { StudentRow } from '@/types/database';
+import { toast } from 'sonner';
+
+export default function StudentsPage() {
+  const [search, setSearch] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<StudentRow | null>(null);
+  const [mergeSource, setMergeSource] = useState<StudentRow | null>(null);
+
+  const { data: students = [], isLoading, error, refetch } = useStudents({ includeArchived: true });
+  const updateStudent = useUpdateStudent();
+  const backfill = useBackfillSessionStudents();
+
+  const visibleStudents = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return students
+      .filter(s => showArchived || s.is_active)
+      .filter(s => !query || [s.full_name, s.local_id, s.classroom]
+        .some(field => field?.toLowerCase().includes(query)));
+  }, [students, search, showArchived]);
+
+  const studentNames = useMemo(
+    () => new Map(students.map(s => [s.student_id, s.full_name])),
+    [students]
+  );
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (student: StudentRow) => {
+    setEditing(student);
+    setFormOpen(true);
+  };
+
+  const toggleArchived = async (student: StudentRow) => {
+    try {
+      await updateStudent.mutateAsync({ id: student.student_id, updates: { is_active: !student.is_active } });
+      toast.success(student.is_active ? `${student.full_name} archived` : `${student.full_name} restored`);
+    } catch (err) {
+      toast.error((err as Error)?.message || 'Failed to update student');
+    }
+  };
+
+  const handleBackfill = async () => {
+    try {
+      const { linked, created } = await backfill.mutateAsync();
+      toast.success(
+        linked === 0
+          ? 'All sessions are already linked to students'
+          : `Linked ${linked} session(s)${created ? `, added ${created} new student(s)` : ''}`
+      );
+    } catch (err) {
+      toast.error((err as Error)?.message || 'Failed to link sessions');
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingState title="Loading students..." />;
+  }
+
+  if (error) {
+    return <ErrorState title="Failed to load students" error={error} onRetry={refetch} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Students</h1>
+          <p className="text-muted-foreground mt-1">Roster of students who can be assessed</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleBackfill} disabled={backfill.isPending}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Link Unmatched Sessions
+          </Button>
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Student
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle>Roster ({visibleStudents.length})</CardTitle>
+            <div className="flex items-center gap-4">
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search name, ID, classroom"
+                  className="pl-8 w-64"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="showArchived" checked={showArchived} onCheckedChange={setShowArchived} />
+                <Label htmlFor="showArchived" className="text-sm">Show archived</Label>
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {visibleStudents.length === 0 ? (
+            <EmptyState
+              icon={<Users className="h-6 w-6 text-muted-foreground" />}
+              title={students.length === 0 ? 'No students yet' : 'No matching students'}
+              description={students.length === 0 ? 'Add students to start assessing them' : undefined}
+              actionLabel={students.length === 0 ? 'Add Student' : undefined}
+              onAction={students.length === 0 ? openCreate : undefined}
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Local ID</TableHead>
+                  <TableHead>Date of Birth</TableHead>
+                  <TableHead>Grade</TableHead>
+                  <TableHead>Classroom</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleStudents.map((student) => (
+                  <TableRow key={student.student_id} className={student.is_active ? undefined : 'opacity-60'}>
+                    <TableCell className="font-medium">
+                      <Link to={`/students/${student.student_id}`} className="hover:underline">
+                        {student.full_name}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{student.local_id || '-'}</TableCell>
+                    <TableCell>
+                      {student.date_of_birth ? new Date(`${student.date_of_birth}T00:00:00`).toLocaleDateString() : '-'}
+                    </TableCell>
+                    <TableCell>{student.grade_tag ? getGradeLabel(student.grade_tag) : '-'}</TableCell>
+                    <TableCell>{student.classroom || '-'}</TableCell>
+                    <TableCell>
+                      {student.is_active ? (
+                        <Badge variant="secondary">Active</Badge>
+                      ) : student.merged_into_id ? (
+                        <Badge variant="outline">Merged into {studentNames.get(resolveMergedStudentId(student.student_id, students)) ?? 'another student'}</Badge>
+                      ) : (
+                        <Badge variant="outline">Archived</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(student)} title="Edit">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {student.is_active && (
+                          <Button variant="ghost" size="icon" onClick={() => setMergeSource(student)} title="Merge into another student">
+                            <Merge className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {!student.merged_into_id && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => toggleArchived(student)}
+                            title={student.is_active ? 'Archive' : 'Restore'}
+                          >
+                            {student.is_active ? <Archive className="h-4 w-4" /> : <ArchiveRestore className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <StudentFormDialog open={formOpen} onOpenChange={setFormOpen} student={editing} />
+      <MergeStudentDialog
+        open={!!mergeSource}
+        onOpenChange={(open) => !open && setMergeSource(null)}
+        source={mergeSource}
+        students={students}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import type { ItemRow } from './database';
+
+// Alphabet knowledge is scored in three separate sections
+export type AlphabetSection = 'uppercase_names' | 'lowercase_names' | 'letter_sounds';
+
+export const ALPHABET_SECTIONS: AlphabetSection[] = ['uppercase_names', 'lowercase_names', 'letter_sounds'];
+
+export const ALPHABET_SECTION_LABELS: Record<AlphabetSection, string> = {
+  uppercase_names: 'Uppercase Names',
+  lowercase_names: 'Lowercase Names',
+  letter_sounds: 'Letter Sounds',
+};
+
+export type AlphabetMark = 'correct' | 'incorrect';
+
+// Alphabet knowledge scores
+export interface AlphabetComputedScores {
+  uppercase_names_correct: number;
+  uppercase_names_total: number;
+  lowercase_names_correct: number;
+  lowercase_names_total: number;
+  letter_sounds_correct: number;
+  letter_sounds_total: number;
+  letters_attempted: number;
+  letters_correct: number;
+  accuracy_percentage: number;
+}
+
+// Section of each item on a form. A type or tag says so outright; otherwise
+// a letter already shown earlier on the form is being asked for its sound,
+// and a first showing is asked for its name, by the letter's case
+export function getAlphabetSections(items: ItemRow[]): AlphabetSection[] {
+  const seen = new Set<string>();
+  return items.map(item => {
+    const tags = item.scoring_tags ?? [];
+    const stimulus = (item.content_payload as { stimulus?: string } | null)?.stimulus ?? '';
+    const repeated = !!stimulus && seen.has(stimulus);
+    if (stimulus) seen.add(stimulus);
+
+    if (item.item_type === 'letter-sound' || tags.includes('letter-sound')) return 'letter_sounds';
+    if (tags.includes('uppercase')) return 'uppercase_names';
+    if (tags.includes('lowercase')) return 'lowercase_names';
+    if (repeated && !tags.includes('letter-name')) return 'letter_sounds';
+    return stimulus && stimulus === stimulus.toLowerCase() ? 'lowercase_names' : 'uppercase_names';
+  });
+}
+
+// Tally marks per section; unmarked letters aren't counted
+export function computeAlphabetScores(
+  sections: AlphabetSection[],
+  marks: Record<number, AlphabetMark>
+): AlphabetComputedScores {
+  const tally = (section: AlphabetSection) => {
+    const marked = Object.entries(marks).filter(([idx]) => sections[Number(idx)] === section);
+    return {
+      correct: marked.filter(([, mark]) => mark === 'correct').length,
+      total: sections.filter(s => s === section).length,
+    };
+  };
+  const upper = tally('uppercase_names');
+  const lower = tally('lowercase_names');
+  const sounds = tally('letter_sounds');
+
+  const attempted = Object.keys(marks).length;
+  const correct = upper.correct + lower.correct + sounds.correct;
+
+  return {
+    uppercase_names_correct: upper.correct,
+    uppercase_names_total: upper.total,
+    lowercase_names_correct: lower.correct,
+    lowercase_names_total: lower.total,
+    letter_sounds_correct: sounds.correct,
+    letter_sounds_total: sounds.total,
+    letters_attempted: attempted,
+    letters_correct: correct,
+    accuracy_percentage: attempted > 0 ? Math.round((correct / attempted) * 1000) / 10 : 0,
+  };
+}
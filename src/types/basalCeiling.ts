@@ -0,0 +1,135 @@
+import type { ItemRow, StoppingRule } from './database';
+import { getPayloadField } from '@/lib/itemDisplay';
+
+// Run lengths that set the basal and ceiling when the ASR gives none
+export const DEFAULT_BASAL_LENGTH = 6;
+export const DEFAULT_CEILING_LENGTH = 6;
+
+export interface BasalCeilingConfig {
+  basal_length: number;
+  ceiling_length: number;
+}
+
+// Where a basal/ceiling administration stands; indexes are item positions in the form
+export interface BasalCeilingState {
+  start_index: number;
+  /** Lowest item of the basal run; null until set, or when testing reached item 1 */
+  basal_index: number | null;
+  /** Last item of the ceiling run; null until reached */
+  ceiling_index: number | null;
+  /** Items below the basal, credited without being given */
+  implicit_credit: number;
+  /** 'reverse' while testing back from the start point for a basal */
+  direction: 'forward' | 'reverse';
+  /** Next item to give; null once the ceiling or the last item is reached */
+  next_index: number | null;
+}
+
+// Saved on every response so the scorer can replay the administration
+export interface BasalCeilingResponseDetail {
+  item_index: number;
+  basal_ceiling: BasalCeilingConfig & { start_index: number };
+}
+
+// Run lengths from the ASR's basal and ceiling stopping rules
+export function getBasalCeilingConfig(rules: StoppingRule[]): BasalCeilingConfig {
+  return {
+    basal_length: rules.find(r => r.type === 'basal')?.count ?? DEFAULT_BASAL_LENGTH,
+    ceiling_length: rules.find(r => r.type === 'ceiling')?.count ?? DEFAULT_CEILING_LENGTH,
+  };
+}
+
+// '3', 'G3' and 'g3' all mean grade band G3
+export function toGradeBand(gradeTag: string | null | undefined): string | null {
+  const match = gradeTag?.trim().match(/^g?(\d+)$/i);
+  return match ? `G${match[1]}` : null;
+}
+
+// Start point for the student's grade: the ASR's table first, then the first
+// item written for that band, else the first item
+export function getStartIndex(
+  items: ItemRow[],
+  gradeTag: string | null | undefined,
+  startPoints?: Record<string, number>
+): number {
+  const band = toGradeBand(gradeTag);
+  if (!band) return 0;
+
+  const configured = startPoints?.[band];
+  if (typeof configured === 'number' && configured >= 1) {
+    return Math.min(configured - 1, Math.max(items.length - 1, 0));
+  }
+
+  const byPayload = items.findIndex(item => getPayloadField<string>(item.content_payload, 'grade_band') === band);
+  return Math.max(byPayload, 0);
+}
+
+/**
+ * Work out the basal, ceiling and next item from the items scored so far.
+ * Testing starts at the start point and goes forward; an error before the
+ * basal run is complete turns it back from below the start point until the
+ * lowest items given are all correct (or item 1 is reached). Testing then
+ * resumes after the highest item given until the ceiling run of errors.
+ */
+export function computeBasalCeiling(
+  results: Record<number, boolean>,
+  startIndex: number,
+  totalItems: number,
+  config: BasalCeilingConfig
+): BasalCeilingState {
+  const { basal_length: basalLength, ceiling_length: ceilingLength } = config;
+  const given = Object.keys(results).map(Number).filter(idx => idx >= 0 && idx < totalItems);
+
+  const state = (fields: Partial<BasalCeilingState>): BasalCeilingState => ({
+    start_index: startIndex,
+    basal_index: null,
+    ceiling_index: null,
+    implicit_credit: 0,
+    direction: 'forward',
+    next_index: null,
+    ...fields,
+  });
+
+  if (given.length === 0) return state({ next_index: totalItems > 0 ? startIndex : null });
+
+  const low = Math.min(...given);
+  const high = Math.max(...given);
+  const runFrom = (from: number, length: number, correct: boolean) =>
+    Array.from({ length }, (_, i) => from + i).every(idx => results[idx] === correct);
+
+  const basalSet = runFrom(low, basalLength, true);
+  const basalIndex = basalSet && low > 0 ? low : null;
+  const implicitCredit = basalIndex ?? 0;
+
+  // Still going forward from the start point with nothing missed yet
+  if (!basalSet && low === startIndex && low > 0) {
+    const allCorrect = Array.from({ length: high - low + 1 }, (_, i) => low + i).every(idx => results[idx] === true);
+    if (!allCorrect) return state({ direction: 'reverse', next_index: low - 1 });
+    if (high + 1 < totalItems) return state({ next_index: high + 1 });
+  }
+
+  // Going back from the start point until the basal is set or item 1 is given
+  if (!basalSet && low > 0) return state({ direction: 'reverse', next_index: low - 1 });
+
+  const ceilingReached = high - ceilingLength + 1 >= low && runFrom(high - ceilingLength + 1, ceilingLength, false);
+  return state({
+    basal_index: basalIndex,
+    implicit_credit: implicitCredit,
+    ceiling_index: ceilingReached ? high : null,
+    next_index: !ceilingReached && high + 1 < totalItems ? high + 1 : null,
+  });
+}
+
+// Replay the administration from saved responses, for scoring
+export function replayBasalCeiling(
+  responses: { is_correct: boolean | null; computed_scores: unknown }[]
+): BasalCeilingState | null {
+  const details = responses
+    .map(r => ({ correct: r.is_correct, detail: r.computed_scores as Partial<BasalCeilingResponseDetail> | null }))
+    .filter(r => typeof r.detail?.item_index === 'number' && typeof r.correct === 'boolean');
+  const config = details.find(r => r.detail?.basal_ceiling)?.detail?.basal_ceiling;
+  if (!config) return null;
+
+  const results = Object.fromEntries(details.map(r => [r.detail!.item_index!, r.correct as boolean]));
+  return computeBasalCeiling(results, config.start_index, Number.MAX_SAFE_INTEGER, config);
+}
@@ -0,0 +1,113 @@
+import { gradeTagCovers } from '@/lib/gradeUtils';
+import { recommendForm } from '@/lib/formRotation';
+import type { FormRow, SessionRow } from './database';
+
+// One assessment in a battery, with the rules for which students get it and
+// on which form
+export interface BatteryStep {
+  assessment_id: string;
+  /** Grade tags the step is given at; every grade when empty */
+  grades?: string[];
+  /** Form to use at a grade, keyed by grade tag. Other grades get the recommended form */
+  forms_by_grade?: Record<string, string>;
+}
+
+export type BatteryFormSource = 'configured' | 'recommended';
+
+export const BATTERY_FORM_SOURCE_LABELS: Record<BatteryFormSource, string> = {
+  configured: 'Set for this grade',
+  recommended: 'Recommended',
+};
+
+// A step as it will be given to one student
+export interface BatteryPlanStep {
+  position: number;
+  step: BatteryStep;
+  form_id: string | null;
+  form_source: BatteryFormSource | null;
+  /** Why a recommended form was chosen */
+  form_reasons: string[];
+  /** Why the step won't be given, if it won't */
+  skip_reason: 'grade' | 'no_form' | null;
+}
+
+// Parse the steps JSONB column, skipping entries without an assessment
+export function normalizeBatterySteps(raw: unknown): BatteryStep[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((s): s is Record<string, unknown> => typeof s === 'object' && s !== null)
+    .filter(s => typeof s.assessment_id === 'string' && s.assessment_id.trim() !== '')
+    .map(s => {
+      const grades = Array.isArray(s.grades) ? s.grades.filter((g): g is string => typeof g === 'string') : [];
+      const formsByGrade = typeof s.forms_by_grade === 'object' && s.forms_by_grade !== null
+        ? Object.fromEntries(
+          Object.entries(s.forms_by_grade).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+        )
+        : {};
+      return {
+        assessment_id: s.assessment_id as string,
+        ...(grades.length > 0 ? { grades } : {}),
+        ...(Object.keys(formsByGrade).length > 0 ? { forms_by_grade: formsByGrade } : {}),
+      };
+    });
+}
+
+// Given to everyone when the step names no grades, or the student's grade isn't known
+export function stepAppliesToGrade(step: BatteryStep, gradeTag: string | null | undefined): boolean {
+  if (!step.grades?.length || !gradeTag) return true;
+  return step.grades.some(tag => gradeTagCovers(tag, gradeTag));
+}
+
+/**
+ * Form for a step at the student's grade, from the assessment's eligible
+ * forms: the one configured for the grade, otherwise the one a single
+ * session would get, by the student's form history and equivalence set.
+ * Retired forms are only used when configured.
+ */
+export function selectBatteryForm(
+  step: BatteryStep,
+  gradeTag: string | null | undefined,
+  eligibleForms: FormRow[],
+  studentSessions: SessionRow[]
+): { form_id: string; source: BatteryFormSource; reasons: string[] } | null {
+  const byId = new Map(eligibleForms.map(f => [f.form_id, f]));
+
+  if (gradeTag && step.forms_by_grade) {
+    const configured = Object.entries(step.forms_by_grade)
+      .find(([tag, formId]) => byId.has(formId) && gradeTagCovers(tag, gradeTag));
+    if (configured) return { form_id: configured[1], source: 'configured', reasons: [] };
+  }
+
+  const recommended = recommendForm(eligibleForms, studentSessions, step.assessment_id, gradeTag ?? null);
+  return recommended
+    ? { form_id: recommended.form.form_id, source: 'recommended', reasons: recommended.reasons }
+    : null;
+}
+
+/**
+ * Each step of a battery as it'll be given to a student at `gradeTag`.
+ * `formsByAssessment` holds each assessment's eligible forms, and
+ * `studentSessions` the student's earlier sessions, for form rotation.
+ */
+export function planBattery(
+  steps: BatteryStep[],
+  gradeTag: string | null | undefined,
+  formsByAssessment: Map<string, FormRow[]>,
+  studentSessions: SessionRow[]
+): BatteryPlanStep[] {
+  return steps.map((step, position) => {
+    if (!stepAppliesToGrade(step, gradeTag)) {
+      return { position, step, form_id: null, form_source: null, form_reasons: [], skip_reason: 'grade' };
+    }
+    const form = selectBatteryForm(step, gradeTag, formsByAssessment.get(step.assessment_id) ?? [], studentSessions);
+    return form
+      ? { position, step, form_id: form.form_id, form_source: form.source, form_reasons: form.reasons, skip_reason: null }
+      : { position, step, form_id: null, form_source: null, form_reasons: [], skip_reason: 'no_form' };
+  });
+}
+
+// Battery sessions in the order they're given
+export function sortBatterySessions(sessions: SessionRow[]): SessionRow[] {
+  return [...sessions].sort((a, b) => (a.battery_position ?? 0) - (b.battery_position ?? 0));
+}
@@ -0,0 +1,47 @@
+import type { ItemRow } from './database';
+
+// Item payloads for RC-NARR, RC-INFO and RC-LIST: one passage, its recall
+// units, and multiple-choice questions
+
+export interface PassagePayload {
+  passage_id?: string;
+  title?: string;
+  text: string;
+  sentences?: Array<{ sentence_id: string; text: string }>;
+  sentence_count?: number;
+  word_count?: number;
+  grade_band?: string;
+  genre?: string;
+}
+
+export interface RecallUnitPayload {
+  sentence_id: string;
+  text: string;
+}
+
+export interface MCQOption {
+  option_id: string;
+  text: string;
+}
+
+export interface MCQPayload {
+  item_id?: string;
+  question_text?: string;
+  question?: string;
+  options: MCQOption[];
+  correct_option_id?: string;
+  correct_answer?: string;
+  skill_tag?: string;
+}
+
+// RC-LIST passages are read to the student rather than by them
+export const isPassageItem = (item: ItemRow) => item.item_type === 'passage' || item.item_type === 'listening_passage';
+
+export const isRecallUnitItem = (item: ItemRow) => item.item_type === 'recall_sentence_unit';
+
+export const isQuestionItem = (item: ItemRow) =>
+  item.item_type === 'mcq_item' || item.item_type === 'question' || item.item_type === 'multiple-choice';
+
+export function getQuestionText(payload: MCQPayload | null | undefined): string {
+  return payload?.question_text || payload?.question || '';
+}
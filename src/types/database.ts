@@ -1,5 +1,6 @@
 // Database row types derived from Supabase schema
 import { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import type { ProsodyRubric } from './prosody';
 
 // Row types
 export type AssessmentRow = Tables<'assessments'>;
@@ -11,6 +12,11 @@ export type ItemRow = Tables<'items'>;
 export type ScoringOutputRow = Tables<'scoring_outputs'>;
 export type SessionRow = Tables<'sessions'>;
 export type SessionResponseRow = Tables<'session_responses'>;
+export type StudentRow = Tables<'students'>;
+export type StudentGoalRow = Tables<'student_goals'>;
+export type SessionRecordingRow = Tables<'session_recordings'>;
+export type BatteryRow = Tables<'batteries'>;
+export type BatterySessionRow = Tables<'battery_sessions'>;
 
 // Insert types
 export type AssessmentInsert = TablesInsert<'assessments'>;
@@ -34,6 +40,14 @@ export type SessionResponseUpdate = TablesUpdate<'session_responses'>;
 // Insert types for new tables
 export type SessionInsert = TablesInsert<'sessions'>;
 export type SessionResponseInsert = TablesInsert<'session_responses'>;
+export type StudentInsert = TablesInsert<'students'>;
+export type StudentUpdate = TablesUpdate<'students'>;
+export type StudentGoalInsert = TablesInsert<'student_goals'>;
+export type StudentGoalUpdate = TablesUpdate<'student_goals'>;
+export type SessionRecordingInsert = TablesInsert<'session_recordings'>;
+export type BatteryInsert = TablesInsert<'batteries'>;
+export type BatteryUpdate = TablesUpdate<'batteries'>;
+export type BatterySessionInsert = TablesInsert<'battery_sessions'>;
 
 // Component code type (derived from database constraint)
 export type ComponentCode = 'PA' | 'PH' | 'FL' | 'VO' | 'RC';
@@ -45,6 +59,7 @@ export type ContentBankStatus = 'empty' | 'in-progress' | 'ready';
 export type ValidationStatus = 'incomplete' | 'valid' | 'needs-review';
 export type ItemType = 'letter' | 'word' | 'sentence' | 'passage' | 'question' | 'prompt';
 export type SessionStatus = 'created' | 'in_progress' | 'completed';
+export type GoalStatus = 'active' | 'met' | 'discontinued';
 
 // Canonical grade tag type (enforced by database constraint)
 export type CanonicalGradeTag = 
@@ -100,7 +115,10 @@ export interface ASRSectionD {
 export interface ASRSectionE {
   total_items?: number;
   timing?: string;
+  hesitation_seconds?: number;
   stopping_rule?: string;
+  stopping_rules?: StoppingRule[];
+  start_points?: Record<string, number>;
   materials_required?: string[];
 }
 
@@ -116,6 +134,7 @@ export interface ASRSectionG {
   score_types?: string[];
   error_coding?: string;
   scoring_rubric?: string;
+  prosody_rubric?: ProsodyRubric;
 }
 
 export interface ASRSectionH {
@@ -161,6 +180,25 @@ export interface ScoringFormula {
   output: string;
 }
 
+// Structured stopping rule in ASR section E; see lib/scoring/stoppingRules
+export type StoppingRuleType =
+  | 'consecutive_errors'
+  | 'zero_correct_in_first'
+  | 'errors_in_window'
+  | 'timer_expires'
+  | 'basal'
+  | 'ceiling';
+
+export interface StoppingRule {
+  rule_id: string;
+  type: StoppingRuleType;
+  /** Run length, or the number of items counted from the start or in the window */
+  count?: number;
+  /** errors_in_window: errors within the last `count` items */
+  errors?: number;
+  description?: string;
+}
+
 export interface ScoringFlag {
   flag_id: string;
   name: string;
@@ -168,11 +206,18 @@ export interface ScoringFlag {
   severity: 'info' | 'warning' | 'critical';
 }
 
+// Whether a higher or a lower score on a metric is the better one
+export type MetricDirection = 'higher_is_better' | 'lower_is_better';
+
 export interface ThresholdDefinition {
   threshold_id: string;
   metric_id: string;
   grade_level: string;
   benchmark_value: number | null;
+  // Cut past which a score is well below benchmark; without one, no score is
+  well_below_value: number | null;
+  // Inferred from the metric when the threshold doesn't say
+  direction: MetricDirection;
   status: 'placeholder' | 'validated';
 }
 
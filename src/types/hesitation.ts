@@ -0,0 +1,34 @@
+import type { ASRSectionE } from './database';
+
+// The usual fluency hesitation rule when the ASR doesn't set a limit
+export const DEFAULT_HESITATION_SECONDS = 3;
+
+// error_tags entry for an item auto-marked after the student hesitated
+export const HESITATION_TAG = 'hesitation';
+
+export interface HesitationLimit {
+  seconds: number;
+  /** Whether the ASR sets the limit, so the timer is on by default */
+  configured: boolean;
+}
+
+// Limit from section E: hesitation_seconds first, then prose in `timing`
+// such as "3-second hesitation rule" or "hesitates more than 3 seconds"
+export function getHesitationLimit(sectionE: unknown): HesitationLimit {
+  const section = (sectionE ?? {}) as Pick<ASRSectionE, 'hesitation_seconds' | 'timing'>;
+
+  const structured = section.hesitation_seconds;
+  if (typeof structured === 'number' && structured > 0) {
+    return { seconds: structured, configured: true };
+  }
+
+  const timing = section.timing?.toLowerCase() ?? '';
+  const match =
+    timing.match(/(\d+(?:\.\d+)?)[-\s]*(?:s|sec|second)s?\s+hesitation/) ??
+    timing.match(/hesitat\w*[^0-9]{0,30}(\d+(?:\.\d+)?)\s*(?:s\b|sec|second)/);
+  if (match && Number(match[1]) > 0) {
+    return { seconds: Number(match[1]), configured: true };
+  }
+
+  return { seconds: DEFAULT_HESITATION_SECONDS, configured: false };
+}
@@ -0,0 +1,155 @@
+import type { ItemRow } from './database';
+
+// Default maze administration: first sentence intact, then every 7th word,
+// three minutes to read
+export const DEFAULT_BLANK_INTERVAL = 7;
+export const DEFAULT_MAZE_TIME_LIMIT = 180;
+
+// Passage item payload for RC-MAZE
+export interface MazePassageContent {
+  text?: string;
+  stimulus?: string;
+  /** Replace every nth word after the first sentence */
+  blank_interval?: number;
+  time_limit_seconds?: number;
+}
+
+// cloze_blank item payload
+export interface MazeBlankContent {
+  /** Passage word (0-based) this choice replaces; defaults to the nth-word rule */
+  word_index?: number;
+  /** All choices, as written by the importer; includes the answer */
+  options?: { option_id: string; text: string }[];
+  correct_option_id?: string;
+  /** Overrides the passage word as the answer */
+  correct_answer?: string;
+  /** Distractors to mix with the passage word when options aren't given */
+  distractors?: string[];
+}
+
+// A choice point in the passage, resolved against its item
+export interface MazeBlank {
+  item: ItemRow;
+  word_index: number;
+  correct: string;
+  options: string[];
+}
+
+// A maze form: the passage, its tokens and the choice points in reading order
+export interface MazeForm {
+  passage: ItemRow | undefined;
+  tokens: string[];
+  blanks: MazeBlank[];
+  time_limit_seconds: number;
+}
+
+// Maze scores
+export interface MazeComputedScores {
+  total_blanks: number;
+  blanks_attempted: number;
+  maze_correct: number;
+  maze_incorrect: number;
+  maze_skipped: number;
+  /** Correct minus half the incorrect, never below zero */
+  maze_adjusted_score: number;
+  accuracy_percentage: number;
+}
+
+// Split a passage into display tokens
+export function tokenizePassage(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+// Strip surrounding punctuation from a passage token
+export function stripPunctuation(token: string): { leading: string; word: string; trailing: string } {
+  const match = token.match(/^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u);
+  return match
+    ? { leading: match[1], word: match[2], trailing: match[3] }
+    : { leading: '', word: token, trailing: '' };
+}
+
+// Word positions replaced by choices under the nth-word rule
+export function getNthWordPositions(tokens: string[], interval: number, count: number): number[] {
+  const firstSentenceEnd = tokens.findIndex(t => /[.!?]["')\]]*$/.test(t));
+  const positions: number[] = [];
+  for (let i = firstSentenceEnd + interval; i < tokens.length && positions.length < count; i += interval) {
+    positions.push(i);
+  }
+  return positions;
+}
+
+// Stable pseudo-random order so a blank's options don't move between renders
+function seededShuffle<T>(values: T[], seed: string): T[] {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  }
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    hash = (hash * 1103515245 + 12345) | 0;
+    const j = Math.abs(hash) % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Resolve each cloze_blank item to a passage position and its choices
+export function buildMazeBlanks(tokens: string[], blankItems: ItemRow[], interval: number): MazeBlank[] {
+  const defaults = getNthWordPositions(tokens, interval, blankItems.length);
+
+  return blankItems
+    .map((item, idx) => {
+      const payload = (item.content_payload ?? {}) as MazeBlankContent;
+      const wordIndex = typeof payload.word_index === 'number' ? payload.word_index : defaults[idx];
+      if (wordIndex === undefined || wordIndex >= tokens.length) return null;
+
+      const correct = payload.correct_answer
+        || payload.options?.find(o => o.option_id === payload.correct_option_id)?.text
+        || stripPunctuation(tokens[wordIndex]).word;
+      const options = payload.options?.length
+        ? payload.options.map(o => o.text)
+        : seededShuffle([correct, ...(payload.distractors ?? [])], item.item_id);
+
+      return { item, word_index: wordIndex, correct, options };
+    })
+    .filter((b): b is MazeBlank => b !== null)
+    .sort((a, b) => a.word_index - b.word_index);
+}
+
+// Score selections up to the last attempted choice; earlier skips are errors
+export function computeMazeScores(blanks: MazeBlank[], selections: Record<number, string>): MazeComputedScores {
+  const attemptedIndexes = Object.keys(selections).map(Number);
+  const lastAttempted = attemptedIndexes.length > 0 ? Math.max(...attemptedIndexes) : -1;
+  const scored = blanks.slice(0, lastAttempted + 1);
+
+  const correct = scored.filter((b, i) => selections[i] === b.correct).length;
+  const skipped = scored.filter((_, i) => selections[i] === undefined).length;
+  const incorrect = scored.length - correct;
+
+  return {
+    total_blanks: blanks.length,
+    blanks_attempted: scored.length,
+    maze_correct: correct,
+    maze_incorrect: incorrect,
+    maze_skipped: skipped,
+    maze_adjusted_score: Math.max(0, correct - incorrect / 2),
+    accuracy_percentage: scored.length > 0 ? Math.round((correct / scored.length) * 1000) / 10 : 0,
+  };
+}
+
+// Split a form's items into the passage and its cloze_blank choice points
+export function resolveMazeForm(items: ItemRow[]): MazeForm {
+  const passage = items.find(i => i.item_type === 'passage') ?? items.find(i => i.item_type !== 'cloze_blank');
+  const content = (passage?.content_payload ?? {}) as MazePassageContent;
+  const tokens = tokenizePassage(content.text || content.stimulus || '');
+  const blankItems = items
+    .filter(i => i.item_type === 'cloze_blank')
+    .sort((a, b) => a.sequence_number - b.sequence_number);
+
+  return {
+    passage,
+    tokens,
+    blanks: buildMazeBlanks(tokens, blankItems, content.blank_interval || DEFAULT_BLANK_INTERVAL),
+    time_limit_seconds: content.time_limit_seconds || DEFAULT_MAZE_TIME_LIMIT,
+  };
+}
@@ -1,3 +1,6 @@
+import type { ProsodyScores } from './prosody';
+import type { FiredStoppingRule } from '@/lib/scoring/stoppingRules';
+
 // Token marking states for ORF fluency assessment
 export type TokenState = 'unmarked' | 'incorrect' | 'self_correction' | 'correct';
 
@@ -11,15 +14,96 @@ export function getNextTokenState(current: TokenState): TokenState {
   return TOKEN_STATE_CYCLE[nextIndex];
 }
 
+// How an error was made, for running records
+export type MiscueType = 'substitution' | 'omission' | 'insertion' | 'reversal' | 'teacher_told';
+
+export const MISCUE_TYPES: MiscueType[] = ['substitution', 'omission', 'insertion', 'reversal', 'teacher_told'];
+
+export const MISCUE_TYPE_LABELS: Record<MiscueType, string> = {
+  substitution: 'Substitution',
+  omission: 'Omission',
+  insertion: 'Insertion',
+  reversal: 'Reversal',
+  teacher_told: 'Teacher Told',
+};
+
+// Running record notation for each miscue type
+export const MISCUE_TYPE_ABBREVIATIONS: Record<MiscueType, string> = {
+  substitution: 'Sub',
+  omission: 'O',
+  insertion: 'I',
+  reversal: 'R',
+  teacher_told: 'T',
+};
+
+// Cueing systems a substitution still honors (MSV)
+export type CueSource = 'meaning' | 'structure' | 'visual';
+
+export const CUE_SOURCES: CueSource[] = ['meaning', 'structure', 'visual'];
+
+export const CUE_SOURCE_LABELS: Record<CueSource, string> = {
+  meaning: 'Meaning',
+  structure: 'Structure',
+  visual: 'Visual',
+};
+
+// Coding for an error or self-correction on a passage word
+export interface TokenMiscue {
+  type: MiscueType;
+  /** What the student said instead */
+  said?: string;
+  /** MSV cues used; substitutions only */
+  cues?: CueSource[];
+}
+
+// Word the student added, placed after a passage word (-1 = before the first)
+export interface ORFInsertion {
+  after: number;
+  said: string;
+}
+
+// Miscue codes saved alongside the token states
+export interface ORFRunningRecord {
+  miscues: Record<number, TokenMiscue>;
+  insertions: ORFInsertion[];
+}
+
+// Error counts by miscue type, with MSV tallies over coded substitutions
+export interface MiscueBreakdown {
+  substitution: number;
+  omission: number;
+  insertion: number;
+  reversal: number;
+  teacher_told: number;
+  /** Errors marked without a miscue type */
+  uncoded: number;
+  cues: Record<CueSource, number>;
+  substitutions_with_cues: number;
+}
+
 // Extended ItemContent for ORF passages
 export interface ORFPassageContent {
   stimulus: string;
   word_tokens: string[];
   word_count: number;
   grade_target?: string;
+  /** Miscue types offered to the assessor; all of them when omitted */
   error_types?: string[];
 }
 
+// Word tokens for a passage, from word_tokens or the passage text
+export function getORFWordTokens(content: Partial<ORFPassageContent> & { text?: string } | null | undefined): string[] {
+  if (!content) return [];
+  if (content.word_tokens?.length) return content.word_tokens;
+  return (content.stimulus || content.text || '').split(/\s+/).filter(Boolean);
+}
+
+// Miscue types an assessor can code for a passage
+export function getPassageMiscueTypes(content: Partial<ORFPassageContent> | null | undefined): MiscueType[] {
+  const allowed = content?.error_types?.filter((t): t is MiscueType => MISCUE_TYPES.includes(t as MiscueType));
+  return allowed?.length ? allowed : MISCUE_TYPES;
+}
+
 // ORF computed scores
 export interface ORFComputedScores {
   total_words_read: number;
@@ -28,15 +112,56 @@ export interface ORFComputedScores {
   self_correction_count: number;
   words_correct_per_minute: number;
   accuracy_percentage: number;
+  miscue_breakdown: MiscueBreakdown;
+  /** Rated by the assessor after the timer */
+  prosody?: ProsodyScores;
+  /** ASR stopping rule that ended the passage, if any */
+  stopping_rule?: FiredStoppingRule;
+}
+
+// token_state_map as saved. Version 2 adds the last-word-read marker; older
+// sessions saved the bare index-to-state map.
+export interface StoredTokenStateMap {
+  version: 2;
+  states: Record<number, TokenState>;
+  /** Index of the last word the student read; null when not marked */
+  last_word_index: number | null;
+}
+
+// Token states and marker read back from a saved token_state_map
+export interface ORFTokenMarks {
+  states: Record<number, TokenState>;
+  last_word_index: number | null;
+}
+
+export function serializeTokenStateMap(
+  states: Record<number, TokenState>,
+  lastWordIndex: number | null
+): StoredTokenStateMap {
+  return { version: 2, states, last_word_index: lastWordIndex };
+}
+
+// Accepts both the versioned shape and the flat map of older sessions
+export function parseTokenStateMap(value: unknown): ORFTokenMarks | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const stored = value as Partial<StoredTokenStateMap>;
+  if (stored.version === 2 && stored.states) {
+    return {
+      states: stored.states,
+      last_word_index: typeof stored.last_word_index === 'number' ? stored.last_word_index : null,
+    };
+  }
+  return { states: value as Record<number, TokenState>, last_word_index: null };
 }
 
 // ORF session response data
 export interface ORFResponseData {
-  token_state_map: Record<number, TokenState>;
+  token_state_map: StoredTokenStateMap;
   elapsed_seconds: number;
   discontinue_flag: boolean;
   discontinue_reason?: string;
   computed_scores: ORFComputedScores;
+  running_record?: ORFRunningRecord;
   notes?: string;
 }
 
@@ -59,22 +184,67 @@ export const FONT_SIZE_CLASSES: Record<FontSize, string> = {
   large: 'text-4xl',
 };
 
-// Compute scores from token states
+// Tally coded errors. Insertions are reported here but, as extra words, don't
+// change WCPM or accuracy.
+export function computeMiscueBreakdown(
+  tokenStates: Record<number, TokenState>,
+  miscues: Record<number, TokenMiscue>,
+  insertions: ORFInsertion[]
+): MiscueBreakdown {
+  const breakdown: MiscueBreakdown = {
+    substitution: 0,
+    omission: 0,
+    insertion: insertions.length,
+    reversal: 0,
+    teacher_told: 0,
+    uncoded: 0,
+    cues: { meaning: 0, structure: 0, visual: 0 },
+    substitutions_with_cues: 0,
+  };
+
+  Object.entries(tokenStates).forEach(([idx, state]) => {
+    if (state !== 'incorrect') return;
+    const miscue = miscues[Number(idx)];
+    if (!miscue || miscue.type === 'insertion') {
+      breakdown.uncoded++;
+      return;
+    }
+    breakdown[miscue.type]++;
+    if (miscue.type === 'substitution' && miscue.cues?.length) {
+      breakdown.substitutions_with_cues++;
+      miscue.cues.forEach(cue => breakdown.cues[cue]++);
+    }
+  });
+
+  return breakdown;
+}
+
+// Compute scores from token states. With a last-word-read marker, unmarked
+// words up to it count as correct and words after it are excluded; without
+// one, only marked words count as read.
 export function computeORFScores(
   tokenStates: Record<number, TokenState>,
   elapsedSeconds: number,
-  totalTokens: number
+  totalTokens: number,
+  runningRecord: ORFRunningRecord = { miscues: {}, insertions: [] },
+  lastWordIndex: number | null = null
 ): ORFComputedScores {
-  const states = Object.values(tokenStates);
-  const correct = states.filter(s => s === 'correct').length;
+  const lastIndex = lastWordIndex === null ? null : Math.min(lastWordIndex, totalTokens - 1);
+  const readStates = lastIndex === null
+    ? tokenStates
+    : Object.fromEntries(Object.entries(tokenStates).filter(([idx]) => Number(idx) <= lastIndex));
+
+  const states = Object.values(readStates);
   const incorrect = states.filter(s => s === 'incorrect').length;
   const selfCorrections = states.filter(s => s === 'self_correction').length;
-  
-  // Words with any non-unmarked state = attempted/read
-  const totalWordsRead = states.filter(s => s !== 'unmarked').length;
-  
+
+  // Words with any non-unmarked state = attempted/read, or everything up to the marker
+  const totalWordsRead = lastIndex === null
+    ? states.filter(s => s !== 'unmarked').length
+    : lastIndex + 1;
+
   // Correct includes self-corrections (they corrected themselves)
-  const correctWordCount = correct + selfCorrections;
+  const correctWordCount = totalWordsRead - incorrect;
   const totalErrors = incorrect;
   
   const wcpm = elapsedSeconds > 0 
@@ -92,5 +262,69 @@ export function computeORFScores(
     self_correction_count: selfCorrections,
     words_correct_per_minute: Math.round(wcpm * 10) / 10,
     accuracy_percentage: Math.round(accuracy * 10) / 10,
+    miscue_breakdown: computeMiscueBreakdown(readStates, runningRecord.miscues, runningRecord.insertions),
+  };
+}
+
+// One passage's scores, as used for the benchmark median
+export interface ORFPassageScore {
+  item_id: string;
+  sequence_number: number;
+  words_correct_per_minute: number;
+  accuracy_percentage: number;
+  correct_word_count: number;
+  total_errors: number;
+  total_words_read: number;
+}
+
+// Benchmark ORF scores: each metric is the median over the passages read,
+// so a one-passage session reports that passage's scores
+export interface ORFMedianScores {
+  passages_read: number;
+  words_correct_per_minute: number;
+  accuracy_percentage: number;
+  correct_word_count: number;
+  total_errors: number;
+  total_words_read: number;
+  passage_scores: ORFPassageScore[];
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round(((sorted[mid - 1] + sorted[mid]) / 2) * 10) / 10;
+}
+
+// Median of each metric independently, as benchmark ORF is scored
+export function computeORFMedianScores(passages: ORFPassageScore[]): ORFMedianScores {
+  const ordered = [...passages].sort((a, b) => a.sequence_number - b.sequence_number);
+  return {
+    passages_read: ordered.length,
+    words_correct_per_minute: median(ordered.map(p => p.words_correct_per_minute)),
+    accuracy_percentage: median(ordered.map(p => p.accuracy_percentage)),
+    correct_word_count: median(ordered.map(p => p.correct_word_count)),
+    total_errors: median(ordered.map(p => p.total_errors)),
+    total_words_read: median(ordered.map(p => p.total_words_read)),
+    passage_scores: ordered,
+  };
+}
+
+// A saved response's passage scores, or null when it isn't an ORF passage
+export function toORFPassageScore(
+  itemId: string,
+  sequenceNumber: number,
+  computedScores: unknown
+): ORFPassageScore | null {
+  const scores = computedScores as Partial<ORFComputedScores> | null;
+  if (!scores || typeof scores.words_correct_per_minute !== 'number') return null;
+  return {
+    item_id: itemId,
+    sequence_number: sequenceNumber,
+    words_correct_per_minute: scores.words_correct_per_minute,
+    accuracy_percentage: scores.accuracy_percentage ?? 0,
+    correct_word_count: scores.correct_word_count ?? 0,
+    total_errors: scores.total_errors ?? 0,
+    total_words_read: scores.total_words_read ?? 0,
   };
 }
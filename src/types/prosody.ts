@@ -0,0 +1,103 @@
+// Prosody rubric, defined in an assessment's ASR section G as `prosody_rubric`.
+// Every dimension is rated on the same scale of levels.
+export interface ProsodyRubricLevel {
+  score: number;
+  label: string;
+  description?: string;
+}
+
+export interface ProsodyDimension {
+  dimension_id: string;
+  label: string;
+  description?: string;
+}
+
+export interface ProsodyRubric {
+  name: string;
+  dimensions: ProsodyDimension[];
+  levels: ProsodyRubricLevel[];
+}
+
+// One dimension's rating, saved with its labels so reports don't need the ASR
+export interface ProsodyRating {
+  dimension_id: string;
+  label: string;
+  score: number;
+  level_label: string;
+}
+
+// Prosody scores, saved in computed_scores.prosody
+export interface ProsodyScores {
+  rubric_name: string;
+  ratings: ProsodyRating[];
+  total_score: number;
+  max_score: number;
+  mean_score: number;
+}
+
+// Used when the ASR doesn't define a rubric: a 4-level phrasing/expression scale
+export const DEFAULT_PROSODY_RUBRIC: ProsodyRubric = {
+  name: 'Phrasing and Expression',
+  dimensions: [
+    {
+      dimension_id: 'phrasing',
+      label: 'Phrasing',
+      description: 'Groups words into meaningful phrases and pauses at punctuation',
+    },
+    {
+      dimension_id: 'expression',
+      label: 'Expression',
+      description: 'Varies pitch, volume and emphasis to match the meaning',
+    },
+  ],
+  levels: [
+    { score: 1, label: 'Word-by-word', description: 'Reads word by word, monotone, with little sense of phrase boundaries' },
+    { score: 2, label: 'Two-word phrases', description: 'Mostly two-word phrases, some awkward groupings and little expression' },
+    { score: 3, label: 'Phrase groups', description: 'Mostly three- and four-word phrases with some expression' },
+    { score: 4, label: 'Fluent and expressive', description: 'Larger meaningful phrases, expression suited to the text' },
+  ],
+};
+
+// Rubric from ASR section G, or the default when it defines none (or an unusable one)
+export function getProsodyRubric(sectionG: unknown): ProsodyRubric {
+  const rubric = (sectionG as { prosody_rubric?: Partial<ProsodyRubric> } | null)?.prosody_rubric;
+  const dimensions = Array.isArray(rubric?.dimensions)
+    ? rubric.dimensions.filter(d => d?.dimension_id && d.label)
+    : [];
+  const levels = Array.isArray(rubric?.levels)
+    ? rubric.levels.filter(l => typeof l?.score === 'number' && l.label).sort((a, b) => a.score - b.score)
+    : [];
+
+  if (dimensions.length === 0 || levels.length === 0) return DEFAULT_PROSODY_RUBRIC;
+  return { name: rubric?.name || DEFAULT_PROSODY_RUBRIC.name, dimensions, levels };
+}
+
+export function isProsodyComplete(rubric: ProsodyRubric, ratings: Record<string, number>): boolean {
+  return rubric.dimensions.every(d => ratings[d.dimension_id] !== undefined);
+}
+
+// Totals over the rated dimensions
+export function computeProsodyScores(rubric: ProsodyRubric, ratings: Record<string, number>): ProsodyScores {
+  const rated: ProsodyRating[] = rubric.dimensions
+    .filter(d => ratings[d.dimension_id] !== undefined)
+    .map(d => {
+      const score = ratings[d.dimension_id];
+      return {
+        dimension_id: d.dimension_id,
+        label: d.label,
+        score,
+        level_label: rubric.levels.find(l => l.score === score)?.label ?? String(score),
+      };
+    });
+
+  const topScore = rubric.levels.length > 0 ? rubric.levels[rubric.levels.length - 1].score : 0;
+  const total = rated.reduce((sum, r) => sum + r.score, 0);
+
+  return {
+    rubric_name: rubric.name,
+    ratings: rated,
+    total_score: total,
+    max_score: topScore * rubric.dimensions.length,
+    mean_score: rated.length > 0 ? Math.round((total / rated.length) * 10) / 10 : 0,
+  };
+}
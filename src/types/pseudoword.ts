@@ -0,0 +1,80 @@
+// How the assessor scored a nonsense word
+// - whole: read as a whole word without sounding out (counts toward WWR)
+// - recoded: sounded out, then blended correctly (full CLS, no WWR)
+// - sounds: scored sound by sound; only the marked sounds earn CLS
+export type PseudowordScoringMode = 'whole' | 'recoded' | 'sounds';
+
+export const PSEUDOWORD_MODE_LABELS: Record<PseudowordScoringMode, string> = {
+  whole: 'Whole word',
+  recoded: 'Recoded & blended',
+  sounds: 'Sound by sound',
+};
+
+// Item payload for PH-PSWD nonsense words
+export interface PseudowordContent {
+  stimulus?: string;
+  text?: string;
+  /** Letter-sound units, e.g. ["sh", "e", "p"]; defaults to single letters */
+  graphemes?: string[];
+}
+
+// Per-word scoring
+export interface PseudowordResponse {
+  mode: PseudowordScoringMode;
+  /** One entry per grapheme: whether its sound was produced correctly */
+  sounds: boolean[];
+}
+
+// Nonsense word fluency scores
+export interface PseudowordComputedScores {
+  words_attempted: number;
+  correct_letter_sounds: number;
+  total_letter_sounds: number;
+  whole_words_read: number;
+  recoded_words: number;
+  /** CLS prorated to one minute when the list is finished early */
+  cls_per_minute: number;
+  wwr_per_minute: number;
+  accuracy_percentage: number;
+}
+
+// Letter-sound units for a nonsense word
+export function getGraphemes(content: PseudowordContent | null | undefined): string[] {
+  if (content?.graphemes?.length) return content.graphemes;
+  const word = content?.stimulus || content?.text || '';
+  return word.replace(/\s+/g, '').split('');
+}
+
+// Sound marks implied by a scoring mode
+export function getModeSounds(mode: PseudowordScoringMode, graphemeCount: number, marked: boolean[] = []): boolean[] {
+  if (mode === 'sounds') {
+    return Array.from({ length: graphemeCount }, (_, i) => !!marked[i]);
+  }
+  return Array(graphemeCount).fill(true);
+}
+
+// Compute CLS/WWR from per-word responses
+export function computePseudowordScores(
+  responses: Record<number, PseudowordResponse>,
+  elapsedSeconds: number
+): PseudowordComputedScores {
+  const scored = Object.values(responses);
+  const correctSounds = scored.reduce((sum, r) => sum + r.sounds.filter(Boolean).length, 0);
+  const totalSounds = scored.reduce((sum, r) => sum + r.sounds.length, 0);
+  const wholeWords = scored.filter(r => r.mode === 'whole').length;
+  const recoded = scored.filter(r => r.mode === 'recoded').length;
+
+  const perMinute = (count: number) =>
+    elapsedSeconds > 0 ? Math.round((count / elapsedSeconds) * 60 * 10) / 10 : 0;
+
+  return {
+    words_attempted: scored.length,
+    correct_letter_sounds: correctSounds,
+    total_letter_sounds: totalSounds,
+    whole_words_read: wholeWords,
+    recoded_words: recoded,
+    cls_per_minute: perMinute(correctSounds),
+    wwr_per_minute: perMinute(wholeWords),
+    accuracy_percentage: totalSounds > 0 ? Math.round((correctSounds / totalSounds) * 1000) / 10 : 0,
+  };
+}
@@ -0,0 +1,36 @@
+// Where a token or item was marked, as an offset into the session recording.
+// `index` is the passage token for ORF and the item index for item-based runners.
+export interface RecordingMarker {
+  index: number;
+  label: string;
+  offset_ms: number;
+}
+
+// A recording on its way to storage, possibly waiting in the outbox
+export interface SessionRecordingUpload {
+  session_id: string;
+  // Passage or item the recording covers; null for the whole session
+  item_id: string | null;
+  audio: Blob;
+  duration_ms: number;
+  markers: RecordingMarker[];
+}
+
+// Markers saved on a recording row, in playback order
+export function parseRecordingMarkers(value: unknown): RecordingMarker[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((m): m is RecordingMarker =>
+      !!m && typeof m === 'object' && typeof m.index === 'number' && typeof m.offset_ms === 'number')
+    .sort((a, b) => a.offset_ms - b.offset_ms);
+}
+
+// The marker playing at a given offset: the last one at or before it
+export function getActiveMarker(markers: RecordingMarker[], offsetMs: number): RecordingMarker | null {
+  let active: RecordingMarker | null = null;
+  for (const marker of markers) {
+    if (marker.offset_ms > offsetMs) break;
+    active = marker;
+  }
+  return active;
+}
@@ -1,5 +1,8 @@
 // Reading Assessment Registry - Core Types
 
+import type { ProsodyRubric } from './prosody';
+import type { StoppingRule } from './database';
+
 export type ComponentCode = 'PA' | 'PH' | 'FL' | 'VO' | 'RC';
 export type AssessmentStatus = 'stub' | 'draft' | 'active' | 'deprecated';
 export type FormStatus = 'draft' | 'active' | 'retired';
@@ -74,7 +77,13 @@ export interface ASRSectionD {
 export interface ASRSectionE {
   total_items: number;
   timing: string;
+  /** Seconds a student may hesitate on an item before it's scored incorrect */
+  hesitation_seconds?: number;
   stopping_rule: string;
+  /** Structured rules the runners evaluate; `stopping_rule` is the prose */
+  stopping_rules?: StoppingRule[];
+  /** Grade band -> 1-based item to start at, for basal/ceiling tests */
+  start_points?: Record<string, number>;
   materials_required: string[];
 }
 
@@ -90,6 +99,8 @@ export interface ASRSectionG {
   score_types: string[];
   error_coding: string;
   scoring_rubric: string;
+  /** Rubric the assessor completes after an ORF passage */
+  prosody_rubric?: ProsodyRubric;
 }
 
 export interface ASRSectionH {
@@ -0,0 +1,84 @@
+// Item payload for RC-SENT. Items with pictures are sentence-picture matches;
+// items without are true/false sentence verification.
+export interface SentenceItemContent {
+  stimulus?: string;
+  text?: string;
+  options?: { option_id: string; image_url?: string; label?: string }[];
+  images?: string[];
+  correct_option_id?: string;
+  /** 'true'/'false' (or 'yes'/'no') for verification; option id for picture matching */
+  correct_answer?: string;
+}
+
+export interface SentencePictureOption {
+  option_id: string;
+  image_url?: string;
+  label?: string;
+}
+
+// Per-item response
+export interface SentenceResponse {
+  answer: string;
+  is_correct: boolean;
+  /** Time from the sentence being shown to the first answer */
+  response_time_ms: number;
+}
+
+// Sentence comprehension scores
+export interface SentenceComputedScores {
+  items_attempted: number;
+  items_correct: number;
+  accuracy_percentage: number;
+  mean_latency_ms: number;
+  median_latency_ms: number;
+  /** Mean latency over correct answers only */
+  mean_correct_latency_ms: number;
+}
+
+export function getSentenceText(content: SentenceItemContent | null | undefined): string {
+  return content?.stimulus || content?.text || '';
+}
+
+// Picture choices, or an empty list for verification items
+export function getPictureOptions(content: SentenceItemContent | null | undefined): SentencePictureOption[] {
+  if (content?.options?.length) return content.options;
+  return (content?.images ?? []).map((url, idx) => ({
+    option_id: String.fromCharCode(65 + idx), // A, B, C, D
+    image_url: url,
+  }));
+}
+
+// Expected answer: an option id for pictures, 'true' or 'false' for verification
+export function getExpectedAnswer(content: SentenceItemContent | null | undefined): string {
+  if (getPictureOptions(content).length > 0) {
+    return content?.correct_option_id || content?.correct_answer || '';
+  }
+  const answer = (content?.correct_answer ?? '').trim().toLowerCase();
+  return answer === 'false' || answer === 'no' || answer === 'f' || answer === 'n' ? 'false' : 'true';
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+// Accuracy and latency over the answered items
+export function computeSentenceScores(responses: Record<number, SentenceResponse>): SentenceComputedScores {
+  const answered = Object.values(responses);
+  const correct = answered.filter(r => r.is_correct);
+  const latencies = answered.map(r => r.response_time_ms);
+
+  return {
+    items_attempted: answered.length,
+    items_correct: correct.length,
+    accuracy_percentage: answered.length > 0 ? Math.round((correct.length / answered.length) * 1000) / 10 : 0,
+    mean_latency_ms: mean(latencies),
+    median_latency_ms: median(latencies),
+    mean_correct_latency_ms: mean(correct.map(r => r.response_time_ms)),
+  };
+}
@@ -0,0 +1,59 @@
+// Item payload for VO-MORP and VO-VOCA: a word or sentence with answer choices
+export interface VocabMCQPayload {
+  question?: string;
+  stimulus?: string;
+  context_sentence?: string;
+  target_word?: string;
+  options?: string[];
+  choices?: string[];
+  correct_answer?: string;
+}
+
+export interface PictureOption {
+  option_id: string;
+  image_url: string;
+  label?: string;
+}
+
+// VO-RPVT: 4 images, student selects one based on spoken prompt
+export interface RPVTPayload {
+  prompt_word?: string;
+  stimulus?: string;
+  images?: string[];
+  image_urls?: string[];
+  options?: PictureOption[];
+  correct_answer?: string;
+  correct_option_id?: string;
+  semantic_category?: string;
+}
+
+// VO-EPVT: Single image, student names it orally
+export interface EPVTPayload {
+  image_url?: string;
+  stimulus_image?: string;
+  target_word?: string;
+  acceptable_responses?: string[];
+  semantic_category?: string;
+}
+
+export function getVocabQuestion(payload: VocabMCQPayload | null | undefined): string {
+  return payload?.question || payload?.context_sentence || payload?.stimulus || '';
+}
+
+export function getVocabChoices(payload: VocabMCQPayload | null | undefined): string[] {
+  return payload?.options || payload?.choices || [];
+}
+
+// Picture choices from whichever structure the item uses, lettered A-D when unlabelled
+export function getPictureChoices(payload: RPVTPayload | null | undefined): PictureOption[] {
+  if (payload?.options) return payload.options;
+  return (payload?.images || payload?.image_urls || []).map((url, idx) => ({
+    option_id: String.fromCharCode(65 + idx), // A, B, C, D
+    image_url: url,
+    label: String.fromCharCode(65 + idx),
+  }));
+}
+
+export function getPictureToName(payload: EPVTPayload | null | undefined): string | undefined {
+  return payload?.image_url || payload?.stimulus_image;
+}
@@ -0,0 +1,103 @@
+import { detectSpellingFeatures } from '@/lib/scoring/spellingAnalysis';
+import type { ItemRow } from './database';
+
+// Phonics patterns assessed by PH-WPAT, in teaching order
+export type WordPattern = 'cvc' | 'cvce' | 'vowel_team' | 'r_controlled' | 'other';
+
+export const WORD_PATTERNS: WordPattern[] = ['cvc', 'cvce', 'vowel_team', 'r_controlled', 'other'];
+
+export const WORD_PATTERN_LABELS: Record<WordPattern, string> = {
+  cvc: 'CVC',
+  cvce: 'CVCe',
+  vowel_team: 'Vowel Teams',
+  r_controlled: 'R-Controlled',
+  other: 'Other',
+};
+
+// Percent correct for a pattern to count as mastered / developing
+export const PATTERN_MASTERY_THRESHOLD = 80;
+export const PATTERN_DEVELOPING_THRESHOLD = 50;
+
+export type PatternMasteryStatus = 'mastered' | 'developing' | 'not_yet';
+
+export const PATTERN_MASTERY_LABELS: Record<PatternMasteryStatus, string> = {
+  mastered: 'Mastered',
+  developing: 'Developing',
+  not_yet: 'Not Yet',
+};
+
+export const PATTERN_MASTERY_BADGE_STYLES: Record<PatternMasteryStatus, string> = {
+  mastered: 'bg-green-600 text-white',
+  developing: 'bg-amber-500 text-white',
+  not_yet: 'bg-destructive text-destructive-foreground',
+};
+
+export interface PatternMastery {
+  correct: number;
+  total: number;
+  percentage: number;
+  status: PatternMasteryStatus;
+}
+
+// Word pattern scores
+export interface WordPatternComputedScores {
+  words_attempted: number;
+  words_correct: number;
+  patterns_assessed: number;
+  patterns_mastered: number;
+  pattern_breakdown: Partial<Record<WordPattern, PatternMastery>>;
+}
+
+// Pattern of a word from its spelling features; multi-syllable words fall under "other"
+export function detectWordPattern(word: string): WordPattern {
+  const features = detectSpellingFeatures(word).map(f => f.feature);
+  if (features.includes('r_controlled')) return 'r_controlled';
+  if (features.includes('vowel_team')) return 'vowel_team';
+  if (features.includes('silent_e')) return 'cvce';
+  if (features.filter(f => f === 'short_vowel').length === 1 && (word.match(/[aeiou]/gi) ?? []).length === 1) {
+    return 'cvc';
+  }
+  return 'other';
+}
+
+// Pattern an item was written for: payload, then scoring tags, then the word itself
+export function getWordPattern(item: ItemRow): WordPattern {
+  const payload = (item.content_payload ?? {}) as { pattern?: string; stimulus?: string; text?: string };
+  const declared = [payload.pattern, ...(item.scoring_tags ?? [])]
+    .map(tag => tag?.toLowerCase().replace(/-/g, '_'))
+    .find((tag): tag is WordPattern => WORD_PATTERNS.includes(tag as WordPattern));
+  return declared ?? detectWordPattern(payload.stimulus || payload.text || '');
+}
+
+export function getMasteryStatus(percentage: number): PatternMasteryStatus {
+  if (percentage >= PATTERN_MASTERY_THRESHOLD) return 'mastered';
+  if (percentage >= PATTERN_DEVELOPING_THRESHOLD) return 'developing';
+  return 'not_yet';
+}
+
+// Mastery per pattern over the words scored so far
+export function computePatternMastery(
+  patterns: WordPattern[],
+  marks: Record<number, boolean>
+): WordPatternComputedScores {
+  const breakdown: Partial<Record<WordPattern, PatternMastery>> = {};
+  Object.entries(marks).forEach(([idx, correct]) => {
+    const pattern = patterns[Number(idx)];
+    if (!pattern) return;
+    const entry = breakdown[pattern] ?? { correct: 0, total: 0, percentage: 0, status: 'not_yet' };
+    entry.total++;
+    if (correct) entry.correct++;
+    entry.percentage = Math.round((entry.correct / entry.total) * 1000) / 10;
+    entry.status = getMasteryStatus(entry.percentage);
+    breakdown[pattern] = entry;
+  });
+
+  const assessed = Object.values(breakdown);
+  return {
+    words_attempted: Object.keys(marks).length,
+    words_correct: Object.values(marks).filter(Boolean).length,
+    patterns_assessed: assessed.length,
+    patterns_mastered: assessed.filter(p => p.status === 'mastered').length,
+    pattern_breakdown: breakdown,
+  };
+}
@@ -0,0 +1,8 @@
+-- Store scoring flags that fired when a session was scored
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS fired_flags JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Supports the dashboard "attention needed" lookup (fired_flags @> '[{"severity":"critical"}]')
+CREATE INDEX IF NOT EXISTS idx_sessions_fired_flags ON sessions USING GIN (fired_flags);
+
+COMMENT ON COLUMN sessions.fired_flags IS 'Scoring flags (flag_id, name, condition, severity) that fired when the session was last scored';
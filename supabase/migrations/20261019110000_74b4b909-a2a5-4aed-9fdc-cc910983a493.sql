@@ -0,0 +1,54 @@
+-- Student roster: sessions reference a student instead of relying on free-text names
+CREATE TABLE public.students (
+  student_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  local_id TEXT UNIQUE,
+  full_name TEXT NOT NULL,
+  date_of_birth DATE,
+  grade_tag TEXT,
+  classroom TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  merged_into_id UUID REFERENCES public.students(student_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Enable RLS on students
+ALTER TABLE public.students ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for students
+CREATE POLICY "Authenticated users can read students" ON public.students
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can insert students" ON public.students
+  FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Authenticated users can update students" ON public.students
+  FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Authenticated users can delete students" ON public.students
+  FOR DELETE TO authenticated USING (true);
+
+CREATE TRIGGER update_students_updated_at
+  BEFORE UPDATE ON public.students
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_students_full_name ON public.students (lower(full_name));
+
+-- Link sessions to students (student_name is kept as the name at time of testing)
+ALTER TABLE public.sessions
+  ADD COLUMN student_id UUID REFERENCES public.students(student_id) ON DELETE SET NULL;
+
+CREATE INDEX idx_sessions_student_id ON public.sessions (student_id);
+
+-- Backfill: one student per distinct (case/whitespace-insensitive) session name,
+-- taking the grade from that student's most recent session
+INSERT INTO public.students (full_name, grade_tag)
+SELECT DISTINCT ON (lower(regexp_replace(trim(student_name), '\s+', ' ', 'g')))
+  regexp_replace(trim(student_name), '\s+', ' ', 'g'),
+  grade_tag
+FROM public.sessions
+WHERE trim(student_name) <> ''
+ORDER BY lower(regexp_replace(trim(student_name), '\s+', ' ', 'g')), created_at DESC;
+
+UPDATE public.sessions s
+SET student_id = st.student_id
+FROM public.students st
+WHERE s.student_id IS NULL
+  AND lower(regexp_replace(trim(s.student_name), '\s+', ' ', 'g')) = lower(st.full_name);
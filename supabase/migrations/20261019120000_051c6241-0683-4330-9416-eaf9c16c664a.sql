@@ -0,0 +1,35 @@
+-- Progress-monitoring goals (e.g. "FL-ORF 90 WCPM by May") attached to students
+CREATE TABLE public.student_goals (
+  goal_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES public.students(student_id) ON DELETE CASCADE,
+  assessment_id TEXT NOT NULL REFERENCES public.assessments(assessment_id),
+  metric_id TEXT NOT NULL,
+  target_value NUMERIC NOT NULL,
+  baseline_value NUMERIC,
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'met', 'discontinued')),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (end_date > start_date)
+);
+
+-- Enable RLS on student_goals
+ALTER TABLE public.student_goals ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for student_goals
+CREATE POLICY "Authenticated users can read student_goals" ON public.student_goals
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can insert student_goals" ON public.student_goals
+  FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Authenticated users can update student_goals" ON public.student_goals
+  FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Authenticated users can delete student_goals" ON public.student_goals
+  FOR DELETE TO authenticated USING (true);
+
+CREATE TRIGGER update_student_goals_updated_at
+  BEFORE UPDATE ON public.student_goals
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_student_goals_student_id ON public.student_goals (student_id);
@@ -0,0 +1,12 @@
+-- Version token_state_map so ORF responses can carry a last-word-read marker.
+-- Existing flat index-to-state maps are wrapped with no marker, which keeps
+-- their scores unchanged.
+UPDATE public.session_responses
+SET token_state_map = jsonb_build_object(
+  'version', 2,
+  'states', token_state_map,
+  'last_word_index', NULL
+)
+WHERE token_state_map IS NOT NULL
+  AND jsonb_typeof(token_state_map) = 'object'
+  AND NOT (token_state_map ? 'version');
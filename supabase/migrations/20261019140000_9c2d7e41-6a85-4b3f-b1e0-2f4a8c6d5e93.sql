@@ -0,0 +1,36 @@
+-- Audio recordings of assessment sessions, kept for re-listening before scores
+-- are finalized. Markers tie playback offsets to the tokens or items marked.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('session-recordings', 'session-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Authenticated users can read session recordings" ON storage.objects
+  FOR SELECT TO authenticated USING (bucket_id = 'session-recordings');
+CREATE POLICY "Authenticated users can upload session recordings" ON storage.objects
+  FOR INSERT TO authenticated WITH CHECK (bucket_id = 'session-recordings');
+CREATE POLICY "Authenticated users can delete session recordings" ON storage.objects
+  FOR DELETE TO authenticated USING (bucket_id = 'session-recordings');
+
+CREATE TABLE public.session_recordings (
+  recording_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.sessions(session_id) ON DELETE CASCADE,
+  item_id TEXT REFERENCES public.items(item_id) ON DELETE SET NULL,
+  storage_path TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  duration_ms INTEGER,
+  markers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Enable RLS on session_recordings
+ALTER TABLE public.session_recordings ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for session_recordings
+CREATE POLICY "Authenticated users can read session_recordings" ON public.session_recordings
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can insert session_recordings" ON public.session_recordings
+  FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Authenticated users can delete session_recordings" ON public.session_recordings
+  FOR DELETE TO authenticated USING (true);
+
+CREATE INDEX idx_session_recordings_session_id ON public.session_recordings (session_id);
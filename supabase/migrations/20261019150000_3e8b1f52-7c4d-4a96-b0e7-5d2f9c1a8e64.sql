@@ -0,0 +1,4 @@
+-- Working state of an in-progress administration, checkpointed by the runner
+-- so a reload or crash can resume where the assessor stopped. Cleared when
+-- the session finishes.
+ALTER TABLE public.sessions ADD COLUMN draft_state JSONB;
@@ -0,0 +1,58 @@
+-- Batteries: ordered assessments given back to back in one sitting, e.g. a
+-- fall screening. steps is a JSON array of
+-- { assessment_id, grades?: [grade tag], forms_by_grade?: { grade tag: form_id } }
+CREATE TABLE public.batteries (
+  battery_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- One administration of a battery to a student; its sessions point back to it
+CREATE TABLE public.battery_sessions (
+  battery_session_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  battery_id UUID NOT NULL REFERENCES public.batteries(battery_id),
+  student_id UUID REFERENCES public.students(student_id) ON DELETE SET NULL,
+  student_name TEXT NOT NULL,
+  grade_tag TEXT,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.sessions
+  ADD COLUMN battery_session_id UUID REFERENCES public.battery_sessions(battery_session_id) ON DELETE SET NULL,
+  ADD COLUMN battery_position INTEGER;
+
+-- Enable RLS on batteries and battery_sessions
+ALTER TABLE public.batteries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.battery_sessions ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for batteries
+CREATE POLICY "Authenticated users can read batteries" ON public.batteries
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can insert batteries" ON public.batteries
+  FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Authenticated users can update batteries" ON public.batteries
+  FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Authenticated users can delete batteries" ON public.batteries
+  FOR DELETE TO authenticated USING (true);
+
+-- RLS policies for battery_sessions
+CREATE POLICY "Authenticated users can read battery_sessions" ON public.battery_sessions
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can insert battery_sessions" ON public.battery_sessions
+  FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Authenticated users can update battery_sessions" ON public.battery_sessions
+  FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Authenticated users can delete battery_sessions" ON public.battery_sessions
+  FOR DELETE TO authenticated USING (true);
+
+CREATE TRIGGER update_batteries_updated_at
+  BEFORE UPDATE ON public.batteries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_battery_sessions_student_id ON public.battery_sessions (student_id);
+CREATE INDEX idx_sessions_battery_session_id ON public.sessions (battery_session_id);
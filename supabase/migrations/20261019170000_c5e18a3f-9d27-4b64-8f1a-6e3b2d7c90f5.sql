@@ -0,0 +1,48 @@
+-- Merge a duplicate student into another in one transaction. The target is
+-- resolved through merged_into_id first, so merging into a student that was
+-- itself merged away lands on the surviving record, and students that were
+-- merged into the source are pointed straight at that record too, keeping
+-- every chain one hop long. Returns the student the source ended up in.
+CREATE OR REPLACE FUNCTION public.merge_students(source_id UUID, target_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  resolved_id UUID := target_id;
+  next_id UUID;
+  hops INTEGER := 0;
+BEGIN
+  LOOP
+    SELECT merged_into_id INTO next_id FROM public.students WHERE student_id = resolved_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Student % not found', resolved_id;
+    END IF;
+    EXIT WHEN next_id IS NULL;
+    hops := hops + 1;
+    IF hops > 100 THEN
+      RAISE EXCEPTION 'Merge chain from student % does not end', target_id;
+    END IF;
+    resolved_id := next_id;
+  END LOOP;
+
+  IF resolved_id = source_id THEN
+    RAISE EXCEPTION 'Cannot merge a student into itself';
+  END IF;
+
+  PERFORM 1 FROM public.students WHERE student_id = source_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student % not found', source_id;
+  END IF;
+
+  UPDATE public.sessions SET student_id = resolved_id WHERE student_id = source_id;
+  UPDATE public.battery_sessions SET student_id = resolved_id WHERE student_id = source_id;
+  UPDATE public.student_goals SET student_id = resolved_id WHERE student_id = source_id;
+
+  UPDATE public.students SET merged_into_id = resolved_id WHERE merged_into_id = source_id;
+  UPDATE public.students
+    SET is_active = false, merged_into_id = resolved_id
+    WHERE student_id = source_id;
+
+  RETURN resolved_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.merge_students(UUID, UUID) TO authenticated;
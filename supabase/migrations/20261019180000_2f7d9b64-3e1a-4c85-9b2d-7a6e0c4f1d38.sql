@@ -0,0 +1,7 @@
+-- A recording replayed from the outbox is uploaded again to the path it was
+-- first given; when an earlier attempt already stored the file, that's an
+-- overwrite, which needs UPDATE on storage.objects
+CREATE POLICY "Authenticated users can overwrite session recordings" ON storage.objects
+  FOR UPDATE TO authenticated
+  USING (bucket_id = 'session-recordings')
+  WITH CHECK (bucket_id = 'session-recordings');
@@ -0,0 +1,7 @@
+-- Scoring models: which sessions each applies to. A session is scored with
+-- the active model for its assessment that matches its form, else its grade,
+-- else the one that applies to every grade and form (both left null).
+ALTER TABLE public.scoring_outputs
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired')),
+  ADD COLUMN grade_or_level_tag TEXT,
+  ADD COLUMN form_id TEXT REFERENCES public.forms(form_id) ON DELETE SET NULL;